@@ -0,0 +1,505 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/components/providers/AuthProvider'
+import { useRouter } from 'next/navigation'
+import { createSupabaseClient } from '@/lib/supabase'
+import {
+  COMMISSION_SOURCE_TYPES,
+  CommissionSchedule,
+  CommissionSourceType,
+  MAX_COMMISSION_LEVELS,
+  UnqualifiedAction,
+  findScheduleInEffect
+} from '@/lib/commission-schedules'
+import { ArrowLeft, Plus, Save, Trash2 } from 'lucide-react'
+import Link from 'next/link'
+
+interface LevelForm {
+  usdtRate: number
+  jrcRate: number
+  minDirectReferrals: number
+  minActiveInvestment: number
+  minTeamVolume: number
+}
+
+interface ScheduleForm {
+  id: string | null
+  name: string
+  transactionTypes: CommissionSourceType[]
+  effectiveFrom: string
+  notes: string
+  unqualifiedAction: UnqualifiedAction
+  levels: LevelForm[]
+}
+
+const emptyLevel = (): LevelForm => ({
+  usdtRate: 0,
+  jrcRate: 0,
+  minDirectReferrals: 0,
+  minActiveInvestment: 0,
+  minTeamVolume: 0
+})
+
+const toLevelForms = (schedule: CommissionSchedule): LevelForm[] =>
+  schedule.levels.map(level => ({
+    usdtRate: level.usdt_rate,
+    jrcRate: level.jrc_rate,
+    minDirectReferrals: level.min_direct_referrals,
+    minActiveInvestment: level.min_active_investment,
+    minTeamVolume: level.min_team_volume
+  }))
+
+// datetime-local value in the browser's time zone
+const toLocalInput = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+
+const emptyForm = (levels: LevelForm[] = [emptyLevel()], unqualifiedAction: UnqualifiedAction = 'skip'): ScheduleForm => ({
+  id: null,
+  name: '',
+  transactionTypes: [...COMMISSION_SOURCE_TYPES],
+  effectiveFrom: toLocalInput(new Date(Date.now() + 24 * 60 * 60 * 1000)),
+  notes: '',
+  unqualifiedAction,
+  levels
+})
+
+export default function CommissionSchedulesAdmin() {
+  const { user, loading } = useAuth()
+  const router = useRouter()
+  const supabase = createSupabaseClient()
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [schedules, setSchedules] = useState<CommissionSchedule[]>([])
+  const [form, setForm] = useState<ScheduleForm | null>(null)
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/commission-schedules')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch commission schedules')
+      }
+
+      setSchedules(data.schedules)
+    } catch (error: any) {
+      console.error('Error fetching commission schedules:', error)
+      setError(error.message || 'Failed to fetch commission schedules')
+    }
+  }, [])
+
+  const checkAdminAndFetch = useCallback(async () => {
+    try {
+      const { data: profile, error } = await supabase
+        .from('profiles')
+        .select('is_admin')
+        .eq('id', user?.id)
+        .single()
+
+      if (error || !profile?.is_admin) {
+        router.push('/dashboard')
+        return
+      }
+
+      await fetchSchedules()
+    } catch (error) {
+      console.error('Error checking admin access:', error)
+      router.push('/dashboard')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [user?.id, supabase, router, fetchSchedules])
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth/signin')
+    } else if (user) {
+      checkAdminAndFetch()
+    }
+  }, [user, loading, checkAdminAndFetch])
+
+  const now = new Date()
+  const inEffectIds = new Set(
+    COMMISSION_SOURCE_TYPES
+      .map(type => findScheduleInEffect(schedules, type, now)?.id)
+      .filter(Boolean)
+  )
+
+  const scheduleStatus = (schedule: CommissionSchedule) => {
+    if (new Date(schedule.effective_from) > now) return 'scheduled'
+    return inEffectIds.has(schedule.id) ? 'in effect' : 'superseded'
+  }
+
+  const startNew = () => {
+    // Start from the levels of the newest schedule so small changes stay small
+    const latest = schedules[0]
+    setForm(latest ? emptyForm(toLevelForms(latest), latest.unqualified_action) : emptyForm())
+    setError('')
+    setSuccess('')
+  }
+
+  const startEdit = (schedule: CommissionSchedule) => {
+    setForm({
+      id: schedule.id,
+      name: schedule.name,
+      transactionTypes: schedule.transaction_types,
+      effectiveFrom: toLocalInput(new Date(schedule.effective_from)),
+      notes: schedule.notes || '',
+      unqualifiedAction: schedule.unqualified_action,
+      levels: toLevelForms(schedule)
+    })
+    setError('')
+    setSuccess('')
+  }
+
+  const updateLevel = (index: number, changes: Partial<LevelForm>) => {
+    setForm(prev => prev && {
+      ...prev,
+      levels: prev.levels.map((level, i) => i === index ? { ...level, ...changes } : level)
+    })
+  }
+
+  const toggleType = (type: CommissionSourceType, checked: boolean) => {
+    setForm(prev => prev && {
+      ...prev,
+      transactionTypes: checked
+        ? COMMISSION_SOURCE_TYPES.filter(t => t === type || prev.transactionTypes.includes(t))
+        : prev.transactionTypes.filter(t => t !== type)
+    })
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+
+    setIsSaving(true)
+    setError('')
+    setSuccess('')
+    try {
+      const response = await fetch('/api/admin/commission-schedules', {
+        method: form.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: form.id || undefined,
+          name: form.name,
+          transactionTypes: form.transactionTypes,
+          effectiveFrom: new Date(form.effectiveFrom).toISOString(),
+          notes: form.notes,
+          unqualifiedAction: form.unqualifiedAction,
+          levels: form.levels
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save commission schedule')
+      }
+
+      setSuccess(`Schedule "${data.schedule.name}" saved`)
+      setForm(null)
+      await fetchSchedules()
+    } catch (error: any) {
+      setError(error.message || 'Failed to save commission schedule')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (schedule: CommissionSchedule) => {
+    if (!confirm(`Delete schedule "${schedule.name}"?`)) return
+
+    setError('')
+    setSuccess('')
+    try {
+      const response = await fetch(`/api/admin/commission-schedules?id=${schedule.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete commission schedule')
+      }
+
+      setSuccess(data.message)
+      if (form?.id === schedule.id) setForm(null)
+      await fetchSchedules()
+    } catch (error: any) {
+      setError(error.message || 'Failed to delete commission schedule')
+    }
+  }
+
+  if (loading || isLoading) {
+    return (
+      <div className="min-h-screen jarvis-gradient flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-white"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen jarvis-gradient">
+      {/* Header */}
+      <header className="border-b border-white/20 p-4">
+        <div className="container mx-auto flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <Link href="/admin" className="text-white hover:text-blue-300">
+              <ArrowLeft className="h-6 w-6" />
+            </Link>
+            <h1 className="text-2xl font-bold text-white">Commission Schedules</h1>
+          </div>
+          <button
+            onClick={startNew}
+            className="jarvis-button px-4 py-2 rounded-lg text-white font-semibold flex items-center space-x-2"
+          >
+            <Plus className="h-4 w-4" />
+            <span>New Schedule</span>
+          </button>
+        </div>
+      </header>
+
+      <div className="container mx-auto p-6">
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-4 mb-6 text-red-300">{error}</div>
+        )}
+        {success && (
+          <div className="bg-green-500/20 border border-green-500/50 rounded-lg p-4 mb-6 text-green-300">{success}</div>
+        )}
+
+        {form && (
+          <div className="jarvis-card rounded-2xl p-6 mb-6">
+            <h2 className="text-xl font-bold text-white mb-2">{form.id ? 'Edit Schedule' : 'New Schedule'}</h2>
+            <p className="text-gray-400 text-sm mb-6">
+              USDT rates are a percentage of the source amount for each upline level, JRC rates a percentage of the JRC tokens the source earns (investments only). An upline only earns a level when it meets that level&apos;s requirements at payout time (0 = no requirement). A schedule only applies to transactions made after its effective date and cannot be changed once in effect.
+            </p>
+
+            <div className="grid md:grid-cols-2 gap-4 mb-6">
+              <label className="block">
+                <span className="text-gray-400 text-sm">Name</span>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className="w-full mt-1 px-3 py-2 bg-white/10 border border-white/20 rounded text-white"
+                />
+              </label>
+              <label className="block">
+                <span className="text-gray-400 text-sm">Effective from</span>
+                <input
+                  type="datetime-local"
+                  value={form.effectiveFrom}
+                  onChange={(e) => setForm({ ...form, effectiveFrom: e.target.value })}
+                  className="w-full mt-1 px-3 py-2 bg-white/10 border border-white/20 rounded text-white"
+                />
+              </label>
+              <div>
+                <span className="text-gray-400 text-sm">Applies to</span>
+                <div className="flex space-x-4 mt-2">
+                  {COMMISSION_SOURCE_TYPES.map(type => (
+                    <label key={type} className="flex items-center space-x-2 text-white capitalize">
+                      <input
+                        type="checkbox"
+                        checked={form.transactionTypes.includes(type)}
+                        onChange={(e) => toggleType(type, e.target.checked)}
+                      />
+                      <span>{type}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <label className="block">
+                <span className="text-gray-400 text-sm">Notes</span>
+                <input
+                  type="text"
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  className="w-full mt-1 px-3 py-2 bg-white/10 border border-white/20 rounded text-white"
+                />
+              </label>
+              <label className="block">
+                <span className="text-gray-400 text-sm">Commissions for unqualified uplines</span>
+                <select
+                  value={form.unqualifiedAction}
+                  onChange={(e) => setForm({ ...form, unqualifiedAction: e.target.value as UnqualifiedAction })}
+                  className="w-full mt-1 px-3 py-2 bg-white/10 border border-white/20 rounded text-white"
+                >
+                  <option value="skip" className="bg-gray-900">Skip (not paid)</option>
+                  <option value="roll_up" className="bg-gray-900">Roll up to the next qualified upline</option>
+                </select>
+              </label>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm mb-4">
+                <thead>
+                  <tr className="text-gray-400 text-left border-b border-white/10">
+                    <th className="py-3 pr-4">Level</th>
+                    <th className="py-3 pr-4">USDT (% of amount)</th>
+                    <th className="py-3 pr-4">JRC (% of tokens)</th>
+                    <th className="py-3 pr-4">Min Direct Referrals</th>
+                    <th className="py-3 pr-4">Min Own Investment ($)</th>
+                    <th className="py-3 pr-4">Min Team Volume ($)</th>
+                    <th className="py-3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {form.levels.map((level, index) => (
+                    <tr key={index} className="border-b border-white/5">
+                      <td className="py-2 pr-4 text-white font-semibold">Level {index + 1}</td>
+                      <td className="py-2 pr-4">
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.01"
+                          value={level.usdtRate}
+                          onChange={(e) => updateLevel(index, { usdtRate: parseFloat(e.target.value) })}
+                          className="w-24 px-3 py-1 bg-white/10 border border-white/20 rounded text-white"
+                        />
+                      </td>
+                      <td className="py-2 pr-4">
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.01"
+                          value={level.jrcRate}
+                          onChange={(e) => updateLevel(index, { jrcRate: parseFloat(e.target.value) })}
+                          className="w-24 px-3 py-1 bg-white/10 border border-white/20 rounded text-white"
+                        />
+                      </td>
+                      <td className="py-2 pr-4">
+                        <input
+                          type="number"
+                          min="0"
+                          step="1"
+                          value={level.minDirectReferrals}
+                          onChange={(e) => updateLevel(index, { minDirectReferrals: parseInt(e.target.value) })}
+                          className="w-24 px-3 py-1 bg-white/10 border border-white/20 rounded text-white"
+                        />
+                      </td>
+                      <td className="py-2 pr-4">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={level.minActiveInvestment}
+                          onChange={(e) => updateLevel(index, { minActiveInvestment: parseFloat(e.target.value) })}
+                          className="w-24 px-3 py-1 bg-white/10 border border-white/20 rounded text-white"
+                        />
+                      </td>
+                      <td className="py-2 pr-4">
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={level.minTeamVolume}
+                          onChange={(e) => updateLevel(index, { minTeamVolume: parseFloat(e.target.value) })}
+                          className="w-24 px-3 py-1 bg-white/10 border border-white/20 rounded text-white"
+                        />
+                      </td>
+                      <td className="py-2 text-right">
+                        {index === form.levels.length - 1 && form.levels.length > 1 && (
+                          <button
+                            onClick={() => setForm({ ...form, levels: form.levels.slice(0, -1) })}
+                            className="text-red-400 hover:text-red-300"
+                            title="Remove level"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => setForm({ ...form, levels: [...form.levels, emptyLevel()] })}
+                disabled={form.levels.length >= MAX_COMMISSION_LEVELS}
+                className="text-blue-300 hover:text-blue-200 flex items-center space-x-2 disabled:opacity-50"
+              >
+                <Plus className="h-4 w-4" />
+                <span>Add level</span>
+              </button>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => setForm(null)}
+                  className="px-4 py-2 rounded-lg text-gray-300 hover:text-white"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={isSaving}
+                  className="jarvis-button px-4 py-2 rounded-lg text-white font-semibold flex items-center space-x-2 disabled:opacity-50"
+                >
+                  <Save className="h-4 w-4" />
+                  <span>{isSaving ? 'Saving...' : 'Save Schedule'}</span>
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="jarvis-card rounded-2xl p-6">
+          <h2 className="text-xl font-bold text-white mb-6">Schedules</h2>
+
+          {schedules.length === 0 ? (
+            <p className="text-gray-400">No commission schedules yet.</p>
+          ) : (
+            <div className="space-y-4">
+              {schedules.map((schedule) => {
+                const status = scheduleStatus(schedule)
+                return (
+                  <div key={schedule.id} className="border border-white/10 rounded-lg p-4">
+                    <div className="flex items-start justify-between mb-3">
+                      <div>
+                        <div className="flex items-center space-x-3">
+                          <h3 className="text-white font-semibold">{schedule.name}</h3>
+                          <span className={`text-xs px-2 py-0.5 rounded ${
+                            status === 'in effect' ? 'bg-green-500/20 text-green-300' :
+                            status === 'scheduled' ? 'bg-blue-500/20 text-blue-300' :
+                            'bg-gray-500/20 text-gray-400'
+                          }`}>
+                            {status}
+                          </span>
+                        </div>
+                        <p className="text-gray-400 text-sm mt-1">
+                          {schedule.transaction_types.join(', ')} &middot; from {new Date(schedule.effective_from).toLocaleString()}
+                          {schedule.unqualified_action === 'roll_up' && <> &middot; unqualified roll up</>}
+                          {schedule.notes && <> &middot; {schedule.notes}</>}
+                        </p>
+                      </div>
+                      {status === 'scheduled' && (
+                        <div className="flex space-x-3">
+                          <button onClick={() => startEdit(schedule)} className="text-blue-300 hover:text-blue-200 text-sm">
+                            Edit
+                          </button>
+                          <button onClick={() => handleDelete(schedule)} className="text-red-400 hover:text-red-300 text-sm">
+                            Delete
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {schedule.levels.map(level => (
+                        <span key={level.level} className="text-xs bg-white/5 text-gray-300 px-2 py-1 rounded">
+                          L{level.level}: {level.usdt_rate}%{level.jrc_rate > 0 && ` + ${level.jrc_rate}% JRC`}
+                          {level.min_direct_referrals > 0 && ` · ${level.min_direct_referrals}+ directs`}
+                          {level.min_active_investment > 0 && ` · $${level.min_active_investment} own`}
+                          {level.min_team_volume > 0 && ` · $${level.min_team_volume} team`}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
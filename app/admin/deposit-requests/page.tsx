@@ -17,7 +17,10 @@ import {
   User,
   Calendar,
   AlertCircle,
-  Loader2
+  Loader2,
+  ShieldCheck,
+  ShieldAlert,
+  RefreshCw
 } from 'lucide-react'
 import Link from 'next/link'
 
@@ -25,10 +28,18 @@ interface DepositRequest {
   id: string
   user_id: string
   tx_hash: string
-  amount: number
+  amount: number // in units of currency
+  usd_amount?: number | null // credited on approval
   currency: string
   network: string
   status: 'pending' | 'approved' | 'rejected'
+  // Set by the on-chain verifier (/api/auto-deposit-verification)
+  verification_status?: 'unverified' | 'verified' | 'flagged'
+  verification_code?: string | null
+  verification_detail?: string | null
+  onchain_amount?: number | null
+  onchain_from?: string | null
+  last_verified_at?: string | null
   admin_notes?: string
   processed_by?: string
   processed_at?: string
@@ -56,6 +67,9 @@ export default function DepositRequestsPage() {
   const [adminNotes, setAdminNotes] = useState('')
   const [isProcessing, setIsProcessing] = useState(false)
   const [userEmails, setUserEmails] = useState<{[key: string]: string}>({})
+  const [isVerifying, setIsVerifying] = useState(false)
+  // Explorer transaction URL per deposit network, from deposit_networks
+  const [explorerUrls, setExplorerUrls] = useState<{[network: string]: string}>({})
   
   const supabase = createSupabaseClient()
 
@@ -90,6 +104,7 @@ export default function DepositRequestsPage() {
       setIsAdmin(true)
       await fetchDepositRequests()
       await fetchUserEmails()
+      await fetchExplorerUrls()
     } catch (error) {
       console.error('Error checking admin access:', error)
       router.push('/dashboard')
@@ -108,6 +123,22 @@ export default function DepositRequestsPage() {
     }
   }
 
+  const fetchExplorerUrls = async () => {
+    const { data, error } = await supabase
+      .from('deposit_networks')
+      .select('id, explorer_tx_url')
+
+    if (error) {
+      console.error('Error fetching deposit networks:', error)
+      return
+    }
+
+    setExplorerUrls(Object.fromEntries((data || []).map(network => [network.id, network.explorer_tx_url])))
+  }
+
+  const getExplorerLink = (request: DepositRequest) =>
+    (explorerUrls[request.network] || 'https://bscscan.com/tx/{hash}').replace('{hash}', request.tx_hash)
+
   const fetchDepositRequests = async () => {
     try {
       console.log('🔍 Fetching deposit requests...')
@@ -179,7 +210,9 @@ export default function DepositRequestsPage() {
   const filterRequests = () => {
     let filtered = requests
 
-    if (statusFilter !== 'all') {
+    if (statusFilter === 'flagged') {
+      filtered = filtered.filter(request => request.status === 'pending' && request.verification_status === 'flagged')
+    } else if (statusFilter !== 'all') {
       filtered = filtered.filter(request => request.status === statusFilter)
     }
 
@@ -252,6 +285,57 @@ export default function DepositRequestsPage() {
     }
   }
 
+  // Without requestId: check every unverified pending request now instead of waiting for the cron
+  const runVerification = async (requestId?: string) => {
+    setIsVerifying(true)
+    try {
+      const response = await fetch('/api/admin/deposit-requests/verify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(requestId ? { requestId } : {})
+      })
+      const data = await response.json()
+      alert(response.ok ? data.message : `Error: ${data.error}`)
+      await fetchDepositRequests()
+      if (requestId) {
+        closeModal()
+      }
+    } catch (error) {
+      console.error('Error verifying deposit requests:', error)
+      alert('Failed to verify deposit requests')
+    } finally {
+      setIsVerifying(false)
+    }
+  }
+
+  const getVerificationBadge = (request: DepositRequest) => {
+    // Once processed only a positive verification is worth showing
+    if (request.status !== 'pending' && request.verification_status !== 'verified') {
+      return null
+    }
+
+    switch (request.verification_status) {
+      case 'verified':
+        return (
+          <div className="text-xs text-green-400 flex items-center mt-1" title={request.verification_detail || undefined}>
+            <ShieldCheck className="h-3 w-3 mr-1" /> Verified on-chain
+          </div>
+        )
+      case 'flagged':
+        return (
+          <div className="text-xs text-orange-400 flex items-center mt-1" title={request.verification_detail || undefined}>
+            <ShieldAlert className="h-3 w-3 mr-1" /> {request.verification_code}
+          </div>
+        )
+      default:
+        return (
+          <div className="text-xs text-gray-400 mt-1">Awaiting verification</div>
+        )
+    }
+  }
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'pending':
@@ -283,8 +367,10 @@ export default function DepositRequestsPage() {
     pending: requests.filter(r => r.status === 'pending').length,
     approved: requests.filter(r => r.status === 'approved').length,
     rejected: requests.filter(r => r.status === 'rejected').length,
-    totalAmount: requests.reduce((sum, r) => sum + r.amount, 0),
-    pendingAmount: requests.filter(r => r.status === 'pending').reduce((sum, r) => sum + r.amount, 0)
+    flagged: requests.filter(r => r.status === 'pending' && r.verification_status === 'flagged').length,
+    // Stablecoin amounts count at face value until approval fixes the USD value
+    totalAmount: requests.reduce((sum, r) => sum + Number(r.usd_amount ?? r.amount), 0),
+    pendingAmount: requests.filter(r => r.status === 'pending').reduce((sum, r) => sum + Number(r.amount), 0)
   }
 
   if (loading || isLoading) {
@@ -322,6 +408,14 @@ export default function DepositRequestsPage() {
             </Link>
             <h1 className="text-2xl font-bold text-white">Deposit Requests</h1>
           </div>
+          <button
+            onClick={() => runVerification()}
+            disabled={isVerifying}
+            className="jarvis-button px-4 py-2 rounded-lg text-white font-semibold flex items-center space-x-2 disabled:opacity-50"
+          >
+            {isVerifying ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            <span>{isVerifying ? 'Verifying...' : 'Verify Now'}</span>
+          </button>
         </div>
       </header>
 
@@ -344,6 +438,9 @@ export default function DepositRequestsPage() {
                 <p className="text-gray-300 text-sm">Pending</p>
                 <p className="text-2xl font-bold text-yellow-400">{stats.pending}</p>
                 <p className="text-sm text-gray-400">${stats.pendingAmount.toFixed(2)}</p>
+                {stats.flagged > 0 && (
+                  <p className="text-sm text-orange-400">{stats.flagged} flagged</p>
+                )}
               </div>
               <Clock className="h-8 w-8 text-yellow-400" />
             </div>
@@ -396,6 +493,7 @@ export default function DepositRequestsPage() {
                 >
                   <option value="all" className="bg-gray-800">All Status</option>
                   <option value="pending" className="bg-gray-800">Pending</option>
+                  <option value="flagged" className="bg-gray-800">Flagged</option>
                   <option value="approved" className="bg-gray-800">Approved</option>
                   <option value="rejected" className="bg-gray-800">Rejected</option>
                 </select>
@@ -448,10 +546,10 @@ export default function DepositRequestsPage() {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm font-medium text-white">
-                        ${request.amount.toFixed(2)}
+                        {Number(request.amount)} {request.currency}
                       </div>
                       <div className="text-sm text-gray-400">
-                        {request.currency} ({request.network})
+                        {request.network}{request.usd_amount != null && ` • $${Number(request.usd_amount).toFixed(2)}`}
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
@@ -459,12 +557,12 @@ export default function DepositRequestsPage() {
                         {request.tx_hash.slice(0, 10)}...{request.tx_hash.slice(-8)}
                       </div>
                       <a
-                        href={`https://bscscan.com/tx/${request.tx_hash}`}
+                        href={getExplorerLink(request)}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="text-sm text-blue-400 hover:text-blue-300 flex items-center mt-1"
                       >
-                        View on BSCScan <ExternalLink className="h-3 w-3 ml-1" />
+                        View on Explorer <ExternalLink className="h-3 w-3 ml-1" />
                       </a>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
@@ -472,6 +570,7 @@ export default function DepositRequestsPage() {
                         {getStatusIcon(request.status)}
                         <span className="ml-1 capitalize">{request.status}</span>
                       </div>
+                      {getVerificationBadge(request)}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm text-white">
@@ -547,7 +646,10 @@ export default function DepositRequestsPage() {
 
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-1">Amount</label>
-                <p className="text-white font-semibold">${selectedRequest.amount.toFixed(2)} {selectedRequest.currency}</p>
+                <p className="text-white font-semibold">{Number(selectedRequest.amount)} {selectedRequest.currency}</p>
+                {selectedRequest.usd_amount != null && (
+                  <p className="text-sm text-gray-400">Credited: ${Number(selectedRequest.usd_amount).toFixed(2)}</p>
+                )}
                 <p className="text-sm text-gray-400">Network: {selectedRequest.network}</p>
               </div>
 
@@ -555,12 +657,12 @@ export default function DepositRequestsPage() {
                 <label className="block text-sm font-medium text-gray-300 mb-1">Transaction Hash</label>
                 <p className="text-white font-mono text-sm break-all">{selectedRequest.tx_hash}</p>
                 <a
-                  href={`https://bscscan.com/tx/${selectedRequest.tx_hash}`}
+                  href={getExplorerLink(selectedRequest)}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="text-blue-400 hover:text-blue-300 text-sm flex items-center mt-1"
                 >
-                  View on BSCScan <ExternalLink className="h-3 w-3 ml-1" />
+                  View on Explorer <ExternalLink className="h-3 w-3 ml-1" />
                 </a>
               </div>
 
@@ -572,6 +674,38 @@ export default function DepositRequestsPage() {
                 </div>
               </div>
 
+              {selectedRequest.verification_status && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-1">On-chain Verification</label>
+                  <p className={`capitalize ${
+                    selectedRequest.verification_status === 'verified'
+                      ? 'text-green-400'
+                      : selectedRequest.verification_status === 'flagged' ? 'text-orange-400' : 'text-white'
+                  }`}>
+                    {selectedRequest.verification_status}
+                    {selectedRequest.verification_code && ` (${selectedRequest.verification_code})`}
+                  </p>
+                  {selectedRequest.verification_detail && (
+                    <p className="text-sm text-gray-300 break-all">{selectedRequest.verification_detail}</p>
+                  )}
+                  {selectedRequest.onchain_from && (
+                    <p className="text-sm text-gray-400 font-mono break-all">From: {selectedRequest.onchain_from}</p>
+                  )}
+                  {selectedRequest.last_verified_at && (
+                    <p className="text-sm text-gray-400">Checked {new Date(selectedRequest.last_verified_at).toLocaleString()}</p>
+                  )}
+                  {selectedRequest.status === 'pending' && selectedRequest.verification_status !== 'unverified' && (
+                    <button
+                      onClick={() => runVerification(selectedRequest.id)}
+                      disabled={isVerifying}
+                      className="text-blue-400 hover:text-blue-300 text-sm flex items-center mt-1 disabled:opacity-50"
+                    >
+                      <RefreshCw className="h-3 w-3 mr-1" /> Re-verify
+                    </button>
+                  )}
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-1">Submitted</label>
                 <p className="text-white">{new Date(selectedRequest.created_at).toLocaleString()}</p>
@@ -19,7 +19,7 @@ import Link from 'next/link'
 interface InvestmentPlan {
   id: string
   user_id: string
-  plan_type: 'A' | 'B' | 'C'
+  plan_type: string
   investment_amount: number
   daily_percentage: number
   jarvis_tokens_earned: number
@@ -458,6 +458,42 @@ export default function AdminDashboard() {
           >
             Investment Plans
           </Link>
+          <Link
+            href="/admin/plans"
+            className="jarvis-card px-6 py-3 rounded-lg text-white font-semibold hover:bg-white/10"
+          >
+            Plan Catalogue
+          </Link>
+          <Link
+            href="/admin/staking-terms"
+            className="jarvis-card px-6 py-3 rounded-lg text-white font-semibold hover:bg-white/10"
+          >
+            Staking Terms
+          </Link>
+          <Link
+            href="/admin/commission-schedules"
+            className="jarvis-card px-6 py-3 rounded-lg text-white font-semibold hover:bg-white/10"
+          >
+            Commission Schedules
+          </Link>
+          <Link
+            href="/admin/referral-decisions"
+            className="jarvis-card px-6 py-3 rounded-lg text-white font-semibold hover:bg-white/10"
+          >
+            Referral Decisions
+          </Link>
+          <Link
+            href="/admin/reconcile"
+            className="jarvis-card px-6 py-3 rounded-lg text-white font-semibold hover:bg-white/10"
+          >
+            Reconcile Balances
+          </Link>
+          <Link
+            href="/admin/profit-gaps"
+            className="jarvis-card px-6 py-3 rounded-lg text-white font-semibold hover:bg-white/10"
+          >
+            Missed Profit Days
+          </Link>
           <Link
             href="/admin/wallet-collection"
             className="bg-purple-600 hover:bg-purple-700 px-6 py-3 rounded-lg text-white font-semibold flex items-center space-x-2"
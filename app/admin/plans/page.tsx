@@ -0,0 +1,482 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/components/providers/AuthProvider'
+import { useRouter } from 'next/navigation'
+import { createSupabaseClient } from '@/lib/supabase'
+import {
+  ArrowLeft,
+  Plus,
+  RefreshCw,
+  CheckCircle,
+  Archive,
+  Edit,
+  Trash2,
+  Copy,
+  Layers
+} from 'lucide-react'
+import Link from 'next/link'
+import { PlanCatalogueEntry, InvestmentWallet, walletLabel } from '@/lib/investment-plans'
+
+interface PlanForm {
+  id?: string
+  planKey: string
+  name: string
+  description: string
+  minAmount: string
+  maxAmount: string
+  dailyPercentage: string
+  durationDays: string
+  capMultiplier: string
+  tokensPerDollar: string
+  eligibleWallet: InvestmentWallet
+  principalReleaseWallet: InvestmentWallet | ''
+}
+
+const EMPTY_FORM: PlanForm = {
+  planKey: '',
+  name: '',
+  description: '',
+  minAmount: '',
+  maxAmount: '',
+  dailyPercentage: '',
+  durationDays: '',
+  capMultiplier: '',
+  tokensPerDollar: '0',
+  eligibleWallet: 'fund_wallet',
+  principalReleaseWallet: ''
+}
+
+const formFromPlan = (plan: PlanCatalogueEntry): PlanForm => ({
+  planKey: plan.plan_key,
+  name: plan.name,
+  description: plan.description || '',
+  minAmount: String(plan.min_amount),
+  maxAmount: String(plan.max_amount),
+  dailyPercentage: String(plan.daily_percentage),
+  durationDays: plan.duration_days != null ? String(plan.duration_days) : '',
+  capMultiplier: plan.cap_multiplier != null ? String(plan.cap_multiplier) : '',
+  tokensPerDollar: String(plan.tokens_per_dollar),
+  eligibleWallet: plan.eligible_wallet,
+  principalReleaseWallet: plan.principal_release_wallet || ''
+})
+
+export default function PlanCatalogueAdmin() {
+  const { user, loading } = useAuth()
+  const router = useRouter()
+  const supabase = createSupabaseClient()
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [plans, setPlans] = useState<PlanCatalogueEntry[]>([])
+  const [form, setForm] = useState<PlanForm | null>(null)
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+
+  const fetchPlans = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/plans')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch plan catalogue')
+      }
+
+      setPlans(data.plans)
+    } catch (error: any) {
+      console.error('Error fetching plan catalogue:', error)
+      setError(error.message || 'Failed to fetch plan catalogue')
+    }
+  }, [])
+
+  const checkAdminAndFetch = useCallback(async () => {
+    try {
+      const { data: profile, error } = await supabase
+        .from('profiles')
+        .select('is_admin')
+        .eq('id', user?.id)
+        .single()
+
+      if (error || !profile?.is_admin) {
+        router.push('/dashboard')
+        return
+      }
+
+      await fetchPlans()
+    } catch (error) {
+      console.error('Error checking admin access:', error)
+      router.push('/dashboard')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [user?.id, supabase, router, fetchPlans])
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth/signin')
+    } else if (user) {
+      checkAdminAndFetch()
+    }
+  }, [user, loading, checkAdminAndFetch])
+
+  const request = async (method: string, body?: any, query = '') => {
+    setError('')
+    setSuccess('')
+    const response = await fetch(`/api/admin/plans${query}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Request failed')
+    }
+
+    return data
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!form) return
+
+    setIsSaving(true)
+    try {
+      const terms = {
+        planKey: form.planKey.trim(),
+        name: form.name,
+        description: form.description || null,
+        minAmount: parseFloat(form.minAmount),
+        maxAmount: parseFloat(form.maxAmount),
+        dailyPercentage: parseFloat(form.dailyPercentage),
+        durationDays: form.durationDays ? parseInt(form.durationDays) : null,
+        capMultiplier: form.capMultiplier ? parseFloat(form.capMultiplier) : null,
+        tokensPerDollar: parseFloat(form.tokensPerDollar || '0'),
+        eligibleWallet: form.eligibleWallet,
+        principalReleaseWallet: form.principalReleaseWallet || null
+      }
+
+      const data = form.id
+        ? await request('PUT', { id: form.id, ...terms })
+        : await request('POST', terms)
+
+      setSuccess(`Saved ${data.plan.name} (Plan ${data.plan.plan_key} v${data.plan.version}) as draft`)
+      setForm(null)
+      await fetchPlans()
+    } catch (error: any) {
+      setError(error.message)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleStatus = async (plan: PlanCatalogueEntry, action: 'activate' | 'retire') => {
+    const prompt = action === 'activate'
+      ? `Activate Plan ${plan.plan_key} v${plan.version}? The currently active version of this plan will be retired.`
+      : `Retire Plan ${plan.plan_key} v${plan.version}? Running investments keep their terms, but no new investments can be made.`
+
+    if (!confirm(prompt)) return
+
+    try {
+      const data = await request('PATCH', { id: plan.id, action })
+      setSuccess(data.message)
+      await fetchPlans()
+    } catch (error: any) {
+      setError(error.message)
+    }
+  }
+
+  const handleDelete = async (plan: PlanCatalogueEntry) => {
+    if (!confirm(`Delete draft Plan ${plan.plan_key} v${plan.version}?`)) return
+
+    try {
+      const data = await request('DELETE', undefined, `?id=${plan.id}`)
+      setSuccess(data.message)
+      await fetchPlans()
+    } catch (error: any) {
+      setError(error.message)
+    }
+  }
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'active': return 'text-green-400 bg-green-400/20'
+      case 'draft': return 'text-yellow-400 bg-yellow-400/20'
+      default: return 'text-gray-400 bg-gray-400/20'
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+  if (loading || isLoading) {
+    return (
+      <div className="min-h-screen jarvis-gradient flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-white"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen jarvis-gradient">
+      {/* Header */}
+      <header className="border-b border-white/20 p-4">
+        <div className="container mx-auto flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <Link href="/admin" className="text-white hover:text-blue-300">
+              <ArrowLeft className="h-6 w-6" />
+            </Link>
+            <h1 className="text-2xl font-bold text-white">Plan Catalogue</h1>
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={fetchPlans}
+              className="jarvis-card px-4 py-2 rounded-lg text-white font-semibold flex items-center space-x-2 hover:bg-white/10"
+            >
+              <RefreshCw className="h-4 w-4" />
+              <span>Refresh</span>
+            </button>
+            <button
+              onClick={() => setForm({ ...EMPTY_FORM })}
+              className="jarvis-button px-4 py-2 rounded-lg text-white font-semibold flex items-center space-x-2"
+            >
+              <Plus className="h-4 w-4" />
+              <span>New Plan</span>
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto p-6">
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-4 mb-6 text-red-300">{error}</div>
+        )}
+        {success && (
+          <div className="bg-green-500/20 border border-green-500/50 rounded-lg p-4 mb-6 text-green-300">{success}</div>
+        )}
+
+        {/* Editor */}
+        {form && (
+          <div className="jarvis-card rounded-2xl p-6 mb-6">
+            <h2 className="text-xl font-bold text-white mb-4">
+              {form.id ? `Edit Draft: Plan ${form.planKey}` : 'New Draft Version'}
+            </h2>
+            <p className="text-gray-400 text-sm mb-4">
+              Saving creates or updates a draft. Terms are frozen once a version is activated; to change them, create a new version.
+            </p>
+            <form onSubmit={handleSave} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-gray-300 text-sm mb-1">Plan Key</label>
+                <input
+                  value={form.planKey}
+                  onChange={(e) => setForm({ ...form, planKey: e.target.value })}
+                  disabled={!!form.id}
+                  required
+                  placeholder="e.g. A"
+                  className={`${inputClass} disabled:opacity-50`}
+                />
+              </div>
+              <div>
+                <label className="block text-gray-300 text-sm mb-1">Name</label>
+                <input
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  required
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-gray-300 text-sm mb-1">Eligible Wallet</label>
+                <select
+                  value={form.eligibleWallet}
+                  onChange={(e) => setForm({ ...form, eligibleWallet: e.target.value as InvestmentWallet })}
+                  className={inputClass}
+                >
+                  <option value="fund_wallet" className="bg-gray-800">Fund Wallet</option>
+                  <option value="main_wallet" className="bg-gray-800">Main Wallet</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-gray-300 text-sm mb-1">Minimum ($)</label>
+                <input type="number" step="0.01" min="0" required value={form.minAmount}
+                  onChange={(e) => setForm({ ...form, minAmount: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-gray-300 text-sm mb-1">Maximum ($)</label>
+                <input type="number" step="0.01" min="0" required value={form.maxAmount}
+                  onChange={(e) => setForm({ ...form, maxAmount: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-gray-300 text-sm mb-1">Daily %</label>
+                <input type="number" step="0.01" min="0" required value={form.dailyPercentage}
+                  onChange={(e) => setForm({ ...form, dailyPercentage: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-gray-300 text-sm mb-1">Duration (days, blank = open-ended)</label>
+                <input type="number" step="1" min="1" value={form.durationDays}
+                  onChange={(e) => setForm({ ...form, durationDays: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-gray-300 text-sm mb-1">Cap Multiplier (blank = uncapped)</label>
+                <input type="number" step="0.01" min="1" max="100" value={form.capMultiplier}
+                  onChange={(e) => setForm({ ...form, capMultiplier: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-gray-300 text-sm mb-1">JRC per $1</label>
+                <input type="number" step="0.00000001" min="0" value={form.tokensPerDollar}
+                  onChange={(e) => setForm({ ...form, tokensPerDollar: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-gray-300 text-sm mb-1">Principal on Maturity</label>
+                <select
+                  value={form.principalReleaseWallet}
+                  onChange={(e) => setForm({ ...form, principalReleaseWallet: e.target.value as InvestmentWallet | '' })}
+                  className={inputClass}
+                >
+                  <option value="" className="bg-gray-800">Not returned</option>
+                  <option value="fund_wallet" className="bg-gray-800">Release to Fund Wallet</option>
+                  <option value="main_wallet" className="bg-gray-800">Release to Main Wallet</option>
+                </select>
+              </div>
+              <div className="md:col-span-3">
+                <label className="block text-gray-300 text-sm mb-1">Description</label>
+                <textarea
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  rows={2}
+                  className={inputClass}
+                />
+              </div>
+              <div className="md:col-span-3 flex justify-end space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setForm(null)}
+                  className="px-4 py-2 rounded-lg text-gray-300 hover:text-white"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="bg-blue-600 hover:bg-blue-700 px-4 py-2 rounded-lg text-white font-semibold disabled:opacity-50"
+                >
+                  {isSaving ? 'Saving...' : 'Save Draft'}
+                </button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        {/* Catalogue */}
+        <div className="jarvis-card rounded-2xl p-6">
+          <h2 className="text-xl font-bold text-white mb-6">Plan Versions ({plans.length})</h2>
+
+          {plans.length === 0 ? (
+            <div className="text-center py-8">
+              <Layers className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-400">No plans in the catalogue</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {plans.map((plan) => (
+                <div key={plan.id} className="bg-white/5 rounded-lg p-4 border border-white/10">
+                  <div className="flex items-center justify-between mb-3">
+                    <div className="flex items-center space-x-4">
+                      <div>
+                        <p className="text-white font-semibold">{plan.name}</p>
+                        <p className="text-gray-400 text-sm">Plan {plan.plan_key} · v{plan.version}</p>
+                      </div>
+                      <div className={`px-3 py-1 rounded-full text-xs font-semibold ${getStatusColor(plan.status)}`}>
+                        {plan.status.toUpperCase()}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {plan.status === 'draft' && (
+                        <>
+                          <button
+                            onClick={() => setForm({ ...formFromPlan(plan), id: plan.id })}
+                            className="p-2 text-blue-400 hover:bg-blue-400/20 rounded"
+                            title="Edit draft"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleStatus(plan, 'activate')}
+                            className="p-2 text-green-400 hover:bg-green-400/20 rounded"
+                            title="Activate"
+                          >
+                            <CheckCircle className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(plan)}
+                            className="p-2 text-red-400 hover:bg-red-400/20 rounded"
+                            title="Delete draft"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </>
+                      )}
+                      {plan.status === 'active' && (
+                        <button
+                          onClick={() => handleStatus(plan, 'retire')}
+                          className="p-2 text-yellow-400 hover:bg-yellow-400/20 rounded"
+                          title="Retire"
+                        >
+                          <Archive className="h-4 w-4" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setForm(formFromPlan(plan))}
+                        className="p-2 text-gray-300 hover:bg-white/10 rounded"
+                        title="New version from these terms"
+                      >
+                        <Copy className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 md:grid-cols-8 gap-4 text-sm">
+                    <div>
+                      <p className="text-gray-400">Range</p>
+                      <p className="text-white">${plan.min_amount.toLocaleString()} - ${plan.max_amount.toLocaleString()}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-400">Daily</p>
+                      <p className="text-green-400">{plan.daily_percentage}%</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-400">Duration</p>
+                      <p className="text-white">{plan.duration_days ? `${plan.duration_days} days` : 'Open-ended'}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-400">Cap</p>
+                      <p className="text-white">{plan.cap_multiplier ? `${plan.cap_multiplier}x` : 'Uncapped'}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-400">JRC per $1</p>
+                      <p className="text-yellow-400">{plan.tokens_per_dollar}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-400">Wallet</p>
+                      <p className="text-white">{walletLabel(plan.eligible_wallet)}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-400">Principal</p>
+                      <p className="text-white">{plan.principal_release_wallet ? `To ${walletLabel(plan.principal_release_wallet)}` : 'Kept'}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-400">Activated</p>
+                      <p className="text-white">{plan.activated_at ? new Date(plan.activated_at).toLocaleDateString() : '-'}</p>
+                    </div>
+                  </div>
+
+                  {plan.description && (
+                    <p className="text-gray-400 text-sm mt-3">{plan.description}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
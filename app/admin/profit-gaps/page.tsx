@@ -0,0 +1,267 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/components/providers/AuthProvider'
+import { useRouter } from 'next/navigation'
+import { createSupabaseClient } from '@/lib/supabase'
+import { ArrowLeft, RefreshCw, CheckCircle, CalendarX } from 'lucide-react'
+import Link from 'next/link'
+
+type GapStatus = 'open' | 'flagged' | 'backfilled' | 'dismissed'
+
+const STATUS_LABELS: Record<GapStatus, string> = {
+  open: 'Open',
+  flagged: 'Flagged',
+  backfilled: 'Backfilled',
+  dismissed: 'Dismissed'
+}
+
+interface DistributionGap {
+  id: string
+  plan_id: string
+  user_id: string
+  missed_date: string
+  expected_amount: number
+  status: GapStatus
+  flag_reason: string | null
+  detected_at: string
+  profiles?: { full_name: string | null } | null
+}
+
+export default function ProfitGaps() {
+  const { user, loading } = useAuth()
+  const router = useRouter()
+  const supabase = createSupabaseClient()
+  const [isLoading, setIsLoading] = useState(true)
+  const [isResolving, setIsResolving] = useState(false)
+  const [gaps, setGaps] = useState<DistributionGap[]>([])
+  const [policy, setPolicy] = useState('')
+  const [status, setStatus] = useState<GapStatus>('open')
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+
+  const fetchGaps = useCallback(async () => {
+    setError('')
+    try {
+      const response = await fetch(`/api/admin/profit-gaps?status=${status}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch distribution gaps')
+      }
+
+      setGaps(data.gaps)
+      setPolicy(data.policy)
+      setSelected(new Set())
+    } catch (error: any) {
+      console.error('Error fetching distribution gaps:', error)
+      setError(error.message || 'Failed to fetch distribution gaps')
+    }
+  }, [status])
+
+  const checkAdminAndFetch = useCallback(async () => {
+    try {
+      const { data: profile, error } = await supabase
+        .from('profiles')
+        .select('is_admin')
+        .eq('id', user?.id)
+        .single()
+
+      if (error || !profile?.is_admin) {
+        router.push('/dashboard')
+        return
+      }
+
+      await fetchGaps()
+    } catch (error) {
+      console.error('Error checking admin access:', error)
+      router.push('/dashboard')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [user?.id, supabase, router, fetchGaps])
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth/signin')
+    } else if (user) {
+      checkAdminAndFetch()
+    }
+  }, [user, loading, checkAdminAndFetch])
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const toggleAll = () => {
+    setSelected(selected.size === gaps.length ? new Set() : new Set(gaps.map(g => g.id)))
+  }
+
+  const handleResolve = async (action: 'backfill' | 'dismiss') => {
+    if (selected.size === 0) return
+
+    const total = gaps.filter(g => selected.has(g.id)).reduce((sum, g) => sum + Number(g.expected_amount), 0)
+    const prompt = action === 'backfill'
+      ? `Backfill ${selected.size} missed day(s)? This pays $${total.toFixed(2)} in profits.`
+      : `Dismiss ${selected.size} missed day(s) without paying?`
+
+    if (!confirm(prompt)) return
+
+    setIsResolving(true)
+    setError('')
+    setSuccess('')
+    try {
+      const response = await fetch('/api/admin/profit-gaps', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ gapIds: Array.from(selected), action })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to resolve gaps')
+      }
+
+      setSuccess(data.message)
+      await fetchGaps()
+    } catch (error: any) {
+      console.error('Error resolving gaps:', error)
+      setError(error.message || 'Failed to resolve gaps')
+    } finally {
+      setIsResolving(false)
+    }
+  }
+
+  if (loading || isLoading) {
+    return (
+      <div className="min-h-screen jarvis-gradient flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-white"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen jarvis-gradient">
+      {/* Header */}
+      <header className="border-b border-white/20 p-4">
+        <div className="container mx-auto flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <Link href="/admin" className="text-white hover:text-blue-300">
+              <ArrowLeft className="h-6 w-6" />
+            </Link>
+            <h1 className="text-2xl font-bold text-white">Missed Profit Days</h1>
+          </div>
+          <button
+            onClick={fetchGaps}
+            className="jarvis-button px-4 py-2 rounded-lg text-white font-semibold flex items-center space-x-2"
+          >
+            <RefreshCw className="h-4 w-4" />
+            <span>Refresh</span>
+          </button>
+        </div>
+      </header>
+
+      <div className="container mx-auto p-6">
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-4 mb-6 text-red-300">{error}</div>
+        )}
+        {success && (
+          <div className="bg-green-500/20 border border-green-500/50 rounded-lg p-4 mb-6 text-green-300">{success}</div>
+        )}
+
+        <div className="jarvis-card rounded-xl p-4 mb-6 text-sm text-gray-300">
+          Catch-up policy: <span className="text-white font-semibold">{policy === 'backfill' ? 'Backfill automatically' : 'Flag for review'}</span>
+          <span className="text-gray-400"> (set with PROFIT_CATCHUP_POLICY)</span>
+        </div>
+
+        <div className="jarvis-card rounded-2xl p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-4">
+              <h2 className="text-xl font-bold text-white">{STATUS_LABELS[status]} Gaps ({gaps.length})</h2>
+              <select
+                value={status}
+                onChange={(e) => setStatus(e.target.value as GapStatus)}
+                className="bg-white/10 border border-white/20 rounded-lg px-3 py-1 text-white text-sm"
+              >
+                {(Object.keys(STATUS_LABELS) as GapStatus[]).map(value => (
+                  <option key={value} value={value} className="bg-gray-800">{STATUS_LABELS[value]}</option>
+                ))}
+              </select>
+            </div>
+            {status === 'open' && gaps.length > 0 && (
+              <div className="flex items-center space-x-4">
+                <button onClick={toggleAll} className="text-blue-300 hover:text-blue-200 text-sm">
+                  {selected.size === gaps.length ? 'Clear selection' : 'Select all'}
+                </button>
+                <button
+                  onClick={() => handleResolve('dismiss')}
+                  disabled={selected.size === 0 || isResolving}
+                  className="bg-gray-600 hover:bg-gray-700 px-4 py-2 rounded-lg text-white font-semibold disabled:opacity-50"
+                >
+                  Dismiss
+                </button>
+                <button
+                  onClick={() => handleResolve('backfill')}
+                  disabled={selected.size === 0 || isResolving}
+                  className="bg-green-600 hover:bg-green-700 px-4 py-2 rounded-lg text-white font-semibold disabled:opacity-50"
+                >
+                  {isResolving ? 'Processing...' : `Backfill ${selected.size} Selected`}
+                </button>
+              </div>
+            )}
+          </div>
+
+          {gaps.length === 0 ? (
+            <div className="text-center py-8">
+              <CheckCircle className="h-16 w-16 text-green-400 mx-auto mb-4" />
+              <p className="text-gray-300">No {status === 'open' ? 'missed distribution days' : `${STATUS_LABELS[status].toLowerCase()} gaps`}</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {gaps.map((gap) => (
+                <div key={gap.id} className="bg-white/5 rounded-lg p-4 border border-white/10 flex items-center gap-4">
+                  {status === 'open' && (
+                    <input
+                      type="checkbox"
+                      checked={selected.has(gap.id)}
+                      onChange={() => toggle(gap.id)}
+                    />
+                  )}
+                  <CalendarX className="h-5 w-5 text-yellow-400" />
+                  <div className="flex-1 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                    <div>
+                      <p className="text-white font-semibold">{gap.profiles?.full_name || 'N/A'}</p>
+                      <p className="text-gray-400 text-xs font-mono">{gap.user_id}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-400">Missed Date</p>
+                      <p className="text-white">{gap.missed_date}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-400">Plan</p>
+                      <p className="text-gray-300 font-mono text-xs">{gap.plan_id}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-400">Expected Profit</p>
+                      <p className="text-green-400 font-semibold">${Number(gap.expected_amount).toFixed(2)}</p>
+                      {gap.flag_reason && <p className="text-yellow-300 text-xs mt-1">{gap.flag_reason}</p>}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
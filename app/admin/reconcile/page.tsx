@@ -0,0 +1,363 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/components/providers/AuthProvider'
+import { useRouter } from 'next/navigation'
+import { createSupabaseClient } from '@/lib/supabase'
+import {
+  ArrowLeft,
+  RefreshCw,
+  AlertTriangle,
+  CheckCircle,
+  Scale
+} from 'lucide-react'
+import Link from 'next/link'
+
+interface Discrepancy {
+  userId: string
+  fullName: string | null
+  wallet: 'main_wallet' | 'fund_wallet'
+  currentBalance: number
+  expectedBalance: number
+  delta: number
+  breakdown: {
+    fromTransactions: number
+    fromProfitDistributions: number
+    fromReferralCommissions: number
+  }
+  missingProfitTransactions: number
+  missingCommissionTransactions: number
+}
+
+interface ReconciliationReport {
+  generatedAt: string
+  usersChecked: number
+  discrepancies: Discrepancy[]
+  totals: {
+    mainWalletDelta: number
+    fundWalletDelta: number
+  }
+}
+
+interface CorrectionResult {
+  userId: string
+  wallet: string
+  delta: number
+  status: 'applied' | 'stale' | 'failed'
+  error?: string
+}
+
+const keyFor = (d: { userId: string; wallet: string }) => `${d.userId}:${d.wallet}`
+
+export default function BalanceReconciliation() {
+  const { user, loading } = useAuth()
+  const router = useRouter()
+  const supabase = createSupabaseClient()
+  const [isLoading, setIsLoading] = useState(true)
+  const [isRunning, setIsRunning] = useState(false)
+  const [isApplying, setIsApplying] = useState(false)
+  const [report, setReport] = useState<ReconciliationReport | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [results, setResults] = useState<CorrectionResult[]>([])
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+
+  const runReport = useCallback(async () => {
+    setIsRunning(true)
+    setError('')
+    try {
+      const response = await fetch('/api/admin/reconcile')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to build reconciliation report')
+      }
+
+      setReport(data.data)
+      setSelected(new Set())
+    } catch (error: any) {
+      console.error('Error running reconciliation:', error)
+      setError(error.message || 'Failed to build reconciliation report')
+    } finally {
+      setIsRunning(false)
+    }
+  }, [])
+
+  const checkAdminAndFetch = useCallback(async () => {
+    try {
+      const { data: profile, error } = await supabase
+        .from('profiles')
+        .select('is_admin')
+        .eq('id', user?.id)
+        .single()
+
+      if (error || !profile?.is_admin) {
+        router.push('/dashboard')
+        return
+      }
+
+      await runReport()
+    } catch (error) {
+      console.error('Error checking admin access:', error)
+      router.push('/dashboard')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [user?.id, supabase, router, runReport])
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth/signin')
+    } else if (user) {
+      checkAdminAndFetch()
+    }
+  }, [user, loading, checkAdminAndFetch])
+
+  const toggle = (discrepancy: Discrepancy) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      const key = keyFor(discrepancy)
+      if (next.has(key)) {
+        next.delete(key)
+      } else {
+        next.add(key)
+      }
+      return next
+    })
+  }
+
+  const toggleAll = () => {
+    if (!report) return
+    if (selected.size === report.discrepancies.length) {
+      setSelected(new Set())
+    } else {
+      setSelected(new Set(report.discrepancies.map(keyFor)))
+    }
+  }
+
+  const handleApply = async () => {
+    if (!report || selected.size === 0) return
+
+    const corrections = report.discrepancies
+      .filter(d => selected.has(keyFor(d)))
+      .map(d => ({ userId: d.userId, wallet: d.wallet, delta: d.delta }))
+
+    if (!confirm(`Apply ${corrections.length} balance correction(s)? This posts adjustment entries to the ledger.`)) {
+      return
+    }
+
+    setIsApplying(true)
+    setError('')
+    setSuccess('')
+    try {
+      const response = await fetch('/api/admin/reconcile', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ corrections })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to apply corrections')
+      }
+
+      setResults(data.results)
+      setSuccess(data.message)
+      await runReport()
+    } catch (error: any) {
+      console.error('Error applying corrections:', error)
+      setError(error.message || 'Failed to apply corrections')
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  const walletLabel = (wallet: string) => wallet === 'main_wallet' ? 'Main Wallet' : 'Fund Wallet'
+
+  if (loading || isLoading) {
+    return (
+      <div className="min-h-screen jarvis-gradient flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-white"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen jarvis-gradient">
+      {/* Header */}
+      <header className="border-b border-white/20 p-4">
+        <div className="container mx-auto flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <Link href="/admin" className="text-white hover:text-blue-300">
+              <ArrowLeft className="h-6 w-6" />
+            </Link>
+            <h1 className="text-2xl font-bold text-white">Balance Reconciliation</h1>
+          </div>
+          <button
+            onClick={runReport}
+            disabled={isRunning}
+            className="jarvis-button px-4 py-2 rounded-lg text-white font-semibold flex items-center space-x-2 disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${isRunning ? 'animate-spin' : ''}`} />
+            <span>Run Dry Run</span>
+          </button>
+        </div>
+      </header>
+
+      <div className="container mx-auto p-6">
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-4 mb-6 text-red-300">{error}</div>
+        )}
+        {success && (
+          <div className="bg-green-500/20 border border-green-500/50 rounded-lg p-4 mb-6 text-green-300">{success}</div>
+        )}
+
+        {/* Statistics */}
+        {report && (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+            <div className="jarvis-card rounded-xl p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-gray-400 text-sm">Users Checked</p>
+                  <p className="text-2xl font-bold text-white">{report.usersChecked}</p>
+                </div>
+                <Scale className="h-8 w-8 text-blue-400" />
+              </div>
+            </div>
+            <div className="jarvis-card rounded-xl p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-gray-400 text-sm">Discrepancies</p>
+                  <p className="text-2xl font-bold text-yellow-400">{report.discrepancies.length}</p>
+                </div>
+                <AlertTriangle className="h-8 w-8 text-yellow-400" />
+              </div>
+            </div>
+            <div className="jarvis-card rounded-xl p-4">
+              <p className="text-gray-400 text-sm">Main Wallet Net Delta</p>
+              <p className={`text-2xl font-bold ${report.totals.mainWalletDelta >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                ${report.totals.mainWalletDelta.toFixed(2)}
+              </p>
+            </div>
+            <div className="jarvis-card rounded-xl p-4">
+              <p className="text-gray-400 text-sm">Fund Wallet Net Delta</p>
+              <p className={`text-2xl font-bold ${report.totals.fundWalletDelta >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                ${report.totals.fundWalletDelta.toFixed(2)}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Last apply results */}
+        {results.length > 0 && (
+          <div className="jarvis-card rounded-2xl p-6 mb-6">
+            <h3 className="text-white font-bold text-lg mb-4">Last Correction Run</h3>
+            <div className="space-y-2 text-sm">
+              {results.map(result => (
+                <div key={keyFor(result)} className="flex items-center justify-between bg-white/5 rounded-lg p-3">
+                  <span className="text-gray-300 font-mono">{result.userId} · {walletLabel(result.wallet)}</span>
+                  <span className={
+                    result.status === 'applied' ? 'text-green-400' :
+                    result.status === 'stale' ? 'text-yellow-400' : 'text-red-400'
+                  }>
+                    {result.status}{result.error ? `: ${result.error}` : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Discrepancies */}
+        <div className="jarvis-card rounded-2xl p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-xl font-bold text-white">Proposed Corrections</h2>
+            {report && report.discrepancies.length > 0 && (
+              <div className="flex items-center space-x-4">
+                <button onClick={toggleAll} className="text-blue-300 hover:text-blue-200 text-sm">
+                  {selected.size === report.discrepancies.length ? 'Clear selection' : 'Select all'}
+                </button>
+                <button
+                  onClick={handleApply}
+                  disabled={selected.size === 0 || isApplying}
+                  className="bg-green-600 hover:bg-green-700 px-4 py-2 rounded-lg text-white font-semibold disabled:opacity-50"
+                >
+                  {isApplying ? 'Applying...' : `Approve ${selected.size} Selected`}
+                </button>
+              </div>
+            )}
+          </div>
+
+          {!report || report.discrepancies.length === 0 ? (
+            <div className="text-center py-8">
+              <CheckCircle className="h-16 w-16 text-green-400 mx-auto mb-4" />
+              <p className="text-gray-300">All balances match the transaction history</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {report.discrepancies.map((discrepancy) => (
+                <div key={keyFor(discrepancy)} className="bg-white/5 rounded-lg p-4 border border-white/10">
+                  <div className="flex items-start gap-4">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(keyFor(discrepancy))}
+                      onChange={() => toggle(discrepancy)}
+                      className="mt-1"
+                    />
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-4 mb-3">
+                        <div>
+                          <p className="text-white font-semibold">{discrepancy.fullName || 'N/A'}</p>
+                          <p className="text-gray-400 text-xs font-mono">{discrepancy.userId}</p>
+                        </div>
+                        <div className="px-3 py-1 rounded-full text-xs font-semibold text-blue-400 bg-blue-400/20">
+                          {walletLabel(discrepancy.wallet)}
+                        </div>
+                      </div>
+
+                      <div className="grid grid-cols-2 md:grid-cols-6 gap-4 text-sm">
+                        <div>
+                          <p className="text-gray-400">Current</p>
+                          <p className="text-white">${discrepancy.currentBalance.toFixed(2)}</p>
+                        </div>
+                        <div>
+                          <p className="text-gray-400">Expected</p>
+                          <p className="text-white">${discrepancy.expectedBalance.toFixed(2)}</p>
+                        </div>
+                        <div>
+                          <p className="text-gray-400">Correction</p>
+                          <p className={discrepancy.delta >= 0 ? 'text-green-400 font-semibold' : 'text-red-400 font-semibold'}>
+                            {discrepancy.delta >= 0 ? '+' : ''}{discrepancy.delta.toFixed(8)}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-gray-400">Transactions</p>
+                          <p className="text-gray-300">${discrepancy.breakdown.fromTransactions.toFixed(2)}</p>
+                        </div>
+                        <div>
+                          <p className="text-gray-400">Profits</p>
+                          <p className="text-gray-300">${discrepancy.breakdown.fromProfitDistributions.toFixed(2)}</p>
+                        </div>
+                        <div>
+                          <p className="text-gray-400">Commissions</p>
+                          <p className="text-gray-300">${discrepancy.breakdown.fromReferralCommissions.toFixed(2)}</p>
+                        </div>
+                      </div>
+
+                      {(discrepancy.missingProfitTransactions > 0 || discrepancy.missingCommissionTransactions > 0) && (
+                        <p className="text-yellow-400 text-xs mt-3">
+                          {discrepancy.missingProfitTransactions > 0 && `$${discrepancy.missingProfitTransactions.toFixed(2)} of profit distributions without a profit transaction. `}
+                          {discrepancy.missingCommissionTransactions > 0 && `$${discrepancy.missingCommissionTransactions.toFixed(2)} of commissions without a bonus transaction.`}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,192 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/components/providers/AuthProvider'
+import { useRouter } from 'next/navigation'
+import { createSupabaseClient } from '@/lib/supabase'
+import { QualificationDecision } from '@/lib/commission-schedules'
+import { ArrowLeft, Search } from 'lucide-react'
+import Link from 'next/link'
+
+const OUTCOME_STYLES: Record<QualificationDecision['outcome'], string> = {
+  paid: 'bg-green-500/20 text-green-300',
+  rolled_up: 'bg-blue-500/20 text-blue-300',
+  skipped: 'bg-yellow-500/20 text-yellow-300',
+  forfeited: 'bg-red-500/20 text-red-300'
+}
+
+export default function ReferralDecisionsAdmin() {
+  const { user, loading } = useAuth()
+  const router = useRouter()
+  const supabase = createSupabaseClient()
+  const [isLoading, setIsLoading] = useState(true)
+  const [decisions, setDecisions] = useState<QualificationDecision[]>([])
+  const [userId, setUserId] = useState('')
+  const [transactionId, setTransactionId] = useState('')
+  const [error, setError] = useState('')
+
+  const fetchDecisions = useCallback(async (filters: { userId?: string, transactionId?: string } = {}) => {
+    setError('')
+    try {
+      const params = new URLSearchParams()
+      if (filters.userId) params.set('userId', filters.userId)
+      if (filters.transactionId) params.set('transactionId', filters.transactionId)
+
+      const response = await fetch(`/api/admin/referral-decisions?${params.toString()}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch referral decisions')
+      }
+
+      setDecisions(data.decisions)
+    } catch (error: any) {
+      console.error('Error fetching referral decisions:', error)
+      setError(error.message || 'Failed to fetch referral decisions')
+    }
+  }, [])
+
+  const checkAdminAndFetch = useCallback(async () => {
+    try {
+      const { data: profile, error } = await supabase
+        .from('profiles')
+        .select('is_admin')
+        .eq('id', user?.id)
+        .single()
+
+      if (error || !profile?.is_admin) {
+        router.push('/dashboard')
+        return
+      }
+
+      await fetchDecisions()
+    } catch (error) {
+      console.error('Error checking admin access:', error)
+      router.push('/dashboard')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [user?.id, supabase, router, fetchDecisions])
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth/signin')
+    } else if (user) {
+      checkAdminAndFetch()
+    }
+  }, [user, loading, checkAdminAndFetch])
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    fetchDecisions({ userId: userId.trim(), transactionId: transactionId.trim() })
+  }
+
+  if (loading || isLoading) {
+    return (
+      <div className="min-h-screen jarvis-gradient flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-white"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen jarvis-gradient">
+      {/* Header */}
+      <header className="border-b border-white/20 p-4">
+        <div className="container mx-auto flex items-center space-x-4">
+          <Link href="/admin" className="text-white hover:text-blue-300">
+            <ArrowLeft className="h-6 w-6" />
+          </Link>
+          <h1 className="text-2xl font-bold text-white">Referral Payout Decisions</h1>
+        </div>
+      </header>
+
+      <div className="container mx-auto p-6">
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-4 mb-6 text-red-300">{error}</div>
+        )}
+
+        <div className="jarvis-card rounded-2xl p-6">
+          <p className="text-gray-400 text-sm mb-4">
+            Every referral commission level is checked against the schedule&apos;s qualification rules at payout time. Search by a user (referred user, upline or recipient) or by the source transaction.
+          </p>
+
+          <form onSubmit={handleSearch} className="flex flex-wrap gap-3 mb-6">
+            <input
+              type="text"
+              placeholder="User ID"
+              value={userId}
+              onChange={(e) => setUserId(e.target.value)}
+              className="flex-1 min-w-[16rem] px-3 py-2 bg-white/10 border border-white/20 rounded text-white"
+            />
+            <input
+              type="text"
+              placeholder="Source transaction ID"
+              value={transactionId}
+              onChange={(e) => setTransactionId(e.target.value)}
+              className="flex-1 min-w-[16rem] px-3 py-2 bg-white/10 border border-white/20 rounded text-white"
+            />
+            <button
+              type="submit"
+              className="jarvis-button px-4 py-2 rounded-lg text-white font-semibold flex items-center space-x-2"
+            >
+              <Search className="h-4 w-4" />
+              <span>Search</span>
+            </button>
+          </form>
+
+          {decisions.length === 0 ? (
+            <p className="text-gray-400">No decisions found.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-gray-400 text-left border-b border-white/10">
+                    <th className="py-3 pr-4">Date</th>
+                    <th className="py-3 pr-4">Source Transaction</th>
+                    <th className="py-3 pr-4">Level</th>
+                    <th className="py-3 pr-4">Upline</th>
+                    <th className="py-3 pr-4">Outcome</th>
+                    <th className="py-3 pr-4">Paid To</th>
+                    <th className="py-3 pr-4">Commission</th>
+                    <th className="py-3">Reason</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {decisions.map((decision) => (
+                    <tr key={decision.id} className="border-b border-white/5 align-top">
+                      <td className="py-3 pr-4 text-gray-300">{new Date(decision.created_at).toLocaleString()}</td>
+                      <td className="py-3 pr-4 text-gray-300 font-mono text-xs">{decision.source_transaction_id}</td>
+                      <td className="py-3 pr-4 text-white">{decision.level}</td>
+                      <td className="py-3 pr-4 text-gray-300 font-mono text-xs">{decision.referrer_id || '-'}</td>
+                      <td className="py-3 pr-4">
+                        <span className={`text-xs px-2 py-0.5 rounded ${OUTCOME_STYLES[decision.outcome]}`}>
+                          {decision.outcome.replace('_', ' ')}
+                        </span>
+                      </td>
+                      <td className="py-3 pr-4 text-gray-300 font-mono text-xs">{decision.paid_to || '-'}</td>
+                      <td className="py-3 pr-4 text-white">
+                        ${decision.usdt_commission.toFixed(2)}
+                        {decision.jrc_commission > 0 && <span className="text-yellow-400"> + {decision.jrc_commission.toLocaleString()} JRC</span>}
+                      </td>
+                      <td className="py-3 text-gray-400">
+                        {decision.reason || 'Qualified'}
+                        {Object.keys(decision.metrics).length > 0 && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            {decision.metrics.direct_referrals !== undefined && `Directs: ${decision.metrics.direct_referrals} `}
+                            {decision.metrics.active_investment !== undefined && `Own: $${Number(decision.metrics.active_investment).toFixed(2)} `}
+                            {decision.metrics.team_volume !== undefined && `Team: $${Number(decision.metrics.team_volume).toFixed(2)}`}
+                          </p>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,207 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/components/providers/AuthProvider'
+import { useRouter } from 'next/navigation'
+import { createSupabaseClient } from '@/lib/supabase'
+import { ArrowLeft, Save } from 'lucide-react'
+import Link from 'next/link'
+
+interface StakingTerms {
+  period_days: number
+  label: string
+  apy: number
+  daily_percentage: number
+  min_amount: number
+  is_active: boolean
+  early_unstake_enabled: boolean
+  early_unstake_penalty_percentage: number
+  early_unstake_forfeit_rewards: boolean
+}
+
+export default function StakingTermsAdmin() {
+  const { user, loading } = useAuth()
+  const router = useRouter()
+  const supabase = createSupabaseClient()
+  const [isLoading, setIsLoading] = useState(true)
+  const [savingPeriod, setSavingPeriod] = useState<number | null>(null)
+  const [terms, setTerms] = useState<StakingTerms[]>([])
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+
+  const fetchTerms = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/staking-terms')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch staking terms')
+      }
+
+      setTerms(data.terms)
+    } catch (error: any) {
+      console.error('Error fetching staking terms:', error)
+      setError(error.message || 'Failed to fetch staking terms')
+    }
+  }, [])
+
+  const checkAdminAndFetch = useCallback(async () => {
+    try {
+      const { data: profile, error } = await supabase
+        .from('profiles')
+        .select('is_admin')
+        .eq('id', user?.id)
+        .single()
+
+      if (error || !profile?.is_admin) {
+        router.push('/dashboard')
+        return
+      }
+
+      await fetchTerms()
+    } catch (error) {
+      console.error('Error checking admin access:', error)
+      router.push('/dashboard')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [user?.id, supabase, router, fetchTerms])
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth/signin')
+    } else if (user) {
+      checkAdminAndFetch()
+    }
+  }, [user, loading, checkAdminAndFetch])
+
+  const updateField = (periodDays: number, changes: Partial<StakingTerms>) => {
+    setTerms(prev => prev.map(t => t.period_days === periodDays ? { ...t, ...changes } : t))
+  }
+
+  const handleSave = async (term: StakingTerms) => {
+    setSavingPeriod(term.period_days)
+    setError('')
+    setSuccess('')
+    try {
+      const response = await fetch('/api/admin/staking-terms', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          periodDays: term.period_days,
+          earlyUnstakeEnabled: term.early_unstake_enabled,
+          penaltyPercentage: term.early_unstake_penalty_percentage,
+          forfeitRewards: term.early_unstake_forfeit_rewards
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save staking terms')
+      }
+
+      setSuccess(data.message)
+      await fetchTerms()
+    } catch (error: any) {
+      setError(error.message || 'Failed to save staking terms')
+    } finally {
+      setSavingPeriod(null)
+    }
+  }
+
+  if (loading || isLoading) {
+    return (
+      <div className="min-h-screen jarvis-gradient flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-white"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen jarvis-gradient">
+      {/* Header */}
+      <header className="border-b border-white/20 p-4">
+        <div className="container mx-auto flex items-center space-x-4">
+          <Link href="/admin" className="text-white hover:text-blue-300">
+            <ArrowLeft className="h-6 w-6" />
+          </Link>
+          <h1 className="text-2xl font-bold text-white">Staking Terms</h1>
+        </div>
+      </header>
+
+      <div className="container mx-auto p-6">
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-4 mb-6 text-red-300">{error}</div>
+        )}
+        {success && (
+          <div className="bg-green-500/20 border border-green-500/50 rounded-lg p-4 mb-6 text-green-300">{success}</div>
+        )}
+
+        <div className="jarvis-card rounded-2xl p-6">
+          <h2 className="text-xl font-bold text-white mb-2">Early Unstake Penalties</h2>
+          <p className="text-gray-400 text-sm mb-6">
+            The penalty is taken from the principal. When rewards are forfeited, rewards already paid on the stake are also deducted from the amount returned.
+          </p>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 text-left border-b border-white/10">
+                  <th className="py-3 pr-4">Period</th>
+                  <th className="py-3 pr-4">Daily Rate</th>
+                  <th className="py-3 pr-4">Early Unstake</th>
+                  <th className="py-3 pr-4">Penalty (% of principal)</th>
+                  <th className="py-3 pr-4">Forfeit Rewards</th>
+                  <th className="py-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {terms.map((term) => (
+                  <tr key={term.period_days} className="border-b border-white/5">
+                    <td className="py-3 pr-4 text-white font-semibold">{term.label}</td>
+                    <td className="py-3 pr-4 text-gray-300">{Number(term.daily_percentage)}%</td>
+                    <td className="py-3 pr-4">
+                      <input
+                        type="checkbox"
+                        checked={term.early_unstake_enabled}
+                        onChange={(e) => updateField(term.period_days, { early_unstake_enabled: e.target.checked })}
+                      />
+                    </td>
+                    <td className="py-3 pr-4">
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.01"
+                        value={term.early_unstake_penalty_percentage}
+                        onChange={(e) => updateField(term.period_days, { early_unstake_penalty_percentage: parseFloat(e.target.value) })}
+                        className="w-24 px-3 py-1 bg-white/10 border border-white/20 rounded text-white"
+                      />
+                    </td>
+                    <td className="py-3 pr-4">
+                      <input
+                        type="checkbox"
+                        checked={term.early_unstake_forfeit_rewards}
+                        onChange={(e) => updateField(term.period_days, { early_unstake_forfeit_rewards: e.target.checked })}
+                      />
+                    </td>
+                    <td className="py-3 text-right">
+                      <button
+                        onClick={() => handleSave(term)}
+                        disabled={savingPeriod === term.period_days}
+                        className="jarvis-button px-4 py-1 rounded-lg text-white font-semibold flex items-center space-x-2 disabled:opacity-50"
+                      >
+                        <Save className="h-4 w-4" />
+                        <span>{savingPeriod === term.period_days ? 'Saving...' : 'Save'}</span>
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -77,6 +77,7 @@ export default function AdminTransactionsPage() {
     { value: 'all', label: 'All Types' },
     { value: 'deposit', label: 'Deposits' },
     { value: 'investment', label: 'Investments' },
+    { value: 'main_wallet_investment', label: 'Investments (Main Wallet)' },
     { value: 'staking', label: 'Staking' },
     { value: 'withdrawal', label: 'Withdrawals' },
     { value: 'profit', label: 'Profits' },
@@ -285,7 +286,8 @@ export default function AdminTransactionsPage() {
   const getTypeColor = (type: string) => {
     switch (type) {
       case 'deposit': return 'text-green-400'
-      case 'investment': return 'text-cyan-400'
+      case 'investment':
+      case 'main_wallet_investment': return 'text-cyan-400'
       case 'staking': return 'text-indigo-400'
       case 'withdrawal': return 'text-red-400'
       case 'profit': return 'text-blue-400'
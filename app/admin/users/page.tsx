@@ -358,29 +358,18 @@ export default function UsersManagement() {
 
   const handleUserAction = async (userId: string, action: 'ban' | 'unban' | 'make_admin' | 'remove_admin') => {
     try {
-      let updateData: any = {}
-
-      switch (action) {
-        case 'ban':
-          updateData = { is_banned: true }
-          break
-        case 'unban':
-          updateData = { is_banned: false }
-          break
-        case 'make_admin':
-          updateData = { is_admin: true }
-          break
-        case 'remove_admin':
-          updateData = { is_admin: false }
-          break
-      }
+      // The flags are guarded in the database, so they are changed through the admin API
+      const response = await fetch('/api/admin/users', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ userId, action }),
+      })
 
-      const { error } = await supabase
-        .from('profiles')
-        .update(updateData)
-        .eq('id', userId)
+      const result = await response.json()
 
-      if (error) throw error
+      if (!response.ok || !result.success) throw new Error(result.error || 'Unknown error')
 
       await fetchUsers()
       const actionText = action === 'remove_admin' ? 'removed admin privileges from' : action.replace('_', ' ') + 'ned'
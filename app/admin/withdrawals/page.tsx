@@ -18,7 +18,9 @@ import {
     Calendar,
     AlertCircle,
     Loader2,
-    Wallet
+    Wallet,
+    Send,
+    Layers
 } from 'lucide-react'
 import Link from 'next/link'
 
@@ -27,8 +29,12 @@ interface WithdrawalRequest {
     user_id: string
     amount: number
     wallet_address: string
-    status: 'pending' | 'approved' | 'rejected'
+    status: 'pending' | 'processing' | 'approved' | 'rejected'
     tx_hash?: string
+    fee?: number | null
+    net_amount?: number | null
+    requires_review?: boolean
+    review_reason?: string | null
     admin_notes?: string
     processed_by?: string
     processed_at?: string
@@ -41,6 +47,16 @@ interface WithdrawalRequest {
     }
 }
 
+interface WithdrawalPayout {
+    id: string
+    withdrawal_request_id: string
+    status: 'queued' | 'broadcast' | 'confirmed' | 'failed'
+    tx_hash: string | null
+    confirmations: number
+    last_error: string | null
+    created_at: string
+}
+
 export default function WithdrawalsPage() {
     const { user, loading } = useAuth()
     const router = useRouter()
@@ -57,6 +73,14 @@ export default function WithdrawalsPage() {
     const [txHash, setTxHash] = useState('')
     const [isProcessing, setIsProcessing] = useState(false)
     const [userEmails, setUserEmails] = useState<{ [key: string]: string }>({})
+    // Latest on-chain payout per withdrawal request (WITHDRAWAL_PAYOUT_MODE=onchain)
+    const [payouts, setPayouts] = useState<{ [requestId: string]: WithdrawalPayout }>({})
+    const [payoutMode, setPayoutMode] = useState<'manual' | 'onchain'>('manual')
+    const [requiredConfirmations, setRequiredConfirmations] = useState(0)
+    const [isRunningPayouts, setIsRunningPayouts] = useState(false)
+    // Pending requests picked for "Pay Selected" (one MultiSend batch)
+    const [selectedIds, setSelectedIds] = useState<string[]>([])
+    const [isPayingBatch, setIsPayingBatch] = useState(false)
 
     const supabase = createSupabaseClient()
 
@@ -91,6 +115,7 @@ export default function WithdrawalsPage() {
             setIsAdmin(true)
             await fetchWithdrawalRequests()
             await fetchUserEmails()
+            await fetchPayouts()
         } catch (error) {
             console.error('Error checking admin access:', error)
             router.push('/dashboard')
@@ -109,6 +134,101 @@ export default function WithdrawalsPage() {
         }
     }
 
+    const fetchPayouts = async () => {
+        try {
+            const response = await fetch('/api/admin/withdrawal-payouts')
+            const data = await response.json()
+            if (!response.ok) return
+
+            const latest: { [requestId: string]: WithdrawalPayout } = {}
+            // Newest first, so keep the first payout seen for each request
+            for (const payout of data.payouts as WithdrawalPayout[]) {
+                if (!latest[payout.withdrawal_request_id]) {
+                    latest[payout.withdrawal_request_id] = payout
+                }
+            }
+            setPayouts(latest)
+            setPayoutMode(data.mode)
+            setRequiredConfirmations(data.requiredConfirmations)
+        } catch (error) {
+            console.error('Error fetching withdrawal payouts:', error)
+        }
+    }
+
+    const runPayoutQueue = async () => {
+        setIsRunningPayouts(true)
+        try {
+            const response = await fetch('/api/admin/withdrawal-payouts', { method: 'POST' })
+            const data = await response.json()
+            alert(response.ok ? data.message : `Error: ${data.error}`)
+            await fetchWithdrawalRequests()
+            await fetchPayouts()
+        } catch (error) {
+            console.error('Error processing payouts:', error)
+            alert('Failed to process payouts')
+        } finally {
+            setIsRunningPayouts(false)
+        }
+    }
+
+    const toggleSelected = (requestId: string) => {
+        setSelectedIds(prev => prev.includes(requestId)
+            ? prev.filter(id => id !== requestId)
+            : [...prev, requestId])
+    }
+
+    const payablePending = filteredRequests.filter(request => request.status === 'pending')
+
+    const toggleSelectAll = () => {
+        const allSelected = payablePending.length > 0 && payablePending.every(request => selectedIds.includes(request.id))
+        setSelectedIds(allSelected ? [] : payablePending.map(request => request.id))
+    }
+
+    const paySelected = async () => {
+        const selected = requests.filter(request => selectedIds.includes(request.id) && request.status === 'pending')
+        if (selected.length === 0) return
+
+        const total = selected.reduce((sum, request) => sum + (request.net_amount ?? request.amount), 0)
+        if (!confirm(`Pay ${selected.length} withdrawal(s) totalling $${total.toFixed(2)} USDT in one transaction?`)) return
+
+        setIsPayingBatch(true)
+        try {
+            const response = await fetch('/api/admin/withdrawal-payouts/batch', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ withdrawalIds: selected.map(request => request.id) })
+            })
+            const data = await response.json()
+
+            if (!response.ok) {
+                alert(`Error: ${data.error}`)
+                return
+            }
+
+            const failures = (data.items as { withdrawalRequestId: string, status: string, reason?: string }[])
+                .filter(item => item.status === 'failed')
+                .map(item => {
+                    const request = selected.find(r => r.id === item.withdrawalRequestId)
+                    return `- ${request?.user_profile?.full_name || item.withdrawalRequestId}: ${item.reason || 'failed'}`
+                })
+
+            alert([
+                data.message,
+                data.txHash ? `TX: ${data.txHash}` : '',
+                failures.length > 0 ? `Failed:\n${failures.join('\n')}` : ''
+            ].filter(Boolean).join('\n\n'))
+
+            setSelectedIds([])
+        } catch (error) {
+            console.error('Error paying selected withdrawals:', error)
+            alert('Failed to pay selected withdrawals')
+        } finally {
+            await fetchWithdrawalRequests()
+            await fetchPayouts()
+            setIsPayingBatch(false)
+        }
+    }
+
     const fetchWithdrawalRequests = async () => {
         try {
             console.log('🔍 Fetching withdrawal requests...')
@@ -218,8 +338,8 @@ export default function WithdrawalsPage() {
     const processRequest = async () => {
         if (!selectedRequest) return
 
-        // Validate tx_hash for approval
-        if (modalAction === 'approve' && !txHash.trim()) {
+        // Validate tx_hash for approval (optional when payouts are made on-chain)
+        if (modalAction === 'approve' && !txHash.trim() && payoutMode !== 'onchain') {
             alert('Transaction Hash is required for approval.')
             return
         }
@@ -245,10 +365,13 @@ export default function WithdrawalsPage() {
             if (response.ok) {
                 // Refresh the requests list
                 await fetchWithdrawalRequests()
+                await fetchPayouts()
                 closeModal()
 
                 // Show success message
-                if (modalAction === 'approve') {
+                if (data.payoutId) {
+                    alert(`✅ ${data.message}`)
+                } else if (modalAction === 'approve') {
                     alert(`✅ Withdrawal approved successfully!\n\n💰 Net Amount: $${data.netAmount?.toFixed(2)}\n💸 Withdrawal Fee: $${data.withdrawalFee?.toFixed(2)}\n🔗 Blockchain TX: ${data.txHash}`)
                 } else {
                     alert(`✅ Withdrawal rejected successfully!`)
@@ -268,6 +391,8 @@ export default function WithdrawalsPage() {
         switch (status) {
             case 'pending':
                 return <Clock className="h-4 w-4 text-yellow-400" />
+            case 'processing':
+                return <Loader2 className="h-4 w-4 text-blue-400" />
             case 'approved':
                 return <CheckCircle className="h-4 w-4 text-green-400" />
             case 'rejected':
@@ -281,6 +406,8 @@ export default function WithdrawalsPage() {
         switch (status) {
             case 'pending':
                 return 'text-yellow-400 bg-yellow-400/20'
+            case 'processing':
+                return 'text-blue-400 bg-blue-400/20'
             case 'approved':
                 return 'text-green-400 bg-green-400/20'
             case 'rejected':
@@ -334,6 +461,26 @@ export default function WithdrawalsPage() {
                         </Link>
                         <h1 className="text-2xl font-bold text-white">Withdrawal Requests</h1>
                     </div>
+                    {payoutMode === 'onchain' && (
+                        <div className="flex items-center space-x-3">
+                            <button
+                                onClick={paySelected}
+                                disabled={isPayingBatch || selectedIds.length === 0}
+                                className="jarvis-button px-4 py-2 rounded-lg text-white font-semibold flex items-center space-x-2 disabled:opacity-50"
+                            >
+                                {isPayingBatch ? <Loader2 className="h-4 w-4 animate-spin" /> : <Layers className="h-4 w-4" />}
+                                <span>{isPayingBatch ? 'Paying...' : `Pay Selected (${selectedIds.length})`}</span>
+                            </button>
+                            <button
+                                onClick={runPayoutQueue}
+                                disabled={isRunningPayouts}
+                                className="jarvis-button px-4 py-2 rounded-lg text-white font-semibold flex items-center space-x-2 disabled:opacity-50"
+                            >
+                                {isRunningPayouts ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                                <span>{isRunningPayouts ? 'Processing...' : 'Process Payouts'}</span>
+                            </button>
+                        </div>
+                    )}
                 </div>
             </header>
 
@@ -408,6 +555,7 @@ export default function WithdrawalsPage() {
                                 >
                                     <option value="all" className="bg-gray-800">All Status</option>
                                     <option value="pending" className="bg-gray-800">Pending</option>
+                                    <option value="processing" className="bg-gray-800">Processing</option>
                                     <option value="approved" className="bg-gray-800">Approved</option>
                                     <option value="rejected" className="bg-gray-800">Rejected</option>
                                 </select>
@@ -422,6 +570,16 @@ export default function WithdrawalsPage() {
                         <table className="w-full">
                             <thead className="bg-white/5">
                                 <tr>
+                                    {payoutMode === 'onchain' && (
+                                        <th className="pl-6 py-4 text-left">
+                                            <input
+                                                type="checkbox"
+                                                checked={payablePending.length > 0 && payablePending.every(request => selectedIds.includes(request.id))}
+                                                onChange={toggleSelectAll}
+                                                title="Select all pending"
+                                            />
+                                        </th>
+                                    )}
                                     <th className="px-6 py-4 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">
                                         User
                                     </th>
@@ -445,6 +603,17 @@ export default function WithdrawalsPage() {
                             <tbody className="divide-y divide-white/10">
                                 {filteredRequests.map((request) => (
                                     <tr key={request.id} className="hover:bg-white/5">
+                                        {payoutMode === 'onchain' && (
+                                            <td className="pl-6 py-4">
+                                                {request.status === 'pending' && (
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={selectedIds.includes(request.id)}
+                                                        onChange={() => toggleSelected(request.id)}
+                                                    />
+                                                )}
+                                            </td>
+                                        )}
                                         <td className="px-6 py-4 whitespace-nowrap">
                                             <div className="flex items-center">
                                                 <User className="h-8 w-8 text-gray-400 mr-3" />
@@ -463,7 +632,7 @@ export default function WithdrawalsPage() {
                                                 ${request.amount.toFixed(2)}
                                             </div>
                                             <div className="text-sm text-gray-400">
-                                                USDT (BSC)
+                                                {request.net_amount != null ? `Net $${Number(request.net_amount).toFixed(2)} • ` : ''}USDT (BSC)
                                             </div>
                                         </td>
                                         <td className="px-6 py-4 whitespace-nowrap">
@@ -486,6 +655,34 @@ export default function WithdrawalsPage() {
                                                 {getStatusIcon(request.status)}
                                                 <span className="ml-1 capitalize">{request.status}</span>
                                             </div>
+                                            {request.requires_review && request.status === 'pending' && (
+                                                <div
+                                                    className="mt-1 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-orange-500/20 text-orange-300"
+                                                    title={request.review_reason || undefined}
+                                                >
+                                                    <AlertCircle className="h-3 w-3 mr-1" />
+                                                    Needs review
+                                                </div>
+                                            )}
+                                            {payouts[request.id] && (
+                                                <div
+                                                    className="mt-1 text-xs text-gray-400"
+                                                    title={payouts[request.id].last_error || undefined}
+                                                >
+                                                    Payout: {payouts[request.id].status}
+                                                    {payouts[request.id].status === 'broadcast' && ` (${payouts[request.id].confirmations}/${requiredConfirmations})`}
+                                                    {payouts[request.id].tx_hash && (
+                                                        <a
+                                                            href={`https://bscscan.com/tx/${payouts[request.id].tx_hash}`}
+                                                            target="_blank"
+                                                            rel="noopener noreferrer"
+                                                            className="text-blue-400 hover:text-blue-300 inline-flex items-center ml-1"
+                                                        >
+                                                            TX <ExternalLink className="h-3 w-3 ml-1" />
+                                                        </a>
+                                                    )}
+                                                </div>
+                                            )}
                                         </td>
                                         <td className="px-6 py-4 whitespace-nowrap">
                                             <div className="text-sm text-white">
@@ -605,9 +802,19 @@ export default function WithdrawalsPage() {
                                 </div>
                             )}
 
+                            {payouts[selectedRequest.id] && (
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-300 mb-1">On-chain Payout</label>
+                                    <p className="text-white capitalize">{payouts[selectedRequest.id].status}</p>
+                                    {payouts[selectedRequest.id].last_error && (
+                                        <p className="text-sm text-red-300 break-all">{payouts[selectedRequest.id].last_error}</p>
+                                    )}
+                                </div>
+                            )}
+
                             {modalAction === 'approve' && (
                                 <div>
-                                    <label className="block text-sm font-medium text-gray-300 mb-1">Transaction Hash *</label>
+                                    <label className="block text-sm font-medium text-gray-300 mb-1">Transaction Hash{payoutMode === 'onchain' ? '' : ' *'}</label>
                                     <input
                                         type="text"
                                         value={txHash}
@@ -615,7 +822,11 @@ export default function WithdrawalsPage() {
                                         placeholder="Enter blockchain transaction hash..."
                                         className="w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
                                     />
-                                    <p className="text-xs text-gray-400 mt-1">Required: Enter the TX hash from BSCScan after manual withdrawal</p>
+                                    <p className="text-xs text-gray-400 mt-1">
+                                        {payoutMode === 'onchain'
+                                            ? `Leave empty to pay automatically from the global admin wallet (completes after ${requiredConfirmations} confirmations), or enter the TX hash of a manual payment`
+                                            : 'Required: Enter the TX hash from BSCScan after manual withdrawal'}
+                                    </p>
                                 </div>
                             )}
 
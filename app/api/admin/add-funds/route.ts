@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createSupabaseServerClient } from '@/lib/supabase-server'
+import { withAdmin, AdminUser } from '@/lib/api-auth'
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic'
 
-export async function POST(request: NextRequest) {
+export const POST = withAdmin(async (request: NextRequest, admin: AdminUser) => {
   try {
     // Parse request body
     const { userId, amount, adminNotes } = await request.json()
@@ -25,6 +26,8 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
+    console.log(`Admin ${admin.id} adding ${amount} for user ${userId}`)
+
     // Call the database function to add funds
     const { data: result, error: addFundsError } = await supabase.rpc('admin_add_funds_to_user', {
       p_user_id: userId,
@@ -51,4 +54,4 @@ export async function POST(request: NextRequest) {
       error: error.message || 'Internal server error' 
     }, { status: 500 })
   }
-}
+})
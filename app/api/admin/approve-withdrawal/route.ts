@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createSupabaseServerClient, supabaseAdmin } from '@/lib/supabase-server'
 import BSCService from '@/lib/bsc-service'
 import EmailService from '@/lib/email-service'
+import { withAdmin, AdminUser } from '@/lib/api-auth'
+import { withdrawalPayoutService, WITHDRAWAL_PAYOUT_MODE, PAYOUT_CONFIRMATIONS } from '@/lib/withdrawal-payout-service'
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic'
@@ -15,9 +17,8 @@ const BSC_CONFIG = {
   privateKey: process.env.BSC_PRIVATE_KEY || ""
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAdmin(async (request: NextRequest, admin: AdminUser) => {
   try {
-    // TODO: Implement proper admin authentication
     const supabase = createSupabaseServerClient()
 
     const { withdrawalId, action, txHash } = await request.json()
@@ -42,6 +43,22 @@ export async function POST(request: NextRequest) {
     }
 
     if (action === 'approve') {
+      // On-chain mode: without a hash, approval queues an automatic payout from the global admin wallet
+      if (!txHash && WITHDRAWAL_PAYOUT_MODE === 'onchain') {
+        try {
+          const payoutId = await withdrawalPayoutService.queue(withdrawalId, admin.id)
+
+          return NextResponse.json({
+            success: true,
+            message: `Withdrawal approved. The payout is queued and completes after ${PAYOUT_CONFIRMATIONS} confirmations.`,
+            payoutId
+          })
+        } catch (error: any) {
+          console.error('Error queueing withdrawal payout:', error)
+          return NextResponse.json({ error: `Failed to queue payout: ${error.message}` }, { status: 500 })
+        }
+      }
+
       if (!txHash) {
         return NextResponse.json({ error: 'Transaction Hash is required for approval' }, { status: 400 })
       }
@@ -55,13 +72,20 @@ export async function POST(request: NextRequest) {
           txHash
         })
 
-        // Calculate fee amount (10% fee)
-        const withdrawalFee = withdrawal.amount * 0.10
+        // Fee fixed by the withdrawal policy when the request was made
+        const { data: requestTransaction } = await supabase
+          .from('transactions')
+          .select('fee')
+          .eq('reference_id', withdrawalId)
+          .eq('transaction_type', 'withdrawal')
+          .maybeSingle()
+
+        const withdrawalFee = Number(withdrawal.fee ?? requestTransaction?.fee ?? 0)
 
         // Use database function to approve withdrawal with manual blockchain hash
         const { error: approvalError } = await supabase.rpc('approve_withdrawal_request', {
           p_request_id: withdrawalId,
-          p_admin_notes: `Approved manually. User TX: ${txHash}`
+          p_admin_notes: `Approved manually by admin ${admin.id}. User TX: ${txHash}`
         })
 
         if (approvalError) throw approvalError
@@ -70,7 +94,7 @@ export async function POST(request: NextRequest) {
         await supabase
           .from('withdrawal_requests')
           .update({
-            admin_notes: `User TX: ${txHash}`
+            admin_notes: `User TX: ${txHash} (approved by ${admin.id})`
           })
           .eq('id', withdrawalId)
 
@@ -118,7 +142,7 @@ export async function POST(request: NextRequest) {
                 'USDT',
                 'success',
                 withdrawal.wallet_address,
-                `Your withdrawal of ${withdrawal.amount} USDT has been approved and processed successfully. Net amount: ${netAmount} USDT (after 10% fee). Transaction Hash: ${txHash}`
+                `Your withdrawal of ${withdrawal.amount} USDT has been approved and processed successfully. Net amount: ${netAmount} USDT (after ${withdrawalFee} USDT fee). Transaction Hash: ${txHash}`
               )
               console.log("Withdrawal approval email sent successfully")
             } else {
@@ -151,7 +175,7 @@ export async function POST(request: NextRequest) {
       // Use database function to reject withdrawal
       const { error: rejectionError } = await supabase.rpc('reject_withdrawal_request', {
         p_request_id: withdrawalId,
-        p_admin_notes: `Manually rejected by admin at ${new Date().toISOString()}`
+        p_admin_notes: `Manually rejected by admin ${admin.id} at ${new Date().toISOString()}`
       })
 
       if (rejectionError) throw rejectionError
@@ -186,4 +210,4 @@ export async function POST(request: NextRequest) {
       error: error.message || 'Failed to process withdrawal approval'
     }, { status: 500 })
   }
-}
+})
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createSupabaseServerClient, supabaseAdmin } from '@/lib/supabase-server'
 import BSCService from '@/lib/bsc-service'
+import { withAdmin, AdminUser } from '@/lib/api-auth'
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic'
@@ -14,16 +15,10 @@ const BSC_CONFIG = {
   privateKey: process.env.BSC_PRIVATE_KEY || ""
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAdmin(async (request: NextRequest, admin: AdminUser) => {
   try {
-    // TODO: Implement proper authentication
-    // For now, using a temporary solution to bypass auth issues
-    const user = { id: 'temp-user', email: 'user@temp.com' }
     const supabase = supabaseAdmin
 
-    // TODO: Add proper admin check when authentication is implemented
-    // Temporarily bypassing admin check
-
     const { action, userId, walletAddress, scanAll } = await request.json()
 
     if (!action) {
@@ -382,24 +377,11 @@ export async function POST(request: NextRequest) {
     console.error('Error in token collection API:', error)
     return NextResponse.json({ error: error.message || 'Internal server error' }, { status: 500 })
   }
-}
+})
 
 // GET endpoint to check user wallet balances
-export async function GET(request: NextRequest) {
+export const GET = withAdmin(async (request: NextRequest, admin: AdminUser) => {
   try {
-    // TODO: Implement proper authentication
-    // For now, using a temporary solution to bypass auth issues
-    const user = { id: 'temp-user', email: 'user@temp.com' }
-    const supabase = supabaseAdmin
-
-    // Check if user is admin
-    const { data: profile, error: profileError } = await supabase
-      .from('profiles')
-      .select('is_admin')
-      .eq('id', user.id)
-      .single()
-
-
     const url = new URL(request.url)
     const userId = url.searchParams.get('userId')
     const walletAddress = url.searchParams.get('walletAddress')
@@ -483,4 +465,4 @@ export async function GET(request: NextRequest) {
     console.error('Error checking wallet balance:', error)
     return NextResponse.json({ error: error.message || 'Internal server error' }, { status: 500 })
   }
-}
+})
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdmin, AdminUser } from '@/lib/api-auth'
+import { commissionScheduleService } from '@/lib/commission-schedule-service'
+import { CommissionScheduleInput, validateCommissionSchedule } from '@/lib/commission-schedules'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Errors raised by save_commission_schedule() and the freeze triggers
+const CLIENT_ERRORS = [
+  /^Commission schedules cannot be changed once in effect$/,
+  /^Commission schedule not found$/,
+  /^Effective date must be in the future$/,
+  /^Levels must be numbered /
+]
+
+function errorResponse(error: any, fallback: string) {
+  const message = error?.message || fallback
+  const status = CLIENT_ERRORS.some(pattern => pattern.test(message)) ? 400 : 500
+  return NextResponse.json({ error: message }, { status })
+}
+
+// List every schedule, past and upcoming
+export const GET = withAdmin(async () => {
+  try {
+    const schedules = await commissionScheduleService.listSchedules()
+    return NextResponse.json({ success: true, schedules })
+  } catch (error: any) {
+    console.error('Error fetching commission schedules:', error)
+    return errorResponse(error, 'Failed to fetch commission schedules')
+  }
+})
+
+// Create a schedule taking effect at a future date
+export const POST = withAdmin(async (request: NextRequest, admin: AdminUser) => {
+  try {
+    const input: CommissionScheduleInput = await request.json()
+
+    const validationError = validateCommissionSchedule(input)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const schedule = await commissionScheduleService.saveSchedule(input, admin.id)
+
+    console.log(`Admin ${admin.id} created commission schedule ${schedule.id} (${schedule.levels.length} levels, effective ${schedule.effective_from})`)
+
+    return NextResponse.json({ success: true, schedule })
+  } catch (error: any) {
+    console.error('Error creating commission schedule:', error)
+    return errorResponse(error, 'Failed to create commission schedule')
+  }
+})
+
+// Edit a schedule that is not in effect yet
+export const PUT = withAdmin(async (request: NextRequest, admin: AdminUser) => {
+  try {
+    const { id, ...input } = await request.json()
+
+    if (!id) {
+      return NextResponse.json({ error: 'Schedule ID is required' }, { status: 400 })
+    }
+
+    const validationError = validateCommissionSchedule(input)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const schedule = await commissionScheduleService.saveSchedule(input as CommissionScheduleInput, admin.id, id)
+
+    console.log(`Admin ${admin.id} updated commission schedule ${schedule.id}`)
+
+    return NextResponse.json({ success: true, schedule })
+  } catch (error: any) {
+    console.error('Error updating commission schedule:', error)
+    return errorResponse(error, 'Failed to update commission schedule')
+  }
+})
+
+// Delete a schedule that is not in effect yet
+export const DELETE = withAdmin(async (request: NextRequest, admin: AdminUser) => {
+  try {
+    const id = new URL(request.url).searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({ error: 'Schedule ID is required' }, { status: 400 })
+    }
+
+    await commissionScheduleService.deleteSchedule(id)
+
+    console.log(`Admin ${admin.id} deleted commission schedule ${id}`)
+
+    return NextResponse.json({ success: true, message: 'Commission schedule deleted' })
+  } catch (error: any) {
+    console.error('Error deleting commission schedule:', error)
+    return errorResponse(error, 'Failed to delete commission schedule')
+  }
+})
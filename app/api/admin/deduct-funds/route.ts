@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createSupabaseServerClient } from '@/lib/supabase-server'
+import { withAdmin, AdminUser } from '@/lib/api-auth'
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic'
 
-export async function POST(request: NextRequest) {
+export const POST = withAdmin(async (request: NextRequest, admin: AdminUser) => {
   try {
     // Parse request body
     const { userId, amount, adminNotes } = await request.json()
@@ -46,6 +47,8 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
+    console.log(`Admin ${admin.id} deducting ${amount} for user ${userId}`)
+
     // Call the database function to deduct funds
     const { data: result, error: deductFundsError } = await supabase.rpc('admin_deduct_funds_from_user', {
       p_user_id: userId,
@@ -72,4 +75,4 @@ export async function POST(request: NextRequest) {
       error: error.message || 'Internal server error' 
     }, { status: 500 })
   }
-}
+})
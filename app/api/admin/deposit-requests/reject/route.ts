@@ -1,13 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createSupabaseServerClient, supabaseAdmin } from '@/lib/supabase-server'
 import EmailService from '@/lib/email-service'
+import { withAdmin, AdminUser } from '@/lib/api-auth'
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic'
 
-export async function POST(request: NextRequest) {
+export const POST = withAdmin(async (request: NextRequest, admin: AdminUser) => {
   try {
-    // TODO: Implement proper admin authentication
     const supabase = createSupabaseServerClient()
 
     const { requestId, adminNotes } = await request.json()
@@ -42,7 +42,7 @@ export async function POST(request: NextRequest) {
     const { data: result, error: rejectError } = await supabase
       .rpc('reject_manual_deposit', {
         p_request_id: requestId,
-        p_admin_id: null, // TODO: Get actual admin ID from session
+        p_admin_id: admin.id,
         p_admin_notes: adminNotes || null
       })
 
@@ -94,4 +94,4 @@ export async function POST(request: NextRequest) {
       error: error.message || "Failed to reject deposit request"
     }, { status: 500 })
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdmin, AdminUser } from '@/lib/api-auth'
+import { depositVerificationService } from '@/lib/deposit-verification-service'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Verify pending deposit requests now, or one request again with { requestId }
+export const POST = withAdmin(async (request: NextRequest, admin: AdminUser) => {
+  try {
+    const { requestId } = await request.json().catch(() => ({}))
+
+    if (requestId) {
+      const result = await depositVerificationService.reverify(requestId)
+      const messages = {
+        approved: 'Deposit verified on-chain and approved',
+        verified: 'Deposit verified on-chain',
+        flagged: `Deposit flagged: ${result.code} - ${result.detail}`,
+        waiting: 'Transaction is not confirmed yet, it will be checked again'
+      }
+
+      return NextResponse.json({ success: true, message: messages[result.outcome], ...result })
+    }
+
+    const result = await depositVerificationService.verifyPending()
+
+    return NextResponse.json({
+      success: true,
+      message: `Checked ${result.checked}: approved ${result.approved}, verified ${result.verified}, flagged ${result.flagged}, awaiting confirmations ${result.waiting}`,
+      ...result
+    })
+  } catch (error: any) {
+    console.error('Error verifying deposit requests:', error)
+    const message = error.message || 'Failed to verify deposit requests'
+    const status = /not found or already processed/i.test(message) ? 404 : 500
+    return NextResponse.json({ error: message }, { status })
+  }
+})
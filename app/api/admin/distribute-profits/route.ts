@@ -1,26 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createSupabaseServerClient, supabaseAdmin } from '@/lib/supabase-server'
+import { supabaseAdmin } from '@/lib/supabase-server'
 import { distributeProfits } from '@/lib/profit-distribution'
+import { withAdmin, AdminUser } from '@/lib/api-auth'
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic'
 
-export async function POST(request: NextRequest) {
+export const POST = withAdmin(async (request: NextRequest, admin: AdminUser) => {
   try {
-    // TODO: Implement proper authentication
-    // For now, using a temporary solution to bypass auth issues
-    const user = { id: 'temp-user', email: 'user@temp.com' }
-    const supabase = supabaseAdmin
-
-    // Check if user is admin
-    const { data: profile, error: profileError } = await supabase
-      .from('profiles')
-      .select('is_admin')
-      .eq('id', user.id)
-      .single()
-
-
-    console.log('Admin triggered profit distribution:', user.id)
+    console.log('Admin triggered profit distribution:', admin.id)
 
     // Trigger profit distribution
     await distributeProfits()
@@ -37,27 +25,13 @@ export async function POST(request: NextRequest) {
       error: error.message || 'Failed to distribute profits' 
     }, { status: 500 })
   }
-}
+})
 
 // GET endpoint to check profit distribution status
-export async function GET(request: NextRequest) {
+export const GET = withAdmin(async (request: NextRequest, admin: AdminUser) => {
   try {
-    // TODO: Implement proper authentication
-    // For now, using a temporary solution to bypass auth issues
-    const user = { id: 'temp-user', email: 'user@temp.com' }
     const supabase = supabaseAdmin
 
-    // Check if user is admin
-    const { data: profile, error: profileError } = await supabase
-      .from('profiles')
-      .select('is_admin')
-      .eq('id', user.id)
-      .single()
-
-    if (profileError || !profile?.is_admin) {
-      return NextResponse.json({ error: 'Admin privileges required' }, { status: 403 })
-    }
-
     // Get recent profit distributions
     const { data: recentDistributions, error: distributionError } = await supabase
       .from('profit_distributions')
@@ -100,4 +74,4 @@ export async function GET(request: NextRequest) {
       error: error.message || 'Failed to fetch distribution status' 
     }, { status: 500 })
   }
-}
+})
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase-server'
 import BSCService from '@/lib/bsc-service'
+import { withAdmin, AdminUser } from '@/lib/api-auth'
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic'
@@ -14,7 +15,7 @@ const BSC_CONFIG = {
   privateKey: process.env.BSC_PRIVATE_KEY || ""
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAdmin(async (request: NextRequest, admin: AdminUser) => {
   try {
     console.log('🚀 Starting BSC wallet generation for users without wallets...')
 
@@ -120,10 +121,10 @@ export async function POST(request: NextRequest) {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-}
+})
 
 // GET endpoint to check how many users need BSC wallets
-export async function GET(request: NextRequest) {
+export const GET = withAdmin(async (request: NextRequest, admin: AdminUser) => {
   try {
     // Count profiles without BSC wallet addresses
     const { data: profiles, error: profileError } = await supabaseAdmin
@@ -154,4 +155,4 @@ export async function GET(request: NextRequest) {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-}
+})
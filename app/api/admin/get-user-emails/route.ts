@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase-server'
+import { withAdmin, AdminUser } from '@/lib/api-auth'
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic'
 
-export async function POST(request: NextRequest) {
+export const POST = withAdmin(async (request: NextRequest, admin: AdminUser) => {
   try {
     const { userIds } = await request.json()
     
@@ -48,4 +49,4 @@ export async function POST(request: NextRequest) {
       error: error.message || 'Internal server error' 
     }, { status: 500 })
   }
-}
+})
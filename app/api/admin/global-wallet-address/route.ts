@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { depositNetworkService } from '@/lib/deposit-networks'
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic'
 
 export async function GET(request: NextRequest) {
   try {
-    // Get the global admin wallet address from environment variables
-    const globalWalletAddress = "0x93888070e168617deb78670d00211eaf10899a28"
+    // BEP20 deposit address from the network registry; /api/deposit/networks lists every network
+    const option = await depositNetworkService.getOption('BEP20', 'USDT')
+    const globalWalletAddress = option && depositNetworkService.getDepositAddress(option.network)
 
     if (!globalWalletAddress) {
       return NextResponse.json({
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createSupabaseServerClient } from '@/lib/supabase-server'
+import { withAdmin, AdminUser } from '@/lib/api-auth'
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic'
 
-export async function POST(request: NextRequest) {
+export const POST = withAdmin(async (request: NextRequest, admin: AdminUser) => {
   try {
     // Parse request body
     const { userId, amount, action, adminNotes } = await request.json()
@@ -55,6 +56,8 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    console.log(`Admin ${admin.id} ${action === 'add' ? 'adding' : 'deducting'} ${amount} JRC for user ${userId}`)
+
     // Call the appropriate database function based on action
     const functionName = action === 'add' ? 'admin_add_jarvis_tokens' : 'admin_deduct_jarvis_tokens'
     const { data: result, error: tokenError } = await supabase.rpc(functionName, {
@@ -82,4 +85,4 @@ export async function POST(request: NextRequest) {
       error: error.message || 'Internal server error' 
     }, { status: 500 })
   }
-}
+})
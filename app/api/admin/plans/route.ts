@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdmin, AdminUser } from '@/lib/api-auth'
+import { planCatalogueService } from '@/lib/plan-catalogue-service'
+import { PlanTermsInput, validatePlanTerms } from '@/lib/investment-plans'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Lifecycle errors raised by the catalogue triggers and functions
+const CLIENT_ERRORS = [
+  /^Only draft plan versions can be/,
+  /^Retired plan versions cannot be reactivated$/,
+  /^Plan version not found/,
+  /^Plan version already exists/
+]
+
+function errorResponse(error: any, fallback: string) {
+  const message = error?.message || fallback
+  const status = CLIENT_ERRORS.some(pattern => pattern.test(message)) ? 400 : 500
+  return NextResponse.json({ error: message }, { status })
+}
+
+// List every catalogue version
+export const GET = withAdmin(async () => {
+  try {
+    const plans = await planCatalogueService.listPlans()
+    return NextResponse.json({ success: true, plans })
+  } catch (error: any) {
+    console.error('Error fetching plan catalogue:', error)
+    return errorResponse(error, 'Failed to fetch plan catalogue')
+  }
+})
+
+// Create a draft version (a new plan key, or the next version of an existing one)
+export const POST = withAdmin(async (request: NextRequest, admin: AdminUser) => {
+  try {
+    const terms: PlanTermsInput = await request.json()
+
+    const validationError = validatePlanTerms(terms)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const plan = await planCatalogueService.createVersion(terms, admin.id)
+
+    console.log(`Admin ${admin.id} created plan ${plan.plan_key} v${plan.version}`)
+
+    return NextResponse.json({ success: true, plan })
+  } catch (error: any) {
+    console.error('Error creating plan version:', error)
+    return errorResponse(error, 'Failed to create plan version')
+  }
+})
+
+// Edit a draft version
+export const PUT = withAdmin(async (request: NextRequest, admin: AdminUser) => {
+  try {
+    const { id, ...terms } = await request.json()
+
+    if (!id) {
+      return NextResponse.json({ error: 'Plan version ID is required' }, { status: 400 })
+    }
+
+    const validationError = validatePlanTerms(terms)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const plan = await planCatalogueService.updateDraft(id, terms as PlanTermsInput)
+
+    console.log(`Admin ${admin.id} updated draft plan ${plan.plan_key} v${plan.version}`)
+
+    return NextResponse.json({ success: true, plan })
+  } catch (error: any) {
+    console.error('Error updating plan version:', error)
+    return errorResponse(error, 'Failed to update plan version')
+  }
+})
+
+// Activate or retire a version
+export const PATCH = withAdmin(async (request: NextRequest, admin: AdminUser) => {
+  try {
+    const { id, action } = await request.json()
+
+    if (!id || !['activate', 'retire'].includes(action)) {
+      return NextResponse.json({ error: 'Plan version ID and action (activate or retire) are required' }, { status: 400 })
+    }
+
+    if (action === 'activate') {
+      const result = await planCatalogueService.activate(id)
+      console.log(`Admin ${admin.id} activated plan version ${id}`)
+      return NextResponse.json({ success: true, message: 'Plan version activated', ...result })
+    }
+
+    await planCatalogueService.retire(id)
+    console.log(`Admin ${admin.id} retired plan version ${id}`)
+    return NextResponse.json({ success: true, message: 'Plan version retired' })
+
+  } catch (error: any) {
+    console.error('Error changing plan status:', error)
+    return errorResponse(error, 'Failed to change plan status')
+  }
+})
+
+// Delete a draft version
+export const DELETE = withAdmin(async (request: NextRequest, admin: AdminUser) => {
+  try {
+    const id = new URL(request.url).searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({ error: 'Plan version ID is required' }, { status: 400 })
+    }
+
+    await planCatalogueService.deleteDraft(id)
+
+    console.log(`Admin ${admin.id} deleted draft plan version ${id}`)
+
+    return NextResponse.json({ success: true, message: 'Draft deleted' })
+  } catch (error: any) {
+    console.error('Error deleting plan version:', error)
+    return errorResponse(error, 'Failed to delete plan version')
+  }
+})
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdmin, AdminUser } from '@/lib/api-auth'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { resolveDistributionGaps, CATCHUP_POLICY } from '@/lib/profit-distribution'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Missed distribution days recorded by the profit distributor (open by default)
+export const GET = withAdmin(async (request: NextRequest) => {
+  try {
+    const status = new URL(request.url).searchParams.get('status') || 'open'
+
+    const { data: gaps, error } = await supabaseAdmin
+      .from('profit_distribution_gaps')
+      .select(`
+        id,
+        plan_id,
+        user_id,
+        missed_date,
+        expected_amount,
+        status,
+        flag_reason,
+        detected_at,
+        resolved_at,
+        profiles!profit_distribution_gaps_user_id_fkey(full_name)
+      `)
+      .eq('status', status)
+      .order('missed_date', { ascending: true })
+      .limit(1000)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return NextResponse.json({
+      success: true,
+      policy: CATCHUP_POLICY,
+      gaps: gaps || []
+    })
+
+  } catch (error: any) {
+    console.error('Error fetching distribution gaps:', error)
+    return NextResponse.json({
+      error: error.message || 'Failed to fetch distribution gaps'
+    }, { status: 500 })
+  }
+})
+
+// Backfill or dismiss flagged days
+export const POST = withAdmin(async (request: NextRequest, admin: AdminUser) => {
+  try {
+    const { gapIds, action } = await request.json()
+
+    if (!Array.isArray(gapIds) || gapIds.length === 0) {
+      return NextResponse.json({ error: 'At least one gap is required' }, { status: 400 })
+    }
+
+    if (!['backfill', 'dismiss'].includes(action)) {
+      return NextResponse.json({ error: 'Action must be backfill or dismiss' }, { status: 400 })
+    }
+
+    console.log(`Admin ${admin.id} resolving ${gapIds.length} distribution gaps (${action})`)
+
+    const results = await resolveDistributionGaps(gapIds, action, admin.id)
+    const resolved = results.filter(r => r.status === 'backfilled' || r.status === 'dismissed').length
+
+    return NextResponse.json({
+      success: true,
+      message: `${resolved} of ${results.length} gaps ${action === 'backfill' ? 'backfilled' : 'dismissed'}`,
+      results
+    })
+
+  } catch (error: any) {
+    console.error('Error resolving distribution gaps:', error)
+    return NextResponse.json({
+      error: error.message || 'Failed to resolve distribution gaps'
+    }, { status: 500 })
+  }
+})
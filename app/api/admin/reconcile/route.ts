@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdmin, AdminUser } from '@/lib/api-auth'
+import { reconciliationService, BalanceCorrection } from '@/lib/reconciliation-service'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Dry run: compare profile balances against transaction history
+export const GET = withAdmin(async (request: NextRequest, admin: AdminUser) => {
+  try {
+    const url = new URL(request.url)
+    const userId = url.searchParams.get('userId')
+    const tolerance = url.searchParams.get('tolerance')
+
+    console.log('Admin requested balance reconciliation:', admin.id)
+
+    const report = await reconciliationService.buildReport({
+      userIds: userId ? [userId] : undefined,
+      tolerance: tolerance ? parseFloat(tolerance) : undefined
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: report
+    })
+
+  } catch (error: any) {
+    console.error('Error building reconciliation report:', error)
+    return NextResponse.json({ 
+      error: error.message || 'Failed to build reconciliation report' 
+    }, { status: 500 })
+  }
+})
+
+// Apply admin-approved corrections from a dry run
+export const POST = withAdmin(async (request: NextRequest, admin: AdminUser) => {
+  try {
+    const { corrections } = await request.json()
+
+    if (!Array.isArray(corrections) || corrections.length === 0) {
+      return NextResponse.json({ error: 'At least one correction is required' }, { status: 400 })
+    }
+
+    const invalid = corrections.some((c: any) =>
+      !c?.userId ||
+      !['main_wallet', 'fund_wallet'].includes(c.wallet) ||
+      typeof c.delta !== 'number' ||
+      c.delta === 0
+    )
+
+    if (invalid) {
+      return NextResponse.json({ error: 'Each correction needs userId, wallet and a non-zero delta' }, { status: 400 })
+    }
+
+    console.log(`Admin ${admin.id} applying ${corrections.length} balance corrections`)
+
+    const results = await reconciliationService.applyCorrections(corrections as BalanceCorrection[], admin.id)
+
+    return NextResponse.json({
+      success: true,
+      message: `${results.filter(r => r.status === 'applied').length} of ${results.length} corrections applied`,
+      results
+    })
+
+  } catch (error: any) {
+    console.error('Error applying reconciliation corrections:', error)
+    return NextResponse.json({ 
+      error: error.message || 'Failed to apply corrections' 
+    }, { status: 500 })
+  }
+})
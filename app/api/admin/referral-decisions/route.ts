@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdmin } from '@/lib/api-auth'
+import { commissionScheduleService } from '@/lib/commission-schedule-service'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Referral commission payout decisions (paid, skipped, rolled up, forfeited) for support
+export const GET = withAdmin(async (request: NextRequest) => {
+  try {
+    const searchParams = new URL(request.url).searchParams
+    const userId = searchParams.get('userId')?.trim() || undefined
+    const sourceTransactionId = searchParams.get('transactionId')?.trim() || undefined
+    const limit = parseInt(searchParams.get('limit') || '100')
+
+    for (const id of [userId, sourceTransactionId]) {
+      if (id && !UUID_PATTERN.test(id)) {
+        return NextResponse.json({ error: 'User and transaction IDs must be UUIDs' }, { status: 400 })
+      }
+    }
+
+    const decisions = await commissionScheduleService.listQualificationDecisions({
+      userId,
+      sourceTransactionId,
+      limit: isNaN(limit) ? undefined : limit
+    })
+
+    return NextResponse.json({ success: true, decisions })
+  } catch (error: any) {
+    console.error('Error fetching referral decisions:', error)
+    return NextResponse.json({
+      error: error.message || 'Failed to fetch referral decisions'
+    }, { status: 500 })
+  }
+})
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdmin, AdminUser } from '@/lib/api-auth'
+import { supabaseAdmin } from '@/lib/supabase-server'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Staking periods with their early unstake penalty schedule
+export const GET = withAdmin(async () => {
+  try {
+    const { data: terms, error } = await supabaseAdmin
+      .from('staking_terms')
+      .select('*')
+      .order('period_days', { ascending: true })
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return NextResponse.json({ success: true, terms: terms || [] })
+  } catch (error: any) {
+    console.error('Error fetching staking terms:', error)
+    return NextResponse.json({ error: error.message || 'Failed to fetch staking terms' }, { status: 500 })
+  }
+})
+
+// Update the early unstake penalty for one period
+export const PUT = withAdmin(async (request: NextRequest, admin: AdminUser) => {
+  try {
+    const { periodDays, earlyUnstakeEnabled, penaltyPercentage, forfeitRewards } = await request.json()
+
+    const penalty = parseFloat(penaltyPercentage)
+
+    if (!periodDays) {
+      return NextResponse.json({ error: 'Staking period is required' }, { status: 400 })
+    }
+
+    if (isNaN(penalty) || penalty < 0 || penalty > 100) {
+      return NextResponse.json({ error: 'Penalty must be between 0 and 100%' }, { status: 400 })
+    }
+
+    const { data: terms, error } = await supabaseAdmin
+      .from('staking_terms')
+      .update({
+        early_unstake_enabled: Boolean(earlyUnstakeEnabled),
+        early_unstake_penalty_percentage: penalty,
+        early_unstake_forfeit_rewards: Boolean(forfeitRewards)
+      })
+      .eq('period_days', periodDays)
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    console.log(`Admin ${admin.id} set early unstake penalty for ${periodDays}-day stakes: ${penalty}%, forfeit rewards: ${Boolean(forfeitRewards)}, enabled: ${Boolean(earlyUnstakeEnabled)}`)
+
+    return NextResponse.json({
+      success: true,
+      message: `Early unstake terms updated for ${terms.label}`,
+      terms
+    })
+  } catch (error: any) {
+    console.error('Error updating staking terms:', error)
+    return NextResponse.json({ error: error.message || 'Failed to update staking terms' }, { status: 500 })
+  }
+})
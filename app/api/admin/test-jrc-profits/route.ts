@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { triggerProfitDistribution } from '@/lib/profit-distribution'
+import { withAdmin, AdminUser } from '@/lib/api-auth'
 
-export async function GET(request: NextRequest) {
+export const GET = withAdmin(async (request: NextRequest, admin: AdminUser) => {
   try {
     console.log('Manual trigger: Starting profit distribution...')
 
@@ -19,9 +20,7 @@ export async function GET(request: NextRequest) {
       error: 'Failed to distribute profits'
     }, { status: 500 })
   }
-}
+})
 
-export async function POST(request: NextRequest) {
-  // Same as GET for flexibility
-  return GET(request)
-}
+// Same as GET for flexibility
+export const POST = GET
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createSupabaseClient } from '@/lib/supabase'
+import { withAdmin, AdminUser } from '@/lib/api-auth'
 
-export async function GET(request: NextRequest) {
+export const GET = withAdmin(async (request: NextRequest, admin: AdminUser) => {
   try {
     const supabase = createSupabaseClient()
 
@@ -76,9 +77,7 @@ export async function GET(request: NextRequest) {
       error: error.message || 'Failed to test JRC staking system' 
     }, { status: 500 })
   }
-}
+})
 
-export async function POST(request: NextRequest) {
-  // Same as GET for flexibility
-  return GET(request)
-}
+// Same as GET for flexibility
+export const POST = GET
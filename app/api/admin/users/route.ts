@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { withAdmin, AdminUser } from '@/lib/api-auth'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// is_admin / is_banned can only be written with the service role (add_admin_flag_guard.sql)
+const USER_ACTIONS: Record<string, { is_admin?: boolean, is_banned?: boolean }> = {
+  ban: { is_banned: true },
+  unban: { is_banned: false },
+  make_admin: { is_admin: true },
+  remove_admin: { is_admin: false }
+}
+
+export const POST = withAdmin(async (request: NextRequest, admin: AdminUser) => {
+  try {
+    const { userId, action } = await request.json()
+
+    if (!userId || !Object.keys(USER_ACTIONS).includes(action)) {
+      return NextResponse.json({
+        error: 'User ID and a valid action are required'
+      }, { status: 400 })
+    }
+
+    const { data: profile, error } = await supabaseAdmin
+      .from('profiles')
+      .update(USER_ACTIONS[action])
+      .eq('id', userId)
+      .select('id, is_admin, is_banned')
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error updating user flags:', error)
+      return NextResponse.json({ error: 'Failed to update user' }, { status: 500 })
+    }
+
+    if (!profile) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    console.log(`Admin ${admin.id} applied ${action} to user ${userId}`)
+
+    return NextResponse.json({ success: true, data: profile })
+  } catch (error: any) {
+    console.error('Error in admin users API:', error)
+    return NextResponse.json({
+      error: error.message || 'Internal server error'
+    }, { status: 500 })
+  }
+})
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdmin, AdminUser } from '@/lib/api-auth'
+import { withdrawalPayoutService, WITHDRAWAL_PAYOUT_MODE, MAX_BATCH_SIZE } from '@/lib/withdrawal-payout-service'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+const CLIENT_ERRORS = [
+  /not found or already processed/i,
+  /no withdrawal requests selected/i
+]
+
+// "Pay selected": approve several pending withdrawals and pay them in one MultiSend transaction
+export const POST = withAdmin(async (request: NextRequest, admin: AdminUser) => {
+  if (WITHDRAWAL_PAYOUT_MODE !== 'onchain') {
+    return NextResponse.json({ error: 'On-chain payouts are disabled' }, { status: 400 })
+  }
+
+  try {
+    const { withdrawalIds } = await request.json()
+
+    if (!Array.isArray(withdrawalIds) || withdrawalIds.length === 0 ||
+        !withdrawalIds.every(id => typeof id === 'string')) {
+      return NextResponse.json({ error: 'withdrawalIds must be a non-empty list of withdrawal request IDs' }, { status: 400 })
+    }
+
+    const uniqueIds = Array.from(new Set<string>(withdrawalIds))
+    if (uniqueIds.length > MAX_BATCH_SIZE) {
+      return NextResponse.json({ error: `At most ${MAX_BATCH_SIZE} withdrawals can be paid in one batch` }, { status: 400 })
+    }
+
+    const result = await withdrawalPayoutService.payBatch(uniqueIds, admin.id)
+    const sent = result.items.filter(item => item.status === 'broadcast' || item.status === 'confirmed').length
+    const failed = result.items.filter(item => item.status === 'failed').length
+
+    let message: string
+    if (result.status === 'settled') {
+      message = `Batch mined: ${sent} paid, ${failed} failed. Paid withdrawals complete after the required confirmations.`
+    } else if (result.status === 'failed') {
+      message = `Batch failed, the withdrawals are pending again`
+    } else {
+      message = `Batch ${result.status === 'queued' ? 'queued' : 'sent'}; results will be recorded by the payout queue`
+    }
+
+    return NextResponse.json({
+      success: result.status !== 'failed',
+      message,
+      ...result
+    })
+  } catch (error: any) {
+    console.error('Error paying withdrawal batch:', error)
+    const message = error.message || 'Failed to pay selected withdrawals'
+    const status = CLIENT_ERRORS.some(pattern => pattern.test(message)) ? 400 : 500
+    return NextResponse.json({ error: message }, { status })
+  }
+})
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdmin, AdminUser } from '@/lib/api-auth'
+import { withdrawalPayoutService, PayoutStatus, WITHDRAWAL_PAYOUT_MODE, PAYOUT_CONFIRMATIONS } from '@/lib/withdrawal-payout-service'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+const STATUSES: PayoutStatus[] = ['queued', 'broadcast', 'confirmed', 'failed']
+
+// Payout jobs, optionally filtered with ?status=queued,broadcast
+export const GET = withAdmin(async (request: NextRequest, admin: AdminUser) => {
+  try {
+    const statusParam = new URL(request.url).searchParams.get('status')
+    const statuses = statusParam
+      ? statusParam.split(',').filter((s): s is PayoutStatus => STATUSES.includes(s as PayoutStatus))
+      : undefined
+
+    const payouts = await withdrawalPayoutService.list(statuses)
+
+    return NextResponse.json({
+      // Signed transactions stay server-side
+      payouts: payouts.map(({ raw_transaction, ...payout }) => payout),
+      mode: WITHDRAWAL_PAYOUT_MODE,
+      requiredConfirmations: PAYOUT_CONFIRMATIONS
+    })
+  } catch (error: any) {
+    console.error('Error fetching withdrawal payouts:', error)
+    return NextResponse.json({ error: error.message || 'Failed to fetch withdrawal payouts' }, { status: 500 })
+  }
+})
+
+// Run the queue now instead of waiting for the cron
+export const POST = withAdmin(async (request: NextRequest, admin: AdminUser) => {
+  if (WITHDRAWAL_PAYOUT_MODE !== 'onchain') {
+    return NextResponse.json({ error: 'On-chain payouts are disabled' }, { status: 400 })
+  }
+
+  try {
+    const result = await withdrawalPayoutService.processQueue()
+
+    return NextResponse.json({
+      success: true,
+      message: `Broadcast ${result.broadcast}, confirmed ${result.confirmed}, failed ${result.failed}, awaiting confirmations ${result.pending}`,
+      ...result
+    })
+  } catch (error: any) {
+    console.error('Error processing withdrawal payouts:', error)
+    return NextResponse.json({ error: error.message || 'Failed to process withdrawal payouts' }, { status: 500 })
+  }
+})
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  depositVerificationService,
+  DEPOSIT_AUTO_APPROVE,
+  DEPOSIT_AMOUNT_TOLERANCE
+} from '@/lib/deposit-verification-service'
+
+// Force dynamic rendering to ensure fresh data
+export const dynamic = 'force-dynamic'
+
+/**
+ * Manual Deposit Verification Endpoint
+ *
+ * Checks the tx_hash of every pending manual deposit request against BSC and approves
+ * (or flags) it. Only requests users already submitted are touched, so like
+ * /api/auto-profit-distribution it is safe to call from an external cron (every few
+ * minutes works well).
+ */
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+
+  try {
+    console.log('=== DEPOSIT VERIFICATION STARTED ===')
+
+    const result = await depositVerificationService.verifyPending()
+
+    console.log('=== DEPOSIT VERIFICATION COMPLETED ===', result)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Pending deposit requests verified',
+      ...result,
+      timestamp: new Date().toISOString(),
+      executionTimeMs: Date.now() - startTime
+    }, { status: 200 })
+
+  } catch (error: any) {
+    console.error('=== DEPOSIT VERIFICATION FAILED ===')
+    console.error(`Error: ${error.message}`)
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to verify deposit requests',
+      timestamp: new Date().toISOString(),
+      executionTimeMs: Date.now() - startTime
+    }, { status: 500 })
+  }
+}
+
+/**
+ * GET endpoint to check the verifier configuration
+ */
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    message: 'Deposit verification endpoint is active',
+    endpoint: '/api/auto-deposit-verification',
+    methods: ['POST', 'GET'],
+    autoApprove: DEPOSIT_AUTO_APPROVE,
+    requiredConfirmations: 'per network, see deposit_networks.min_confirmations',
+    amountTolerance: DEPOSIT_AMOUNT_TOLERANCE,
+    timestamp: new Date().toISOString()
+  }, { status: 200 })
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  depositWatcherService,
+  DEPOSIT_WATCHER_CONFIRMATIONS,
+  DEPOSIT_WATCHER_MIN_AMOUNT
+} from '@/lib/deposit-watcher-service'
+
+// Force dynamic rendering to ensure fresh data
+export const dynamic = 'force-dynamic'
+
+/**
+ * Deposit Address Watcher Endpoint
+ *
+ * Scans new BSC blocks for USDT sent to users' deposit addresses and credits the fund
+ * wallet once a transfer has enough confirmations. Progress is kept in a scan cursor and
+ * every credit happens at most once, so like /api/auto-profit-distribution it is safe to
+ * call from an external cron (every minute works well).
+ */
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+
+  try {
+    console.log('=== DEPOSIT WATCHER STARTED ===')
+
+    const result = await depositWatcherService.run()
+
+    console.log('=== DEPOSIT WATCHER COMPLETED ===', result)
+
+    return NextResponse.json({
+      success: true,
+      message: `Scanned blocks ${result.fromBlock}-${result.toBlock}`,
+      ...result,
+      timestamp: new Date().toISOString(),
+      executionTimeMs: Date.now() - startTime
+    }, { status: 200 })
+
+  } catch (error: any) {
+    console.error('=== DEPOSIT WATCHER FAILED ===')
+    console.error(`Error: ${error.message}`)
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to run deposit watcher',
+      timestamp: new Date().toISOString(),
+      executionTimeMs: Date.now() - startTime
+    }, { status: 500 })
+  }
+}
+
+/**
+ * GET endpoint to check the watcher configuration
+ */
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    message: 'Deposit watcher endpoint is active',
+    endpoint: '/api/auto-deposit-watcher',
+    methods: ['POST', 'GET'],
+    requiredConfirmations: DEPOSIT_WATCHER_CONFIRMATIONS,
+    minimumAmount: DEPOSIT_WATCHER_MIN_AMOUNT,
+    timestamp: new Date().toISOString()
+  }, { status: 200 })
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withdrawalPayoutService, WITHDRAWAL_PAYOUT_MODE, PAYOUT_CONFIRMATIONS } from '@/lib/withdrawal-payout-service'
+
+// Force dynamic rendering to ensure fresh data
+export const dynamic = 'force-dynamic'
+
+/**
+ * Withdrawal Payout Queue Endpoint
+ *
+ * Advances on-chain withdrawal payouts: broadcasts payouts an admin has approved and
+ * completes them once they have enough confirmations. Only jobs already in the queue are
+ * touched, so like /api/auto-profit-distribution it is safe to call from an external cron
+ * (every minute or two works well).
+ */
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+
+  if (WITHDRAWAL_PAYOUT_MODE !== 'onchain') {
+    return NextResponse.json({
+      success: true,
+      message: 'On-chain payouts are disabled (WITHDRAWAL_PAYOUT_MODE is not "onchain")'
+    }, { status: 200 })
+  }
+
+  try {
+    console.log('=== WITHDRAWAL PAYOUT QUEUE STARTED ===')
+
+    const result = await withdrawalPayoutService.processQueue()
+
+    console.log('=== WITHDRAWAL PAYOUT QUEUE COMPLETED ===', result)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Withdrawal payout queue processed',
+      ...result,
+      timestamp: new Date().toISOString(),
+      executionTimeMs: Date.now() - startTime
+    }, { status: 200 })
+
+  } catch (error: any) {
+    console.error('=== WITHDRAWAL PAYOUT QUEUE FAILED ===')
+    console.error(`Error: ${error.message}`)
+
+    return NextResponse.json({
+      success: false,
+      error: error.message || 'Failed to process withdrawal payouts',
+      timestamp: new Date().toISOString(),
+      executionTimeMs: Date.now() - startTime
+    }, { status: 500 })
+  }
+}
+
+/**
+ * GET endpoint to check the payout queue configuration
+ */
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    message: 'Withdrawal payout queue endpoint is active',
+    endpoint: '/api/auto-withdrawal-payouts',
+    methods: ['POST', 'GET'],
+    mode: WITHDRAWAL_PAYOUT_MODE,
+    requiredConfirmations: PAYOUT_CONFIRMATIONS,
+    timestamp: new Date().toISOString()
+  }, { status: 200 })
+}
@@ -1,24 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createSupabaseServerClient, supabaseAdmin } from '@/lib/supabase-server'
-
+import { withAuth, withAdmin, AuthenticatedUser, AdminUser } from '@/lib/api-auth'
 import EmailService from '@/lib/email-service'
 import { referralService } from '@/lib/referralService'
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic'
 
-
-
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request: NextRequest, user: AuthenticatedUser) => {
   try {
     const supabase = createSupabaseServerClient()
+    const userId = user.id
 
     // Parse request body
-    const { txHash, expectedAmount, userId } = await request.json()
-
-    if (!userId) {
-      return NextResponse.json({ error: 'User ID is required' }, { status: 400 })
-    }
+    const { txHash, expectedAmount } = await request.json()
 
     if (!txHash) {
       return NextResponse.json({ error: 'Transaction hash is required' }, { status: 400 })
@@ -128,16 +123,13 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({ error: error.message || "Failed to process deposit" }, { status: 500 })
   }
-}
+})
 
 // Admin endpoint to approve deposits
-export async function PUT(request: NextRequest) {
+export const PUT = withAdmin(async (request: NextRequest, admin: AdminUser) => {
   try {
     const supabase = createSupabaseServerClient()
 
-    // TODO: Add admin role check here
-    // For now, any authenticated user can approve (should be restricted to admins)
-
     const { transactionId, approve } = await request.json()
 
     if (!transactionId || approve === undefined) {
@@ -165,7 +157,7 @@ export async function PUT(request: NextRequest) {
         const netAmount = depositAmount - fee
 
         // Use the database function to process the entire deposit with referral commissions
-        const { error: depositError } = await supabase
+        const { data: depositTransactionId, error: depositError } = await supabase
           .rpc('process_bsc_deposit', {
             p_user_id: transaction.user_id,
             p_deposit_amount: depositAmount,
@@ -178,13 +170,14 @@ export async function PUT(request: NextRequest) {
 
         if (depositError) {
           console.error('Error processing deposit:', depositError)
-          return NextResponse.json({ error: 'Failed to process deposit' }, { status: 500 })
+          return NextResponse.json({ error: depositError.message || 'Failed to process deposit' }, { status: 500 })
         }
 
         // Process referral commissions for the deposit
         try {
           await referralService.processReferralCommissions({
             userId: transaction.user_id,
+            sourceTransactionId: depositTransactionId,
             amount: depositAmount,
             transactionType: 'deposit',
             planType: 'deposit'
@@ -192,7 +185,7 @@ export async function PUT(request: NextRequest) {
         } catch (commissionError) {
           console.error('Error processing referral commissions:', commissionError)
           // Don't fail the deposit if commission processing fails
-          // Admin can manually fix commissions later
+          // Retrying later is safe: levels already paid for this deposit are skipped
         }
 
         // Update transaction status to completed
@@ -258,4 +251,4 @@ export async function PUT(request: NextRequest) {
     console.error("Error processing deposit approval:", error)
     return NextResponse.json({ error: error.message || "Failed to process deposit approval" }, { status: 500 })
   }
-}
+})
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase-server'
 import BSCService from '@/lib/bsc-service'
+import { withAuth, AuthenticatedUser } from '@/lib/api-auth'
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic'
@@ -14,37 +15,10 @@ const BSC_CONFIG = {
   privateKey: process.env.BSC_PRIVATE_KEY || ""
 }
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth(async (request: NextRequest, user: AuthenticatedUser) => {
   try {
-    // Get userId from query parameter for now
-    const { searchParams } = new URL(request.url)
-    let userId: string | null = searchParams.get('userId')
-    
-    // Fallback: get from cookie or session (for browser requests)
-    if (!userId) {
-      try {
-        // Try to get the most recent user as a demo fallback
-        const { data: profiles } = await supabaseAdmin
-          .from('profiles')
-          .select('id')
-          .order('created_at', { ascending: false })
-          .limit(1)
-        
-        if (profiles && profiles.length > 0) {
-          userId = profiles[0].id
-          console.log('Using most recent user as fallback:', userId)
-        }
-      } catch (error) {
-        console.log('Fallback failed:', error)
-      }
-    }
-    
-    if (!userId) {
-      return NextResponse.json({ 
-        error: 'No user found',
-        hint: 'Make sure you are logged in or use /api/bsc/wallet?userId=your-id'
-      }, { status: 401 })
-    }
+    // Only ever resolve the wallet of the signed-in user
+    const userId = user.id
     
     console.log('Getting BSC wallet for user:', userId)
 
@@ -116,4 +90,4 @@ export async function GET(request: NextRequest) {
       details: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-}
+})
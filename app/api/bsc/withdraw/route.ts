@@ -1,50 +1,64 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createSupabaseServerClient, supabaseAdmin } from '@/lib/supabase-server'
+import { withAuth, withAdmin, AuthenticatedUser, AdminUser } from '@/lib/api-auth'
+import { withIdempotency } from '@/lib/idempotency'
+import { withdrawalPolicy } from '@/lib/withdrawal-policy'
+import { withdrawalAddressService } from '@/lib/withdrawal-address-service'
 
 import EmailService from '@/lib/email-service'
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic'
 
+// Policy check for an amount (fee, limits and any rejection reasons) before submitting
+export const GET = withAuth(async (request: NextRequest, user: AuthenticatedUser) => {
+  try {
+    const amount = parseFloat(new URL(request.url).searchParams.get('amount') || '0')
+    const evaluation = await withdrawalPolicy.evaluate(user.id, amount)
 
+    return NextResponse.json(evaluation)
+  } catch (error: any) {
+    console.error('Error evaluating withdrawal policy:', error)
+    return NextResponse.json({ error: error.message || 'Failed to check withdrawal policy' }, { status: 500 })
+  }
+})
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(withIdempotency('withdrawal', async (request: NextRequest, user: AuthenticatedUser) => {
   try {
     const supabase = createSupabaseServerClient()
+    const userId = user.id
 
     // Parse request body
-    const { amount, walletAddress, userId } = await request.json()
-
-    if (!userId) {
-      return NextResponse.json({ error: 'User ID is required' }, { status: 400 })
-    }
+    const { amount, walletAddress } = await request.json()
 
     if (!amount || !walletAddress) {
       return NextResponse.json({ error: 'Amount and wallet address are required' }, { status: 400 })
     }
 
-    // Get user profile
-    const { data: profile, error: profileError } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('id', userId)
-      .single()
+    const withdrawAmount = parseFloat(amount)
 
-    if (profileError || !profile) {
-      return NextResponse.json({ error: 'User profile not found' }, { status: 404 })
-    }
+    // Limits, cooldowns, KYC and the fee all come from the withdrawal policy,
+    // and the destination must pass the address book / whitelist-only rules
+    const [evaluation, addressViolation] = await Promise.all([
+      withdrawalPolicy.evaluate(userId, withdrawAmount),
+      withdrawalAddressService.checkWithdrawalAddress(userId, walletAddress)
+    ])
 
-    const withdrawAmount = parseFloat(amount)
-    const userBalance = parseFloat(profile.main_wallet_balance.toString())
+    const violations = addressViolation
+      ? [addressViolation, ...evaluation.violations]
+      : evaluation.violations
 
-    // Verify user has sufficient balance
-    if (withdrawAmount > userBalance) {
-      return NextResponse.json({ error: 'Insufficient balance' }, { status: 400 })
+    if (violations.length > 0) {
+      const [first] = violations
+      return NextResponse.json({
+        error: first.message,
+        code: first.code,
+        violations
+      }, { status: 400 })
     }
 
-    // Calculate withdrawal fee (10%)
-    const withdrawalFee = withdrawAmount * 0.10
-    const netAmount = withdrawAmount - withdrawalFee
+    const withdrawalFee = evaluation.fee
+    const netAmount = evaluation.netAmount
 
     console.log("Creating withdrawal request:", {
       requestedAmount: withdrawAmount,
@@ -54,14 +68,17 @@ export async function POST(request: NextRequest) {
       toAddress: walletAddress
     })
 
-    // Use the database function to create withdrawal request
-    const { data: transactionId, error: withdrawalError } = await supabase
+    // Use the database function to create withdrawal request (with the policy outcome).
+    // Service role only, since the fee and review flag must come from the policy above.
+    const { data: transactionId, error: withdrawalError } = await supabaseAdmin
       .rpc('create_withdrawal_request', {
         p_user_id: userId,
         p_amount: withdrawAmount,
         p_fee: withdrawalFee,
         p_net_amount: netAmount,
-        p_bsc_address: walletAddress
+        p_bsc_address: walletAddress,
+        p_requires_review: evaluation.requiresReview,
+        p_review_reason: evaluation.reviewReason
       })
 
     if (withdrawalError) {
@@ -106,6 +123,8 @@ export async function POST(request: NextRequest) {
       requestedAmount: withdrawAmount,
       netAmount,
       withdrawalFee,
+      feeRate: evaluation.feeRate,
+      requiresReview: evaluation.requiresReview,
       status: "pending",
       transactionId: transactionId
     })
@@ -114,17 +133,13 @@ export async function POST(request: NextRequest) {
     console.error("Error creating withdrawal request:", error)
     return NextResponse.json({ error: error.message || "Failed to create withdrawal request" }, { status: 500 })
   }
-}
+}))
 
 // Admin endpoint to approve withdrawals
-export async function PUT(request: NextRequest) {
+export const PUT = withAdmin(async (request: NextRequest, admin: AdminUser) => {
   try {
-    // TODO: Implement proper authentication
     const supabase = createSupabaseServerClient()
 
-    // TODO: Add admin role check here
-    // For now, any authenticated user can approve (should be restricted to admins)
-
     const { transactionId, approve, walletAddress } = await request.json()
 
     if (!transactionId || approve === undefined) {
@@ -283,4 +298,4 @@ export async function PUT(request: NextRequest) {
     console.error("Error processing withdrawal approval:", error)
     return NextResponse.json({ error: error.message || "Failed to process withdrawal approval" }, { status: 500 })
   }
-}
+})
@@ -1,22 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createSupabaseServerClient, supabaseAdmin } from '@/lib/supabase-server'
+import { withAuth, AuthenticatedUser } from '@/lib/api-auth'
+import { withIdempotency } from '@/lib/idempotency'
 import EmailService from '@/lib/email-service'
+import { depositNetworkService } from '@/lib/deposit-networks'
+import { getChainAdapter } from '@/lib/chain-adapters'
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic'
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(withIdempotency('deposit_request', async (request: NextRequest, user: AuthenticatedUser) => {
   try {
     const supabase = createSupabaseServerClient()
+    const userId = user.id
     
     // Parse request body
-    const { txHash, amount, currency, network, userId } = await request.json()
-    
-    if (!userId) {
-      return NextResponse.json({ error: 'User ID is required' }, { status: 400 })
-    }
+    const { txHash, amount, currency, network } = await request.json()
 
-    if (!txHash) {
+    if (!txHash || typeof txHash !== 'string') {
       return NextResponse.json({ error: 'Transaction hash is required' }, { status: 400 })
     }
 
@@ -24,29 +25,34 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Valid deposit amount is required' }, { status: 400 })
     }
 
-    const amountNum = parseFloat(amount)
-    if (amountNum < 10) {
-      return NextResponse.json({ error: 'Minimum deposit amount is $10 USDT' }, { status: 400 })
-    }
+    // Validate currency and network against the deposit registry
+    const option = typeof network === 'string' && typeof currency === 'string'
+      ? await depositNetworkService.getOption(network, currency)
+      : null
 
-    if (amountNum > 50000) {
-      return NextResponse.json({ error: 'Maximum deposit amount is $50,000 USDT' }, { status: 400 })
+    if (!option || !option.network.is_active || !option.token.is_active || !depositNetworkService.getDepositAddress(option.network)) {
+      return NextResponse.json({ error: `${currency} deposits on ${network} are not supported` }, { status: 400 })
     }
 
-    // Validate transaction hash format
-    if (!txHash.startsWith('0x') || txHash.length !== 66) {
-      return NextResponse.json({ 
-        error: 'Invalid transaction hash format. Must start with 0x and be 66 characters long.' 
-      }, { status: 400 })
+    const { token } = option
+
+    const amountNum = parseFloat(amount)
+    if (amountNum < token.min_deposit) {
+      return NextResponse.json({ error: `Minimum deposit amount is ${token.min_deposit} ${token.symbol}` }, { status: 400 })
     }
 
-    // Validate currency and network
-    if (currency !== 'USDT') {
-      return NextResponse.json({ error: 'Only USDT deposits are supported' }, { status: 400 })
+    if (amountNum > token.max_deposit) {
+      return NextResponse.json({ error: `Maximum deposit amount is ${token.max_deposit.toLocaleString()} ${token.symbol}` }, { status: 400 })
     }
 
-    if (network !== 'BEP20') {
-      return NextResponse.json({ error: 'Only BEP20 network is supported' }, { status: 400 })
+    // Validate transaction hash format (stored lower-cased so case variants are one hash)
+    const adapter = getChainAdapter(option.network)
+    const normalizedTxHash = adapter.normalizeTxHash(txHash)
+
+    if (!adapter.isValidTxHash(normalizedTxHash)) {
+      return NextResponse.json({ 
+        error: `Invalid transaction hash format for ${option.network.name}` 
+      }, { status: 400 })
     }
 
     // Get user profile
@@ -60,12 +66,13 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'User profile not found' }, { status: 404 })
     }
 
-    // Check if transaction hash already exists
-    const { data: existingRequest } = await supabase
+    // Check if transaction hash already exists (older rows may not be lower-cased)
+    const { data: existingRequest } = await supabaseAdmin
       .from('deposit_requests')
       .select('id')
-      .eq('tx_hash', txHash)
-      .single()
+      .ilike('tx_hash', normalizedTxHash)
+      .limit(1)
+      .maybeSingle()
 
     if (existingRequest) {
       return NextResponse.json({ 
@@ -74,11 +81,12 @@ export async function POST(request: NextRequest) {
     }
 
     // Check if transaction already processed in old system
-    const { data: existingTx } = await supabase
+    const { data: existingTx } = await supabaseAdmin
       .from('transactions')
       .select('id')
-      .eq('reference_id', txHash)
-      .single()
+      .ilike('reference_id', normalizedTxHash)
+      .limit(1)
+      .maybeSingle()
 
     if (existingTx) {
       return NextResponse.json({ 
@@ -91,7 +99,7 @@ export async function POST(request: NextRequest) {
       .from('deposit_requests')
       .insert({
         user_id: userId,
-        tx_hash: txHash,
+        tx_hash: normalizedTxHash,
         amount: amountNum,
         currency: currency,
         network: network,
@@ -100,6 +108,13 @@ export async function POST(request: NextRequest) {
       .select()
       .single()
 
+    // Unique on lower(tx_hash): another request took the hash since the check above
+    if (insertError?.code === '23505') {
+      return NextResponse.json({ 
+        error: 'This transaction hash has already been submitted' 
+      }, { status: 400 })
+    }
+
     if (insertError) {
       console.error('Error creating deposit request:', insertError)
       return NextResponse.json({ 
@@ -121,7 +136,7 @@ export async function POST(request: NextRequest) {
           amountNum,
           currency,
           'success',
-          txHash,
+          normalizedTxHash,
           0,
           amountNum,
           `Deposit request submitted successfully. Request ID: ${depositRequest.id}. Your request is pending admin approval.`
@@ -152,4 +167,4 @@ export async function POST(request: NextRequest) {
       error: error.message || "Failed to create deposit request" 
     }, { status: 500 })
   }
-}
+}))
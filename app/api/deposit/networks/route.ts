@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/api-auth'
+import { depositNetworkService } from '@/lib/deposit-networks'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Networks and tokens currently accepted for manual deposits, with their deposit addresses
+export const GET = withAuth(async () => {
+  try {
+    const networks = await depositNetworkService.listActive()
+    return NextResponse.json({ networks })
+  } catch (error: any) {
+    console.error('Error fetching deposit networks:', error)
+    return NextResponse.json({ error: 'Failed to fetch deposit networks' }, { status: 500 })
+  }
+})
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, AuthenticatedUser, RouteContext } from '@/lib/api-auth'
+import { supabaseAdmin } from '@/lib/supabase-server'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Update the caller's own plan settings (currently only auto_compound)
+export const PATCH = withAuth(async (request: NextRequest, user: AuthenticatedUser, context: RouteContext) => {
+  try {
+    const { autoCompound } = await request.json()
+
+    if (typeof autoCompound !== 'boolean') {
+      return NextResponse.json({ error: 'autoCompound must be true or false' }, { status: 400 })
+    }
+
+    const { data: plan, error } = await supabaseAdmin
+      .from('investment_plans')
+      .update({ auto_compound: autoCompound })
+      .eq('id', context.params.id)
+      .eq('user_id', user.id)
+      .eq('is_active', true)
+      .select('id, auto_compound')
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    if (!plan) {
+      return NextResponse.json({ error: 'Active investment plan not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: autoCompound ? 'Daily profits will be compounded into this plan' : 'Daily profits will be paid to your main wallet',
+      autoCompound: plan.auto_compound
+    })
+
+  } catch (error: any) {
+    console.error('Error updating investment plan:', error)
+    return NextResponse.json({ error: error.message || 'Failed to update investment plan' }, { status: 500 })
+  }
+})
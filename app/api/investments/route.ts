@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, AuthenticatedUser } from '@/lib/api-auth'
+import { withIdempotency } from '@/lib/idempotency'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import { planCatalogueService } from '@/lib/plan-catalogue-service'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Validation errors raised by create_investment_plan()
+const CLIENT_ERRORS = [/^Investment plan is not available$/, /^Investment amount must be between /]
+
+// Plans currently open for investment
+export const GET = withAuth(async () => {
+  try {
+    const plans = await planCatalogueService.listPlans('active')
+    return NextResponse.json({ plans })
+  } catch (error: any) {
+    console.error('Error fetching investment plans:', error)
+    return NextResponse.json({ error: 'Failed to fetch investment plans' }, { status: 500 })
+  }
+})
+
+export const POST = withAuth(withIdempotency('investment', async (request: NextRequest, user: AuthenticatedUser) => {
+  try {
+    const userId = user.id
+
+    // Parse request body
+    const { planKey, amount } = await request.json()
+
+    if (!planKey || typeof planKey !== 'string') {
+      return NextResponse.json({ error: 'Please select a valid investment plan' }, { status: 400 })
+    }
+
+    const investAmount = parseFloat(amount)
+    if (!investAmount || isNaN(investAmount)) {
+      return NextResponse.json({ error: 'Valid investment amount is required' }, { status: 400 })
+    }
+
+    // Terms lookup, plan row, wallet debit, transaction and referral commissions happen in one transaction
+    const { data: result, error } = await supabaseAdmin.rpc('create_investment_plan', {
+      p_user_id: userId,
+      p_plan_key: planKey,
+      p_amount: investAmount
+    })
+
+    if (error) {
+      if (error.message === 'Insufficient balance') {
+        return NextResponse.json({ error: 'Insufficient wallet balance for this plan' }, { status: 400 })
+      }
+
+      if (CLIENT_ERRORS.some(pattern => pattern.test(error.message))) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+
+      throw new Error(error.message)
+    }
+
+    const balances = (result.balances || []).find((b: any) => b.user_id === userId)
+
+    return NextResponse.json({
+      success: true,
+      message: `Successfully invested $${investAmount} in ${result.plan_name}!`,
+      investmentPlanId: result.investment_plan_id,
+      transactionId: result.transaction_id,
+      planVersion: result.plan_version,
+      jarvisTokensEarned: Number(result.jarvis_tokens_earned),
+      newFundBalance: balances ? Number(balances.fund_wallet_balance) : undefined,
+      newMainBalance: balances ? Number(balances.main_wallet_balance) : undefined
+    })
+
+  } catch (error: any) {
+    console.error('Error creating investment:', error)
+    return NextResponse.json({ error: error.message || 'Failed to create investment' }, { status: 500 })
+  }
+}))
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, AuthenticatedUser } from '@/lib/api-auth'
+import { referralService } from '@/lib/referralService'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+const MAX_DEPTH = 3
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 50
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// GET /api/referrals/tree?root=&depth=&page=&limit=
+// Direct referrals of root (default: the caller), with `depth` levels of children. Nested
+// levels hold only their first few children and the whole response is capped in size
+// (see getReferralTree); the rest load when a node is expanded.
+export const GET = withAuth(async (request: NextRequest, user: AuthenticatedUser) => {
+  try {
+    const searchParams = new URL(request.url).searchParams
+    const root = searchParams.get('root') || user.id
+    const depth = parseInt(searchParams.get('depth') || '1')
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || String(DEFAULT_LIMIT))
+
+    if (!UUID_PATTERN.test(root)) {
+      return NextResponse.json({ error: 'Invalid root member' }, { status: 400 })
+    }
+
+    if (isNaN(depth) || depth < 1 || depth > MAX_DEPTH) {
+      return NextResponse.json({ error: `Depth must be between 1 and ${MAX_DEPTH}` }, { status: 400 })
+    }
+
+    if (isNaN(page) || page < 1) {
+      return NextResponse.json({ error: 'Page must be 1 or more' }, { status: 400 })
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json({ error: `Limit must be between 1 and ${MAX_LIMIT}` }, { status: 400 })
+    }
+
+    const tree = await referralService.getReferralTree(user.id, root, depth, page, limit)
+
+    return NextResponse.json({ success: true, root, depth, ...tree })
+  } catch (error: any) {
+    if (error?.message === 'Member is not in your referral tree') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    console.error('Error fetching referral tree:', error)
+    return NextResponse.json({ error: 'Failed to fetch referral tree' }, { status: 500 })
+  }
+})
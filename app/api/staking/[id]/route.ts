@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, AuthenticatedUser, RouteContext } from '@/lib/api-auth'
+import { supabaseAdmin } from '@/lib/supabase-server'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Update the caller's own stake settings (currently only auto_compound)
+export const PATCH = withAuth(async (request: NextRequest, user: AuthenticatedUser, context: RouteContext) => {
+  try {
+    const { autoCompound } = await request.json()
+
+    if (typeof autoCompound !== 'boolean') {
+      return NextResponse.json({ error: 'autoCompound must be true or false' }, { status: 400 })
+    }
+
+    const { data: stake, error } = await supabaseAdmin
+      .from('jrc_staking_plans')
+      .update({ auto_compound: autoCompound })
+      .eq('id', context.params.id)
+      .eq('user_id', user.id)
+      .eq('status', 'active')
+      .select('id, auto_compound')
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    if (!stake) {
+      return NextResponse.json({ error: 'Active stake not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: autoCompound ? 'Daily profits will be compounded into this stake' : 'Daily profits will be paid to your main wallet',
+      autoCompound: stake.auto_compound
+    })
+
+  } catch (error: any) {
+    console.error('Error updating stake:', error)
+    return NextResponse.json({ error: error.message || 'Failed to update stake' }, { status: 500 })
+  }
+})
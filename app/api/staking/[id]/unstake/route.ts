@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, AuthenticatedUser, RouteContext } from '@/lib/api-auth'
+import { withIdempotency } from '@/lib/idempotency'
+import { supabaseAdmin } from '@/lib/supabase-server'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Errors raised by quote_early_unstake() / early_unstake_staking_plan()
+const CLIENT_ERRORS = [
+  /^Only active stakes can be unstaked$/,
+  /^Stake has matured/,
+  /^Early unstaking is not available/
+]
+
+function errorResponse(message: string) {
+  if (message === 'Staking plan not found') {
+    return NextResponse.json({ error: message }, { status: 404 })
+  }
+
+  if (CLIENT_ERRORS.some(pattern => pattern.test(message))) {
+    return NextResponse.json({ error: message }, { status: 400 })
+  }
+
+  return null
+}
+
+function formatQuote(quote: any) {
+  return {
+    stakingPlanId: quote.staking_plan_id,
+    amount: Number(quote.amount),
+    stakingPeriod: quote.staking_period,
+    endDate: quote.end_date,
+    daysRemaining: quote.days_remaining,
+    totalProfitEarned: Number(quote.total_profit_earned),
+    penaltyPercentage: Number(quote.penalty_percentage),
+    penaltyAmount: Number(quote.penalty_amount),
+    forfeitRewards: quote.forfeit_rewards,
+    forfeitedRewards: Number(quote.forfeited_rewards),
+    payout: Number(quote.payout)
+  }
+}
+
+// Quote: what an early unstake would return right now
+export const GET = withAuth(async (request: NextRequest, user: AuthenticatedUser, context: RouteContext) => {
+  try {
+    const { data: quote, error } = await supabaseAdmin.rpc('quote_early_unstake', {
+      p_user_id: user.id,
+      p_staking_plan_id: context.params.id
+    })
+
+    if (error) {
+      return errorResponse(error.message) || NextResponse.json({ error: 'Failed to quote early unstake' }, { status: 500 })
+    }
+
+    return NextResponse.json({ quote: formatQuote(quote) })
+  } catch (error: any) {
+    console.error('Error quoting early unstake:', error)
+    return NextResponse.json({ error: 'Failed to quote early unstake' }, { status: 500 })
+  }
+})
+
+export const POST = withAuth(withIdempotency('unstake', async (request: NextRequest, user: AuthenticatedUser, context: RouteContext) => {
+  try {
+    // Penalty, ledger journal and status change happen in one transaction
+    const { data: result, error } = await supabaseAdmin.rpc('early_unstake_staking_plan', {
+      p_user_id: user.id,
+      p_staking_plan_id: context.params.id
+    })
+
+    if (error) {
+      const response = errorResponse(error.message)
+      if (response) return response
+
+      throw new Error(error.message)
+    }
+
+    const quote = formatQuote(result)
+
+    return NextResponse.json({
+      success: true,
+      message: `Unstaked successfully. $${quote.payout.toFixed(2)} returned to your fund wallet.`,
+      transactionId: result.transaction_id,
+      quote,
+      newFundBalance: Number(result.fund_wallet_balance)
+    })
+
+  } catch (error: any) {
+    console.error('Error unstaking:', error)
+    return NextResponse.json({ error: error.message || 'Failed to unstake' }, { status: 500 })
+  }
+}))
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, AuthenticatedUser } from '@/lib/api-auth'
+import { withIdempotency } from '@/lib/idempotency'
+import { supabaseAdmin } from '@/lib/supabase-server'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Validation errors raised by create_staking_plan()
+const CLIENT_ERRORS = [/^Invalid staking period$/, /^Minimum staking amount is /]
+
+export const GET = withAuth(async () => {
+  try {
+    const { data: terms, error } = await supabaseAdmin
+      .from('staking_terms')
+      .select('period_days, label, apy, daily_percentage, min_amount')
+      .eq('is_active', true)
+      .order('period_days', { ascending: true })
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return NextResponse.json({ terms: terms || [] })
+  } catch (error: any) {
+    console.error('Error fetching staking terms:', error)
+    return NextResponse.json({ error: 'Failed to fetch staking terms' }, { status: 500 })
+  }
+})
+
+export const POST = withAuth(withIdempotency('staking', async (request: NextRequest, user: AuthenticatedUser) => {
+  try {
+    const userId = user.id
+
+    // Parse request body
+    const { amount, stakingPeriod } = await request.json()
+
+    const stakingAmount = parseFloat(amount)
+    const periodDays = parseInt(stakingPeriod)
+
+    if (!stakingAmount || isNaN(stakingAmount) || stakingAmount <= 0) {
+      return NextResponse.json({ error: 'Valid staking amount is required' }, { status: 400 })
+    }
+
+    if (!periodDays || isNaN(periodDays)) {
+      return NextResponse.json({ error: 'Please select a staking period' }, { status: 400 })
+    }
+
+    // Terms, balance debit, plan row and referral commissions all happen in one transaction
+    const { data: result, error } = await supabaseAdmin.rpc('create_staking_plan', {
+      p_user_id: userId,
+      p_amount: stakingAmount,
+      p_staking_period: periodDays
+    })
+
+    if (error) {
+      if (error.message === 'Insufficient balance') {
+        return NextResponse.json({ error: 'Insufficient fund wallet balance' }, { status: 400 })
+      }
+
+      if (CLIENT_ERRORS.some(pattern => pattern.test(error.message))) {
+        return NextResponse.json({ error: error.message }, { status: 400 })
+      }
+
+      throw new Error(error.message)
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Successfully staked $${stakingAmount} for ${result.plan_label}!`,
+      stakingPlanId: result.staking_plan_id,
+      transactionId: result.transaction_id,
+      endDate: result.end_date,
+      newFundBalance: Number(result.fund_wallet_balance)
+    })
+
+  } catch (error: any) {
+    console.error('Error creating stake:', error)
+    return NextResponse.json({ error: error.message || 'Failed to create stake' }, { status: 500 })
+  }
+}))
@@ -1,21 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createSupabaseServerClient } from '@/lib/supabase-server'
+import { withAuth, AuthenticatedUser } from '@/lib/api-auth'
+import { withIdempotency } from '@/lib/idempotency'
+import { ledgerService } from '@/lib/ledger-service'
 import EmailService from '@/lib/email-service'
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic'
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(withIdempotency('transfer', async (request: NextRequest, user: AuthenticatedUser) => {
   try {
-    // TODO: Implement proper authentication
     const supabase = createSupabaseServerClient()
+    const userId = user.id
     
     // Parse request body
-    const { transferType, amount, receiverId, userId } = await request.json()
-    
-    if (!userId) {
-      return NextResponse.json({ error: 'User ID is required' }, { status: 400 })
-    }
+    const { transferType, amount, receiverId } = await request.json()
 
     if (!transferType || !amount) {
       return NextResponse.json({ error: 'Transfer type and amount are required' }, { status: 400 })
@@ -44,30 +43,33 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ error: 'Insufficient main wallet balance' }, { status: 400 })
       }
 
-      const { error: updateError } = await supabase
-        .from('profiles')
-        .update({
-          main_wallet_balance: profile.main_wallet_balance - transferAmount,
-          fund_wallet_balance: profile.fund_wallet_balance + transferAmount
-        })
-        .eq('id', userId)
-
-      if (updateError) throw updateError
-
-      // Create transaction record
-      await supabase.from('transactions').insert({
-        net_amount: transferAmount,
-        status: 'completed',
-        description: 'Transfer from Main to Fund Wallet'
+      // Debit main wallet and credit fund wallet in one journal
+      const result = await ledgerService.transfer({
+        journalType: 'wallet_transfer',
+        from: { account: 'main_wallet', userId },
+        to: { account: 'fund_wallet', userId },
+        amount: transferAmount,
+        description: 'Transfer from Main to Fund Wallet',
+        createdBy: userId,
+        transactions: [
+          {
+            userId,
+            transactionType: 'wallet_transfer',
+            amount: transferAmount,
+            description: 'Transfer from Main to Fund Wallet'
+          }
+        ]
       })
 
+      const balances = result.balances.find(b => b.user_id === userId)
+
       // TODO: Send email notification for main-to-fund transfer
 
       return NextResponse.json({
         success: true,
         message: `Successfully transferred $${transferAmount} from Main Wallet to Fund Wallet`,
-        newMainBalance: profile.main_wallet_balance - transferAmount,
-        newFundBalance: profile.fund_wallet_balance + transferAmount
+        newMainBalance: balances ? Number(balances.main_wallet_balance) : profile.main_wallet_balance - transferAmount,
+        newFundBalance: balances ? Number(balances.fund_wallet_balance) : profile.fund_wallet_balance + transferAmount
       })
 
     } else if (transferType === 'fund-to-fund') {
@@ -95,60 +97,38 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ error: 'Cannot transfer to yourself' }, { status: 400 })
       }
 
-      // Perform transfer
-      const { error: senderError } = await supabase
-        .from('profiles')
-        .update({
-          fund_wallet_balance: profile.fund_wallet_balance - transferAmount
-        })
-        .eq('id', userId)
-
-      if (senderError) throw senderError
-
-      // Get receiver's current balance first
-      const { data: receiverProfile, error: receiverFetchError } = await supabase
-        .from('profiles')
-        .select('fund_wallet_balance')
-        .eq('id', receiver.id)
-        .single()
+      // Perform transfer: sender debit and receiver credit in one journal
+      const result = await ledgerService.transfer({
+        journalType: 'user_transfer',
+        from: { account: 'fund_wallet', userId },
+        to: { account: 'fund_wallet', userId: receiver.id },
+        amount: transferAmount,
+        description: `Transfer to ${receiverId}`,
+        createdBy: userId,
+        transactions: [
+          {
+            userId,
+            transactionType: 'transfer_sent',
+            amount: transferAmount,
+            description: `Transfer to ${receiverId}`
+          },
+          {
+            userId: receiver.id,
+            transactionType: 'transfer_received',
+            amount: transferAmount,
+            description: `Transfer to ${receiverId}`
+          }
+        ]
+      })
 
-      if (receiverFetchError) throw receiverFetchError
-
-      const { error: receiverUpdateError } = await supabase
-        .from('profiles')
-        .update({
-          fund_wallet_balance: receiverProfile.fund_wallet_balance + transferAmount
-        })
-        .eq('id', receiver.id)
-
-      if (receiverUpdateError) throw receiverUpdateError
-
-      // Create transaction records
-      await supabase.from('transactions').insert([
-        {
-          user_id: userId,
-          transaction_type: 'transfer_sent',
-          amount: transferAmount,
-          net_amount: transferAmount,
-          status: 'completed',
-          description: `Transfer to ${receiverId}`
-        },
-        {
-          user_id: receiver.id,
-          transaction_type: 'transfer_received',
-          amount: transferAmount,
-          net_amount: transferAmount,
-          status: 'completed',
-          description: `Transfer to ${receiverId}`
-        }
-      ])
+      const balances = result.balances.find(b => b.user_id === userId)
 
       // TODO: Send email notifications for fund-to-fund transfer
 
       return NextResponse.json({
         success: true,
         message: `Successfully transferred $${transferAmount} to ${receiverId}`,
-        newFundBalance: profile.fund_wallet_balance - transferAmount
+        newFundBalance: balances ? Number(balances.fund_wallet_balance) : profile.fund_wallet_balance - transferAmount
       })
     }
 
@@ -158,7 +138,11 @@ export async function POST(request: NextRequest) {
     console.error("Error processing transfer:", error)
     
     // TODO: Send failure email notification
+
+    if (error.message === 'Insufficient balance') {
+      return NextResponse.json({ error: 'Insufficient balance' }, { status: 400 })
+    }
     
     return NextResponse.json({ error: error.message || "Failed to process transfer" }, { status: 500 })
   }
-}
+}))
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withdrawalAddressService } from '@/lib/withdrawal-address-service'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Target of the link in the confirmation email; the token itself authenticates the request
+export async function GET(request: NextRequest) {
+  const token = new URL(request.url).searchParams.get('token')
+  const redirectUrl = new URL('/dashboard/withdraw/addresses', request.url)
+
+  if (!token) {
+    redirectUrl.searchParams.set('confirm', 'invalid')
+    return NextResponse.redirect(redirectUrl)
+  }
+
+  try {
+    await withdrawalAddressService.confirm(token)
+    redirectUrl.searchParams.set('confirm', 'success')
+  } catch (error) {
+    console.error('Error confirming withdrawal address:', error)
+    redirectUrl.searchParams.set('confirm', 'invalid')
+  }
+
+  return NextResponse.redirect(redirectUrl)
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, AuthenticatedUser } from '@/lib/api-auth'
+import { withdrawalAddressService, ADDRESS_LOCK_HOURS } from '@/lib/withdrawal-address-service'
+
+// Force dynamic rendering
+export const dynamic = 'force-dynamic'
+
+// Errors thrown by WithdrawalAddressService for bad input
+const CLIENT_ERRORS = [
+  /^Label must be between/,
+  /^Withdrawal address: /,
+  /^Invalid withdrawal address$/,
+  /^This address is already in your address book$/
+]
+
+function errorResponse(error: any, fallback: string) {
+  const message = error?.message || fallback
+
+  if (message === 'Withdrawal address not found') {
+    return NextResponse.json({ error: message }, { status: 404 })
+  }
+
+  const status = CLIENT_ERRORS.some(pattern => pattern.test(message)) ? 400 : 500
+  if (status === 500) {
+    console.error(fallback, error)
+  }
+
+  return NextResponse.json({ error: message }, { status })
+}
+
+// The caller's address book and whitelist-only setting
+export const GET = withAuth(async (request: NextRequest, user: AuthenticatedUser) => {
+  try {
+    const [addresses, settings] = await Promise.all([
+      withdrawalAddressService.list(user.id),
+      withdrawalAddressService.getSettings(user.id)
+    ])
+
+    return NextResponse.json({
+      addresses,
+      whitelistOnly: settings.whitelistOnly,
+      whitelistDisableAt: settings.disableAt,
+      lockHours: ADDRESS_LOCK_HOURS
+    })
+  } catch (error: any) {
+    return errorResponse(error, 'Failed to load withdrawal addresses')
+  }
+})
+
+export const POST = withAuth(async (request: NextRequest, user: AuthenticatedUser) => {
+  try {
+    const { label, address } = await request.json()
+
+    if (!label || !address) {
+      return NextResponse.json({ error: 'Label and address are required' }, { status: 400 })
+    }
+
+    const saved = await withdrawalAddressService.add(user.id, label, address)
+
+    return NextResponse.json({
+      success: true,
+      message: `Address saved. Confirm it from the email we sent you; it can be used ${ADDRESS_LOCK_HOURS} hours after confirmation.`,
+      address: saved
+    })
+  } catch (error: any) {
+    return errorResponse(error, 'Failed to save withdrawal address')
+  }
+})
+
+export const DELETE = withAuth(async (request: NextRequest, user: AuthenticatedUser) => {
+  try {
+    const id = new URL(request.url).searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({ error: 'Address ID is required' }, { status: 400 })
+    }
+
+    await withdrawalAddressService.remove(user.id, id)
+
+    return NextResponse.json({ success: true, message: 'Address removed' })
+  } catch (error: any) {
+    return errorResponse(error, 'Failed to remove withdrawal address')
+  }
+})
+
+// Toggle whitelist-only mode; switching it off is delayed by the lock period
+export const PATCH = withAuth(async (request: NextRequest, user: AuthenticatedUser) => {
+  try {
+    const { whitelistOnly } = await request.json()
+
+    if (typeof whitelistOnly !== 'boolean') {
+      return NextResponse.json({ error: 'whitelistOnly must be true or false' }, { status: 400 })
+    }
+
+    const settings = await withdrawalAddressService.setWhitelistOnly(user.id, whitelistOnly)
+
+    return NextResponse.json({
+      success: true,
+      message: whitelistOnly
+        ? 'Whitelist-only withdrawals are on'
+        : settings.disableAt
+          ? `Whitelist-only withdrawals will turn off at ${settings.disableAt}`
+          : 'Whitelist-only withdrawals are off',
+      whitelistOnly: settings.whitelistOnly,
+      whitelistDisableAt: settings.disableAt
+    })
+  } catch (error: any) {
+    return errorResponse(error, 'Failed to update whitelist setting')
+  }
+})
@@ -19,6 +19,30 @@ interface DepositRequest {
   processed_at?: string
 }
 
+// An entry of GET /api/deposit/networks
+interface DepositNetwork {
+  id: string
+  name: string
+  chainType: 'evm' | 'tron'
+  depositAddress: string
+  minConfirmations: number
+  explorerTxUrl: string
+  tokens: Array<{
+    symbol: string
+    name: string
+    decimals: number
+    minDeposit: number
+    maxDeposit: number
+    isNative: boolean
+  }>
+}
+
+// Transaction hash format per chain type: 0x-prefixed on EVM chains, bare hex on TRON
+const TX_HASH_FORMATS = {
+  evm: { pattern: /^0x[0-9a-fA-F]{64}$/, hint: 'starts with 0x and is 66 characters long' },
+  tron: { pattern: /^[0-9a-fA-F]{64}$/, hint: 'is 64 hexadecimal characters without 0x' }
+}
+
 export default function ManualDepositPage() {
   const { user, loading } = useAuth()
   const router = useRouter()
@@ -29,43 +53,63 @@ export default function ManualDepositPage() {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState('')
   const [success, setSuccess] = useState('')
-  const [globalWalletAddress, setGlobalWalletAddress] = useState('')
+  // Reused for duplicate submits of the same form (e.g. double-clicks)
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID())
+  const [networks, setNetworks] = useState<DepositNetwork[]>([])
   const [loadingWallet, setLoadingWallet] = useState(true)
   const [recentRequests, setRecentRequests] = useState<DepositRequest[]>([])
   const [copied, setCopied] = useState(false)
 
   const supabase = createSupabaseClient()
 
-  // Deposit limits
-  const MIN_DEPOSIT = 10
-  const MAX_DEPOSIT = 50000
+  const network = networks.find(n => n.id === selectedNetwork)
+  const token = network?.tokens.find(t => t.symbol === selectedCurrency)
+  const globalWalletAddress = network?.depositAddress || ''
+
+  // Deposit limits of the selected token
+  const MIN_DEPOSIT = token?.minDeposit ?? 10
+  const MAX_DEPOSIT = token?.maxDeposit ?? 50000
+  const isStablecoin = !token?.isNative
 
   useEffect(() => {
     if (!loading && !user) {
       router.push('/auth/signin')
     } else if (user) {
-      fetchGlobalWalletAddress()
+      fetchDepositNetworks()
       fetchRecentRequests()
     }
   }, [user, loading, router])
 
-  const fetchGlobalWalletAddress = async () => {
+  const fetchDepositNetworks = async () => {
     try {
-      const response = await fetch('/api/admin/global-wallet-address')
+      const response = await fetch('/api/deposit/networks')
       if (response.ok) {
         const data = await response.json()
-        setGlobalWalletAddress(data.address)
+        const available: DepositNetwork[] = data.networks || []
+        setNetworks(available)
+
+        // Keep the BEP20 USDT default when it is offered
+        if (available.length > 0 && !available.some(n => n.id === selectedNetwork)) {
+          selectNetwork(available[0])
+        }
       } else {
         setError('Failed to load deposit wallet address')
       }
     } catch (error) {
-      console.error('Error fetching global wallet:', error)
+      console.error('Error fetching deposit networks:', error)
       setError('Failed to load deposit wallet address')
     } finally {
       setLoadingWallet(false)
     }
   }
 
+  const selectNetwork = (next: DepositNetwork) => {
+    setSelectedNetwork(next.id)
+    if (!next.tokens.some(t => t.symbol === selectedCurrency)) {
+      setSelectedCurrency(next.tokens[0]?.symbol || '')
+    }
+  }
+
   const fetchRecentRequests = async () => {
     try {
       const { data, error } = await supabase
@@ -115,13 +159,13 @@ export default function ManualDepositPage() {
     }
 
     if (amount < MIN_DEPOSIT) {
-      setError(`Minimum deposit amount is $${MIN_DEPOSIT} USDT`)
+      setError(`Minimum deposit amount is ${MIN_DEPOSIT} ${selectedCurrency}`)
       setIsSubmitting(false)
       return
     }
 
     if (amount > MAX_DEPOSIT) {
-      setError(`Maximum deposit amount is $${MAX_DEPOSIT.toLocaleString()} USDT`)
+      setError(`Maximum deposit amount is ${MAX_DEPOSIT.toLocaleString()} ${selectedCurrency}`)
       setIsSubmitting(false)
       return
     }
@@ -134,34 +178,35 @@ export default function ManualDepositPage() {
     }
 
     // Validate transaction hash format
-    if (!txHash.startsWith('0x') || txHash.length !== 66) {
+    const hashFormat = TX_HASH_FORMATS[network?.chainType || 'evm']
+    if (!hashFormat.pattern.test(txHash)) {
       console.log('❌ Validation failed: Invalid transaction hash format')
-      console.log(`❌ TX Hash length: ${txHash.length}, Expected: 66`)
-      setError(`Please enter a valid transaction hash (should start with 0x and be 66 characters long). Current length: ${txHash.length}`)
+      setError(`Please enter a valid ${network?.name || ''} transaction hash (${hashFormat.hint}). Current length: ${txHash.length}`)
       setIsSubmitting(false)
       return
     }
 
     console.log('✅ All validations passed, making API call...')
-    console.log('📝 Request data:', { txHash, amount, currency: selectedCurrency, network: selectedNetwork, userId: user?.id })
+    console.log('📝 Request data:', { txHash, amount, currency: selectedCurrency, network: selectedNetwork })
 
     try {
       const response = await fetch('/api/deposit/manual-request', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': idempotencyKey
         },
         body: JSON.stringify({
           txHash,
           amount,
           currency: selectedCurrency,
-          network: selectedNetwork,
-          userId: user?.id
+          network: selectedNetwork
         })
       })
 
       console.log('📡 API Response status:', response.status)
       const data = await response.json()
+      setIdempotencyKey(crypto.randomUUID())
       console.log('📡 API Response data:', data)
 
       if (response.ok) {
@@ -264,7 +309,7 @@ export default function ManualDepositPage() {
           ) : globalWalletAddress ? (
             <div className="space-y-4">
               <div className="bg-white/10 rounded-lg p-4">
-                <p className="text-gray-300 text-sm mb-2">Send USDT (BEP20) to this address:</p>
+                <p className="text-gray-300 text-sm mb-2">Send {selectedCurrency} ({selectedNetwork}) to this address:</p>
                 <div className="flex items-center justify-between bg-black/20 rounded-lg p-3">
                   <p className="text-white font-mono text-sm break-all flex-1 mr-2">{globalWalletAddress}</p>
                   <button
@@ -282,10 +327,10 @@ export default function ManualDepositPage() {
                   <span>Important Instructions</span>
                 </h4>
                 <div className="text-sm text-gray-300 space-y-1">
-                  <p>• Send USDT on BEP20 network only</p>
+                  <p>• Send {selectedCurrency} on the {network?.name} ({selectedNetwork}) network only</p>
                   <p>• Copy the transaction hash after sending</p>
                   <p>• Submit the form below with exact amount and tx hash</p>
-                  <p>• Processing time: 1-5 minutes</p>
+                  <p>• Processed after {network?.minConfirmations} network confirmations</p>
                 </div>
               </div>
             </div>
@@ -319,7 +364,9 @@ export default function ManualDepositPage() {
                     onChange={(e) => setSelectedCurrency(e.target.value)}
                     className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-amber-500 appearance-none"
                   >
-                    <option value="USDT" className="bg-gray-800">USDT</option>
+                    {network?.tokens.map(t => (
+                      <option key={t.symbol} value={t.symbol} className="bg-gray-800">{t.symbol}</option>
+                    ))}
                   </select>
                 </div>
               </div>
@@ -331,10 +378,15 @@ export default function ManualDepositPage() {
                 <div className="relative">
                   <select
                     value={selectedNetwork}
-                    onChange={(e) => setSelectedNetwork(e.target.value)}
+                    onChange={(e) => {
+                      const next = networks.find(n => n.id === e.target.value)
+                      if (next) selectNetwork(next)
+                    }}
                     className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-amber-500 appearance-none"
                   >
-                    <option value="BEP20" className="bg-gray-800">BEP20 (BSC)</option>
+                    {networks.map(n => (
+                      <option key={n.id} value={n.id} className="bg-gray-800">{n.id} ({n.name})</option>
+                    ))}
                   </select>
                 </div>
               </div>
@@ -342,17 +394,17 @@ export default function ManualDepositPage() {
 
             <div>
               <label className="block text-white text-sm font-medium mb-2">
-                Deposit Amount (USDT)
+                Deposit Amount ({selectedCurrency})
               </label>
               <div className="relative">
                 <input
                   type="number"
                   value={depositAmount}
                   onChange={(e) => setDepositAmount(e.target.value)}
-                  placeholder="Enter amount (10 - 50,000)"
+                  placeholder={`Enter amount (${MIN_DEPOSIT} - ${MAX_DEPOSIT.toLocaleString()})`}
                   min={MIN_DEPOSIT}
                   max={MAX_DEPOSIT}
-                  step="0.01"
+                  step="any"
                   required
                   className="w-full px-4 py-3 pl-12 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-amber-500"
                 />
@@ -361,11 +413,11 @@ export default function ManualDepositPage() {
                 </div>
               </div>
               <p className="text-gray-400 text-sm mt-2">
-                Minimum: $10 USDT • Maximum: $50,000 USDT
+                Minimum: {MIN_DEPOSIT} {selectedCurrency} • Maximum: {MAX_DEPOSIT.toLocaleString()} {selectedCurrency}
               </p>
             </div>
 
-            {depositAmount && parseFloat(depositAmount) >= MIN_DEPOSIT && (
+            {isStablecoin && depositAmount && parseFloat(depositAmount) >= MIN_DEPOSIT && (
               <div className="bg-amber-700/20 border border-amber-600 rounded-lg p-4">
                 <div className="flex justify-between text-sm text-white mb-2">
                   <span>Deposit Amount:</span>
@@ -390,12 +442,12 @@ export default function ManualDepositPage() {
                 type="text"
                 value={txHash}
                 onChange={(e) => setTxHash(e.target.value)}
-                placeholder="0x..."
+                placeholder={network?.chainType === 'tron' ? 'Transaction ID...' : '0x...'}
                 required
                 className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-amber-500 font-mono text-sm"
               />
               <p className="text-gray-400 text-sm mt-2">
-                Enter the transaction hash after sending USDT to the wallet address above. Make sure to copy the full hash (starts with 0x...).
+                Enter the transaction hash after sending {selectedCurrency} to the wallet address above. Make sure to copy the full hash ({TX_HASH_FORMATS[network?.chainType || 'evm'].hint}).
               </p>
             </div>
             <button
@@ -439,10 +491,10 @@ export default function ManualDepositPage() {
                         {request.status}
                       </span>
                     </div>
-                    <span className="text-white font-semibold">${request.amount.toFixed(2)}</span>
+                    <span className="text-white font-semibold">{Number(request.amount)} {request.currency}</span>
                   </div>
                   <div className="text-sm text-gray-300 space-y-1">
-                    <p>TX: {request.tx_hash.slice(0, 10)}...{request.tx_hash.slice(-8)}</p>
+                    <p>TX: {request.tx_hash.slice(0, 10)}...{request.tx_hash.slice(-8)} ({request.network})</p>
                     <p>Submitted: {new Date(request.created_at).toLocaleDateString()}</p>
                     {request.admin_notes && (
                       <p className="text-amber-300">Note: {request.admin_notes}</p>
@@ -38,7 +38,7 @@ export default function DepositPage() {
 
   const fetchWalletInfo = async () => {
     try {
-      const response = await fetch(`/api/bsc/my-wallet?userId=${user.id}`)
+      const response = await fetch('/api/bsc/my-wallet')
       if (response.ok) {
         const data = await response.json()
         setWalletInfo(data)
@@ -99,7 +99,7 @@ export default function DepositPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ txHash, expectedAmount: amount, userId: user.id })
+        body: JSON.stringify({ txHash, expectedAmount: amount })
       })
 
       const data = await response.json()
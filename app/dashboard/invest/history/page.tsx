@@ -4,14 +4,14 @@ import { useState, useEffect } from 'react'
 import { useAuth } from '@/components/providers/AuthProvider'
 import { useRouter } from 'next/navigation'
 import { createSupabaseClient } from '@/lib/supabase'
-import { ArrowLeft, TrendingUp, Calendar, DollarSign, CheckCircle, Clock, XCircle, Target } from 'lucide-react'
+import { ArrowLeft, TrendingUp, Calendar, DollarSign, CheckCircle, Clock, XCircle, Target, Repeat } from 'lucide-react'
 import Link from 'next/link'
 import DockNavbar from '@/components/DockNavbar'
 
 interface InvestmentRecord {
   id: string
   user_id: string
-  plan_type: 'A' | 'B' | 'C'
+  plan_type: string
   investment_amount: number
   daily_percentage: number
   total_profit_earned: number
@@ -19,15 +19,32 @@ interface InvestmentRecord {
   is_active: boolean
   created_at: string
   maturity_date?: string
+  completed_at?: string | null
+  completion_reason?: 'duration' | 'cap' | null
+  principal_released?: number | null
+  principal_release_wallet?: string | null
+  auto_compound?: boolean
+  compounded_amount?: number
   status: 'active' | 'completed' | 'cancelled'
 }
 
+interface CompoundingStep {
+  investment_plan_id: string
+  distribution_date: string
+  amount: number
+  principal_after: number
+}
+
 export default function InvestHistoryPage() {
   const { user, loading, signOut } = useAuth()
   const router = useRouter()
   const [investments, setInvestments] = useState<InvestmentRecord[]>([])
   const [loadingData, setLoadingData] = useState(true)
   const [filter, setFilter] = useState<'all' | 'active' | 'completed' | 'cancelled'>('all')
+  const [compoundingHistory, setCompoundingHistory] = useState<Record<string, CompoundingStep[]>>({})
+  const [expandedPlanId, setExpandedPlanId] = useState<string | null>(null)
+  const [updatingPlanId, setUpdatingPlanId] = useState<string | null>(null)
+  const [error, setError] = useState('')
   const supabase = createSupabaseClient()
 
   useEffect(() => {
@@ -44,14 +61,28 @@ export default function InvestHistoryPage() {
 
   const fetchInvestmentHistory = async () => {
     try {
-      const { data, error } = await supabase
-        .from('investment_plans')
-        .select('*')
-        .eq('user_id', user?.id)
-        .order('created_at', { ascending: false })
+      const [{ data, error }, { data: steps }] = await Promise.all([
+        supabase
+          .from('investment_plans')
+          .select('*')
+          .eq('user_id', user?.id)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('plan_compounding_history')
+          .select('investment_plan_id, distribution_date, amount, principal_after')
+          .eq('user_id', user?.id)
+          .not('investment_plan_id', 'is', null)
+          .order('distribution_date', { ascending: true })
+      ])
 
       if (error) throw error
 
+      const history: Record<string, CompoundingStep[]> = {}
+      for (const step of steps || []) {
+        (history[step.investment_plan_id] ||= []).push(step)
+      }
+      setCompoundingHistory(history)
+
       // Transform data to include status
       const transformedData = (data || []).map(investment => ({
         ...investment,
@@ -66,6 +97,29 @@ export default function InvestHistoryPage() {
     }
   }
 
+  const toggleAutoCompound = async (investment: InvestmentRecord) => {
+    setUpdatingPlanId(investment.id)
+    setError('')
+    try {
+      const response = await fetch(`/api/investments/${investment.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ autoCompound: !investment.auto_compound })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update auto-compounding')
+      }
+
+      setInvestments(prev => prev.map(inv => inv.id === investment.id ? { ...inv, auto_compound: data.autoCompound } : inv))
+    } catch (error: any) {
+      setError(error.message || 'Failed to update auto-compounding')
+    } finally {
+      setUpdatingPlanId(null)
+    }
+  }
+
   const getPlanDetails = (planType: string) => {
     switch (planType) {
       case 'A':
@@ -107,16 +161,20 @@ export default function InvestHistoryPage() {
     })
   }
 
+  // What the user put in; investment_amount also includes compounded profit
+  const originalPrincipal = (investment: InvestmentRecord) =>
+    investment.investment_amount - Number(investment.compounded_amount || 0)
+
   const calculateROI = (investment: InvestmentRecord) => {
-    if (investment.investment_amount === 0) return 0
-    return ((investment.total_profit_earned / investment.investment_amount) * 100)
+    if (originalPrincipal(investment) === 0) return 0
+    return ((investment.total_profit_earned / originalPrincipal(investment)) * 100)
   }
 
   const filteredInvestments = investments.filter(investment =>
     filter === 'all' || investment.status === filter
   )
 
-  const totalInvested = investments.reduce((sum, inv) => sum + inv.investment_amount, 0)
+  const totalInvested = investments.reduce((sum, inv) => sum + originalPrincipal(inv), 0)
   const totalProfit = investments.reduce((sum, inv) => sum + (inv.total_profit_earned || 0), 0)
   const activeInvestments = investments.filter(inv => inv.status === 'active').length
 
@@ -165,6 +223,10 @@ export default function InvestHistoryPage() {
           </div>
         </div>
 
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-4 mb-6 text-red-300">{error}</div>
+        )}
+
         {/* Filter Buttons */}
         <div className="flex flex-wrap gap-2 mb-6">
           {['all', 'active', 'completed', 'cancelled'].map((status) => (
@@ -249,8 +311,55 @@ export default function InvestHistoryPage() {
                           <p className="text-gray-400">Start Date</p>
                           <p className="text-white">{formatDate(investment.created_at)}</p>
                         </div>
+                        {Number(investment.compounded_amount || 0) > 0 && (
+                          <div>
+                            <p className="text-gray-400">Compounded</p>
+                            <p className="text-blue-300 font-semibold">${Number(investment.compounded_amount).toFixed(2)}</p>
+                          </div>
+                        )}
+                      </div>
+
+                      {/* Auto-compounding */}
+                      <div className="mt-4 flex flex-wrap items-center gap-4 text-sm">
+                        {investment.status === 'active' && (
+                          <label className="flex items-center space-x-2 text-gray-300 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={Boolean(investment.auto_compound)}
+                              disabled={updatingPlanId === investment.id}
+                              onChange={() => toggleAutoCompound(investment)}
+                            />
+                            <Repeat className="h-4 w-4 text-blue-300" />
+                            <span>Auto-compound daily profit</span>
+                          </label>
+                        )}
+                        {compoundingHistory[investment.id]?.length > 0 && (
+                          <button
+                            onClick={() => setExpandedPlanId(expandedPlanId === investment.id ? null : investment.id)}
+                            className="text-blue-300 hover:text-blue-200 underline"
+                          >
+                            {expandedPlanId === investment.id ? 'Hide' : 'Show'} principal growth
+                          </button>
+                        )}
                       </div>
 
+                      {expandedPlanId === investment.id && (
+                        <div className="mt-3 max-h-48 overflow-y-auto bg-white/5 rounded-lg p-3">
+                          <div className="grid grid-cols-3 text-xs text-gray-400 mb-2">
+                            <span>Date</span>
+                            <span className="text-right">Compounded</span>
+                            <span className="text-right">Principal</span>
+                          </div>
+                          {compoundingHistory[investment.id].map((step) => (
+                            <div key={step.distribution_date} className="grid grid-cols-3 text-xs py-1 border-t border-white/5">
+                              <span className="text-gray-300">{step.distribution_date}</span>
+                              <span className="text-right text-green-400">+${Number(step.amount).toFixed(2)}</span>
+                              <span className="text-right text-white">${Number(step.principal_after).toFixed(2)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
                       {/* Progress Bar for Active Investments */}
                       {investment.status === 'active' && (
                         <div className="mt-4">
@@ -281,6 +390,15 @@ export default function InvestHistoryPage() {
                           <p className="text-amber-400 text-sm">
                             ✅ Investment completed successfully. Total profit: ${(investment.total_profit_earned || 0).toFixed(2)}
                           </p>
+                          {investment.completion_reason && (
+                            <p className="text-gray-300 text-xs mt-1">
+                              {investment.completion_reason === 'cap' ? 'Reached its ROI cap' : 'Reached the end of its term'}
+                              {investment.completed_at ? ` on ${formatDate(investment.completed_at)}` : ''}
+                              {investment.principal_released
+                                ? ` • Principal of $${Number(investment.principal_released).toFixed(2)} returned to your ${investment.principal_release_wallet === 'main_wallet' ? 'main' : 'fund'} wallet`
+                                : ''}
+                            </p>
+                          )}
                         </div>
                       )}
                     </div>
@@ -290,7 +408,7 @@ export default function InvestHistoryPage() {
                       <div className="text-right">
                         <p className="text-gray-400 text-sm">Total Return</p>
                         <p className="text-xl font-bold text-green-400">
-                          ${(investment.investment_amount + (investment.total_profit_earned || 0)).toFixed(2)}
+                          ${(originalPrincipal(investment) + (investment.total_profit_earned || 0)).toFixed(2)}
                         </p>
                       </div>
                     </div>
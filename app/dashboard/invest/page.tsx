@@ -6,35 +6,34 @@ import { useRouter } from 'next/navigation'
 import { createSupabaseClient } from '@/lib/supabase'
 import { ArrowLeft, TrendingUp, Star, Shield, Coins } from 'lucide-react'
 import Link from 'next/link'
-import { referralService } from '@/lib/referralService'
+import { PlanCatalogueEntry, walletLabel } from '@/lib/investment-plans'
 
 interface Profile {
   fund_wallet_balance: number
+  main_wallet_balance: number
 }
 
+const PLAN_COLORS = [
+  'from-amber-400 to-amber-600',
+  'from-green-400 to-green-600',
+  'from-purple-400 to-purple-600'
+]
+
 export default function InvestPage() {
   const { user, loading } = useAuth()
   const router = useRouter()
   const [profile, setProfile] = useState<Profile | null>(null)
-  const [selectedPlan, setSelectedPlan] = useState<'A' | null>(null)
+  const [selectedPlan, setSelectedPlan] = useState<string | null>(null)
   const [amount, setAmount] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState('')
   const [success, setSuccess] = useState('')
+  // Reused for duplicate submits of the same form (e.g. double-clicks)
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID())
+  // Active versions from the plan catalogue; terms are enforced by the server
+  const [plans, setPlans] = useState<PlanCatalogueEntry[]>([])
   const supabase = createSupabaseClient()
 
-  const plans = {
-    A: {
-      name: 'USDT Staking',
-      minAmount: 10,
-      maxAmount: 50000,
-      dailyPercentage: 3,
-      tokensPerDollar: 100, // 1000 tokens for $10 minimum
-      icon: TrendingUp,
-      color: 'from-amber-400 to-amber-600'
-    }
-  }
-
   useEffect(() => {
     if (!loading && !user) {
       router.push('/auth/signin')
@@ -44,14 +43,27 @@ export default function InvestPage() {
   useEffect(() => {
     if (user) {
       fetchProfile()
+      fetchPlans()
     }
   }, [user])
 
+  const fetchPlans = async () => {
+    try {
+      const response = await fetch('/api/investments')
+      const data = await response.json()
+
+      if (!response.ok) throw new Error(data.error)
+      setPlans(data.plans || [])
+    } catch (error) {
+      console.error('Error fetching investment plans:', error)
+    }
+  }
+
   const fetchProfile = async () => {
     try {
       const { data, error } = await supabase
         .from('profiles')
-        .select('fund_wallet_balance')
+        .select('fund_wallet_balance, main_wallet_balance')
         .eq('id', user?.id)
         .single()
 
@@ -70,76 +82,54 @@ export default function InvestPage() {
     setSuccess('')
 
     const investAmount = parseFloat(amount)
-    const plan = plans[selectedPlan]
+    const plan = plans.find(p => p.plan_key === selectedPlan)
+
+    if (!plan) {
+      setError('Please select a valid investment plan')
+      setIsSubmitting(false)
+      return
+    }
 
     // Validation
-    if (investAmount < plan.minAmount || investAmount > plan.maxAmount) {
-      setError(`Investment amount must be between $${plan.minAmount} and $${plan.maxAmount}`)
+    if (investAmount < plan.min_amount || investAmount > plan.max_amount) {
+      setError(`Investment amount must be between $${plan.min_amount} and $${plan.max_amount}`)
       setIsSubmitting(false)
       return
     }
 
-    if (!profile || investAmount > profile.fund_wallet_balance) {
-      setError('Insufficient fund wallet balance')
+    if (!profile || investAmount > profile[`${plan.eligible_wallet}_balance`]) {
+      setError(`Insufficient ${walletLabel(plan.eligible_wallet).toLowerCase()} balance`)
       setIsSubmitting(false)
       return
     }
 
     try {
-      // Create investment plan
-      const { data: investmentPlan, error: planError } = await supabase
-        .from('investment_plans')
-        .insert({
-          user_id: user?.id,
-          plan_type: selectedPlan,
-          investment_amount: investAmount,
-          daily_percentage: plan.dailyPercentage,
-        })
-        .select()
-        .single()
-
-      if (planError) throw planError
-
-      // Deduct from fund wallet
-      const { error: updateError } = await supabase
-        .from('profiles')
-        .update({
-          fund_wallet_balance: profile.fund_wallet_balance - investAmount
-        })
-        .eq('id', user?.id)
-
-      if (updateError) throw updateError
-
-      // Create transaction record
-      const { error: transactionError } = await supabase
-        .from('transactions')
-        .insert({
-          user_id: user?.id,
-          transaction_type: 'investment',
-          amount: investAmount,
-          net_amount: investAmount,
-          status: 'completed',
-          plan_id: investmentPlan.id,
-          description: `Investment in ${plan.name}`
+      const response = await fetch('/api/investments', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': idempotencyKey
+        },
+        body: JSON.stringify({
+          planKey: selectedPlan,
+          amount: investAmount
         })
+      })
 
-      if (transactionError) throw transactionError
+      const data = await response.json()
+      setIdempotencyKey(crypto.randomUUID())
 
-      // Process referral commissions (USDT only)
-      try {
-        await referralService.processReferralCommissions({
-          userId: user?.id || '',
-          amount: investAmount,
-          transactionType: 'investment',
-          planType: plan.name
-        })
-        console.log('Referral commissions processed successfully')
-      } catch (referralError) {
-        console.error('Error processing referral commissions:', referralError)
-        // Don't fail the investment if referral processing fails
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create investment')
       }
 
-      setSuccess(`Successfully invested $${investAmount} in ${plan.name}!`)
+      setProfile(prev => prev ? {
+        ...prev,
+        fund_wallet_balance: data.newFundBalance ?? prev.fund_wallet_balance,
+        main_wallet_balance: data.newMainBalance ?? prev.main_wallet_balance
+      } : null)
+
+      setSuccess(data.message)
       setAmount('')
       setSelectedPlan(null)
 
@@ -197,26 +187,31 @@ export default function InvestPage() {
 
         {/* Investment Plans */}
         <div className="space-y-4 mb-6">
-          {Object.entries(plans).map(([key, plan]) => {
-            const Icon = plan.icon
+          {plans.map((plan, index) => {
+            const Icon = TrendingUp
+            const key = plan.plan_key
             const isSelected = selectedPlan === key
 
             return (
               <div
                 key={key}
-                onClick={() => setSelectedPlan(key as 'A')}
+                onClick={() => setSelectedPlan(key)}
                 className={`jarvis-card rounded-2xl p-6 cursor-pointer transition-all ${isSelected ? 'ring-2 ring-amber-400 bg-white/20' : 'hover:bg-white/10'
                   }`}
               >
                 <div className="flex items-center justify-between">
                   <div className="flex items-center space-x-4">
-                    <div className={`w-12 h-12 bg-gradient-to-r ${plan.color} rounded-full flex items-center justify-center`}>
+                    <div className={`w-12 h-12 bg-gradient-to-r ${PLAN_COLORS[index % PLAN_COLORS.length]} rounded-full flex items-center justify-center`}>
                       <Icon className="h-6 w-6 text-white" />
                     </div>
                     <div>
                       <h3 className="text-white font-bold text-lg">{plan.name}</h3>
-                      <p className="text-gray-300">${plan.minAmount} to ${plan.maxAmount.toLocaleString()}</p>
-                      <p className="text-amber-300 font-semibold">{plan.dailyPercentage}% Daily</p>
+                      <p className="text-gray-300">${plan.min_amount} to ${plan.max_amount.toLocaleString()}</p>
+                      <p className="text-amber-300 font-semibold">{plan.daily_percentage}% Daily</p>
+                      {plan.duration_days && (
+                        <p className="text-gray-400 text-sm">{plan.duration_days} days</p>
+                      )}
+                      <p className="text-gray-400 text-sm">From {walletLabel(plan.eligible_wallet)}</p>
                     </div>
                   </div>
                   <div className="text-right">
@@ -233,9 +228,9 @@ export default function InvestPage() {
                       type="number"
                       value={amount}
                       onChange={(e) => setAmount(e.target.value)}
-                      placeholder={`Enter amount ($${plan.minAmount} - $${plan.maxAmount.toLocaleString()})`}
-                      min={plan.minAmount}
-                      max={plan.maxAmount}
+                      placeholder={`Enter amount ($${plan.min_amount} - $${plan.max_amount.toLocaleString()})`}
+                      min={plan.min_amount}
+                      max={plan.max_amount}
                       step="0.01"
                       className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-amber-500"
                     />
@@ -255,7 +250,7 @@ export default function InvestPage() {
             disabled={isSubmitting}
             className="w-full jarvis-button py-4 rounded-lg text-white font-semibold text-lg disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            {isSubmitting ? 'Processing Investment...' : `Invest in ${plans[selectedPlan].name}`}
+            {isSubmitting ? 'Processing Investment...' : `Invest in ${plans.find(p => p.plan_key === selectedPlan)?.name || 'plan'}`}
           </button>
         )}
 
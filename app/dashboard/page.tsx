@@ -20,7 +20,6 @@ import {
 import Link from 'next/link'
 import Image from 'next/image'
 import DockNavbar from '@/components/DockNavbar'
-import { referralService } from '@/lib/referralService'
 import { useOptimizedData } from '@/hooks/useOptimizedData'
 import Logo from '@/components/Logo'
 
@@ -37,7 +36,7 @@ interface Profile {
 
 interface InvestmentPlan {
   id: string
-  plan_type: 'A' | 'B' | 'C'
+  plan_type: string
   investment_amount: number
   daily_percentage: number
 
@@ -9,6 +9,7 @@ import Link from 'next/link'
 import { optimizedReferralService } from '@/lib/optimizedReferralService'
 import { useOptimizedData } from '@/hooks/useOptimizedData'
 import { useCallback } from 'react'
+import ReferralTree from '@/components/dashboard/ReferralTree'
 
 interface Profile {
   referral_code: string
@@ -29,11 +30,14 @@ interface ReferralStats {
   total_referrals: number
   total_commission: number
   total_usdt_earned: number
+  total_jrc_earned: number
   level_stats: Array<{
     level: number
     count: number
     usdtEarned: number
     usdtRate: number
+    jrcEarned?: number
+    jrcRate?: number
   }>
   referrals_by_level?: Record<number, ReferralUser[]>
 }
@@ -49,14 +53,19 @@ export default function ReferralPage() {
 
   const supabase = createSupabaseClient()
 
-  const referralLevels = [
-    { level: 1, percentage: 10 },
-    { level: 2, percentage: 5 },
-    { level: 3, percentage: 3 },
-    { level: 4, percentage: 2 },
-    { level: 5, percentage: 1 },
-    { level: 6, percentage: 0.5 }
-  ]
+  // Levels and rates of the commission schedule in effect
+  const referralLevels = (stats?.level_stats || [])
+    .filter(levelStat =>
+      Number(levelStat.usdtRate) > 0 || Number(levelStat.jrcRate || 0) > 0 ||
+      Number(levelStat.usdtEarned) > 0 || Number(levelStat.jrcEarned || 0) > 0
+    )
+    .map(levelStat => ({
+      level: levelStat.level,
+      percentage: Number(levelStat.usdtRate),
+      jrcPercentage: Number(levelStat.jrcRate || 0)
+    }))
+  const paidLevels = referralLevels.filter(level => level.percentage > 0 || level.jrcPercentage > 0)
+  const levelOneRate = referralLevels.find(level => level.level === 1)?.percentage || 0
 
   useEffect(() => {
     if (!loading && !user) {
@@ -122,6 +131,7 @@ export default function ReferralPage() {
         total_referrals: totalReferralsWithCommissions,
         total_commission: fallbackStats.totalUsdtEarned,
         total_usdt_earned: fallbackStats.totalUsdtEarned,
+        total_jrc_earned: fallbackStats.totalJrcEarned,
         level_stats: fallbackStats.levelStats,
         referrals_by_level: referralsByLevel
       }
@@ -137,6 +147,7 @@ export default function ReferralPage() {
         total_referrals: totalReferralsWithCommissions,
         total_commission: optimizedStats.totalUsdtEarned,
         total_usdt_earned: optimizedStats.totalUsdtEarned,
+        total_jrc_earned: Number(optimizedStats.totalJrcEarned || 0),
         level_stats: optimizedStats.levelStats,
         referrals_by_level: referralsByLevel
       }
@@ -294,9 +305,15 @@ export default function ReferralPage() {
                 <p className="text-2xl font-bold text-blue-400">{stats?.total_referrals || 0}</p>
               </div>
             </div>
-            <div className="bg-green-500/10 rounded-lg p-3">
-              <p className="text-gray-300 text-sm">USDT Earned</p>
-              <p className="text-xl font-bold text-green-400">${stats?.total_usdt_earned?.toFixed(2) || '0.00'}</p>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="bg-green-500/10 rounded-lg p-3">
+                <p className="text-gray-300 text-sm">USDT Earned</p>
+                <p className="text-xl font-bold text-green-400">${stats?.total_usdt_earned?.toFixed(2) || '0.00'}</p>
+              </div>
+              <div className="bg-yellow-500/10 rounded-lg p-3">
+                <p className="text-gray-300 text-sm">JRC Earned</p>
+                <p className="text-xl font-bold text-yellow-400">{(stats?.total_jrc_earned || 0).toLocaleString()} JRC</p>
+              </div>
             </div>
           </div>
         </div>
@@ -354,61 +371,18 @@ export default function ReferralPage() {
             <Users className="h-6 w-6 mr-2 text-blue-400" />
             My Team
           </h3>
+          <p className="text-gray-400 text-xs mb-4">
+            Tap a member to see their team. Team volume is the active investment of everyone below them; earnings are your commissions from that branch.
+          </p>
 
-          <div className="space-y-4">
-            {referralLevels.map((level) => {
-              const levelReferrals = stats?.referrals_by_level?.[level.level] || []
-              if (levelReferrals.length === 0) return null
-
-              return (
-                <div key={level.level} className="bg-white/5 rounded-lg overflow-hidden">
-                  <div className="bg-white/10 p-3 flex items-center justify-between">
-                    <h4 className="text-white font-semibold flex items-center">
-                      <span className="w-6 h-6 bg-blue-500 rounded-full flex items-center justify-center text-xs mr-2">
-                        {level.level}
-                      </span>
-                      Level {level.level}
-                    </h4>
-                    <span className="text-gray-400 text-sm">{levelReferrals.length} members</span>
-                  </div>
-                  <div className="divide-y divide-white/10">
-                    {levelReferrals.map((ref) => (
-                      <div key={ref.id} className="p-3 hover:bg-white/5 transition-colors">
-                        <div className="flex justify-between items-start">
-                          <div>
-                            <p className="text-white font-medium">{ref.full_name}</p>
-                            <p className="text-gray-400 text-xs">ID: {ref.referral_code}</p>
-                          </div>
-                          <div className="text-right">
-                            <p className="text-gray-300 text-xs">
-                              Joined: {ref.joined_at ? new Date(ref.joined_at).toLocaleDateString() : 'N/A'}
-                            </p>
-                            <span className="inline-block px-2 py-0.5 bg-green-500/20 text-green-400 text-[10px] rounded-full mt-1">
-                              Active
-                            </span>
-                          </div>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              )
-            })}
-
-            {(!stats?.referrals_by_level || Object.keys(stats.referrals_by_level).length === 0) && (
-              <div className="text-center py-8 text-gray-400">
-                <p>No team members found yet.</p>
-                <p className="text-sm mt-2">Share your referral link to start building your team!</p>
-              </div>
-            )}
-          </div>
+          <ReferralTree />
         </div>
 
         {/* Commission Structure */}
         <div className="jarvis-card rounded-2xl p-6 mb-6">
           <h3 className="text-white font-bold text-lg mb-4">Commission Structure</h3>
           <div className="space-y-3">
-            {/* Always show all 6 levels with actual data when available */}
+            {/* Every level of the schedule in effect, plus earlier levels with earnings */}
             {referralLevels.map((level) => {
               // Find matching level stat if it exists
               const levelStat = stats?.level_stats?.find(ls => ls.level === level.level)
@@ -428,11 +402,15 @@ export default function ReferralPage() {
                       </div>
                     </div>
                   </div>
-                  <div className="grid grid-cols-1 gap-3 mt-2">
+                  <div className="grid grid-cols-2 gap-3 mt-2">
                     <div className="bg-green-500/10 rounded p-2">
                       <p className="text-green-400 font-bold text-sm">{level.percentage}% USDT</p>
                       <p className="text-gray-400 text-xs">Earned: ${levelStat?.usdtEarned?.toFixed(2) || '0.00'}</p>
                     </div>
+                    <div className="bg-yellow-500/10 rounded p-2">
+                      <p className="text-yellow-400 font-bold text-sm">{level.jrcPercentage}% JRC</p>
+                      <p className="text-gray-400 text-xs">Earned: {Number(levelStat?.jrcEarned || 0).toLocaleString()} JRC</p>
+                    </div>
                   </div>
                 </div>
               )
@@ -454,7 +432,7 @@ export default function ReferralPage() {
               <div className="w-6 h-6 bg-amber-800 rounded-full flex items-center justify-center flex-shrink-0 mt-0.5">
                 <span className="text-white text-xs font-bold">3</span>
               </div>
-              <p>Earn from 6 levels deep - build your network and maximize earnings</p>
+              <p>Earn from {paidLevels.length} levels deep - build your network and maximize earnings</p>
             </div>
           </div>
         </div>
@@ -465,18 +443,18 @@ export default function ReferralPage() {
           <div className="grid grid-cols-2 gap-4 text-center">
             <div className="bg-gradient-to-r from-green-500/20 to-blue-500/20 rounded-lg p-4">
               <Users className="h-8 w-8 text-green-400 mx-auto mb-2" />
-              <p className="text-white font-semibold">6 Levels</p>
+              <p className="text-white font-semibold">{paidLevels.length} Levels</p>
               <p className="text-gray-300 text-sm">Deep Commission</p>
             </div>
             <div className="bg-gradient-to-r from-purple-500/20 to-pink-500/20 rounded-lg p-4">
               <Gift className="h-8 w-8 text-purple-400 mx-auto mb-2" />
-              <p className="text-white font-semibold">USDT Rewards</p>
+              <p className="text-white font-semibold">USDT + JRC Rewards</p>
               <p className="text-gray-300 text-sm">Commission</p>
             </div>
           </div>
           <div className="mt-4 p-4 bg-gradient-to-r from-yellow-500/10 to-orange-500/10 rounded-lg border border-yellow-500/30">
             <p className="text-center text-yellow-400 font-semibold text-sm">
-              🎉 Earn up to 10% USDT on Level 1 referrals!
+              🎉 Earn up to {levelOneRate}% USDT on Level 1 referrals!
             </p>
           </div>
         </div>
@@ -4,7 +4,7 @@ import { useState, useEffect } from 'react'
 import { useAuth } from '@/components/providers/AuthProvider'
 import { useRouter } from 'next/navigation'
 import { createSupabaseClient } from '@/lib/supabase'
-import { ArrowLeft, Coins, Calendar, Clock, TrendingUp } from 'lucide-react'
+import { ArrowLeft, Coins, Calendar, Clock, TrendingUp, AlertTriangle } from 'lucide-react'
 import Link from 'next/link'
 import DockNavbar from '@/components/DockNavbar'
 
@@ -18,14 +18,38 @@ interface StakingRecord {
   end_date: string
   status: 'active' | 'completed' | 'withdrawn'
   total_earned: number
+  early_unstake_penalty: number
+  forfeited_rewards: number
+  auto_compound: boolean
+  compounded_amount: number
   created_at: string
 }
 
+interface UnstakeQuote {
+  stakingPlanId: string
+  amount: number
+  daysRemaining: number
+  totalProfitEarned: number
+  penaltyPercentage: number
+  penaltyAmount: number
+  forfeitRewards: boolean
+  forfeitedRewards: number
+  payout: number
+}
+
 export default function StakingHistoryPage() {
   const { user, loading, signOut } = useAuth()
   const router = useRouter()
   const [stakingRecords, setStakingRecords] = useState<StakingRecord[]>([])
   const [loadingData, setLoadingData] = useState(true)
+  const [quote, setQuote] = useState<UnstakeQuote | null>(null)
+  const [quotingId, setQuotingId] = useState<string | null>(null)
+  const [isUnstaking, setIsUnstaking] = useState(false)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+  // Reused for duplicate submits of the same form (e.g. double-clicks)
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID())
   const supabase = createSupabaseClient()
 
   useEffect(() => {
@@ -42,31 +66,37 @@ export default function StakingHistoryPage() {
 
   const fetchStakingHistory = async () => {
     try {
-      // For now, we'll fetch from transactions table where description contains 'Staking'
-      const { data, error } = await supabase
-        .from('transactions')
-        .select('*')
-        .eq('user_id', user?.id)
-        .ilike('description', '%staking%')
-        .order('created_at', { ascending: false })
+      const [{ data, error }, { data: terms }] = await Promise.all([
+        supabase
+          .from('jrc_staking_plans')
+          .select('id, user_id, amount, staking_period, start_date, end_date, status, total_profit_earned, early_unstake_penalty, forfeited_rewards, auto_compound, compounded_amount, created_at')
+          .eq('user_id', user?.id)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('staking_terms')
+          .select('period_days, apy')
+      ])
 
       if (error) throw error
 
-      // Transform transaction data to staking records format
-      const transformedData = (data || []).map(transaction => ({
-        id: transaction.id,
-        user_id: transaction.user_id,
-        amount: transaction.amount,
-        staking_period: extractStakingPeriod(transaction.description),
-        apy: extractAPY(transaction.description),
-        start_date: transaction.created_at,
-        end_date: calculateEndDate(transaction.created_at, extractStakingPeriod(transaction.description)),
-        status: determineStatus(transaction.created_at, extractStakingPeriod(transaction.description)),
-        total_earned: 0, // This would need to be calculated based on actual staking logic
-        created_at: transaction.created_at
-      }))
-
-      setStakingRecords(transformedData)
+      const apyByPeriod = new Map((terms || []).map(term => [term.period_days, Number(term.apy)]))
+
+      setStakingRecords((data || []).map(plan => ({
+        id: plan.id,
+        user_id: plan.user_id,
+        amount: Number(plan.amount),
+        staking_period: plan.staking_period,
+        apy: apyByPeriod.get(plan.staking_period) || 0,
+        start_date: plan.start_date,
+        end_date: plan.end_date,
+        status: plan.status,
+        total_earned: Number(plan.total_profit_earned || 0),
+        early_unstake_penalty: Number(plan.early_unstake_penalty || 0),
+        forfeited_rewards: Number(plan.forfeited_rewards || 0),
+        auto_compound: Boolean(plan.auto_compound),
+        compounded_amount: Number(plan.compounded_amount || 0),
+        created_at: plan.created_at
+      })))
     } catch (error) {
       console.error('Error fetching staking history:', error)
     } finally {
@@ -74,29 +104,76 @@ export default function StakingHistoryPage() {
     }
   }
 
-  const extractStakingPeriod = (description: string): number => {
-    const match = description.match(/(\d+)\s*Days?/i)
-    return match ? parseInt(match[1]) : 30
-  }
+  const handleQuote = async (stakingPlanId: string) => {
+    setQuotingId(stakingPlanId)
+    setError('')
+    setSuccess('')
+    try {
+      const response = await fetch(`/api/staking/${stakingPlanId}/unstake`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to get unstake quote')
+      }
 
-  const extractAPY = (description: string): number => {
-    const match = description.match(/(\d+)%\s*APY/i)
-    return match ? parseInt(match[1]) : 0
+      setQuote(data.quote)
+      setIdempotencyKey(crypto.randomUUID())
+    } catch (error: any) {
+      setError(error.message || 'Failed to get unstake quote')
+    } finally {
+      setQuotingId(null)
+    }
   }
 
-  const calculateEndDate = (startDate: string, period: number): string => {
-    const start = new Date(startDate)
-    const end = new Date(start.getTime() + (period * 24 * 60 * 60 * 1000))
-    return end.toISOString()
+  const handleUnstake = async () => {
+    if (!quote) return
+
+    setIsUnstaking(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/staking/${quote.stakingPlanId}/unstake`, {
+        method: 'POST',
+        headers: { 'Idempotency-Key': idempotencyKey }
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to unstake')
+      }
+
+      setSuccess(data.message)
+      setQuote(null)
+      await fetchStakingHistory()
+    } catch (error: any) {
+      setError(error.message || 'Failed to unstake')
+    } finally {
+      setIsUnstaking(false)
+      setIdempotencyKey(crypto.randomUUID())
+    }
   }
 
-  const determineStatus = (startDate: string, period: number): 'active' | 'completed' | 'withdrawn' => {
-    const start = new Date(startDate)
-    const end = new Date(start.getTime() + (period * 24 * 60 * 60 * 1000))
-    const now = new Date()
+  const toggleAutoCompound = async (record: StakingRecord) => {
+    setUpdatingId(record.id)
+    setError('')
+    setSuccess('')
+    try {
+      const response = await fetch(`/api/staking/${record.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ autoCompound: !record.auto_compound })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update auto-compounding')
+      }
 
-    if (now < end) return 'active'
-    return 'completed'
+      setStakingRecords(prev => prev.map(r => r.id === record.id ? { ...r, auto_compound: data.autoCompound } : r))
+    } catch (error: any) {
+      setError(error.message || 'Failed to update auto-compounding')
+    } finally {
+      setUpdatingId(null)
+    }
   }
 
   const getStatusColor = (status: string) => {
@@ -146,7 +223,7 @@ export default function StakingHistoryPage() {
               <div>
                 <p className="text-gray-300 text-sm">Total Staked</p>
                 <p className="text-xl font-bold text-white">
-                  ${stakingRecords.reduce((sum, record) => sum + record.amount, 0).toFixed(2)}
+                  ${stakingRecords.reduce((sum, record) => sum + record.amount - record.compounded_amount, 0).toFixed(2)}
                 </p>
               </div>
             </div>
@@ -177,6 +254,64 @@ export default function StakingHistoryPage() {
           </div>
         </div>
 
+        {error && (
+          <div className="bg-red-500/20 border border-red-500/50 rounded-lg p-4 mb-6 text-red-300">{error}</div>
+        )}
+        {success && (
+          <div className="bg-green-500/20 border border-green-500/50 rounded-lg p-4 mb-6 text-green-300">{success}</div>
+        )}
+
+        {/* Early unstake confirmation */}
+        {quote && (
+          <div className="jarvis-card rounded-xl p-6 mb-6 border border-amber-500/50">
+            <div className="flex items-center space-x-3 mb-4">
+              <AlertTriangle className="h-6 w-6 text-amber-400" />
+              <h3 className="text-lg font-semibold text-white">Confirm Early Unstake</h3>
+            </div>
+            <div className="space-y-2 text-sm mb-4">
+              <div className="flex justify-between">
+                <span className="text-gray-400">Staked Amount</span>
+                <span className="text-white">${quote.amount.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Days Remaining</span>
+                <span className="text-white">{quote.daysRemaining}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Penalty ({quote.penaltyPercentage}% of principal)</span>
+                <span className="text-red-400">-${quote.penaltyAmount.toFixed(2)}</span>
+              </div>
+              {quote.forfeitRewards && (
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Forfeited Rewards</span>
+                  <span className="text-red-400">-${quote.forfeitedRewards.toFixed(2)}</span>
+                </div>
+              )}
+              <div className="flex justify-between border-t border-white/20 pt-2">
+                <span className="text-white font-semibold">Returned to Fund Wallet</span>
+                <span className="text-green-400 font-bold">${quote.payout.toFixed(2)}</span>
+              </div>
+            </div>
+            <p className="text-gray-400 text-xs mb-4">The stake stops earning rewards immediately. This cannot be undone.</p>
+            <div className="flex space-x-3">
+              <button
+                onClick={() => setQuote(null)}
+                disabled={isUnstaking}
+                className="flex-1 bg-gray-600 hover:bg-gray-700 px-4 py-2 rounded-lg text-white font-semibold disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleUnstake}
+                disabled={isUnstaking}
+                className="flex-1 bg-red-600 hover:bg-red-700 px-4 py-2 rounded-lg text-white font-semibold disabled:opacity-50"
+              >
+                {isUnstaking ? 'Unstaking...' : 'Confirm Unstake'}
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Staking Records */}
         <div className="space-y-4">
           {stakingRecords.length === 0 ? (
@@ -224,6 +359,25 @@ export default function StakingHistoryPage() {
                         <p className="text-white">{formatDate(record.end_date)}</p>
                       </div>
                     </div>
+
+                    {(record.status === 'active' || record.compounded_amount > 0) && (
+                      <div className="mt-3 flex flex-wrap items-center gap-4 text-sm">
+                        {record.status === 'active' && (
+                          <label className="flex items-center space-x-2 text-gray-300 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={record.auto_compound}
+                              disabled={updatingId === record.id}
+                              onChange={() => toggleAutoCompound(record)}
+                            />
+                            <span>Auto-compound daily rewards</span>
+                          </label>
+                        )}
+                        {record.compounded_amount > 0 && (
+                          <span className="text-blue-300">Compounded: ${record.compounded_amount.toFixed(2)}</span>
+                        )}
+                      </div>
+                    )}
                   </div>
 
                   <div className="text-right">
@@ -231,6 +385,20 @@ export default function StakingHistoryPage() {
                     <p className="text-2xl font-bold text-green-400">
                       ${record.total_earned.toFixed(2)}
                     </p>
+                    {record.status === 'withdrawn' && (
+                      <p className="text-red-400 text-xs mt-1">
+                        Early unstake penalty: ${(record.early_unstake_penalty + record.forfeited_rewards).toFixed(2)}
+                      </p>
+                    )}
+                    {record.status === 'active' && (
+                      <button
+                        onClick={() => handleQuote(record.id)}
+                        disabled={quotingId === record.id}
+                        className="mt-2 text-sm text-amber-300 hover:text-amber-200 underline disabled:opacity-50"
+                      >
+                        {quotingId === record.id ? 'Loading...' : 'Unstake Early'}
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -7,12 +7,17 @@ import { createSupabaseClient } from '@/lib/supabase'
 import { ArrowLeft, Coins, History } from 'lucide-react'
 import Link from 'next/link'
 import DockNavbar from '@/components/DockNavbar'
-import { referralService } from '@/lib/referralService'
 
 interface Profile {
   fund_wallet_balance: number
 }
 
+interface StakingPeriod {
+  value: string
+  label: string
+  apy: string
+}
+
 export default function StakingPage() {
   const { user, loading, signOut } = useAuth()
   const router = useRouter()
@@ -22,16 +27,11 @@ export default function StakingPage() {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState('')
   const [success, setSuccess] = useState('')
+  // Reused for duplicate submits of the same form (e.g. double-clicks)
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID())
+  const [stakingPeriods, setStakingPeriods] = useState<StakingPeriod[]>([])
   const supabase = createSupabaseClient()
 
-  const stakingPeriods = [
-    { value: '30', label: '30 Days', apy: '8%' },
-    { value: '60', label: '60 Days', apy: '12%' },
-    { value: '90', label: '90 Days', apy: '15%' },
-    { value: '180', label: '180 Days', apy: '20%' },
-    { value: '365', label: '365 Days', apy: '25%' }
-  ]
-
   useEffect(() => {
     if (!loading && !user) {
       router.push('/auth/signin')
@@ -41,9 +41,28 @@ export default function StakingPage() {
   useEffect(() => {
     if (user) {
       fetchProfile()
+      fetchStakingTerms()
     }
   }, [user])
 
+  const fetchStakingTerms = async () => {
+    try {
+      // Periods and rates are owned by the server
+      const response = await fetch('/api/staking')
+      const data = await response.json()
+
+      if (!response.ok) throw new Error(data.error)
+
+      setStakingPeriods((data.terms || []).map((term: any) => ({
+        value: String(term.period_days),
+        label: term.label,
+        apy: `${Number(term.apy)}%`
+      })))
+    } catch (error) {
+      console.error('Error fetching staking terms:', error)
+    }
+  }
+
   const fetchProfile = async () => {
     try {
       const { data, error } = await supabase
@@ -86,53 +105,34 @@ export default function StakingPage() {
     }
 
     try {
-      // Create staking transaction
-      const selectedPeriod = stakingPeriods.find(p => p.value === stakingPeriod)
-      const { data: transaction, error: transactionError } = await supabase
-        .from('transactions')
-        .insert({
-          user_id: user?.id,
-          transaction_type: 'staking',
+      const response = await fetch('/api/staking', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': idempotencyKey
+        },
+        body: JSON.stringify({
           amount: stakingAmount,
-          net_amount: stakingAmount,
-          status: 'completed',
-          description: `USD Staking - ${selectedPeriod?.label} at ${selectedPeriod?.apy} APY`
+          stakingPeriod
         })
-        .select()
-        .single()
+      })
 
-      if (transactionError) throw transactionError
+      const data = await response.json()
+      setIdempotencyKey(crypto.randomUUID())
 
-      // Deduct from fund wallet
-      const { error: walletError } = await supabase
-        .from('profiles')
-        .update({
-          fund_wallet_balance: profile.fund_wallet_balance - stakingAmount
-        })
-        .eq('id', user?.id)
-
-      if (walletError) throw walletError
-
-      // Process referral commissions (USDT only)
-      try {
-        await referralService.processReferralCommissions({
-          userId: user?.id || '',
-          amount: stakingAmount,
-          transactionType: 'staking',
-          planType: `${selectedPeriod?.label} at ${selectedPeriod?.apy} APY`
-        })
-        console.log('Referral commissions processed successfully')
-      } catch (referralError) {
-        console.error('Error processing referral commissions:', referralError)
-        // Don't fail the staking if referral processing fails
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create stake')
       }
 
-      setSuccess(`Successfully staked $${stakingAmount} for ${selectedPeriod?.label} at ${selectedPeriod?.apy} APY!`)
+      setSuccess(data.message)
       setAmount('')
       setStakingPeriod('')
 
       // Update local profile state
-      setProfile(prev => prev ? { ...prev, fund_wallet_balance: prev.fund_wallet_balance - stakingAmount } : null)
+      setProfile(prev => prev ? {
+        ...prev,
+        fund_wallet_balance: data.newFundBalance ?? prev.fund_wallet_balance - stakingAmount
+      } : null)
 
     } catch (error: any) {
       setError(error.message)
@@ -294,8 +294,8 @@ export default function StakingPage() {
           <div className="bg-amber-700/20 border border-amber-600 rounded-lg p-4">
             <h4 className="text-amber-400 font-semibold mb-2">Important Notice</h4>
             <p className="text-amber-200 text-sm">
-              Staked funds are locked for the selected period.
-              Early withdrawal may result in penalty fees and loss of rewards.
+              Staked funds are locked for the selected period. You can unstake early from
+              Staking History, subject to a penalty and possible loss of rewards.
             </p>
           </div>
         </div>
@@ -22,6 +22,8 @@ export default function TransferPage() {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState('')
   const [success, setSuccess] = useState('')
+  // Reused for duplicate submits of the same form (e.g. double-clicks)
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID())
   const supabase = createSupabaseClient()
 
   useEffect(() => {
@@ -76,16 +78,17 @@ export default function TransferPage() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': idempotencyKey
         },
         body: JSON.stringify({
           transferType,
           amount: transferAmount,
-          receiverId: transferType === 'fund-to-fund' ? receiverId : undefined,
-          userId: user.id
+          receiverId: transferType === 'fund-to-fund' ? receiverId : undefined
         })
       })
 
       const data = await response.json()
+      setIdempotencyKey(crypto.randomUUID())
 
       if (!response.ok) {
         throw new Error(data.error || 'Transfer failed')
@@ -0,0 +1,290 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/components/providers/AuthProvider'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { ArrowLeft, Plus, Trash2, Lock, ShieldCheck } from 'lucide-react'
+import Link from 'next/link'
+
+interface SavedAddress {
+  id: string
+  label: string
+  address: string
+  confirmed_at: string | null
+  available_at: string | null
+  created_at: string
+}
+
+export default function WithdrawalAddressesPage() {
+  const { user, loading } = useAuth()
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const [addresses, setAddresses] = useState<SavedAddress[]>([])
+  const [whitelistOnly, setWhitelistOnly] = useState(false)
+  const [whitelistDisableAt, setWhitelistDisableAt] = useState<string | null>(null)
+  const [lockHours, setLockHours] = useState(24)
+  const [label, setLabel] = useState('')
+  const [address, setAddress] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+
+  const fetchAddresses = useCallback(async () => {
+    try {
+      const response = await fetch('/api/withdrawal-addresses')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load addresses')
+      }
+
+      setAddresses(data.addresses)
+      setWhitelistOnly(data.whitelistOnly)
+      setWhitelistDisableAt(data.whitelistDisableAt)
+      setLockHours(data.lockHours)
+    } catch (error: any) {
+      console.error('Error fetching withdrawal addresses:', error)
+      setError(error.message || 'Failed to load addresses')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth/signin')
+    } else if (user) {
+      fetchAddresses()
+    }
+  }, [user, loading, router, fetchAddresses])
+
+  // Result of following the link in the confirmation email
+  useEffect(() => {
+    const confirm = searchParams.get('confirm')
+    if (confirm === 'success') {
+      setSuccess('Address confirmed. It can be used once its security lock ends.')
+    } else if (confirm === 'invalid') {
+      setError('The confirmation link is invalid or has expired. Remove the address and add it again.')
+    }
+  }, [searchParams])
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError('')
+    setSuccess('')
+
+    try {
+      const response = await fetch('/api/withdrawal-addresses', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label, address })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save address')
+      }
+
+      setSuccess(data.message)
+      setLabel('')
+      setAddress('')
+      await fetchAddresses()
+    } catch (error: any) {
+      setError(error.message || 'Failed to save address')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleRemove = async (saved: SavedAddress) => {
+    if (!confirm(`Remove "${saved.label}" from your address book?`)) return
+
+    setError('')
+    setSuccess('')
+    try {
+      const response = await fetch(`/api/withdrawal-addresses?id=${saved.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to remove address')
+      }
+
+      setSuccess(data.message)
+      await fetchAddresses()
+    } catch (error: any) {
+      setError(error.message || 'Failed to remove address')
+    }
+  }
+
+  const handleWhitelistToggle = async (enabled: boolean) => {
+    setError('')
+    setSuccess('')
+    try {
+      const response = await fetch('/api/withdrawal-addresses', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ whitelistOnly: enabled })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update setting')
+      }
+
+      setSuccess(data.message)
+      setWhitelistOnly(data.whitelistOnly)
+      setWhitelistDisableAt(data.whitelistDisableAt)
+    } catch (error: any) {
+      setError(error.message || 'Failed to update setting')
+    }
+  }
+
+  const addressStatus = (saved: SavedAddress) => {
+    if (!saved.confirmed_at || !saved.available_at) {
+      return <span className="text-orange-300">Awaiting email confirmation</span>
+    }
+
+    const remainingMs = new Date(saved.available_at).getTime() - Date.now()
+    if (remainingMs > 0) {
+      const hours = Math.floor(remainingMs / (60 * 60 * 1000))
+      const minutes = Math.ceil((remainingMs % (60 * 60 * 1000)) / (60 * 1000))
+      return (
+        <span className="text-amber-300 flex items-center space-x-1">
+          <Lock className="h-3 w-3" />
+          <span>Locked for {hours}h {minutes}m</span>
+        </span>
+      )
+    }
+
+    return (
+      <span className="text-green-300 flex items-center space-x-1">
+        <ShieldCheck className="h-3 w-3" />
+        <span>Ready to use</span>
+      </span>
+    )
+  }
+
+  if (loading || isLoading) {
+    return (
+      <div className="min-h-screen jarvis-gradient flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-white"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen jarvis-gradient">
+      {/* Header */}
+      <header className="border-b border-white/20 p-4">
+        <div className="container mx-auto flex items-center justify-between">
+          <Link href="/dashboard/withdraw" className="text-white hover:text-amber-200">
+            <ArrowLeft className="h-6 w-6" />
+          </Link>
+          <h1 className="text-xl font-bold text-white">Withdrawal Addresses</h1>
+          <div></div>
+        </div>
+      </header>
+
+      <div className="container mx-auto p-4 max-w-md">
+        {error && (
+          <div className="bg-red-500/20 border border-red-500 text-red-200 px-4 py-3 rounded-lg mb-4">
+            {error}
+          </div>
+        )}
+
+        {success && (
+          <div className="bg-amber-600/20 border border-amber-600 text-amber-200 px-4 py-3 rounded-lg mb-4">
+            {success}
+          </div>
+        )}
+
+        {/* Whitelist-only mode */}
+        <div className="jarvis-card rounded-2xl p-6 mb-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-white font-semibold">Whitelist-only withdrawals</h2>
+              <p className="text-gray-400 text-sm mt-1">
+                Only allow withdrawals to confirmed addresses below.
+              </p>
+            </div>
+            <input
+              type="checkbox"
+              checked={whitelistOnly && !whitelistDisableAt}
+              onChange={(e) => handleWhitelistToggle(e.target.checked)}
+              className="h-5 w-5"
+            />
+          </div>
+          {whitelistDisableAt && (
+            <p className="text-amber-200 text-sm mt-3">
+              Turning off on {new Date(whitelistDisableAt).toLocaleString()}. Until then only saved addresses can be used.
+            </p>
+          )}
+        </div>
+
+        {/* Add address */}
+        <div className="jarvis-card rounded-2xl p-6 mb-6">
+          <h2 className="text-white font-semibold mb-4">Add Address</h2>
+          <form onSubmit={handleAdd} className="space-y-4">
+            <input
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Label (e.g. My Trust Wallet)"
+              maxLength={50}
+              required
+              className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-amber-500"
+            />
+            <input
+              type="text"
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              placeholder="BEP20 address (0x...)"
+              required
+              className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-amber-500"
+            />
+            <p className="text-gray-400 text-sm">
+              We will email you a confirmation link. After confirming, the address is locked for {lockHours} hours before it can receive withdrawals.
+            </p>
+            <button
+              type="submit"
+              disabled={isSubmitting || !label || !address}
+              className="w-full jarvis-button py-3 rounded-lg text-white font-semibold flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Plus className="h-4 w-4" />
+              <span>{isSubmitting ? 'Saving...' : 'Add Address'}</span>
+            </button>
+          </form>
+        </div>
+
+        {/* Saved addresses */}
+        <div className="jarvis-card rounded-2xl p-6">
+          <h2 className="text-white font-semibold mb-4">Saved Addresses</h2>
+          {addresses.length === 0 ? (
+            <p className="text-gray-400 text-sm">No saved addresses yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {addresses.map((saved) => (
+                <div key={saved.id} className="bg-white/5 rounded-lg p-4 flex items-start justify-between">
+                  <div className="min-w-0">
+                    <p className="text-white font-semibold">{saved.label}</p>
+                    <p className="text-gray-300 text-xs font-mono break-all">{saved.address}</p>
+                    <div className="text-xs mt-1">{addressStatus(saved)}</div>
+                  </div>
+                  <button
+                    onClick={() => handleRemove(saved)}
+                    className="text-red-300 hover:text-red-200 ml-3"
+                    title="Remove"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -4,13 +4,39 @@ import { useState, useEffect } from 'react'
 import { useAuth } from '@/components/providers/AuthProvider'
 import { useRouter } from 'next/navigation'
 import { createSupabaseClient } from '@/lib/supabase'
-import { ArrowLeft, History } from 'lucide-react'
+import { ArrowLeft, History, BookUser } from 'lucide-react'
 import Link from 'next/link'
 
 interface Profile {
   main_wallet_balance: number
 }
 
+interface WithdrawalViolation {
+  code: string
+  message: string
+  availableAt?: string
+}
+
+interface WithdrawalQuote {
+  allowed: boolean
+  fee: number
+  feeRate: number
+  netAmount: number
+  requiresReview: boolean
+  violations: WithdrawalViolation[]
+  limits: {
+    minAmount: number
+    maxAmount: number
+  }
+}
+
+interface SavedAddress {
+  id: string
+  label: string
+  address: string
+  available_at: string | null
+}
+
 interface PendingWithdrawal {
   id: string
   amount: number
@@ -27,7 +53,12 @@ export default function WithdrawPage() {
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState('')
   const [success, setSuccess] = useState('')
+  // Reused for duplicate submits of the same form (e.g. double-clicks)
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID())
   const [pendingWithdrawal, setPendingWithdrawal] = useState<PendingWithdrawal | null>(null)
+  const [quote, setQuote] = useState<WithdrawalQuote | null>(null)
+  const [savedAddresses, setSavedAddresses] = useState<SavedAddress[]>([])
+  const [whitelistOnly, setWhitelistOnly] = useState(false)
   const supabase = createSupabaseClient()
 
   useEffect(() => {
@@ -40,9 +71,32 @@ export default function WithdrawPage() {
     if (user) {
       fetchProfile()
       checkPendingWithdrawal()
+      fetchSavedAddresses()
     }
   }, [user])
 
+  // Server-side policy check (fee, limits, cooldowns) as the amount is typed
+  useEffect(() => {
+    const withdrawAmount = parseFloat(amount)
+    if (!user || !withdrawAmount || withdrawAmount <= 0) {
+      setQuote(null)
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/bsc/withdraw?amount=${withdrawAmount}`)
+        if (response.ok) {
+          setQuote(await response.json())
+        }
+      } catch (error) {
+        console.error('Error checking withdrawal policy:', error)
+      }
+    }, 400)
+
+    return () => clearTimeout(timer)
+  }, [amount, user])
+
   const fetchProfile = async () => {
     try {
       const { data, error } = await supabase
@@ -58,6 +112,22 @@ export default function WithdrawPage() {
     }
   }
 
+  const fetchSavedAddresses = async () => {
+    try {
+      const response = await fetch('/api/withdrawal-addresses')
+      if (!response.ok) return
+
+      const data = await response.json()
+      // Only addresses that are confirmed and past their lock can be picked
+      setSavedAddresses(data.addresses.filter((a: SavedAddress) =>
+        a.available_at && new Date(a.available_at).getTime() <= Date.now()
+      ))
+      setWhitelistOnly(data.whitelistOnly)
+    } catch (error) {
+      console.error('Error fetching saved addresses:', error)
+    }
+  }
+
   const checkPendingWithdrawal = async () => {
     try {
       const { data, error } = await supabase
@@ -96,41 +166,30 @@ export default function WithdrawPage() {
 
     const withdrawAmount = parseFloat(amount)
 
-    if (withdrawAmount < 10) {
-      setError('Minimum withdrawal amount is $10')
-      setIsSubmitting(false)
-      return
-    }
-
     if (!walletAddress) {
       setError('Please enter your BSC wallet address')
       setIsSubmitting(false)
       return
     }
 
-    if (!profile || withdrawAmount > profile.main_wallet_balance) {
-      setError('Insufficient main wallet balance')
-      setIsSubmitting(false)
-      return
-    }
-
     try {
       const response = await fetch('/api/bsc/withdraw', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': idempotencyKey
         },
         body: JSON.stringify({
           amount: withdrawAmount,
-          walletAddress: walletAddress,
-          userId: user.id
+          walletAddress: walletAddress
         })
       })
 
       const data = await response.json()
+      setIdempotencyKey(crypto.randomUUID())
 
       if (response.ok) {
-        setSuccess(`Withdrawal request submitted successfully! Net amount: $${data.netAmount.toFixed(2)} (after 10% fee). Your request is being processed.`)
+        setSuccess(`Withdrawal request submitted successfully! Net amount: $${data.netAmount.toFixed(2)} (after $${data.withdrawalFee.toFixed(2)} fee). ${data.requiresReview ? 'Large withdrawals are reviewed manually before payout.' : 'Your request is being processed.'}`)
         setAmount('')
         setWalletAddress('')
 
@@ -139,6 +198,8 @@ export default function WithdrawPage() {
 
         // Refresh pending withdrawal status
         await checkPendingWithdrawal()
+      } else if (data.violations?.length > 0) {
+        setError(data.violations.map((v: WithdrawalViolation) => v.message).join(' '))
       } else {
         setError(data.error || 'Failed to submit withdrawal request')
       }
@@ -219,7 +280,7 @@ export default function WithdrawPage() {
                 value={amount}
                 onChange={(e) => setAmount(e.target.value)}
                 placeholder="0.00"
-                min="10"
+                min={quote?.limits.minAmount ?? 10}
                 step="0.01"
                 required
                 className="w-full px-4 py-4 bg-white/10 border border-white/20 rounded-lg text-white text-2xl text-center placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-amber-500"
@@ -231,16 +292,34 @@ export default function WithdrawPage() {
               <label className="block text-white text-sm font-medium mb-2">
                 BSC Wallet Address
               </label>
-              <input
-                type="text"
-                value={walletAddress}
-                onChange={(e) => setWalletAddress(e.target.value)}
-                placeholder="0x..."
-                required
-                className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-amber-500"
-              />
+              {savedAddresses.length > 0 && (
+                <select
+                  value={savedAddresses.some(a => a.address === walletAddress) ? walletAddress : ''}
+                  onChange={(e) => setWalletAddress(e.target.value)}
+                  className="w-full px-4 py-3 mb-3 bg-white/10 border border-white/20 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+                >
+                  <option value="" className="bg-gray-900">{whitelistOnly ? 'Select a saved address' : 'Saved addresses...'}</option>
+                  {savedAddresses.map((saved) => (
+                    <option key={saved.id} value={saved.address} className="bg-gray-900">
+                      {saved.label} ({saved.address.slice(0, 6)}...{saved.address.slice(-4)})
+                    </option>
+                  ))}
+                </select>
+              )}
+              {!whitelistOnly && (
+                <input
+                  type="text"
+                  value={walletAddress}
+                  onChange={(e) => setWalletAddress(e.target.value)}
+                  placeholder="0x..."
+                  required
+                  className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-amber-500"
+                />
+              )}
               <p className="text-gray-400 text-sm mt-2">
-                Enter your BSC wallet address to receive USDT
+                {whitelistOnly
+                  ? 'Whitelist-only withdrawals are on. Only confirmed addresses from your address book can be used.'
+                  : 'Enter your BSC wallet address to receive USDT'}
               </p>
             </div>
 
@@ -250,12 +329,29 @@ export default function WithdrawPage() {
                 <span>${amount || '0.00'}</span>
               </div>
 
+              <div className="flex justify-between text-sm text-white mb-2">
+                <span>Fee{quote ? ` (${(quote.feeRate * 100).toFixed(2).replace(/\.?0+$/, '')}%)` : ''}:</span>
+                <span>${quote ? quote.fee.toFixed(2) : '0.00'}</span>
+              </div>
+
               <div className="flex justify-between text-lg font-bold text-white border-t border-white/20 pt-2">
                 <span>Net Amount:</span>
-                <span>${amount ? (parseFloat(amount) * 0.90).toFixed(2) : '0.00'}</span>
+                <span>${quote ? quote.netAmount.toFixed(2) : '0.00'}</span>
               </div>
             </div>
 
+            {/* Policy checks for the entered amount */}
+            {quote && quote.violations.length > 0 && !pendingWithdrawal && (
+              <ul className="bg-red-500/10 border border-red-500/50 rounded-lg p-3 text-sm text-red-200 space-y-1">
+                {quote.violations.map((violation) => (
+                  <li key={violation.code}>• {violation.message}</li>
+                ))}
+              </ul>
+            )}
+            {quote?.allowed && quote.requiresReview && (
+              <p className="text-amber-200 text-sm">This amount will be reviewed manually before it is paid out.</p>
+            )}
+
             <div>
               <label className="block text-white text-sm font-medium mb-2">
                 Enter Password
@@ -270,7 +366,7 @@ export default function WithdrawPage() {
 
             <button
               type="submit"
-              disabled={isSubmitting || !amount || !walletAddress || !!pendingWithdrawal}
+              disabled={isSubmitting || !amount || !walletAddress || !!pendingWithdrawal || (quote !== null && !quote.allowed)}
               className="w-full jarvis-button py-4 rounded-lg text-white font-semibold text-lg disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {pendingWithdrawal ? 'PENDING WITHDRAWAL IN PROGRESS' : (isSubmitting ? 'Processing...' : 'SUBMIT')}
@@ -288,6 +384,16 @@ export default function WithdrawPage() {
             <span className="text-white font-semibold">WITHDRAW HISTORY</span>
           </div>
         </Link>
+
+        <Link
+          href="/dashboard/withdraw/addresses"
+          className="jarvis-card rounded-xl p-4 mt-4 flex items-center justify-between hover:bg-white/10 transition-colors"
+        >
+          <div className="flex items-center space-x-3">
+            <BookUser className="h-6 w-6 text-amber-300" />
+            <span className="text-white font-semibold">MANAGE ADDRESSES</span>
+          </div>
+        </Link>
       </div>
     </div>
   )
@@ -69,16 +69,18 @@ export default function IncomeModal({
                 {selectedIncomeType === 'referral' && (
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4 text-xs sm:text-sm">
                     <div>
-                      <p className="text-gray-400">Commission Amount</p>
-                      <p className="text-white font-semibold">${item.commission_amount?.toFixed(2)}</p>
+                      <p className="text-gray-400">USDT Commission</p>
+                      <p className="text-white font-semibold">${Number(item.commission_amount || 0).toFixed(2)}</p>
+                      <p className="text-green-400">{item.commission_percentage}%</p>
                     </div>
                     <div>
-                      <p className="text-gray-400">Level</p>
-                      <p className="text-white">Level {item.level}</p>
+                      <p className="text-gray-400">JRC Commission</p>
+                      <p className="text-white font-semibold">{Number(item.jrc_commission || 0).toLocaleString()} JRC</p>
+                      <p className="text-yellow-400">{Number(item.jrc_percentage || 0)}%</p>
                     </div>
                     <div>
-                      <p className="text-gray-400">Commission %</p>
-                      <p className="text-green-400">{item.commission_percentage}%</p>
+                      <p className="text-gray-400">Level</p>
+                      <p className="text-white">Level {item.level}</p>
                     </div>
                     <div>
                       <p className="text-gray-400">Date</p>
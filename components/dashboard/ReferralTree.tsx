@@ -0,0 +1,151 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { ChevronDown, ChevronRight, Users } from 'lucide-react'
+import type { ReferralTreeNode, ReferralTreePage } from '@/lib/referralService'
+
+const PAGE_SIZE = 20
+
+async function fetchTreePage(root: string | null, page: number): Promise<ReferralTreePage> {
+  const params = new URLSearchParams({ depth: '1', page: String(page), limit: String(PAGE_SIZE) })
+  if (root) params.set('root', root)
+
+  const response = await fetch(`/api/referrals/tree?${params.toString()}`)
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load referral tree')
+  }
+
+  return data
+}
+
+// Direct referrals of root (null = the signed-in user), loaded a page at a time
+function TreeBranch({ root }: { root: string | null }) {
+  const [nodes, setNodes] = useState<ReferralTreeNode[]>([])
+  const [page, setPage] = useState(0)
+  const [total, setTotal] = useState(0)
+  const [hasMore, setHasMore] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  const loadPage = useCallback(async (nextPage: number) => {
+    setIsLoading(true)
+    setError('')
+    try {
+      const data = await fetchTreePage(root, nextPage)
+      setNodes(prev => nextPage === 1 ? data.nodes : [...prev, ...data.nodes])
+      setPage(nextPage)
+      setTotal(data.total)
+      setHasMore(data.hasMore)
+    } catch (error: any) {
+      setError(error.message || 'Failed to load referral tree')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [root])
+
+  useEffect(() => {
+    loadPage(1)
+  }, [loadPage])
+
+  if (error) {
+    return <p className="text-red-300 text-sm py-2">{error}</p>
+  }
+
+  if (!isLoading && page > 0 && nodes.length === 0) {
+    return (
+      <div className="text-center py-6 text-gray-400">
+        <p>No team members found yet.</p>
+        <p className="text-sm mt-2">Share your referral link to start building your team!</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      {nodes.map(node => <TreeNodeItem key={node.id} node={node} />)}
+
+      {isLoading && (
+        <div className="flex justify-center py-2">
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+        </div>
+      )}
+
+      {hasMore && !isLoading && (
+        <button
+          onClick={() => loadPage(page + 1)}
+          className="w-full text-center text-blue-300 hover:text-blue-200 text-sm py-2"
+        >
+          Show more ({nodes.length} of {total})
+        </button>
+      )}
+    </div>
+  )
+}
+
+function TreeNodeItem({ node }: { node: ReferralTreeNode }) {
+  const [isExpanded, setIsExpanded] = useState(false)
+
+  return (
+    <div>
+      <div className="bg-white/5 rounded-lg p-3">
+        <div className="flex items-start justify-between">
+          <button
+            onClick={() => node.expandable && setIsExpanded(!isExpanded)}
+            disabled={!node.expandable}
+            className="flex items-center space-x-2 text-left disabled:cursor-default"
+          >
+            {node.expandable ? (
+              isExpanded ? <ChevronDown className="h-4 w-4 text-gray-300" /> : <ChevronRight className="h-4 w-4 text-gray-300" />
+            ) : (
+              <span className="w-4" />
+            )}
+            <div>
+              <p className="text-white font-medium">{node.username || node.fullName || node.referralCode}</p>
+              <p className="text-gray-400 text-xs">
+                Level {node.level} &middot; Joined {new Date(node.joinedAt).toLocaleDateString()}
+              </p>
+            </div>
+          </button>
+          <span className="flex items-center text-gray-400 text-xs">
+            <Users className="h-3 w-3 mr-1" />
+            {node.directReferrals}
+          </span>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 mt-2 text-xs">
+          <div className="bg-white/5 rounded p-2">
+            <p className="text-gray-400">Active Investment</p>
+            <p className="text-white font-semibold">${node.activeInvestment.toFixed(2)}</p>
+          </div>
+          <div className="bg-white/5 rounded p-2">
+            <p className="text-gray-400">Team Volume</p>
+            <p className="text-white font-semibold">${node.teamVolume.toFixed(2)}</p>
+          </div>
+          <div className="bg-green-500/10 rounded p-2">
+            <p className="text-gray-400">You Earned</p>
+            <p className="text-green-400 font-semibold">${node.usdtEarned.toFixed(2)}</p>
+            {node.jrcEarned > 0 && (
+              <p className="text-yellow-400">{node.jrcEarned.toLocaleString()} JRC</p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {isExpanded && (
+        <div className="ml-4 pl-3 mt-2 border-l border-white/10">
+          <TreeBranch root={node.id} />
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Expandable referral genealogy of the signed-in user. Each node's children are loaded
+ * from /api/referrals/tree when it is first expanded.
+ */
+export default function ReferralTree() {
+  return <TreeBranch root={null} />
+}
@@ -0,0 +1,102 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+
+// Pays many withdrawals in one transaction. Tokens are pulled from the caller (the global
+// admin wallet), which approves this contract once. A failing item does not revert the
+// batch; every item emits PayoutSent or PayoutFailed with the caller's payout id.
+contract MultiSend is Ownable, ReentrancyGuard {
+    IERC20 public token;
+
+    uint256 public constant MAX_BATCH_SIZE = 200;
+
+    mapping(address => bool) public authorizedSenders;
+
+    event PayoutSent(
+        bytes32 indexed payoutId,
+        address indexed recipient,
+        uint256 amount
+    );
+
+    event PayoutFailed(
+        bytes32 indexed payoutId,
+        address indexed recipient,
+        uint256 amount,
+        string reason
+    );
+
+    event BatchProcessed(
+        address indexed sender,
+        uint256 itemCount,
+        uint256 sentCount,
+        uint256 totalSent
+    );
+
+    modifier onlyAuthorized() {
+        require(authorizedSenders[msg.sender] || msg.sender == owner(), "Not authorized");
+        _;
+    }
+
+    constructor(address _token) {
+        token = IERC20(_token);
+    }
+
+    function batchTransfer(
+        bytes32[] calldata payoutIds,
+        address[] calldata recipients,
+        uint256[] calldata amounts
+    ) external onlyAuthorized nonReentrant {
+        require(
+            payoutIds.length == recipients.length && recipients.length == amounts.length,
+            "Array length mismatch"
+        );
+        require(payoutIds.length > 0, "Empty batch");
+        require(payoutIds.length <= MAX_BATCH_SIZE, "Batch too large");
+
+        uint256 sentCount = 0;
+        uint256 totalSent = 0;
+
+        for (uint256 i = 0; i < payoutIds.length; i++) {
+            if (recipients[i] == address(0)) {
+                emit PayoutFailed(payoutIds[i], recipients[i], amounts[i], "Zero recipient");
+                continue;
+            }
+
+            if (amounts[i] == 0) {
+                emit PayoutFailed(payoutIds[i], recipients[i], amounts[i], "Zero amount");
+                continue;
+            }
+
+            // Low-level call so one failing transfer (or a token that returns no bool)
+            // is reported instead of reverting the whole batch
+            (bool success, bytes memory data) = address(token).call(
+                abi.encodeWithSelector(IERC20.transferFrom.selector, msg.sender, recipients[i], amounts[i])
+            );
+
+            if (success && (data.length == 0 || abi.decode(data, (bool)))) {
+                sentCount++;
+                totalSent += amounts[i];
+                emit PayoutSent(payoutIds[i], recipients[i], amounts[i]);
+            } else {
+                emit PayoutFailed(payoutIds[i], recipients[i], amounts[i], "Transfer failed");
+            }
+        }
+
+        emit BatchProcessed(msg.sender, payoutIds.length, sentCount, totalSent);
+    }
+
+    function addAuthorizedSender(address sender) external onlyOwner {
+        authorizedSenders[sender] = true;
+    }
+
+    function removeAuthorizedSender(address sender) external onlyOwner {
+        authorizedSenders[sender] = false;
+    }
+
+    function updateToken(address _token) external onlyOwner {
+        token = IERC20(_token);
+    }
+}
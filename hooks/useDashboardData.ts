@@ -13,7 +13,7 @@ interface Profile {
 
 interface InvestmentPlan {
   id: string
-  plan_type: 'A' | 'B' | 'C'
+  plan_type: string
   investment_amount: number
   daily_percentage: number
   jarvis_tokens_earned: number
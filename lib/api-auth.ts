@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createSupabaseServerClient, supabaseAdmin } from './supabase-server'
+
+// The caller as resolved from the Supabase session cookie
+export interface AuthenticatedUser {
+  id: string
+  email: string | null
+}
+
+export interface RouteContext {
+  params: Record<string, string>
+}
+
+export type AuthenticatedHandler = (
+  request: NextRequest,
+  user: AuthenticatedUser,
+  context: RouteContext
+) => Promise<NextResponse>
+
+/**
+ * Standard response for requests without a valid session
+ */
+export function unauthorizedResponse(message: string = 'Authentication required') {
+  return NextResponse.json({ error: message, code: 'UNAUTHENTICATED' }, { status: 401 })
+}
+
+/**
+ * Resolve the current user from the session cookie, or null when not signed in
+ */
+export async function getAuthenticatedUser(): Promise<AuthenticatedUser | null> {
+  try {
+    const supabase = createSupabaseServerClient()
+    const { data, error } = await supabase.auth.getUser()
+
+    if (error || !data?.user) {
+      return null
+    }
+
+    return {
+      id: data.user.id,
+      email: data.user.email ?? null
+    }
+  } catch (error) {
+    console.error('Error resolving session user:', error)
+    return null
+  }
+}
+
+/**
+ * Wrap a route handler so it only runs for signed-in users.
+ * The verified user is passed to the handler; any userId in the request is never trusted.
+ */
+export function withAuth(handler: AuthenticatedHandler) {
+  return async (request: NextRequest, context: RouteContext) => {
+    const user = await getAuthenticatedUser()
+
+    if (!user) {
+      return unauthorizedResponse()
+    }
+
+    return handler(request, user, context)
+  }
+}
+
+// A signed-in user whose profile has is_admin set
+export interface AdminUser extends AuthenticatedUser {
+  isAdmin: true
+}
+
+export type AdminHandler = (
+  request: NextRequest,
+  admin: AdminUser,
+  context: RouteContext
+) => Promise<NextResponse>
+
+/**
+ * Standard response for signed-in users without admin privileges
+ */
+export function forbiddenResponse(message: string = 'Admin privileges required') {
+  return NextResponse.json({ error: message, code: 'FORBIDDEN' }, { status: 403 })
+}
+
+/**
+ * Check profiles.is_admin for a user (same flag the deposit_requests RLS policy uses)
+ */
+export async function isAdminUser(userId: string): Promise<boolean> {
+  const { data: profile, error } = await supabaseAdmin
+    .from('profiles')
+    .select('is_admin')
+    .eq('id', userId)
+    .single()
+
+  if (error) {
+    console.error('Error checking admin status:', error)
+    return false
+  }
+
+  return profile?.is_admin === true
+}
+
+/**
+ * Wrap a route handler so it only runs for admins.
+ * The acting admin is passed to the handler so it can record who performed the action.
+ */
+export function withAdmin(handler: AdminHandler) {
+  return withAuth(async (request, user, context) => {
+    if (!(await isAdminUser(user.id))) {
+      return forbiddenResponse()
+    }
+
+    return handler(request, { ...user, isAdmin: true }, context)
+  })
+}
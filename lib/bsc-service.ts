@@ -10,12 +10,71 @@ interface BSCConfig {
   adminFeeWallet: string;
   globalAdminWallet: string;
   privateKey: string;
+  multiSendContractAddress?: string;
 }
 
+// One withdrawal in a MultiSend batch; id is the caller's payout id (a UUID)
+export interface BatchPayoutItem {
+  id: string;
+  toAddress: string;
+  amount: string;
+}
+
+// Outcome of one item, read from the PayoutSent / PayoutFailed events
+export interface BatchPayoutResult {
+  payoutId: string; // bytes32 form of the item id, see toPayoutId()
+  recipient: string;
+  amount: string;
+  success: boolean;
+  reason?: string;
+}
+
+// A USDT Transfer event decoded from a transaction receipt
+export interface USDTTransfer {
+  index: number; // position among the transaction's USDT transfers, stable across reorgs
+  from: string;
+  to: string;
+  amount: string;
+}
+
+const TRANSFER_EVENT_SIGNATURE = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+// Recipients per eth_getLogs request; public nodes reject very large topic filters
+const LOG_FILTER_ADDRESS_CHUNK = 200;
+
+const MAX_UINT256 = '115792089237316195423570985008687907853269984665640564039457584007913129639935';
+
+const MULTISEND_ABI = [
+  {
+    "inputs": [
+      {"name": "payoutIds", "type": "bytes32[]"},
+      {"name": "recipients", "type": "address[]"},
+      {"name": "amounts", "type": "uint256[]"}
+    ],
+    "name": "batchTransfer",
+    "outputs": [],
+    "type": "function"
+  }
+];
+
+const PAYOUT_SENT_INPUTS = [
+  {"indexed": true, "name": "payoutId", "type": "bytes32"},
+  {"indexed": true, "name": "recipient", "type": "address"},
+  {"indexed": false, "name": "amount", "type": "uint256"}
+];
+
+const PAYOUT_FAILED_INPUTS = [
+  {"indexed": true, "name": "payoutId", "type": "bytes32"},
+  {"indexed": true, "name": "recipient", "type": "address"},
+  {"indexed": false, "name": "amount", "type": "uint256"},
+  {"indexed": false, "name": "reason", "type": "string"}
+];
+
 class BSCService {
   private web3: Web3;
   private contract!: Contract<any>;
   private usdtContract!: Contract<any>;
+  private multiSendContract?: Contract<any>;
   private config: BSCConfig;
   private account: any;
   private rpcProviders: string[];
@@ -34,8 +93,10 @@ class BSCService {
     // CRITICAL: Validate wallet configuration before proceeding
     this.validateConfigurationSecurity();
     
-    // Multiple RPC providers for fallback
-    this.rpcProviders = [
+    // Multiple RPC providers for fallback. A local development chain (Hardhat/Anvil) must
+    // never fall back to mainnet.
+    const isLocalChain = /^https?:\/\/(localhost|127\.0\.0\.1)(:\d+)?/.test(config.rpcUrl || '');
+    this.rpcProviders = isLocalChain ? [config.rpcUrl] : [
       config.rpcUrl || "https://bsc-dataseed1.binance.org/",
       "https://bsc-dataseed2.binance.org/",
       "https://bsc-dataseed3.binance.org/",
@@ -170,11 +231,33 @@ class BSCService {
         "name": "transfer",
         "outputs": [{"name": "", "type": "bool"}],
         "type": "function"
+      },
+      {
+        "inputs": [
+          {"name": "owner", "type": "address"},
+          {"name": "spender", "type": "address"}
+        ],
+        "name": "allowance",
+        "outputs": [{"name": "", "type": "uint256"}],
+        "type": "function"
+      },
+      {
+        "inputs": [
+          {"name": "spender", "type": "address"},
+          {"name": "amount", "type": "uint256"}
+        ],
+        "name": "approve",
+        "outputs": [{"name": "", "type": "bool"}],
+        "type": "function"
       }
     ];
 
     this.contract = new this.web3.eth.Contract(paymentProcessorABI, this.config.contractAddress);
     this.usdtContract = new this.web3.eth.Contract(usdtABI, this.config.usdtContractAddress);
+
+    if (this.config.multiSendContractAddress) {
+      this.multiSendContract = new this.web3.eth.Contract(MULTISEND_ABI, this.config.multiSendContractAddress);
+    }
   }
 
   // Generate unique wallet address for each user
@@ -291,6 +374,76 @@ class BSCService {
     }
   }
 
+  // Every USDT Transfer in a transaction with its mining state. Unlike verifyTransaction() this
+  // does not throw for pending or failed transactions and also sees transfers made through
+  // other contracts, as long as the event was emitted by the USDT contract itself.
+  async getUSDTTransfers(txHash: string): Promise<{status: 'not_found' | 'success' | 'reverted', blockNumber?: number, blockHash?: string, confirmations: number, transfers: USDTTransfer[]}> {
+    return await this.retryWithFallback(async () => {
+      const receipt = await this.web3.eth.getTransactionReceipt(txHash);
+
+      if (!receipt) {
+        return { status: 'not_found' as const, confirmations: 0, transfers: [] };
+      }
+
+      const blockNumber = Number(receipt.blockNumber);
+      const latestBlock = Number(await this.web3.eth.getBlockNumber());
+
+      const transfers: USDTTransfer[] = [];
+      for (const log of receipt.logs) {
+        if (typeof log === 'string' || !log.topics || !log.address) continue;
+        if (log.address.toString().toLowerCase() !== this.config.usdtContractAddress.toLowerCase()) continue;
+
+        const topics = log.topics.map(topic => topic.toString());
+        if (topics[0] !== TRANSFER_EVENT_SIGNATURE || topics.length < 3) continue;
+
+        transfers.push({
+          index: transfers.length,
+          from: '0x' + topics[1].slice(26),
+          to: '0x' + topics[2].slice(26),
+          amount: this.web3.utils.fromWei((log.data || '0x0').toString(), 'ether')
+        });
+      }
+
+      return {
+        status: receipt.status ? 'success' as const : 'reverted' as const,
+        blockNumber,
+        blockHash: receipt.blockHash?.toString(),
+        confirmations: Math.max(latestBlock - blockNumber + 1, 0),
+        transfers
+      };
+    });
+  }
+
+  async getLatestBlockNumber(): Promise<number> {
+    return await this.retryWithFallback(async () => Number(await this.web3.eth.getBlockNumber()));
+  }
+
+  // Hashes of the transactions with a USDT Transfer to any of the addresses in [fromBlock, toBlock]
+  async findUSDTTransferTransactions(toAddresses: string[], fromBlock: number, toBlock: number): Promise<string[]> {
+    const txHashes = new Set<string>();
+
+    for (let i = 0; i < toAddresses.length; i += LOG_FILTER_ADDRESS_CHUNK) {
+      const recipientTopics = toAddresses
+        .slice(i, i + LOG_FILTER_ADDRESS_CHUNK)
+        .map(address => '0x' + address.toLowerCase().replace(/^0x/, '').padStart(64, '0'));
+
+      const logs = await this.retryWithFallback(() => this.web3.eth.getPastLogs({
+        address: this.config.usdtContractAddress,
+        fromBlock,
+        toBlock,
+        topics: [TRANSFER_EVENT_SIGNATURE, null, recipientTopics]
+      }));
+
+      for (const log of logs) {
+        if (typeof log !== 'string' && log.transactionHash) {
+          txHashes.add(log.transactionHash.toString());
+        }
+      }
+    }
+
+    return Array.from(txHashes);
+  }
+
   // Rate limiting helper
   private async rateLimitedRequest<T>(requestFn: () => Promise<T>): Promise<T> {
     const now = Date.now();
@@ -1061,6 +1214,247 @@ class BSCService {
     }
   }
 
+  // Address that queued withdrawal payouts are sent from (must be the global admin wallet)
+  getPayoutAddress(): string {
+    if (!this.config.globalAdminWallet) {
+      throw new Error('GLOBAL_ADMIN_WALLET not configured');
+    }
+
+    if (this.account.address.toLowerCase() !== this.config.globalAdminWallet.toLowerCase()) {
+      throw new Error(`Private key does not match global admin wallet. Expected: ${this.config.globalAdminWallet}, Got: ${this.account.address}`);
+    }
+
+    return this.account.address;
+  }
+
+  // Nonce of an address; 'pending' includes transactions still in the mempool
+  async getTransactionCount(address: string, blockTag: 'latest' | 'pending' = 'latest'): Promise<number> {
+    return await this.retryWithFallback(async () => {
+      return Number(await this.web3.eth.getTransactionCount(address, blockTag));
+    });
+  }
+
+  // Sign a USDT payout from the global admin wallet with a fixed nonce without sending it.
+  // The hash is known before broadcast, so the caller can persist it and re-send the same raw transaction.
+  async signUSDTPayout(toAddress: string, amount: string, nonce: number): Promise<{txHash: string, rawTransaction: string}> {
+    const fromAddress = this.getPayoutAddress();
+
+    // validateTransfer() only allows the admin wallets as destinations, so user
+    // payouts are checked with the address validation alone
+    const destinationValidation = this.securityValidator.validateAddress(toAddress, 'Payout Destination');
+    if (!destinationValidation.isValid) {
+      throw new Error(`SECURITY BLOCK: ${destinationValidation.errors.join('; ')}`);
+    }
+
+    if (!(parseFloat(amount) > 0)) {
+      throw new Error('Payout amount must be a positive number');
+    }
+
+    const balance = parseFloat(await this.getUSDTBalance(fromAddress));
+    if (balance < parseFloat(amount)) {
+      throw new Error(`Insufficient USDT in global admin wallet for withdrawal. Required: ${amount}, Available: ${balance}`);
+    }
+
+    const amountWei = this.web3.utils.toWei(amount, 'ether');
+    const transferTx = this.usdtContract.methods.transfer(toAddress, amountWei);
+    const gasEstimate = await this.retryWithFallback(() => transferTx.estimateGas({ from: fromAddress }));
+    const gasPrice = await this.retryWithFallback(() => this.web3.eth.getGasPrice());
+
+    const signedTx = await this.account.signTransaction({
+      from: fromAddress,
+      to: this.config.usdtContractAddress,
+      data: transferTx.encodeABI(),
+      gas: gasEstimate.toString(),
+      gasPrice: gasPrice.toString(),
+      nonce
+    });
+
+    return {
+      txHash: signedTx.transactionHash,
+      rawTransaction: signedTx.rawTransaction
+    };
+  }
+
+  // Broadcast a signed transaction without waiting for the receipt
+  async sendRawTransaction(rawTransaction: string): Promise<string> {
+    return await this.retryWithFallback(async () => {
+      const txHash = await this.web3.requestManager.send({
+        method: 'eth_sendRawTransaction',
+        params: [rawTransaction]
+      });
+      return txHash.toString();
+    });
+  }
+
+  // Mining state of a transaction; confirmations counts the including block
+  async getTransactionConfirmations(txHash: string): Promise<{status: 'not_found' | 'success' | 'reverted', blockNumber?: number, confirmations: number}> {
+    return await this.retryWithFallback(async () => {
+      const receipt = await this.web3.eth.getTransactionReceipt(txHash);
+
+      if (!receipt) {
+        return { status: 'not_found' as const, confirmations: 0 };
+      }
+
+      const blockNumber = Number(receipt.blockNumber);
+      const latestBlock = Number(await this.web3.eth.getBlockNumber());
+
+      return {
+        status: receipt.status ? 'success' as const : 'reverted' as const,
+        blockNumber,
+        confirmations: Math.max(latestBlock - blockNumber + 1, 0)
+      };
+    });
+  }
+
+  // bytes32 payout id used in MultiSend events for a UUID
+  toPayoutId(id: string): string {
+    const hex = id.replace(/-/g, '').toLowerCase();
+    if (!/^[0-9a-f]{32}$/.test(hex)) {
+      throw new Error(`Invalid payout id: ${id}`);
+    }
+    return `0x${hex.padEnd(64, '0')}`;
+  }
+
+  private getMultiSendContract(): Contract<any> {
+    if (!this.multiSendContract) {
+      throw new Error('MULTISEND_CONTRACT_ADDRESS not configured');
+    }
+    return this.multiSendContract;
+  }
+
+  // The MultiSend contract pulls USDT from the global admin wallet, so it needs an allowance.
+  // It can only pull from its caller, so a one-off unlimited approval is used. The approval's
+  // nonce comes from claimNonce (the payout queue's lease) so no payout can reuse it.
+  async ensureMultiSendAllowance(totalAmount: string, claimNonce: (chainNonce: number) => Promise<number>): Promise<string | null> {
+    const multiSend = this.getMultiSendContract();
+    const fromAddress = this.getPayoutAddress();
+    const required = BigInt(this.web3.utils.toWei(totalAmount, 'ether'));
+
+    const allowance = await this.retryWithFallback(async () => {
+      return BigInt((await this.usdtContract.methods.allowance(fromAddress, multiSend.options.address).call()) as any);
+    });
+
+    if (allowance >= required) {
+      return null;
+    }
+
+    console.log(`Approving MultiSend contract ${multiSend.options.address} to send USDT from ${fromAddress}`);
+
+    const approveTx = this.usdtContract.methods.approve(multiSend.options.address, MAX_UINT256);
+    const gasEstimate = await approveTx.estimateGas({ from: fromAddress });
+    const gasPrice = await this.web3.eth.getGasPrice();
+    const nonce = await claimNonce(await this.getTransactionCount(fromAddress, 'pending'));
+
+    const signedTx = await this.account.signTransaction({
+      from: fromAddress,
+      to: this.config.usdtContractAddress,
+      data: approveTx.encodeABI(),
+      gas: gasEstimate.toString(),
+      gasPrice: gasPrice.toString(),
+      nonce
+    });
+    const receipt = await this.web3.eth.sendSignedTransaction(signedTx.rawTransaction as string);
+
+    return receipt.transactionHash.toString();
+  }
+
+  // Sign a MultiSend batch from the global admin wallet with a fixed nonce without sending it
+  async signBatchPayout(items: BatchPayoutItem[], nonce: number): Promise<{txHash: string, rawTransaction: string}> {
+    const multiSend = this.getMultiSendContract();
+    const fromAddress = this.getPayoutAddress();
+
+    if (items.length === 0) {
+      throw new Error('Batch payout has no items');
+    }
+
+    for (const item of items) {
+      const validation = this.securityValidator.validateAddress(item.toAddress, 'Payout Destination');
+      if (!validation.isValid) {
+        throw new Error(`SECURITY BLOCK: ${validation.errors.join('; ')}`);
+      }
+      if (!(parseFloat(item.amount) > 0)) {
+        throw new Error(`Payout amount must be a positive number (${item.id})`);
+      }
+    }
+
+    const total = items.reduce((sum, item) => sum + parseFloat(item.amount), 0);
+    const balance = parseFloat(await this.getUSDTBalance(fromAddress));
+    if (balance < total) {
+      throw new Error(`Insufficient USDT in global admin wallet for batch payout. Required: ${total}, Available: ${balance}`);
+    }
+
+    const batchTx = multiSend.methods.batchTransfer(
+      items.map(item => this.toPayoutId(item.id)),
+      items.map(item => item.toAddress),
+      items.map(item => this.web3.utils.toWei(item.amount, 'ether'))
+    );
+    const gasEstimate = await this.retryWithFallback(() => batchTx.estimateGas({ from: fromAddress }));
+    const gasPrice = await this.retryWithFallback(() => this.web3.eth.getGasPrice());
+
+    const signedTx = await this.account.signTransaction({
+      from: fromAddress,
+      to: multiSend.options.address,
+      data: batchTx.encodeABI(),
+      gas: gasEstimate.toString(),
+      gasPrice: gasPrice.toString(),
+      nonce
+    });
+
+    return {
+      txHash: signedTx.transactionHash,
+      rawTransaction: signedTx.rawTransaction
+    };
+  }
+
+  // Mining state of a batch and the per-item results from its events
+  async getBatchPayoutResults(txHash: string): Promise<{status: 'not_found' | 'success' | 'reverted', blockNumber?: number, confirmations: number, results: BatchPayoutResult[]}> {
+    const multiSend = this.getMultiSendContract();
+
+    return await this.retryWithFallback(async () => {
+      const receipt = await this.web3.eth.getTransactionReceipt(txHash);
+
+      if (!receipt) {
+        return { status: 'not_found' as const, confirmations: 0, results: [] };
+      }
+
+      const blockNumber = Number(receipt.blockNumber);
+      const latestBlock = Number(await this.web3.eth.getBlockNumber());
+      const sentTopic = this.web3.utils.sha3('PayoutSent(bytes32,address,uint256)');
+      const failedTopic = this.web3.utils.sha3('PayoutFailed(bytes32,address,uint256,string)');
+
+      const results: BatchPayoutResult[] = [];
+      for (const log of receipt.logs) {
+        if (typeof log === 'string' || !log.topics || !log.address) continue;
+        if (log.address.toString().toLowerCase() !== String(multiSend.options.address).toLowerCase()) continue;
+
+        const topics = log.topics.map(topic => topic.toString());
+        const isSent = topics[0] === sentTopic;
+        if (!isSent && topics[0] !== failedTopic) continue;
+
+        const decoded: any = this.web3.eth.abi.decodeLog(
+          isSent ? PAYOUT_SENT_INPUTS : PAYOUT_FAILED_INPUTS,
+          (log.data || '0x').toString(),
+          topics.slice(1)
+        );
+
+        results.push({
+          payoutId: String(decoded.payoutId).toLowerCase(),
+          recipient: String(decoded.recipient),
+          amount: this.web3.utils.fromWei(decoded.amount, 'ether'),
+          success: isSent,
+          reason: isSent ? undefined : String(decoded.reason)
+        });
+      }
+
+      return {
+        status: receipt.status ? 'success' as const : 'reverted' as const,
+        blockNumber,
+        confirmations: Math.max(latestBlock - blockNumber + 1, 0),
+        results
+      };
+    });
+  }
+
   // Process withdrawal by transferring USDT from global admin wallet to user (legacy method)
   async processWithdrawal(userWalletAddress: string, amount: string): Promise<string> {
     try {
@@ -0,0 +1,309 @@
+import Web3 from 'web3'
+import crypto from 'crypto'
+import { ChainType, DepositNetwork, DepositToken, depositNetworkService } from './deposit-networks'
+
+// One token movement in a transaction; amount is in token units
+export interface ChainTransfer {
+  index: number // position among the transaction's transfers of this token
+  from: string
+  to: string
+  amount: string
+}
+
+export interface ChainTransferState {
+  status: 'not_found' | 'success' | 'reverted'
+  blockNumber?: number
+  confirmations: number
+  transfers: ChainTransfer[]
+}
+
+/**
+ * Read-only access to one chain for deposit verification. Each deposit network in the
+ * registry is served by the adapter for its chain_type.
+ */
+export interface ChainAdapter {
+  readonly network: DepositNetwork
+  // Canonical form of a hash, so the same transaction cannot be submitted twice in another case
+  normalizeTxHash(txHash: string): string
+  isValidTxHash(txHash: string): boolean
+  isValidAddress(address: string): boolean
+  sameAddress(a: string, b: string): boolean
+  // Transfers of token in txHash with the transaction's mining state; never throws for
+  // pending or failed transactions
+  getTransfers(txHash: string, token: DepositToken): Promise<ChainTransferState>
+}
+
+const TRANSFER_EVENT_TOPIC = 'ddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef'
+
+const MAX_RETRIES = 3
+
+async function withRetry<T>(operation: () => Promise<T>): Promise<T> {
+  let lastError: any
+
+  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+    try {
+      return await operation()
+    } catch (error) {
+      lastError = error
+      if (attempt < MAX_RETRIES - 1) {
+        await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 500))
+      }
+    }
+  }
+
+  throw lastError
+}
+
+// BNB Smart Chain, Ethereum and other EVM chains: ERC-20 Transfer events or the native value
+export class EvmChainAdapter implements ChainAdapter {
+  private web3: Web3
+
+  constructor(readonly network: DepositNetwork, rpcUrl: string) {
+    this.web3 = new Web3(rpcUrl)
+  }
+
+  normalizeTxHash(txHash: string): string {
+    return txHash.trim().toLowerCase()
+  }
+
+  isValidTxHash(txHash: string): boolean {
+    return /^0x[0-9a-fA-F]{64}$/.test(txHash)
+  }
+
+  isValidAddress(address: string): boolean {
+    return /^0x[0-9a-fA-F]{40}$/.test(address)
+  }
+
+  sameAddress(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase()
+  }
+
+  async getTransfers(txHash: string, token: DepositToken): Promise<ChainTransferState> {
+    return withRetry(async () => {
+      const receipt = await this.web3.eth.getTransactionReceipt(txHash)
+
+      if (!receipt) {
+        return { status: 'not_found' as const, confirmations: 0, transfers: [] }
+      }
+
+      const blockNumber = Number(receipt.blockNumber)
+      const latestBlock = Number(await this.web3.eth.getBlockNumber())
+      const transfers: ChainTransfer[] = []
+
+      if (token.contract_address) {
+        for (const log of receipt.logs) {
+          if (typeof log === 'string' || !log.topics || !log.address) continue
+          if (!this.sameAddress(log.address.toString(), token.contract_address)) continue
+
+          const topics = log.topics.map(topic => topic.toString())
+          if (topics[0] !== `0x${TRANSFER_EVENT_TOPIC}` || topics.length < 3) continue
+
+          transfers.push({
+            index: transfers.length,
+            from: '0x' + topics[1].slice(26),
+            to: '0x' + topics[2].slice(26),
+            amount: this.web3.utils.fromWei((log.data || '0x0').toString(), token.decimals)
+          })
+        }
+      } else {
+        // Native coin: only the transaction's own value, not internal transfers by contracts
+        const tx = await this.web3.eth.getTransaction(txHash)
+        if (tx?.to && BigInt(tx.value) > BigInt(0)) {
+          transfers.push({
+            index: 0,
+            from: tx.from.toString(),
+            to: tx.to.toString(),
+            amount: this.web3.utils.fromWei(tx.value, token.decimals)
+          })
+        }
+      }
+
+      return {
+        status: receipt.status ? 'success' as const : 'reverted' as const,
+        blockNumber,
+        confirmations: Math.max(latestBlock - blockNumber + 1, 0),
+        transfers
+      }
+    })
+  }
+}
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz'
+
+function sha256(data: Buffer): Buffer {
+  return crypto.createHash('sha256').update(data).digest()
+}
+
+function base58Encode(data: Buffer): string {
+  const digits = [0]
+  for (const byte of data) {
+    let carry = byte
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8
+      digits[i] = carry % 58
+      carry = Math.floor(carry / 58)
+    }
+    while (carry > 0) {
+      digits.push(carry % 58)
+      carry = Math.floor(carry / 58)
+    }
+  }
+
+  let result = ''
+  for (let i = 0; i < data.length && data[i] === 0; i++) result += BASE58_ALPHABET[0]
+  for (let i = digits.length - 1; i >= 0; i--) result += BASE58_ALPHABET[digits[i]]
+  return result
+}
+
+function base58Decode(text: string): Buffer | null {
+  const bytes = [0]
+  for (const char of text) {
+    let carry = BASE58_ALPHABET.indexOf(char)
+    if (carry < 0) return null
+    for (let i = 0; i < bytes.length; i++) {
+      carry += bytes[i] * 58
+      bytes[i] = carry & 0xff
+      carry >>= 8
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff)
+      carry >>= 8
+    }
+  }
+
+  for (let i = 0; i < text.length && text[i] === BASE58_ALPHABET[0]; i++) bytes.push(0)
+  return Buffer.from(bytes.reverse())
+}
+
+// TRON: TRC-20 Transfer events or native TRX, read from the full node HTTP API (TronGrid)
+export class TronChainAdapter implements ChainAdapter {
+  constructor(readonly network: DepositNetwork, private apiUrl: string) {}
+
+  // Hex like EVM hashes, so case does not matter either
+  normalizeTxHash(txHash: string): string {
+    return txHash.trim().toLowerCase()
+  }
+
+  isValidTxHash(txHash: string): boolean {
+    return /^[0-9a-fA-F]{64}$/.test(txHash)
+  }
+
+  isValidAddress(address: string): boolean {
+    const decoded = base58Decode(address)
+    if (!decoded || decoded.length !== 25 || decoded[0] !== 0x41) return false
+
+    const checksum = sha256(sha256(decoded.subarray(0, 21))).subarray(0, 4)
+    return checksum.equals(decoded.subarray(21))
+  }
+
+  sameAddress(a: string, b: string): boolean {
+    return a === b
+  }
+
+  async getTransfers(txHash: string, token: DepositToken): Promise<ChainTransferState> {
+    return withRetry(async () => {
+      const info = await this.post('/wallet/gettransactioninfobyid', { value: txHash })
+
+      // Unknown or not yet solidified transactions come back as an empty object
+      if (!info || !info.id || info.blockNumber == null) {
+        return { status: 'not_found' as const, confirmations: 0, transfers: [] }
+      }
+
+      const blockNumber = Number(info.blockNumber)
+      const nowBlock = await this.post('/wallet/getnowblock', {})
+      const latestBlock = Number(nowBlock?.block_header?.raw_data?.number || 0)
+      const transfers: ChainTransfer[] = []
+
+      if (token.contract_address) {
+        for (const log of info.log || []) {
+          if (!log.address || !this.sameAddress(this.toBase58(`41${log.address}`), token.contract_address)) continue
+
+          const topics: string[] = log.topics || []
+          if (topics[0] !== TRANSFER_EVENT_TOPIC || topics.length < 3) continue
+
+          transfers.push({
+            index: transfers.length,
+            from: this.toBase58(`41${topics[1].slice(24)}`),
+            to: this.toBase58(`41${topics[2].slice(24)}`),
+            amount: Web3.utils.fromWei(`0x${log.data || '0'}`, token.decimals)
+          })
+        }
+      } else {
+        const tx = await this.post('/wallet/gettransactionbyid', { value: txHash })
+        const contract = tx?.raw_data?.contract?.[0]
+        if (contract?.type === 'TransferContract' && contract.parameter?.value?.amount > 0) {
+          const value = contract.parameter.value
+          transfers.push({
+            index: 0,
+            from: this.toBase58(value.owner_address),
+            to: this.toBase58(value.to_address),
+            amount: Web3.utils.fromWei(value.amount, token.decimals)
+          })
+        }
+      }
+
+      // receipt.result is only set for contract calls; plain transfers report failure in result
+      const reverted = info.result === 'FAILED' || (info.receipt?.result && info.receipt.result !== 'SUCCESS')
+
+      return {
+        status: reverted ? 'reverted' as const : 'success' as const,
+        blockNumber,
+        confirmations: Math.max(latestBlock - blockNumber + 1, 0),
+        transfers
+      }
+    })
+  }
+
+  // Hex address with the 41 prefix to the T... form users see
+  private toBase58(hexAddress: string): string {
+    const payload = Buffer.from(hexAddress, 'hex')
+    const checksum = sha256(sha256(payload)).subarray(0, 4)
+    return base58Encode(Buffer.concat([payload, checksum]))
+  }
+
+  private async post(path: string, body: Record<string, any>): Promise<any> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (process.env.TRON_API_KEY) {
+      headers['TRON-PRO-API-KEY'] = process.env.TRON_API_KEY
+    }
+
+    const response = await fetch(`${this.apiUrl.replace(/\/$/, '')}${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body)
+    })
+
+    if (!response.ok) {
+      throw new Error(`${this.network.name} API ${path} failed with status ${response.status}`)
+    }
+
+    return response.json()
+  }
+}
+
+const ADAPTERS: Record<ChainType, new (network: DepositNetwork, rpcUrl: string) => ChainAdapter> = {
+  evm: EvmChainAdapter,
+  tron: TronChainAdapter
+}
+
+const adapterCache = new Map<string, ChainAdapter>()
+
+/**
+ * Adapter for a registry network, reused while the network's endpoint is unchanged
+ */
+export function getChainAdapter(network: DepositNetwork): ChainAdapter {
+  const rpcUrl = depositNetworkService.getRpcUrl(network)
+  const cacheKey = `${network.id}:${rpcUrl}`
+
+  let adapter = adapterCache.get(cacheKey)
+  if (!adapter) {
+    const Adapter = ADAPTERS[network.chain_type]
+    if (!Adapter) {
+      throw new Error(`No chain adapter for ${network.chain_type} networks`)
+    }
+    adapter = new Adapter(network, rpcUrl)
+    adapterCache.set(cacheKey, adapter)
+  }
+
+  return adapter
+}
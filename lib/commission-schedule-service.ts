@@ -0,0 +1,132 @@
+import { supabaseAdmin } from './supabase-server'
+import {
+  CommissionSchedule,
+  CommissionScheduleInput,
+  QualificationDecision,
+  SCHEDULE_COLUMNS,
+  normalizeSchedule
+} from './commission-schedules'
+
+export class CommissionScheduleService {
+  private supabase = supabaseAdmin
+
+  /**
+   * List schedules, latest effective date first
+   */
+  async listSchedules(): Promise<CommissionSchedule[]> {
+    const { data, error } = await this.supabase
+      .from('commission_schedules')
+      .select(SCHEDULE_COLUMNS)
+      .order('effective_from', { ascending: false })
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to load commission schedules: ${error.message}`)
+    }
+
+    return (data || []).map(row => normalizeSchedule(row))
+  }
+
+  /**
+   * Create a schedule, or replace one that is not in effect yet (id given), with its levels
+   */
+  async saveSchedule(input: CommissionScheduleInput, adminId: string, id?: string): Promise<CommissionSchedule> {
+    const { data: scheduleId, error } = await this.supabase.rpc('save_commission_schedule', {
+      p_schedule_id: id || null,
+      p_name: input.name.trim(),
+      p_transaction_types: input.transactionTypes,
+      p_effective_from: new Date(input.effectiveFrom).toISOString(),
+      p_levels: input.levels.map((level, index) => ({
+        level: index + 1,
+        usdt_rate: Number(level.usdtRate),
+        jrc_rate: Number(level.jrcRate),
+        min_direct_referrals: Number(level.minDirectReferrals || 0),
+        min_active_investment: Number(level.minActiveInvestment || 0),
+        min_team_volume: Number(level.minTeamVolume || 0)
+      })),
+      p_notes: input.notes?.trim() || null,
+      p_admin_id: adminId,
+      p_unqualified_action: input.unqualifiedAction || 'skip'
+    })
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return this.getSchedule(scheduleId)
+  }
+
+  /**
+   * Delete a schedule that is not in effect yet (blocked by a database trigger otherwise)
+   */
+  async deleteSchedule(id: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('commission_schedules')
+      .delete()
+      .eq('id', id)
+      .select('id')
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    if (!data || data.length === 0) {
+      throw new Error('Commission schedule not found')
+    }
+  }
+
+  /**
+   * Payout decisions for support, newest first. userId matches the referred user, the
+   * upline at the level, or whoever was paid.
+   */
+  async listQualificationDecisions(filters: {
+    userId?: string
+    sourceTransactionId?: string
+    limit?: number
+  }): Promise<QualificationDecision[]> {
+    let query = this.supabase
+      .from('referral_qualification_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .order('level', { ascending: true })
+      .limit(Math.min(filters.limit || 100, 500))
+
+    if (filters.userId) {
+      query = query.or(`referred_id.eq.${filters.userId},referrer_id.eq.${filters.userId},paid_to.eq.${filters.userId}`)
+    }
+
+    if (filters.sourceTransactionId) {
+      query = query.eq('source_transaction_id', filters.sourceTransactionId)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to load qualification decisions: ${error.message}`)
+    }
+
+    return (data || []).map(row => ({
+      ...row,
+      usdt_commission: Number(row.usdt_commission),
+      jrc_commission: Number(row.jrc_commission),
+      metrics: row.metrics || {}
+    }))
+  }
+
+  private async getSchedule(id: string): Promise<CommissionSchedule> {
+    const { data, error } = await this.supabase
+      .from('commission_schedules')
+      .select(SCHEDULE_COLUMNS)
+      .eq('id', id)
+      .single()
+
+    if (error || !data) {
+      throw new Error('Commission schedule not found')
+    }
+
+    return normalizeSchedule(data)
+  }
+}
+
+// Export singleton instance
+export const commissionScheduleService = new CommissionScheduleService()
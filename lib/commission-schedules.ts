@@ -0,0 +1,180 @@
+// Referral commission schedule types. Schedules are stored in commission_schedules with one
+// commission_schedule_levels row per level; only schedules not yet in effect can be edited.
+// Level rules are checked by pay_referral_commissions() at payout time.
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type CommissionSourceType = 'staking' | 'investment' | 'deposit'
+
+export const COMMISSION_SOURCE_TYPES: CommissionSourceType[] = ['staking', 'investment', 'deposit']
+
+export const MAX_COMMISSION_LEVELS = 20
+
+// What happens to a commission whose upline does not meet the level's rules
+export type UnqualifiedAction = 'skip' | 'roll_up'
+
+export const UNQUALIFIED_ACTIONS: UnqualifiedAction[] = ['skip', 'roll_up']
+
+export interface CommissionScheduleLevel {
+  level: number
+  usdt_rate: number // % of the source amount
+  jrc_rate: number // % of the source JRC amount
+  min_direct_referrals: number
+  min_active_investment: number // own active plans + stakes, USD
+  min_team_volume: number // active investment of the downline, USD
+}
+
+export interface CommissionSchedule {
+  id: string
+  name: string
+  transaction_types: CommissionSourceType[]
+  effective_from: string
+  notes: string | null
+  unqualified_action: UnqualifiedAction
+  created_by: string | null
+  created_at: string
+  levels: CommissionScheduleLevel[]
+}
+
+// Editable fields of a schedule
+export interface CommissionScheduleInput {
+  name: string
+  transactionTypes: CommissionSourceType[]
+  effectiveFrom: string
+  notes?: string | null
+  unqualifiedAction?: UnqualifiedAction
+  levels: Array<{
+    usdtRate: number
+    jrcRate: number
+    minDirectReferrals?: number
+    minActiveInvestment?: number
+    minTeamVolume?: number
+  }>
+}
+
+// One payout decision from referral_qualification_log
+export interface QualificationDecision {
+  id: string
+  source_transaction_id: string
+  referred_id: string | null
+  schedule_id: string | null
+  level: number
+  referrer_id: string | null
+  outcome: 'paid' | 'skipped' | 'rolled_up' | 'forfeited'
+  paid_to: string | null
+  usdt_commission: number
+  jrc_commission: number
+  reason: string | null
+  metrics: {
+    direct_referrals?: number
+    active_investment?: number
+    team_volume?: number
+  }
+  created_at: string
+}
+
+export const SCHEDULE_COLUMNS = 'id, name, transaction_types, effective_from, notes, unqualified_action, created_by, created_at, levels:commission_schedule_levels(level, usdt_rate, jrc_rate, min_direct_referrals, min_active_investment, min_team_volume)'
+
+/**
+ * Validate a schedule, returning an error message or null
+ */
+export function validateCommissionSchedule(input: Partial<CommissionScheduleInput>): string | null {
+  if (!input.name || !input.name.trim()) {
+    return 'Schedule name is required'
+  }
+
+  if (!Array.isArray(input.transactionTypes) || input.transactionTypes.length === 0 ||
+      input.transactionTypes.some(type => !COMMISSION_SOURCE_TYPES.includes(type))) {
+    return `Select at least one of: ${COMMISSION_SOURCE_TYPES.join(', ')}`
+  }
+
+  const effectiveFrom = new Date(input.effectiveFrom || '')
+  if (isNaN(effectiveFrom.getTime()) || effectiveFrom.getTime() <= Date.now()) {
+    return 'Effective date must be in the future'
+  }
+
+  if (input.unqualifiedAction !== undefined && !UNQUALIFIED_ACTIONS.includes(input.unqualifiedAction)) {
+    return `Unqualified action must be one of: ${UNQUALIFIED_ACTIONS.join(', ')}`
+  }
+
+  if (!Array.isArray(input.levels) || input.levels.length === 0 || input.levels.length > MAX_COMMISSION_LEVELS) {
+    return `A schedule needs 1 to ${MAX_COMMISSION_LEVELS} levels`
+  }
+
+  for (const [index, level] of input.levels.entries()) {
+    for (const rate of [level.usdtRate, level.jrcRate]) {
+      if (typeof rate !== 'number' || isNaN(rate) || rate < 0 || rate > 100) {
+        return `Level ${index + 1} rates must be between 0 and 100%`
+      }
+    }
+
+    const minDirects = level.minDirectReferrals ?? 0
+    if (typeof minDirects !== 'number' || !Number.isInteger(minDirects) || minDirects < 0) {
+      return `Level ${index + 1} direct referral requirement must be a whole number of 0 or more`
+    }
+
+    for (const amount of [level.minActiveInvestment ?? 0, level.minTeamVolume ?? 0]) {
+      if (typeof amount !== 'number' || isNaN(amount) || amount < 0) {
+        return `Level ${index + 1} investment requirements must be 0 or more`
+      }
+    }
+  }
+
+  return null
+}
+
+export function normalizeSchedule(row: any): CommissionSchedule {
+  return {
+    ...row,
+    unqualified_action: row.unqualified_action || 'skip',
+    levels: (row.levels || [])
+      .map((level: any) => ({
+        level: Number(level.level),
+        usdt_rate: Number(level.usdt_rate),
+        jrc_rate: Number(level.jrc_rate),
+        min_direct_referrals: Number(level.min_direct_referrals || 0),
+        min_active_investment: Number(level.min_active_investment || 0),
+        min_team_volume: Number(level.min_team_volume || 0)
+      }))
+      .sort((a: CommissionScheduleLevel, b: CommissionScheduleLevel) => a.level - b.level)
+  }
+}
+
+/**
+ * Schedule in effect for a source type, as chosen by get_commission_schedule()
+ */
+export function findScheduleInEffect(
+  schedules: CommissionSchedule[],
+  type: CommissionSourceType,
+  at: Date = new Date()
+): CommissionSchedule | null {
+  return schedules
+    .filter(schedule => schedule.transaction_types.includes(type) && new Date(schedule.effective_from) <= at)
+    .sort((a, b) =>
+      new Date(b.effective_from).getTime() - new Date(a.effective_from).getTime() ||
+      new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+    )[0] || null
+}
+
+/**
+ * Load the schedule in effect for a source type with either the browser or the admin client
+ */
+export async function loadScheduleInEffect(
+  supabase: SupabaseClient,
+  type: CommissionSourceType
+): Promise<CommissionSchedule | null> {
+  const { data, error } = await supabase
+    .from('commission_schedules')
+    .select(SCHEDULE_COLUMNS)
+    .contains('transaction_types', [type])
+    .lte('effective_from', new Date().toISOString())
+    .order('effective_from', { ascending: false })
+    .order('created_at', { ascending: false })
+    .limit(1)
+
+  if (error) {
+    throw new Error(`Failed to load commission schedule: ${error.message}`)
+  }
+
+  return data && data.length > 0 ? normalizeSchedule(data[0]) : null
+}
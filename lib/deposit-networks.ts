@@ -0,0 +1,167 @@
+import { supabaseAdmin } from './supabase-server'
+
+export type ChainType = 'evm' | 'tron'
+
+// A row of deposit_networks (see supabase/add_deposit_networks.sql)
+export interface DepositNetwork {
+  id: string
+  name: string
+  chain_type: ChainType
+  chain_id: number | null
+  rpc_url: string
+  explorer_tx_url: string
+  min_confirmations: number
+  deposit_address: string | null
+  is_active: boolean
+  sort_order: number
+}
+
+// A row of deposit_tokens; contract_address is null for the native coin
+export interface DepositToken {
+  id: string
+  network_id: string
+  symbol: string
+  name: string
+  contract_address: string | null
+  decimals: number
+  min_deposit: number
+  max_deposit: number
+  usd_rate: number | null
+  is_active: boolean
+}
+
+export interface DepositOption {
+  network: DepositNetwork
+  token: DepositToken
+}
+
+// What the deposit page needs to render a network and its tokens
+export interface PublicDepositNetwork {
+  id: string
+  name: string
+  chainType: ChainType
+  depositAddress: string
+  minConfirmations: number
+  explorerTxUrl: string
+  tokens: Array<{
+    symbol: string
+    name: string
+    decimals: number
+    minDeposit: number
+    maxDeposit: number
+    isNative: boolean
+  }>
+}
+
+// Server-side overrides: a private RPC endpoint or the deposit wallet from the environment
+// take precedence over the registry row
+const NETWORK_ENV: Record<string, { rpcUrl?: string, depositAddress?: string }> = {
+  BEP20: {
+    rpcUrl: process.env.BSC_RPC_URL,
+    depositAddress: process.env.GLOBAL_ADMIN_WALLET || '0x93888070e168617deb78670d00211eaf10899a28'
+  },
+  ERC20: { rpcUrl: process.env.ETH_RPC_URL, depositAddress: process.env.ERC20_DEPOSIT_WALLET },
+  TRC20: { rpcUrl: process.env.TRON_API_URL, depositAddress: process.env.TRC20_DEPOSIT_WALLET }
+}
+
+const CACHE_DURATION = 60000 // 60 seconds
+
+export class DepositNetworkService {
+  private supabase = supabaseAdmin
+  private cache: { networks: DepositNetwork[], tokens: DepositToken[], timestamp: number } | null = null
+
+  /**
+   * Every registered network and token, active or not
+   */
+  async getRegistry(): Promise<{ networks: DepositNetwork[], tokens: DepositToken[] }> {
+    if (this.cache && Date.now() - this.cache.timestamp < CACHE_DURATION) {
+      return this.cache
+    }
+
+    const [networksResult, tokensResult] = await Promise.all([
+      this.supabase.from('deposit_networks').select('*').order('sort_order', { ascending: true }),
+      this.supabase.from('deposit_tokens').select('*').order('symbol', { ascending: true })
+    ])
+
+    if (networksResult.error || tokensResult.error) {
+      throw new Error(`Failed to load deposit networks: ${(networksResult.error || tokensResult.error)!.message}`)
+    }
+
+    this.cache = {
+      networks: (networksResult.data || []).map(row => this.normalizeNetwork(row)),
+      tokens: (tokensResult.data || []).map(row => this.normalizeToken(row)),
+      timestamp: Date.now()
+    }
+    return this.cache
+  }
+
+  /**
+   * Network and token for a deposit request, or null if the pair is not registered.
+   * Inactive pairs are returned too so requests made before a token was disabled can still
+   * be verified; callers check is_active when accepting new requests.
+   */
+  async getOption(networkId: string, symbol: string): Promise<DepositOption | null> {
+    const { networks, tokens } = await this.getRegistry()
+    const network = networks.find(n => n.id === networkId)
+    const token = tokens.find(t => t.network_id === networkId && t.symbol === symbol)
+    return network && token ? { network, token } : null
+  }
+
+  /**
+   * Active networks with a deposit address and their active tokens, for the deposit page
+   */
+  async listActive(): Promise<PublicDepositNetwork[]> {
+    const { networks, tokens } = await this.getRegistry()
+
+    return networks
+      .filter(network => network.is_active && this.getDepositAddress(network))
+      .map(network => ({
+        id: network.id,
+        name: network.name,
+        chainType: network.chain_type,
+        depositAddress: this.getDepositAddress(network)!,
+        minConfirmations: network.min_confirmations,
+        explorerTxUrl: network.explorer_tx_url,
+        tokens: tokens
+          .filter(token => token.network_id === network.id && token.is_active)
+          .map(token => ({
+            symbol: token.symbol,
+            name: token.name,
+            decimals: token.decimals,
+            minDeposit: token.min_deposit,
+            maxDeposit: token.max_deposit,
+            isNative: !token.contract_address
+          }))
+      }))
+      .filter(network => network.tokens.length > 0)
+  }
+
+  getDepositAddress(network: DepositNetwork): string | null {
+    return NETWORK_ENV[network.id]?.depositAddress || network.deposit_address || null
+  }
+
+  getRpcUrl(network: DepositNetwork): string {
+    return NETWORK_ENV[network.id]?.rpcUrl || network.rpc_url
+  }
+
+  private normalizeNetwork(row: any): DepositNetwork {
+    return {
+      ...row,
+      chain_id: row.chain_id != null ? Number(row.chain_id) : null,
+      min_confirmations: Number(row.min_confirmations)
+    }
+  }
+
+  private normalizeToken(row: any): DepositToken {
+    return {
+      ...row,
+      decimals: Number(row.decimals),
+      min_deposit: Number(row.min_deposit),
+      max_deposit: Number(row.max_deposit),
+      usd_rate: row.usd_rate != null ? Number(row.usd_rate) : null
+    }
+  }
+}
+
+// Export singleton instance
+export const depositNetworkService = new DepositNetworkService()
@@ -0,0 +1,367 @@
+import { supabaseAdmin } from './supabase-server'
+import { ChainAdapter, getChainAdapter } from './chain-adapters'
+import { depositNetworkService } from './deposit-networks'
+import EmailService from './email-service'
+
+// Why a manual deposit request could not be verified; shown on /admin/deposit-requests
+export type DepositVerificationCode =
+  | 'UNSUPPORTED_TOKEN'
+  | 'INVALID_TX_HASH'
+  | 'TX_NOT_FOUND'
+  | 'TX_REVERTED'
+  | 'NO_TOKEN_TRANSFER'
+  | 'WRONG_RECIPIENT'
+  | 'AMOUNT_MISMATCH'
+  | 'TX_ALREADY_CREDITED'
+
+export type DepositVerificationStatus = 'unverified' | 'verified' | 'flagged'
+
+export interface DepositRequestRecord {
+  id: string
+  user_id: string
+  tx_hash: string
+  amount: number
+  currency: string
+  network: string
+  status: 'pending' | 'approved' | 'rejected'
+  verification_status: DepositVerificationStatus
+  verification_attempts: number
+  created_at: string
+}
+
+export type DepositVerificationOutcome = 'approved' | 'verified' | 'flagged' | 'waiting'
+
+export interface DepositVerificationResult {
+  outcome: DepositVerificationOutcome
+  code?: DepositVerificationCode
+  detail?: string
+}
+
+export interface DepositVerificationRunResult {
+  checked: number
+  approved: number
+  verified: number
+  flagged: number
+  waiting: number
+  errors: string[]
+}
+
+// Largest difference, in token units, between the requested and the received amount
+export const DEPOSIT_AMOUNT_TOLERANCE = parseFloat(process.env.DEPOSIT_VERIFY_TOLERANCE || '0.01') || 0
+
+// With DEPOSIT_AUTO_APPROVE=true, verified requests sent from one of the requester's own
+// addresses are credited straight away; everything else waits for an admin
+export const DEPOSIT_AUTO_APPROVE = process.env.DEPOSIT_AUTO_APPROVE === 'true'
+
+// A hash the node has never seen may just be very recent; only flag it after this long
+const TX_NOT_FOUND_GRACE_MS = 30 * 60 * 1000
+
+const BATCH_SIZE = 50
+
+export class DepositVerificationService {
+  private supabase = supabaseAdmin
+
+  /**
+   * One pass over pending requests that have not been verified or flagged yet, oldest first.
+   * Safe to run repeatedly: each request is approved at most once.
+   */
+  async verifyPending(): Promise<DepositVerificationRunResult> {
+    const result: DepositVerificationRunResult = { checked: 0, approved: 0, verified: 0, flagged: 0, waiting: 0, errors: [] }
+
+    const { data: requests, error } = await this.supabase
+      .from('deposit_requests')
+      .select('*')
+      .eq('status', 'pending')
+      .eq('verification_status', 'unverified')
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE)
+
+    if (error) {
+      throw new Error(`Failed to load deposit requests: ${error.message}`)
+    }
+
+    for (const request of requests || []) {
+      try {
+        const verification = await this.verify(request)
+        result.checked++
+        result[verification.outcome]++
+      } catch (error: any) {
+        console.error(`Error verifying deposit request ${request.id}:`, error)
+        result.errors.push(`${request.id}: ${error.message}`)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Verify one request again, e.g. after an admin looked into a flag
+   */
+  async reverify(requestId: string): Promise<DepositVerificationResult> {
+    const { data: request, error } = await this.supabase
+      .from('deposit_requests')
+      .update({
+        verification_status: 'unverified',
+        verification_code: null,
+        verification_detail: null
+      })
+      .eq('id', requestId)
+      .eq('status', 'pending')
+      .select('*')
+      .single()
+
+    if (error || !request) {
+      throw new Error('Deposit request not found or already processed')
+    }
+
+    return this.verify(request)
+  }
+
+  private async verify(request: DepositRequestRecord): Promise<DepositVerificationResult> {
+    const option = await depositNetworkService.getOption(request.network, request.currency)
+    const depositAddress = option && depositNetworkService.getDepositAddress(option.network)
+    if (!option || !depositAddress) {
+      return this.flag(request, 'UNSUPPORTED_TOKEN', `${request.currency} on ${request.network} is not a configured deposit option`)
+    }
+
+    const { network, token } = option
+    const adapter = getChainAdapter(network)
+    const txHash = adapter.normalizeTxHash(request.tx_hash || '')
+
+    if (!adapter.isValidTxHash(txHash)) {
+      return this.flag(request, 'INVALID_TX_HASH', `Not a valid ${network.name} transaction hash`)
+    }
+
+    // Already credited through another request or the automatic deposit flow (in any case)
+    const { data: existingTx } = await this.supabase
+      .from('transactions')
+      .select('id')
+      .ilike('reference_id', txHash)
+      .limit(1)
+
+    if (existingTx && existingTx.length > 0) {
+      return this.flag(request, 'TX_ALREADY_CREDITED', `Transaction ${existingTx[0].id} already references this hash`)
+    }
+
+    const state = await adapter.getTransfers(txHash, token)
+    await this.recordAttempt(request)
+
+    if (state.status === 'not_found') {
+      if (Date.now() - new Date(request.created_at).getTime() > TX_NOT_FOUND_GRACE_MS) {
+        return this.flag(request, 'TX_NOT_FOUND', `Transaction not found on ${network.name}`)
+      }
+      return { outcome: 'waiting' }
+    }
+
+    if (state.status === 'reverted') {
+      return this.flag(request, 'TX_REVERTED', `Transaction failed in block ${state.blockNumber}`)
+    }
+
+    if (state.confirmations < network.min_confirmations) {
+      return { outcome: 'waiting' }
+    }
+
+    if (state.transfers.length === 0) {
+      return this.flag(request, 'NO_TOKEN_TRANSFER', `Transaction contains no ${token.symbol} transfer`)
+    }
+
+    const toWallet = state.transfers.filter(transfer => adapter.sameAddress(transfer.to, depositAddress))
+
+    if (toWallet.length === 0) {
+      const recipients = Array.from(new Set(state.transfers.map(transfer => transfer.to))).join(', ')
+      return this.flag(request, 'WRONG_RECIPIENT', `${token.symbol} was sent to ${recipients}, not the deposit wallet`)
+    }
+
+    const received = toWallet.reduce((sum, transfer) => sum + parseFloat(transfer.amount), 0)
+    const requested = Number(request.amount)
+
+    if (Math.abs(received - requested) > DEPOSIT_AMOUNT_TOLERANCE) {
+      return this.flag(
+        request,
+        'AMOUNT_MISMATCH',
+        `Requested ${requested} but the deposit wallet received ${received} ${token.symbol}`,
+        { onchain_amount: received, onchain_from: toWallet[0].from }
+      )
+    }
+
+    // Only the worker that moves the request to 'verified' may approve it
+    const { data: claimed } = await this.supabase
+      .from('deposit_requests')
+      .update({
+        verification_status: 'verified',
+        verification_code: null,
+        verification_detail: `${state.confirmations} confirmations, received ${received} ${token.symbol}`,
+        onchain_amount: received,
+        onchain_from: toWallet[0].from
+      })
+      .eq('id', request.id)
+      .eq('status', 'pending')
+      .eq('verification_status', 'unverified')
+      .select('id')
+
+    if (!claimed || claimed.length === 0) {
+      return { outcome: 'waiting' }
+    }
+
+    if (!DEPOSIT_AUTO_APPROVE) {
+      return { outcome: 'verified' }
+    }
+
+    // Anyone can submit someone else's transfer, so the sender must be bound to the requester
+    const sender = toWallet[0].from
+    if (!toWallet.every(transfer => adapter.sameAddress(transfer.from, sender)) ||
+        !(await this.isBoundSender(request, sender, adapter))) {
+      await this.supabase
+        .from('deposit_requests')
+        .update({ verification_detail: `Verified, but ${sender} is not a saved or verified address of the requester` })
+        .eq('id', request.id)
+      return { outcome: 'verified' }
+    }
+
+    const approval = await this.approve(request.id, null, `Auto-approved: verified on-chain (${received} ${token.symbol} from ${toWallet[0].from})`)
+    if (!approval.success) {
+      await this.supabase
+        .from('deposit_requests')
+        .update({ verification_detail: `Verified, but auto-approval failed: ${approval.error}` })
+        .eq('id', request.id)
+      return { outcome: 'verified' }
+    }
+
+    console.log(`Deposit request ${request.id} auto-approved: ${received} ${token.symbol} (${network.id}) in ${txHash}`)
+    return { outcome: 'approved' }
+  }
+
+  /**
+   * Credit a pending request and email the user. Referral commissions are paid by
+   * process_manual_deposit_approval() in the same database transaction.
+   * adminId is null when the verifier approves it.
+   */
+  async approve(requestId: string, adminId: string | null, adminNotes?: string | null): Promise<{
+    success: boolean
+    error?: string
+    transactionId?: string
+    amount?: number
+    fee?: number
+    netAmount?: number
+  }> {
+    const { data: result, error: processError } = await this.supabase
+      .rpc('process_manual_deposit_approval', {
+        p_request_id: requestId,
+        p_admin_id: adminId,
+        p_admin_notes: adminNotes || null
+      })
+
+    if (processError) {
+      console.error('Error processing deposit approval:', processError)
+      throw new Error('Failed to process deposit approval')
+    }
+
+    if (!result.success) {
+      return { success: false, error: result.error || 'Failed to approve deposit' }
+    }
+
+    const { data: depositRequest } = await this.supabase
+      .from('deposit_requests')
+      .select(`
+        *,
+        user_profile:profiles!deposit_requests_user_id_fkey(full_name, username)
+      `)
+      .eq('id', requestId)
+      .single()
+
+    try {
+      const { data: authUser } = await (supabaseAdmin.auth as any).admin.getUserById(depositRequest.user_id)
+
+      if (authUser.user?.email) {
+        const emailService = new EmailService()
+        await emailService.sendDepositNotification(
+          authUser.user.email,
+          depositRequest.user_profile?.full_name || 'User',
+          result.net_amount,
+          depositRequest.currency,
+          'success',
+          depositRequest.tx_hash,
+          result.fee,
+          result.net_amount
+        )
+        console.log("Deposit approval email sent")
+      }
+    } catch (emailError) {
+      console.error("Failed to send deposit approval email:", emailError)
+      // Don't fail the approval if email fails
+    }
+
+    return {
+      success: true,
+      transactionId: result.transaction_id,
+      amount: result.amount,
+      fee: result.fee,
+      netAmount: result.net_amount
+    }
+  }
+
+  /**
+   * Whether the requester has already proven control of the sending address: a confirmed
+   * entry in their withdrawal address book, or the sender of a deposit of theirs that was
+   * approved before.
+   */
+  private async isBoundSender(request: DepositRequestRecord, sender: string, adapter: ChainAdapter): Promise<boolean> {
+    const [{ data: addresses, error: addressError }, { data: deposits, error: depositError }] = await Promise.all([
+      this.supabase
+        .from('withdrawal_addresses')
+        .select('address')
+        .eq('user_id', request.user_id)
+        .not('confirmed_at', 'is', null)
+        .is('removed_at', null),
+      this.supabase
+        .from('deposit_requests')
+        .select('onchain_from')
+        .eq('user_id', request.user_id)
+        .eq('network', request.network)
+        .eq('status', 'approved')
+        .not('onchain_from', 'is', null)
+    ])
+
+    if (addressError || depositError) {
+      throw new Error(`Failed to load bound addresses: ${(addressError || depositError)!.message}`)
+    }
+
+    return [
+      ...(addresses || []).map(a => a.address),
+      ...(deposits || []).map(d => d.onchain_from)
+    ].some(address => adapter.sameAddress(address, sender))
+  }
+
+  private async flag(
+    request: DepositRequestRecord,
+    code: DepositVerificationCode,
+    detail: string,
+    extra: { onchain_amount?: number, onchain_from?: string } = {}
+  ): Promise<DepositVerificationResult> {
+    await this.supabase
+      .from('deposit_requests')
+      .update({
+        verification_status: 'flagged',
+        verification_code: code,
+        verification_detail: detail,
+        ...extra
+      })
+      .eq('id', request.id)
+      .eq('status', 'pending')
+
+    console.log(`Deposit request ${request.id} flagged: ${code} (${detail})`)
+    return { outcome: 'flagged', code, detail }
+  }
+
+  private async recordAttempt(request: DepositRequestRecord) {
+    await this.supabase
+      .from('deposit_requests')
+      .update({
+        verification_attempts: (request.verification_attempts || 0) + 1,
+        last_verified_at: new Date().toISOString()
+      })
+      .eq('id', request.id)
+  }
+}
+
+export const depositVerificationService = new DepositVerificationService()
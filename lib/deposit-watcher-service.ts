@@ -0,0 +1,380 @@
+import { supabaseAdmin } from './supabase-server'
+import BSCService, { USDTTransfer } from './bsc-service'
+import EmailService from './email-service'
+
+export type OnchainDepositStatus = 'detected' | 'credited' | 'orphaned' | 'ignored'
+
+export interface OnchainDeposit {
+  id: string
+  user_id: string
+  tx_hash: string
+  transfer_index: number
+  from_address: string
+  to_address: string
+  amount: number
+  block_number: number
+  block_hash: string
+  confirmations: number
+  status: OnchainDepositStatus
+  ignore_reason: string | null
+  transaction_id: string | null
+  credited_at: string | null
+  created_at: string
+}
+
+export interface DepositWatcherRunResult {
+  fromBlock: number
+  toBlock: number
+  headBlock: number
+  detected: number
+  credited: number
+  orphaned: number
+  ignored: number
+  pending: number
+  errors: string[]
+}
+
+// Blocks on top of the deposit block before the fund wallet is credited
+export const DEPOSIT_WATCHER_CONFIRMATIONS = parseInt(process.env.DEPOSIT_WATCHER_CONFIRMATIONS || '15', 10) || 15
+
+// Smaller transfers are recorded but not credited (same minimum as manual deposits)
+export const DEPOSIT_WATCHER_MIN_AMOUNT = parseFloat(process.env.DEPOSIT_WATCHER_MIN_AMOUNT || '10') || 0
+
+// Deposit fee kept by the platform, as for tx-hash deposits
+const DEPOSIT_FEE_RATE = 0.01
+
+const SCANNER = 'bsc_usdt_deposits'
+
+// Recent blocks scanned again on every run so transfers moved by a reorg are picked up
+const REORG_DEPTH = 20
+
+// Bounds one run; a watcher that fell behind catches up over several runs
+const MAX_BLOCKS_PER_RUN = parseInt(process.env.DEPOSIT_WATCHER_MAX_BLOCKS || '2000', 10) || 2000
+const BLOCKS_PER_QUERY = 500
+
+// A detected transfer whose transaction has been missing this many blocks was reorged away
+const ORPHAN_AFTER_BLOCKS = 100
+
+const BSC_CONFIG = {
+  rpcUrl: process.env.BSC_RPC_URL || "https://bsc-dataseed1.binance.org/",
+  contractAddress: process.env.PAYMENT_CONTRACT_ADDRESS || "",
+  usdtContractAddress: process.env.USDT_CONTRACT_ADDRESS || "0x55d398326f99059fF775485246999027B3197955",
+  adminFeeWallet: process.env.ADMIN_FEE_WALLET || "",
+  globalAdminWallet: process.env.GLOBAL_ADMIN_WALLET || "",
+  privateKey: process.env.BSC_PRIVATE_KEY || ""
+}
+
+// Platform wallets move funds to user addresses (gas top-ups, payouts); those are not deposits
+const PLATFORM_ADDRESSES = [
+  process.env.GLOBAL_ADMIN_WALLET,
+  process.env.ADMIN_FEE_WALLET,
+  process.env.PAYMENT_CONTRACT_ADDRESS,
+  process.env.MULTISEND_CONTRACT_ADDRESS
+].filter((address): address is string => !!address).map(address => address.toLowerCase())
+
+export class DepositWatcherService {
+  private supabase = supabaseAdmin
+  private bsc: BSCService | null = null
+
+  private getBSC(): BSCService {
+    if (!this.bsc) {
+      this.bsc = new BSCService(BSC_CONFIG)
+    }
+    return this.bsc
+  }
+
+  /**
+   * Scan new blocks (plus the last REORG_DEPTH again) for transfers to user deposit
+   * addresses, then re-check every detected transfer against the chain and credit those
+   * with enough confirmations. Safe to run repeatedly and concurrently.
+   */
+  async run(): Promise<DepositWatcherRunResult> {
+    const bsc = this.getBSC()
+    const headBlock = await bsc.getLatestBlockNumber()
+    const { fromBlock, toBlock } = await this.getScanRange(headBlock)
+
+    const result: DepositWatcherRunResult = {
+      fromBlock,
+      toBlock,
+      headBlock,
+      detected: 0,
+      credited: 0,
+      orphaned: 0,
+      ignored: 0,
+      pending: 0,
+      errors: []
+    }
+
+    const wallets = await this.getDepositWallets()
+
+    if (wallets.size > 0 && fromBlock <= toBlock) {
+      for (let start = fromBlock; start <= toBlock; start += BLOCKS_PER_QUERY) {
+        const end = Math.min(start + BLOCKS_PER_QUERY - 1, toBlock)
+        const txHashes = await bsc.findUSDTTransferTransactions(Array.from(wallets.keys()), start, end)
+
+        for (const txHash of txHashes) {
+          try {
+            const recorded = await this.recordTransaction(txHash, wallets)
+            result.detected += recorded.detected
+            result.ignored += recorded.ignored
+          } catch (error: any) {
+            console.error(`Error recording deposit transaction ${txHash}:`, error)
+            result.errors.push(`${txHash}: ${error.message}`)
+          }
+        }
+
+        // Only advance past blocks whose transfers were all recorded
+        if (result.errors.length > 0) break
+        await this.saveCursor(end)
+      }
+    }
+
+    const { data: detected, error } = await this.supabase
+      .from('onchain_deposits')
+      .select('*')
+      .eq('status', 'detected')
+      .order('block_number', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to load detected deposits: ${error.message}`)
+    }
+
+    for (const deposit of detected || []) {
+      try {
+        const outcome = await this.confirmDeposit(deposit, headBlock)
+        result[outcome]++
+      } catch (error: any) {
+        console.error(`Error confirming deposit ${deposit.id}:`, error)
+        result.errors.push(`${deposit.id}: ${error.message}`)
+      }
+    }
+
+    return result
+  }
+
+  private async getScanRange(headBlock: number): Promise<{ fromBlock: number, toBlock: number }> {
+    const { data: cursor } = await this.supabase
+      .from('chain_scan_cursors')
+      .select('last_block')
+      .eq('scanner', SCANNER)
+      .maybeSingle()
+
+    let lastBlock: number
+    if (cursor) {
+      lastBlock = Number(cursor.last_block)
+    } else if (process.env.DEPOSIT_WATCHER_START_BLOCK) {
+      lastBlock = parseInt(process.env.DEPOSIT_WATCHER_START_BLOCK, 10) - 1
+    } else {
+      // First run without a start block: watch from now on
+      lastBlock = headBlock - 1
+    }
+
+    // The head can go backwards (a lagging fallback node, a reverted local chain)
+    lastBlock = Math.min(lastBlock, headBlock)
+
+    return {
+      fromBlock: Math.max(lastBlock - REORG_DEPTH + 1, 0),
+      toBlock: Math.min(headBlock, lastBlock + MAX_BLOCKS_PER_RUN)
+    }
+  }
+
+  private async saveCursor(lastBlock: number) {
+    const { error } = await this.supabase
+      .from('chain_scan_cursors')
+      .upsert({ scanner: SCANNER, last_block: lastBlock, updated_at: new Date().toISOString() })
+
+    if (error) {
+      throw new Error(`Failed to save scan cursor: ${error.message}`)
+    }
+  }
+
+  // Lower-cased deposit address -> user id
+  private async getDepositWallets(): Promise<Map<string, string>> {
+    const wallets = new Map<string, string>()
+    const pageSize = 1000
+
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await this.supabase
+        .from('profiles')
+        .select('id, bsc_wallet_address')
+        .not('bsc_wallet_address', 'is', null)
+        .order('id')
+        .range(from, from + pageSize - 1)
+
+      if (error) {
+        throw new Error(`Failed to load deposit addresses: ${error.message}`)
+      }
+
+      for (const profile of data || []) {
+        if (profile.bsc_wallet_address) {
+          wallets.set(profile.bsc_wallet_address.toLowerCase(), profile.id)
+        }
+      }
+
+      if (!data || data.length < pageSize) break
+    }
+
+    return wallets
+  }
+
+  // Insert every transfer in the transaction that goes to a deposit address; counts only new rows
+  private async recordTransaction(txHash: string, wallets: Map<string, string>): Promise<{ detected: number, ignored: number }> {
+    const state = await this.getBSC().getUSDTTransfers(txHash)
+
+    if (state.status !== 'success' || !state.blockHash) {
+      return { detected: 0, ignored: 0 }
+    }
+
+    const rows = state.transfers
+      .filter(transfer => wallets.has(transfer.to.toLowerCase()))
+      .map(transfer => {
+        const ignoreReason = this.getIgnoreReason(transfer)
+        return {
+          user_id: wallets.get(transfer.to.toLowerCase())!,
+          tx_hash: txHash,
+          transfer_index: transfer.index,
+          from_address: transfer.from,
+          to_address: transfer.to,
+          amount: parseFloat(transfer.amount),
+          block_number: state.blockNumber,
+          block_hash: state.blockHash,
+          confirmations: state.confirmations,
+          status: ignoreReason ? 'ignored' : 'detected',
+          ignore_reason: ignoreReason
+        }
+      })
+
+    if (rows.length === 0) {
+      return { detected: 0, ignored: 0 }
+    }
+
+    // Re-scanned transfers are already recorded; confirmDeposit() keeps their block current
+    const { data, error } = await this.supabase
+      .from('onchain_deposits')
+      .upsert(rows, { onConflict: 'tx_hash,transfer_index', ignoreDuplicates: true })
+      .select('status')
+
+    if (error) {
+      throw new Error(`Failed to record deposit: ${error.message}`)
+    }
+
+    // A transfer orphaned by a reorg that is back on chain counts again
+    for (const row of rows) {
+      await this.supabase
+        .from('onchain_deposits')
+        .update({ ...row, updated_at: new Date().toISOString() })
+        .eq('tx_hash', row.tx_hash)
+        .eq('transfer_index', row.transfer_index)
+        .eq('status', 'orphaned')
+    }
+
+    const inserted = data || []
+    return {
+      detected: inserted.filter(row => row.status === 'detected').length,
+      ignored: inserted.filter(row => row.status === 'ignored').length
+    }
+  }
+
+  private getIgnoreReason(transfer: USDTTransfer): string | null {
+    if (PLATFORM_ADDRESSES.includes(transfer.from.toLowerCase())) {
+      return 'Sent from a platform wallet'
+    }
+    if (parseFloat(transfer.amount) < DEPOSIT_WATCHER_MIN_AMOUNT) {
+      return `Below the minimum deposit of ${DEPOSIT_WATCHER_MIN_AMOUNT} USDT`
+    }
+    return null
+  }
+
+  // Re-read the transfer from the chain so a reorg can never credit a transfer that is gone
+  private async confirmDeposit(deposit: OnchainDeposit, headBlock: number): Promise<'credited' | 'orphaned' | 'pending'> {
+    const state = await this.getBSC().getUSDTTransfers(deposit.tx_hash)
+    const transfer = state.transfers.find(t => t.index === deposit.transfer_index)
+
+    if (state.status === 'not_found') {
+      if (headBlock - Number(deposit.block_number) >= ORPHAN_AFTER_BLOCKS) {
+        await this.markOrphaned(deposit, 'Transaction no longer on chain')
+        return 'orphaned'
+      }
+      return 'pending'
+    }
+
+    if (state.status === 'reverted' || !transfer ||
+        transfer.to.toLowerCase() !== deposit.to_address.toLowerCase() ||
+        Math.abs(parseFloat(transfer.amount) - Number(deposit.amount)) > 1e-8) {
+      await this.markOrphaned(deposit, 'Transfer changed after a reorg')
+      return 'orphaned'
+    }
+
+    await this.supabase
+      .from('onchain_deposits')
+      .update({
+        block_number: state.blockNumber,
+        block_hash: state.blockHash,
+        confirmations: state.confirmations,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', deposit.id)
+      .eq('status', 'detected')
+
+    if (state.confirmations < DEPOSIT_WATCHER_CONFIRMATIONS) {
+      return 'pending'
+    }
+
+    const { data: credit, error } = await this.supabase.rpc('credit_onchain_deposit', {
+      p_deposit_id: deposit.id,
+      p_fee_rate: DEPOSIT_FEE_RATE
+    })
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    if (!credit?.credited) {
+      return 'pending'
+    }
+
+    console.log(`Deposit ${deposit.id} credited: ${deposit.amount} USDT to user ${deposit.user_id} (${deposit.tx_hash})`)
+    await this.sendCreditedEmail(deposit, credit.fee, credit.net_amount)
+    return 'credited'
+  }
+
+  private async markOrphaned(deposit: OnchainDeposit, reason: string) {
+    await this.supabase
+      .from('onchain_deposits')
+      .update({ status: 'orphaned', ignore_reason: reason, updated_at: new Date().toISOString() })
+      .eq('id', deposit.id)
+      .eq('status', 'detected')
+
+    console.log(`Deposit ${deposit.id} orphaned: ${reason}`)
+  }
+
+  private async sendCreditedEmail(deposit: OnchainDeposit, fee: number, netAmount: number) {
+    try {
+      const { data: authUser } = await (supabaseAdmin.auth as any).admin.getUserById(deposit.user_id)
+      const { data: profile } = await this.supabase
+        .from('profiles')
+        .select('full_name')
+        .eq('id', deposit.user_id)
+        .single()
+
+      if (authUser.user?.email) {
+        const emailService = new EmailService()
+        await emailService.sendDepositNotification(
+          authUser.user.email,
+          profile?.full_name || 'User',
+          netAmount,
+          'USDT',
+          'success',
+          deposit.tx_hash,
+          fee,
+          netAmount
+        )
+      }
+    } catch (emailError) {
+      console.error('Failed to send deposit email:', emailError)
+      // Don't fail the credit if email fails
+    }
+  }
+}
+
+export const depositWatcherService = new DepositWatcherService()
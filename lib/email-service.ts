@@ -13,7 +13,7 @@ interface EmailConfig {
 interface TransactionEmailData {
   userEmail: string
   userName: string
-  transactionType: 'deposit' | 'withdrawal' | 'transfer' | 'staking'
+  transactionType: 'deposit' | 'withdrawal' | 'transfer' | 'staking' | 'maturity'
   status: 'success' | 'failed' | 'pending'
   amount: number
   currency: string
@@ -25,6 +25,10 @@ interface TransactionEmailData {
   netAmount?: number
   stakingPeriod?: number
   dailyPercentage?: number
+  planName?: string
+  totalProfit?: number
+  principalReleased?: number
+  releaseWallet?: string
   errorMessage?: string
 }
 
@@ -311,6 +315,7 @@ class EmailService {
       case 'withdrawal': return 'Withdrawal'
       case 'transfer': return 'Transfer'
       case 'staking': return 'Staking'
+      case 'maturity': return 'Investment Maturity'
       default: return 'Transaction'
     }
   }
@@ -352,6 +357,13 @@ class EmailService {
               <p>Your staking transaction of <strong>${this.formatNumber(amount)} ${currency}</strong> has been activated successfully.</p>
             </div>
           `
+        case 'maturity':
+          return `
+            <div class="transaction-summary">
+              <div class="summary-title">Investment Matured</div>
+              <p>Your investment of <strong>${this.formatNumber(amount)} ${currency}</strong>${data.planName ? ` in ${data.planName}` : ''} has reached maturity and is now complete.</p>
+            </div>
+          `
       }
     } else if (status === 'failed') {
       return `
@@ -458,6 +470,24 @@ class EmailService {
       `
     }
 
+    if (data.totalProfit !== undefined) {
+      details += `
+        <div class="detail-row">
+          <span class="detail-label">Total Profit Earned:</span>
+          <span class="detail-value">${this.formatNumber(data.totalProfit)} ${data.currency}</span>
+        </div>
+      `
+    }
+
+    if (data.principalReleased) {
+      details += `
+        <div class="detail-row">
+          <span class="detail-label">Principal Released:</span>
+          <span class="detail-value">${this.formatNumber(data.principalReleased)} ${data.currency}${data.releaseWallet ? ` to ${data.releaseWallet}` : ''}</span>
+        </div>
+      `
+    }
+
     if (data.dailyPercentage) {
       details += `
         <div class="detail-row">
@@ -486,6 +516,18 @@ class EmailService {
       `
     }
 
+    if (data.transactionType === 'maturity' && data.status === 'success') {
+      return `
+        <div class="additional-info">
+          <h4>Maturity Information</h4>
+          <p>This plan no longer earns daily profits.</p>
+          ${data.principalReleased
+            ? `<p>Your principal has been returned to your ${data.releaseWallet || 'wallet'}.</p>`
+            : '<p>The principal of this plan is not returned under its terms.</p>'}
+        </div>
+      `
+    }
+
     if (data.transactionType === 'withdrawal' && data.status === 'success') {
       return `
         <div class="additional-info">
@@ -576,6 +618,21 @@ class EmailService {
     })
   }
 
+  async sendInvestmentMaturityNotification(userEmail: string, userName: string, amount: number, currency: string, planName: string, totalProfit: number, principalReleased?: number, releaseWallet?: string): Promise<boolean> {
+    return this.sendTransactionEmail({
+      userEmail,
+      userName,
+      transactionType: 'maturity',
+      status: 'success',
+      amount,
+      currency,
+      planName,
+      totalProfit,
+      principalReleased,
+      releaseWallet
+    })
+  }
+
 
 
   private getWelcomeEmailTemplate(data: WelcomeEmailData): { subject: string; html: string } {
@@ -672,6 +729,94 @@ class EmailService {
     }
   }
 
+  private getSecurityEmailTemplate(title: string, userName: string, body: string): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${title}</title>
+        <style>
+          body { font-family: 'Segoe UI', Arial, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background-color: #f5f5f5; }
+          .container { max-width: 600px; margin: 0 auto; background: #ffffff; border: 1px solid #ddd; }
+          .header { background: #1a1a1a; color: white; padding: 30px; text-align: center; }
+          .logo { max-width: 200px; width: 100%; height: auto; margin-bottom: 15px; }
+          .content { padding: 40px 30px; }
+          .detail-box { background: #f8f9fa; padding: 20px; margin: 20px 0; border-left: 3px solid #1a1a1a; word-break: break-all; }
+          .cta-button { display: inline-block; background: #1a1a1a; color: white; padding: 12px 30px; text-decoration: none; font-weight: 500; margin: 20px 0; }
+          .warning { background: #fff4e5; border: 1px solid #f0a020; padding: 15px; margin: 20px 0; }
+          .footer { text-align: center; padding: 20px; border-top: 1px solid #eee; color: #666; font-size: 13px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <img src="${this.logoUrl}" alt="Stable Wealth" class="logo">
+            <h1 style="color: white;">${title}</h1>
+          </div>
+          <div class="content">
+            <h2>Dear ${userName},</h2>
+            ${body}
+            <div class="warning">
+              If you did not make this change, sign in and change your password immediately, then contact support.
+            </div>
+          </div>
+          <div class="footer">
+            <p>© 2025 Stable Wealth Platform. All rights reserved.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `
+  }
+
+  async sendWithdrawalAddressConfirmation(userEmail: string, userName: string, label: string, address: string, confirmUrl: string, lockHours: number): Promise<boolean> {
+    try {
+      const html = this.getSecurityEmailTemplate('Confirm Withdrawal Address', userName, `
+        <p>A new withdrawal address was added to your account:</p>
+        <div class="detail-box">
+          <strong>${label}</strong><br>
+          ${address}
+        </div>
+        <p>Confirm it to start the ${lockHours}-hour security lock. The address can receive withdrawals once the lock ends.</p>
+        <div style="text-align: center;">
+          <a href="${confirmUrl}" class="cta-button">Confirm Address</a>
+        </div>
+      `)
+
+      const result = await this.transporter.sendMail({
+        from: `"Stable Wealth Platform" <${process.env.SMTP_USER}>`,
+        to: userEmail,
+        subject: 'Confirm your new withdrawal address',
+        html
+      })
+      console.log('Withdrawal address confirmation email sent:', result.messageId)
+      return true
+    } catch (error) {
+      console.error('Error sending withdrawal address confirmation email:', error)
+      return false
+    }
+  }
+
+  async sendWithdrawalWhitelistNotice(userEmail: string, userName: string, message: string): Promise<boolean> {
+    try {
+      const html = this.getSecurityEmailTemplate('Withdrawal Security Update', userName, `<p>${message}</p>`)
+
+      const result = await this.transporter.sendMail({
+        from: `"Stable Wealth Platform" <${process.env.SMTP_USER}>`,
+        to: userEmail,
+        subject: 'Withdrawal security settings changed',
+        html
+      })
+      console.log('Withdrawal whitelist notice sent:', result.messageId)
+      return true
+    } catch (error) {
+      console.error('Error sending withdrawal whitelist notice:', error)
+      return false
+    }
+  }
+
   async sendWelcomeEmail(data: WelcomeEmailData): Promise<boolean> {
     try {
       const { subject, html } = this.getWelcomeEmailTemplate(data)
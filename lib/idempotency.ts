@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server'
+import crypto from 'crypto'
+import { supabaseAdmin } from './supabase-server'
+import { AuthenticatedHandler, AuthenticatedUser, RouteContext } from './api-auth'
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key'
+
+const KEY_TTL_MS = 24 * 60 * 60 * 1000
+const MAX_KEY_LENGTH = 255
+
+interface StoredKey {
+  id: string
+  request_hash: string
+  status: 'processing' | 'completed'
+  response_status: number | null
+  response_body: any
+  expires_at: string
+}
+
+/**
+ * Wrap an authenticated route handler so a repeated Idempotency-Key (per user and scope)
+ * within 24h returns the original stored response instead of executing again.
+ * Requests without the header run normally.
+ */
+export function withIdempotency(scope: string, handler: AuthenticatedHandler): AuthenticatedHandler {
+  return async (request: NextRequest, user: AuthenticatedUser, context: RouteContext) => {
+    const key = request.headers.get(IDEMPOTENCY_HEADER)
+
+    if (!key) {
+      return handler(request, user, context)
+    }
+
+    if (key.length > MAX_KEY_LENGTH) {
+      return NextResponse.json({
+        error: `${IDEMPOTENCY_HEADER} must be at most ${MAX_KEY_LENGTH} characters`,
+        code: 'IDEMPOTENCY_KEY_INVALID'
+      }, { status: 400 })
+    }
+
+    const requestHash = crypto.createHash('sha256').update(await request.clone().text()).digest('hex')
+
+    const claim = await claimKey(user.id, scope, key, requestHash)
+
+    if (claim.existing) {
+      const existing = claim.existing
+
+      if (existing.request_hash !== requestHash) {
+        return NextResponse.json({
+          error: `${IDEMPOTENCY_HEADER} was already used for a different request`,
+          code: 'IDEMPOTENCY_KEY_REUSED'
+        }, { status: 422 })
+      }
+
+      if (existing.status === 'processing') {
+        return NextResponse.json({
+          error: 'This request is already being processed',
+          code: 'IDEMPOTENCY_REQUEST_IN_PROGRESS'
+        }, { status: 409 })
+      }
+
+      return NextResponse.json(existing.response_body, {
+        status: existing.response_status || 200,
+        headers: { 'Idempotent-Replayed': 'true' }
+      })
+    }
+
+    let response: NextResponse
+    try {
+      response = await handler(request, user, context)
+    } catch (error) {
+      await releaseKey(claim.id!)
+      throw error
+    }
+
+    // Server errors are not stored so the client can retry with the same key
+    if (response.status >= 500) {
+      await releaseKey(claim.id!)
+      return response
+    }
+
+    let body: any = null
+    try {
+      body = await response.clone().json()
+    } catch {
+      body = null
+    }
+
+    const { error: storeError } = await supabaseAdmin
+      .from('idempotency_keys')
+      .update({
+        status: 'completed',
+        response_status: response.status,
+        response_body: body
+      })
+      .eq('id', claim.id)
+
+    if (storeError) {
+      console.error('Failed to store idempotent response:', storeError)
+    }
+
+    return response
+  }
+}
+
+/**
+ * Insert the key as 'processing'. If it already exists, return the stored row
+ * (expired rows are removed and the claim retried once).
+ */
+async function claimKey(
+  userId: string,
+  scope: string,
+  key: string,
+  requestHash: string
+): Promise<{ id?: string; existing?: StoredKey }> {
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const { data: inserted, error: insertError } = await supabaseAdmin
+      .from('idempotency_keys')
+      .insert({
+        user_id: userId,
+        scope,
+        idempotency_key: key,
+        request_hash: requestHash,
+        expires_at: new Date(Date.now() + KEY_TTL_MS).toISOString()
+      })
+      .select('id')
+      .single()
+
+    if (!insertError && inserted) {
+      return { id: inserted.id }
+    }
+
+    // 23505 = unique_violation: the key was used before
+    if (insertError?.code !== '23505') {
+      throw new Error(`Failed to store idempotency key: ${insertError?.message}`)
+    }
+
+    const { data: existing, error: fetchError } = await supabaseAdmin
+      .from('idempotency_keys')
+      .select('id, request_hash, status, response_status, response_body, expires_at')
+      .eq('user_id', userId)
+      .eq('scope', scope)
+      .eq('idempotency_key', key)
+      .single()
+
+    if (fetchError || !existing) {
+      throw new Error(`Failed to load idempotency key: ${fetchError?.message}`)
+    }
+
+    if (new Date(existing.expires_at).getTime() > Date.now()) {
+      return { existing: existing as StoredKey }
+    }
+
+    await releaseKey(existing.id)
+  }
+
+  throw new Error('Failed to claim idempotency key')
+}
+
+async function releaseKey(id: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('idempotency_keys')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    console.error('Failed to release idempotency key:', error)
+  }
+}
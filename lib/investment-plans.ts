@@ -0,0 +1,84 @@
+// Investment plan catalogue types. Terms are stored as versioned rows in the
+// plan_catalogue table; only draft versions can be edited.
+
+export type InvestmentWallet = 'fund_wallet' | 'main_wallet'
+
+export type PlanCatalogueStatus = 'draft' | 'active' | 'retired'
+
+export interface PlanCatalogueEntry {
+  id: string
+  plan_key: string
+  version: number
+  name: string
+  description: string | null
+  min_amount: number
+  max_amount: number
+  daily_percentage: number
+  duration_days: number | null // NULL = runs until capped
+  cap_multiplier: number | null // Total profit cap as a multiple of principal, NULL = uncapped
+  tokens_per_dollar: number // JRC recorded as jarvis_tokens_earned per $1 invested
+  eligible_wallet: InvestmentWallet // Wallet the investment is paid from
+  principal_release_wallet: InvestmentWallet | null // Wallet the principal returns to on maturity, NULL = kept
+  status: PlanCatalogueStatus
+  activated_at: string | null
+  retired_at: string | null
+  created_at: string
+}
+
+// Editable terms of a catalogue version
+export interface PlanTermsInput {
+  planKey: string
+  name: string
+  description?: string | null
+  minAmount: number
+  maxAmount: number
+  dailyPercentage: number
+  durationDays?: number | null
+  capMultiplier?: number | null
+  tokensPerDollar: number
+  eligibleWallet: InvestmentWallet
+  principalReleaseWallet?: InvestmentWallet | null
+}
+
+const PLAN_KEY_PATTERN = /^[A-Za-z0-9_-]{1,32}$/
+
+/**
+ * Validate plan terms, returning an error message or null
+ */
+export function validatePlanTerms(input: Partial<PlanTermsInput>): string | null {
+  if (!input.planKey || !PLAN_KEY_PATTERN.test(input.planKey)) {
+    return 'Plan key must be 1-32 letters, digits, "-" or "_"'
+  }
+  if (!input.name || !input.name.trim()) {
+    return 'Plan name is required'
+  }
+  if (!(Number(input.minAmount) > 0)) {
+    return 'Minimum amount must be greater than 0'
+  }
+  if (!(Number(input.maxAmount) >= Number(input.minAmount))) {
+    return 'Maximum amount must be at least the minimum amount'
+  }
+  if (!(Number(input.dailyPercentage) > 0) || Number(input.dailyPercentage) >= 1000) {
+    return 'Daily percentage must be between 0 and 1000'
+  }
+  if (input.durationDays != null && !(Number.isInteger(Number(input.durationDays)) && Number(input.durationDays) > 0)) {
+    return 'Duration must be a whole number of days'
+  }
+  if (input.capMultiplier != null && !(Number(input.capMultiplier) >= 1 && Number(input.capMultiplier) <= 100)) {
+    return 'Cap multiplier must be between 1 and 100'
+  }
+  if (!(Number(input.tokensPerDollar) >= 0)) {
+    return 'Token reward ratio cannot be negative'
+  }
+  if (input.eligibleWallet !== 'fund_wallet' && input.eligibleWallet !== 'main_wallet') {
+    return 'Eligible wallet must be fund_wallet or main_wallet'
+  }
+  if (input.principalReleaseWallet != null && input.principalReleaseWallet !== 'fund_wallet' && input.principalReleaseWallet !== 'main_wallet') {
+    return 'Principal release wallet must be fund_wallet, main_wallet or empty'
+  }
+  return null
+}
+
+export function walletLabel(wallet: InvestmentWallet): string {
+  return wallet === 'fund_wallet' ? 'Fund Wallet' : 'Main Wallet'
+}
@@ -0,0 +1,208 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { supabaseAdmin } from './supabase-server'
+
+// User wallets (require a userId) and platform counter-accounts (no userId)
+export type LedgerAccount =
+  | 'main_wallet'
+  | 'fund_wallet'
+  | 'jrc_tokens'
+  | 'external'
+  | 'fee_income'
+  | 'profit_expense'
+  | 'referral_expense'
+  | 'investment_pool'
+  | 'staking_pool'
+
+export type LedgerCurrency = 'USDT' | 'JRC'
+
+export interface LedgerEntry {
+  account: LedgerAccount
+  userId?: string | null
+  amount: number // Signed: positive increases the account, negative decreases it
+  currency?: LedgerCurrency
+}
+
+// User-facing history row written in the same database transaction as the journal
+export interface LedgerTransactionRecord {
+  userId: string
+  transactionType: string
+  amount: number
+  fee?: number
+  netAmount?: number
+  status?: 'pending' | 'completed' | 'failed' | 'cancelled'
+  planId?: string | null
+  referenceId?: string | null
+  description?: string
+}
+
+export interface LedgerJournal {
+  journalType: string
+  referenceId?: string | null
+  description?: string
+  createdBy?: string | null
+  metadata?: Record<string, any>
+  entries: LedgerEntry[]
+  transactions?: LedgerTransactionRecord[]
+}
+
+export interface LedgerBalanceSnapshot {
+  user_id: string
+  main_wallet_balance: number
+  fund_wallet_balance: number
+  total_jarvis_tokens: number
+}
+
+export interface LedgerPostResult {
+  journalId: string
+  transactionIds: string[]
+  balances: LedgerBalanceSnapshot[]
+}
+
+const USER_ACCOUNTS: LedgerAccount[] = ['main_wallet', 'fund_wallet', 'jrc_tokens']
+
+// Amounts are stored as DECIMAL(20,8)
+const roundAmount = (amount: number) => Math.round(amount * 1e8) / 1e8
+
+export class LedgerService {
+  constructor(private supabase: SupabaseClient = supabaseAdmin) {}
+
+  /**
+   * Post a balanced journal. All entries, the profiles projection and any
+   * transaction rows are written atomically by post_ledger_journal().
+   */
+  async post(journal: LedgerJournal): Promise<LedgerPostResult> {
+    const entries = journal.entries.map(entry => this.normalizeEntry(entry))
+    this.assertBalanced(entries)
+
+    const { data, error } = await this.supabase.rpc('post_ledger_journal', {
+      p_journal: {
+        journal_type: journal.journalType,
+        reference_id: journal.referenceId ?? null,
+        description: journal.description ?? null,
+        created_by: journal.createdBy ?? null,
+        metadata: journal.metadata ?? {},
+        entries: entries.map(entry => ({
+          account: entry.account,
+          user_id: entry.userId ?? null,
+          amount: entry.amount,
+          currency: entry.currency
+        })),
+        transactions: (journal.transactions || []).map(tx => ({
+          user_id: tx.userId,
+          transaction_type: tx.transactionType,
+          amount: roundAmount(tx.amount),
+          fee: roundAmount(tx.fee ?? 0),
+          net_amount: roundAmount(tx.netAmount ?? tx.amount),
+          status: tx.status ?? 'completed',
+          plan_id: tx.planId ?? null,
+          reference_id: tx.referenceId ?? null,
+          description: tx.description ?? null
+        }))
+      }
+    })
+
+    if (error) {
+      throw new Error(error.message || 'Failed to post ledger journal')
+    }
+
+    return {
+      journalId: data.journal_id,
+      transactionIds: data.transaction_ids || [],
+      balances: data.balances || []
+    }
+  }
+
+  /**
+   * Move funds between two accounts (a single debit and its matching credit)
+   */
+  async transfer(params: {
+    journalType: string
+    from: Omit<LedgerEntry, 'amount'>
+    to: Omit<LedgerEntry, 'amount'>
+    amount: number
+    description?: string
+    referenceId?: string | null
+    createdBy?: string | null
+    metadata?: Record<string, any>
+    transactions?: LedgerTransactionRecord[]
+  }): Promise<LedgerPostResult> {
+    if (!(params.amount > 0)) {
+      throw new Error('Transfer amount must be positive')
+    }
+
+    return this.post({
+      journalType: params.journalType,
+      description: params.description,
+      referenceId: params.referenceId,
+      createdBy: params.createdBy,
+      metadata: params.metadata,
+      entries: [
+        { ...params.from, amount: -params.amount },
+        { ...params.to, amount: params.amount }
+      ],
+      transactions: params.transactions
+    })
+  }
+
+  /**
+   * Get a user's balances as derived from the ledger
+   */
+  async getUserBalances(userId: string): Promise<Record<'main_wallet' | 'fund_wallet' | 'jrc_tokens', number>> {
+    const { data, error } = await this.supabase
+      .from('ledger_balances')
+      .select('account, balance')
+      .eq('user_id', userId)
+
+    if (error) {
+      throw new Error(`Failed to get ledger balances: ${error.message}`)
+    }
+
+    const balances = { main_wallet: 0, fund_wallet: 0, jrc_tokens: 0 }
+    for (const row of data || []) {
+      if (row.account in balances) {
+        balances[row.account as keyof typeof balances] = parseFloat(row.balance)
+      }
+    }
+    return balances
+  }
+
+  private normalizeEntry(entry: LedgerEntry): Required<LedgerEntry> {
+    const isUserAccount = USER_ACCOUNTS.includes(entry.account)
+
+    if (isUserAccount && !entry.userId) {
+      throw new Error(`Ledger account ${entry.account} requires a user`)
+    }
+
+    const amount = roundAmount(entry.amount)
+    if (!Number.isFinite(amount) || amount === 0) {
+      throw new Error(`Invalid ledger amount for ${entry.account}: ${entry.amount}`)
+    }
+
+    return {
+      account: entry.account,
+      userId: isUserAccount ? entry.userId! : entry.userId ?? null,
+      amount,
+      currency: entry.account === 'jrc_tokens' ? 'JRC' : entry.currency ?? 'USDT'
+    }
+  }
+
+  private assertBalanced(entries: Required<LedgerEntry>[]): void {
+    if (entries.length < 2) {
+      throw new Error('A journal needs at least two entries')
+    }
+
+    const totals = new Map<LedgerCurrency, number>()
+    for (const entry of entries) {
+      totals.set(entry.currency, roundAmount((totals.get(entry.currency) || 0) + entry.amount))
+    }
+
+    for (const [currency, total] of Array.from(totals.entries())) {
+      if (total !== 0) {
+        throw new Error(`Unbalanced journal: ${currency} entries sum to ${total}`)
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const ledgerService = new LedgerService()
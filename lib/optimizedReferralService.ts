@@ -1,33 +1,55 @@
 import { createSupabaseClient } from './supabase'
+import { loadScheduleInEffect } from './commission-schedules'
 
 export interface ReferralCommissionRates {
   level: number
   usdtRate: number
+  jrcRate: number
 }
 
 export interface OptimizedReferralStats {
   totalUsdtEarned: number
+  totalJrcEarned: number
   totalReferrals: number
   levelStats: Array<{
     level: number
     count: number
     usdtEarned: number
     usdtRate: number
+    jrcEarned: number
+    jrcRate: number
   }>
 }
 
 export class OptimizedReferralService {
   private supabase = createSupabaseClient()
 
-  private readonly commissionRates: ReferralCommissionRates[] = [
-    { level: 1, usdtRate: 10 },
-    { level: 2, usdtRate: 5 },
-    { level: 3, usdtRate: 3 },
-    { level: 4, usdtRate: 2 },
-    { level: 5, usdtRate: 1 },
-    { level: 6, usdtRate: 0.5 }
+  // Standard 6-level structure, used when no commission schedule is in effect
+  private readonly fallbackCommissionRates: ReferralCommissionRates[] = [
+    { level: 1, usdtRate: 10, jrcRate: 0 },
+    { level: 2, usdtRate: 5, jrcRate: 0 },
+    { level: 3, usdtRate: 3, jrcRate: 0 },
+    { level: 4, usdtRate: 2, jrcRate: 0 },
+    { level: 5, usdtRate: 1, jrcRate: 0 },
+    { level: 6, usdtRate: 0.5, jrcRate: 0 }
   ]
 
+  /**
+   * Rates of the staking schedule in effect
+   */
+  async getCommissionRates(): Promise<ReferralCommissionRates[]> {
+    try {
+      const schedule = await loadScheduleInEffect(this.supabase, 'staking')
+      if (schedule) {
+        return schedule.levels.map(level => ({ level: level.level, usdtRate: level.usdt_rate, jrcRate: level.jrc_rate }))
+      }
+    } catch (error) {
+      console.warn('Commission schedule not available, using standard rates:', error)
+    }
+
+    return this.fallbackCommissionRates
+  }
+
   /**
    * Get optimized referral statistics using minimal database queries
    */
@@ -35,6 +57,8 @@ export class OptimizedReferralService {
     try {
       console.log('🚀 Starting optimized referral stats fetch for user:', userId)
 
+      const commissionRates = await this.getCommissionRates()
+
       // Get user's referral code first
       const { data: userProfile, error: profileError } = await this.supabase
         .from('profiles')
@@ -46,12 +70,15 @@ export class OptimizedReferralService {
         console.error('❌ Error fetching user profile:', profileError)
         return {
           totalUsdtEarned: 0,
+          totalJrcEarned: 0,
           totalReferrals: 0,
-          levelStats: this.commissionRates.map(rate => ({
+          levelStats: commissionRates.map(rate => ({
             level: rate.level,
             count: 0,
             usdtEarned: 0,
-            usdtRate: rate.usdtRate
+            usdtRate: rate.usdtRate,
+            jrcEarned: 0,
+            jrcRate: rate.jrcRate
           }))
         }
       }
@@ -59,7 +86,7 @@ export class OptimizedReferralService {
       // Fetch all referral commissions
       const { data: commissions, error: commissionsError } = await this.supabase
         .from('referral_commissions')
-        .select('level, commission_amount, referred_id')
+        .select('level, commission_amount, jrc_commission, referred_id')
         .eq('referrer_id', userId)
 
       if (commissionsError) {
@@ -72,8 +99,11 @@ export class OptimizedReferralService {
         return sum + (c.commission_amount || 0)
       }, 0) || 0
 
+      // Calculate total JRC earned
+      const totalJrcEarned = commissions?.reduce((sum, c) => sum + Number(c.jrc_commission || 0), 0) || 0
+
       // Count ALL referrals recursively across all levels
-      const totalReferrals = await this.countAllReferralsRecursive(userProfile.referral_code)
+      const totalReferrals = await this.countAllReferralsRecursive(userProfile.referral_code, 0, commissionRates.length)
 
       // Group commissions by level for efficient processing
       const commissionsByLevel = new Map<number, any[]>()
@@ -96,7 +126,7 @@ export class OptimizedReferralService {
       })
 
       // Build level statistics efficiently
-      const levelStats = this.commissionRates.map(rate => {
+      const levelStats = commissionRates.map(rate => {
         const levelCommissions = commissionsByLevel.get(rate.level) || []
         const uniqueReferrals = referralCountsByLevel.get(rate.level) || new Set()
 
@@ -104,12 +134,15 @@ export class OptimizedReferralService {
           level: rate.level,
           count: uniqueReferrals.size,
           usdtEarned: levelCommissions.reduce((sum, c) => sum + (c.commission_amount || 0), 0),
-          usdtRate: rate.usdtRate
+          usdtRate: rate.usdtRate,
+          jrcEarned: levelCommissions.reduce((sum, c) => sum + Number(c.jrc_commission || 0), 0),
+          jrcRate: rate.jrcRate
         }
       })
 
       const result = {
         totalUsdtEarned,
+        totalJrcEarned,
         totalReferrals,
         levelStats
       }
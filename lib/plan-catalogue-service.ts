@@ -0,0 +1,161 @@
+import { supabaseAdmin } from './supabase-server'
+import { PlanCatalogueEntry, PlanCatalogueStatus, PlanTermsInput } from './investment-plans'
+
+const CATALOGUE_COLUMNS = 'id, plan_key, version, name, description, min_amount, max_amount, daily_percentage, duration_days, cap_multiplier, tokens_per_dollar, eligible_wallet, principal_release_wallet, status, activated_at, retired_at, created_at'
+
+export class PlanCatalogueService {
+  private supabase = supabaseAdmin
+
+  /**
+   * List catalogue versions, newest version of each plan first
+   */
+  async listPlans(status?: PlanCatalogueStatus): Promise<PlanCatalogueEntry[]> {
+    let query = this.supabase
+      .from('plan_catalogue')
+      .select(CATALOGUE_COLUMNS)
+      .order('plan_key', { ascending: true })
+      .order('version', { ascending: false })
+
+    if (status) {
+      query = query.eq('status', status)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to load plan catalogue: ${error.message}`)
+    }
+
+    return (data || []).map(row => this.normalize(row))
+  }
+
+  /**
+   * Create a draft version. Versions are numbered per plan key.
+   */
+  async createVersion(input: PlanTermsInput, adminId: string): Promise<PlanCatalogueEntry> {
+    const { data: latest, error: latestError } = await this.supabase
+      .from('plan_catalogue')
+      .select('version')
+      .eq('plan_key', input.planKey)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (latestError) {
+      throw new Error(`Failed to load plan versions: ${latestError.message}`)
+    }
+
+    const { data, error } = await this.supabase
+      .from('plan_catalogue')
+      .insert({
+        ...this.toRow(input),
+        version: (latest?.version || 0) + 1,
+        status: 'draft',
+        created_by: adminId
+      })
+      .select(CATALOGUE_COLUMNS)
+      .single()
+
+    if (error) {
+      // 23505 = unique_violation: another version was created concurrently
+      throw new Error(error.code === '23505' ? 'Plan version already exists, please retry' : error.message)
+    }
+
+    return this.normalize(data)
+  }
+
+  /**
+   * Edit a draft version (published versions are frozen by a database trigger)
+   */
+  async updateDraft(id: string, input: PlanTermsInput): Promise<PlanCatalogueEntry> {
+    const { data, error } = await this.supabase
+      .from('plan_catalogue')
+      .update(this.toRow(input))
+      .eq('id', id)
+      .select(CATALOGUE_COLUMNS)
+      .single()
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return this.normalize(data)
+  }
+
+  /**
+   * Activate a draft; the plan key's previously active version is retired
+   */
+  async activate(id: string): Promise<{ activatedId: string; retiredId: string | null }> {
+    const { data, error } = await this.supabase.rpc('activate_plan_catalogue_version', {
+      p_catalogue_id: id
+    })
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return { activatedId: data.activated_id, retiredId: data.retired_id ?? null }
+  }
+
+  /**
+   * Retire a version so it can no longer be bought. Running plans are unaffected.
+   */
+  async retire(id: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('plan_catalogue')
+      .update({ status: 'retired', retired_at: new Date().toISOString() })
+      .eq('id', id)
+      .neq('status', 'retired')
+      .select('id')
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    if (!data || data.length === 0) {
+      throw new Error('Plan version not found or already retired')
+    }
+  }
+
+  async deleteDraft(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('plan_catalogue')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+  }
+
+  private toRow(input: PlanTermsInput) {
+    return {
+      plan_key: input.planKey,
+      name: input.name.trim(),
+      description: input.description?.trim() || null,
+      min_amount: Number(input.minAmount),
+      max_amount: Number(input.maxAmount),
+      daily_percentage: Number(input.dailyPercentage),
+      duration_days: input.durationDays != null ? Number(input.durationDays) : null,
+      cap_multiplier: input.capMultiplier != null ? Number(input.capMultiplier) : null,
+      tokens_per_dollar: Number(input.tokensPerDollar),
+      eligible_wallet: input.eligibleWallet,
+      principal_release_wallet: input.principalReleaseWallet || null
+    }
+  }
+
+  private normalize(row: any): PlanCatalogueEntry {
+    return {
+      ...row,
+      min_amount: Number(row.min_amount),
+      max_amount: Number(row.max_amount),
+      daily_percentage: Number(row.daily_percentage),
+      duration_days: row.duration_days != null ? Number(row.duration_days) : null,
+      cap_multiplier: row.cap_multiplier != null ? Number(row.cap_multiplier) : null,
+      tokens_per_dollar: Number(row.tokens_per_dollar)
+    }
+  }
+}
+
+// Export singleton instance
+export const planCatalogueService = new PlanCatalogueService()
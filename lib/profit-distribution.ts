@@ -1,4 +1,57 @@
 import { supabaseAdmin } from './supabase-server'
+import EmailService from './email-service'
+
+type MaturityReason = 'duration' | 'cap'
+
+interface MaturingPlan {
+  plan: any
+  reason: MaturityReason
+}
+
+interface DistributionRow {
+  plan_id: string
+  user_id: string
+  profit_amount: number
+  distribution_date: string
+}
+
+interface StakingDistributionRow {
+  staking_plan_id: string
+  user_id: string
+  profit_amount: number
+  distribution_date: string
+}
+
+interface DistributionGap {
+  plan_id: string
+  user_id: string
+  missed_date: string
+  expected_amount: number
+}
+
+// What to do with days the scheduler missed: 'backfill' pays them on the next run,
+// 'flag' records them in profit_distribution_gaps for an admin to review
+export type CatchupPolicy = 'backfill' | 'flag'
+
+export const CATCHUP_POLICY: CatchupPolicy = process.env.PROFIT_CATCHUP_POLICY === 'backfill' ? 'backfill' : 'flag'
+
+// Older missed days are flagged even when backfilling
+const MAX_BACKFILL_DAYS = parseInt(process.env.PROFIT_BACKFILL_MAX_DAYS || '30')
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const roundAmount = (amount: number) => Math.round(amount * 1e8) / 1e8
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0]
+
+// Inclusive list of YYYY-MM-DD dates from start to end
+function datesBetween(start: string, end: string): string[] {
+  const dates: string[] = []
+  for (let time = new Date(start + 'T00:00:00.000Z').getTime(); time <= new Date(end + 'T00:00:00.000Z').getTime(); time += DAY_MS) {
+    dates.push(toDateString(new Date(time)))
+  }
+  return dates
+}
 
 export async function distributeProfits() {
   try {
@@ -7,6 +60,9 @@ export async function distributeProfits() {
     // Distribute regular investment profits
     await distributeInvestmentProfits()
 
+    // Distribute JRC staking profits
+    await distributeStakingProfits()
+
   } catch (error) {
     console.error('Error in profit distribution:', error)
   }
@@ -26,8 +82,11 @@ async function distributeInvestmentProfits() {
         plan_type,
         investment_amount,
         daily_percentage,
+        total_profit_earned,
+        compounded_amount,
         created_at,
-        profiles!inner(id)
+        profiles!inner(id),
+        plan_catalogue(name, duration_days, cap_multiplier, principal_release_wallet)
       `)
       .eq('is_active', true)
 
@@ -42,9 +101,10 @@ async function distributeInvestmentProfits() {
     }
 
     const now = new Date()
-    const today = now.toISOString().split('T')[0]
-    const profitDistributions = []
-    const userUpdates = new Map()
+    const today = toDateString(now)
+    const profitDistributions: DistributionRow[] = []
+    const distributionGaps: DistributionGap[] = []
+    const maturingPlans: MaturingPlan[] = []
 
     for (const plan of plans) {
       const planCreatedAt = new Date(plan.created_at)
@@ -54,8 +114,8 @@ async function distributeInvestmentProfits() {
       creationDate.setUTCHours(0, 0, 0, 0) // Normalize to start of day
 
       // First distribution should be 24 hours (1 day) after creation
-      const firstDistributionDate = new Date(creationDate.getTime() + 24 * 60 * 60 * 1000)
-      const firstDistributionDateStr = firstDistributionDate.toISOString().split('T')[0]
+      const firstDistributionDate = new Date(creationDate.getTime() + DAY_MS)
+      const firstDistributionDateStr = toDateString(firstDistributionDate)
 
       // Check if we've reached the first distribution date
       if (today < firstDistributionDateStr) {
@@ -64,18 +124,6 @@ async function distributeInvestmentProfits() {
         continue
       }
 
-      // Check if profit already distributed for today
-      const { data: existingDistribution } = await supabaseAdmin
-        .from('profit_distributions')
-        .select('id')
-        .eq('plan_id', plan.id)
-        .eq('distribution_date', today)
-
-      if (existingDistribution && existingDistribution.length > 0) {
-        console.log(`Profit already distributed today for plan ${plan.id}`)
-        continue
-      }
-
       // Get the last distribution date for this plan
       const { data: lastDistribution } = await supabaseAdmin
         .from('profit_distributions')
@@ -89,133 +137,588 @@ async function distributeInvestmentProfits() {
       if (lastDistribution && lastDistribution.length > 0) {
         // Next distribution is the day after the last distribution
         const lastDistDate = new Date(lastDistribution[0].distribution_date + 'T00:00:00.000Z')
-        nextDistributionDate = new Date(lastDistDate.getTime() + 24 * 60 * 60 * 1000)
+        nextDistributionDate = new Date(lastDistDate.getTime() + DAY_MS)
       } else {
         // This is the first distribution
         nextDistributionDate = firstDistributionDate
       }
 
-      const nextDistributionDateStr = nextDistributionDate.toISOString().split('T')[0]
+      const nextDistributionDateStr = toDateString(nextDistributionDate)
 
       // Only distribute if today is the next distribution date or later
-      if (today >= nextDistributionDateStr) {
-        // Calculate daily profit
-        const dailyProfitRate = plan.daily_percentage / 100
-        const profitAmount = plan.investment_amount * dailyProfitRate
+      if (today < nextDistributionDateStr) {
+        console.log(`Plan ${plan.id} next distribution date is ${nextDistributionDateStr}, today is ${today}`)
+        continue
+      }
+
+      const terms = getPlanTerms(plan)
+      const dailyProfit = plan.investment_amount * (plan.daily_percentage / 100)
 
-        // Add to profit distributions (distribute for today)
-        profitDistributions.push({
+      const maturityDateStr = getMaturityDate(plan, terms.durationDays)
+      const withinTerm = (date: string) => !maturityDateStr || date <= maturityDateStr
+
+      // Days between the last distribution and today were missed by the scheduler
+      const missedDates = datesBetween(nextDistributionDateStr, today).slice(0, -1).filter(withinTerm)
+      let payDates = [today]
+      let flaggedDates: string[] = missedDates
+
+      if (missedDates.length > 0 && CATCHUP_POLICY === 'backfill') {
+        const backfillDates = missedDates.slice(-MAX_BACKFILL_DAYS)
+        flaggedDates = missedDates.slice(0, missedDates.length - backfillDates.length)
+        payDates = [...backfillDates, today]
+      }
+
+      if (missedDates.length > 0) {
+        console.log(`Plan ${plan.id} missed ${missedDates.length} distribution day(s) since ${nextDistributionDateStr} (policy: ${CATCHUP_POLICY})`)
+      }
+
+      for (const date of flaggedDates) {
+        distributionGaps.push({
           plan_id: plan.id,
           user_id: plan.user_id,
-          profit_amount: profitAmount,
-          distribution_date: today
+          missed_date: date,
+          expected_amount: roundAmount(dailyProfit)
         })
+      }
+
+      let runningTotal = plan.total_profit_earned || 0
+      let maturityReason: MaturityReason | null = null
+
+      for (const date of payDates.filter(withinTerm)) {
+        let profitAmount = dailyProfit
 
-        // Accumulate user updates
-        if (userUpdates.has(plan.user_id)) {
-          userUpdates.set(plan.user_id, userUpdates.get(plan.user_id) + profitAmount)
-        } else {
-          userUpdates.set(plan.user_id, profitAmount)
+        // Pay only what is left under the ROI cap (a partial final day)
+        const remainingCap = getRemainingCap(plan, terms.capMultiplier, runningTotal)
+        if (remainingCap !== null && profitAmount >= remainingCap) {
+          profitAmount = Math.max(remainingCap, 0)
+          maturityReason = 'cap'
         }
 
-        console.log(`Queued profit distribution for plan ${plan.id} on ${today} at ${new Date().toLocaleTimeString()}: $${profitAmount.toFixed(8)}`)
-      } else {
-        console.log(`Plan ${plan.id} next distribution date is ${nextDistributionDateStr}, today is ${today}`)
+        profitAmount = roundAmount(profitAmount)
+
+        if (profitAmount > 0) {
+          profitDistributions.push({
+            plan_id: plan.id,
+            user_id: plan.user_id,
+            profit_amount: profitAmount,
+            distribution_date: date
+          })
+          runningTotal += profitAmount
+
+          console.log(`Queued profit distribution for plan ${plan.id} on ${date} at ${new Date().toLocaleTimeString()}: $${profitAmount.toFixed(8)}`)
+        }
+
+        if (maturityReason) break
       }
+
+      if (!maturityReason && maturityDateStr && today >= maturityDateStr) {
+        maturityReason = 'duration'
+      }
+
+      if (maturityReason) {
+        maturingPlans.push({ plan: { ...plan, total_profit_earned: runningTotal }, reason: maturityReason })
+        console.log(`Plan ${plan.id} matures today (${maturityReason})`)
+      }
+    }
+
+    if (distributionGaps.length > 0) {
+      await flagDistributionGaps(distributionGaps)
     }
 
     if (profitDistributions.length === 0) {
       console.log('No new profits to distribute')
+      await completeMaturedPlans(maturingPlans)
       return
     }
 
-    // Insert profit distributions
-    const { error: distributionError } = await supabaseAdmin
-      .from('profit_distributions')
-      .insert(profitDistributions)
+    const paid = await creditDistributions('investment', profitDistributions.map(d => ({
+      planId: d.plan_id,
+      amount: d.profit_amount,
+      date: d.distribution_date
+    })))
 
-    if (distributionError) {
-      console.error('Error inserting profit distributions:', distributionError)
+    console.log(`Successfully distributed investment profits to ${paid.users.size} users (${paid.compounded} compounded)`)
+    console.log(`Total investment distributions: ${paid.count}`)
+
+    // A plan whose last day failed to pay completes on the next run, once that day is paid
+    await completeMaturedPlans(maturingPlans.filter(({ plan }) => !paid.failedPlans.has(plan.id)))
+
+  } catch (error) {
+    console.error('Error in investment profit distribution:', error)
+  }
+}
+
+// Function to distribute JRC staking profits
+async function distributeStakingProfits() {
+  try {
+    console.log('Starting JRC staking profit distribution...')
+
+    const { data: stakes, error: stakesError } = await supabaseAdmin
+      .from('jrc_staking_plans')
+      .select('id, user_id, amount, staking_period, daily_percentage, start_date, end_date, total_profit_earned')
+      .eq('status', 'active')
+
+    if (stakesError) {
+      console.error('Error fetching staking plans:', stakesError)
       return
     }
 
-    // Update user balances and plan totals
-    for (const [userId, totalProfit] of Array.from(userUpdates.entries())) {
-      // Get current balance first
-      const { data: currentProfile, error: fetchError } = await supabaseAdmin
-        .from('profiles')
-        .select('main_wallet_balance')
-        .eq('id', userId)
-        .single()
+    if (!stakes || stakes.length === 0) {
+      console.log('No active staking plans found')
+      return
+    }
 
-      if (fetchError) {
-        console.error(`Error fetching profile for user ${userId}:`, fetchError)
-        continue
-      }
+    const today = toDateString(new Date())
+    const dailyRates = new Map<number, number>()
+    const stakingDistributions: StakingDistributionRow[] = []
+    const maturingStakes: any[] = []
 
-      // Update user main wallet balance
-      const { error: walletError } = await supabaseAdmin
-        .from('profiles')
-        .update({
-          main_wallet_balance: (currentProfile.main_wallet_balance || 0) + totalProfit
-        })
-        .eq('id', userId)
+    for (const stake of stakes) {
+      const startDate = new Date(stake.start_date)
+      startDate.setUTCHours(0, 0, 0, 0)
 
-      if (walletError) {
-        console.error(`Error updating wallet for user ${userId}:`, walletError)
-        continue
-      }
+      // First reward is due the day after staking, the last one on the end date
+      const firstDistributionDateStr = toDateString(new Date(startDate.getTime() + DAY_MS))
+      const endDateStr = toDateString(new Date(stake.end_date))
 
-      // Create profit transaction
-      const { error: transactionError } = await supabaseAdmin
-        .from('transactions')
-        .insert({
-          user_id: userId,
-          transaction_type: 'profit',
-          amount: totalProfit,
-          net_amount: totalProfit,
-          status: 'completed',
-          description: 'Daily profit distribution'
-        })
+      const { data: lastDistribution } = await supabaseAdmin
+        .from('jrc_staking_distributions')
+        .select('distribution_date')
+        .eq('staking_plan_id', stake.id)
+        .order('distribution_date', { ascending: false })
+        .limit(1)
 
-      if (transactionError) {
-        console.error(`Error creating transaction for user ${userId}:`, transactionError)
+      const nextDistributionDateStr = lastDistribution && lastDistribution.length > 0
+        ? toDateString(new Date(new Date(lastDistribution[0].distribution_date + 'T00:00:00.000Z').getTime() + DAY_MS))
+        : firstDistributionDateStr
+
+      // Stakes have a fixed term, so every unpaid day up to today (or the end date) is paid
+      const lastDueDateStr = today < endDateStr ? today : endDateStr
+
+      if (nextDistributionDateStr <= lastDueDateStr) {
+        const dailyPercentage = await getStakingDailyPercentage(stake, dailyRates)
+        const profitAmount = roundAmount(stake.amount * (dailyPercentage / 100))
+        const dueDates = datesBetween(nextDistributionDateStr, lastDueDateStr)
+
+        if (dueDates.length > 1) {
+          console.log(`Stake ${stake.id} has ${dueDates.length} unpaid day(s) since ${nextDistributionDateStr}`)
+        }
+
+        for (const date of dueDates) {
+          if (profitAmount > 0) {
+            stakingDistributions.push({
+              staking_plan_id: stake.id,
+              user_id: stake.user_id,
+              profit_amount: profitAmount,
+              distribution_date: date
+            })
+          }
+        }
       }
 
-      console.log(`Updated wallet for user ${userId}: +$${totalProfit.toFixed(8)}`)
+      if (today >= endDateStr) {
+        maturingStakes.push(stake)
+        console.log(`Stake ${stake.id} matures today`)
+      }
+    }
+
+    const stakeUpdates = new Map<string, number>()
+    let failedStakes = new Set<string>()
+
+    if (stakingDistributions.length === 0) {
+      console.log('No new staking profits to distribute')
+    } else {
+      // Staking rewards are paid into the main wallet like investment profits
+      const paid = await creditDistributions('staking', stakingDistributions.map(d => ({
+        planId: d.staking_plan_id,
+        amount: d.profit_amount,
+        date: d.distribution_date
+      })))
+
+      paid.amounts.forEach((amount, stakeId) => stakeUpdates.set(stakeId, amount))
+      failedStakes = paid.failedPlans
+
+      console.log(`Successfully distributed staking profits to ${paid.users.size} users (${paid.compounded} compounded)`)
+      console.log(`Total staking distributions: ${paid.count}`)
     }
 
-    // Update investment plans total profit earned
-    for (const distribution of profitDistributions) {
-      // Get current total profit earned first
-      const { data: currentPlan, error: fetchPlanError } = await supabaseAdmin
-        .from('investment_plans')
-        .select('total_profit_earned')
-        .eq('id', distribution.plan_id)
+    for (const stake of maturingStakes) {
+      // Completed on the next run, once the unpaid days are paid
+      if (failedStakes.has(stake.id)) continue
+
+      try {
+        await completeStakingPlan({
+          ...stake,
+          total_profit_earned: roundAmount((stake.total_profit_earned || 0) + (stakeUpdates.get(stake.id) || 0))
+        })
+      } catch (error) {
+        console.error(`Error completing stake ${stake.id}:`, error)
+      }
+    }
+
+  } catch (error) {
+    console.error('Error in staking profit distribution:', error)
+  }
+}
+
+// Daily rate for the stake's period from get_staking_daily_percentage(), cached per run.
+// Falls back to the rate stored on the stake if the lookup fails.
+async function getStakingDailyPercentage(stake: any, cache: Map<number, number>): Promise<number> {
+  const cached = cache.get(stake.staking_period)
+  if (cached !== undefined) return cached
+
+  const { data, error } = await supabaseAdmin.rpc('get_staking_daily_percentage', {
+    period_days: stake.staking_period
+  })
+
+  if (error || data === null || data === undefined) {
+    console.error(`Error fetching daily rate for ${stake.staking_period}-day stakes:`, error)
+    return Number(stake.daily_percentage)
+  }
+
+  const rate = Number(data)
+  cache.set(stake.staking_period, rate)
+  return rate
+}
+
+async function completeStakingPlan(stake: any) {
+  const planName = `${stake.staking_period}-Day JRC Staking`
+
+  // Completion and the principal release back to the fund wallet are one transaction
+  const completed = await completePlan('staking', stake.id, planName)
+
+  if (!completed) {
+    console.log(`Stake ${stake.id} was already completed`)
+    return
+  }
+
+  // Includes any compounded profit
+  const principal = Number(completed.principal)
+  const principalReleased = Number(completed.principal_released)
+
+  console.log(`Stake ${stake.id} completed, principal released: $${principalReleased}`)
+
+  try {
+    const { data: authUser } = await (supabaseAdmin.auth as any).admin.getUserById(stake.user_id)
+
+    if (authUser?.user?.email) {
+      const { data: profile } = await supabaseAdmin
+        .from('profiles')
+        .select('full_name')
+        .eq('id', stake.user_id)
         .single()
 
-      if (fetchPlanError) {
-        console.error(`Error fetching plan ${distribution.plan_id}:`, fetchPlanError)
-        continue
+      const emailService = new EmailService()
+      await emailService.sendInvestmentMaturityNotification(
+        authUser.user.email,
+        profile?.full_name || 'User',
+        principal,
+        'USDT',
+        planName,
+        stake.total_profit_earned || 0,
+        principalReleased || undefined,
+        principalReleased ? 'fund wallet' : undefined
+      )
+    }
+  } catch (emailError) {
+    console.error(`Failed to send maturity email for stake ${stake.id}:`, emailError)
+    // Don't fail the completion if email fails
+  }
+}
+
+// Record and pay one day of a plan's profit. The distribution row, the main wallet credit
+// (or compounding step) and total_profit_earned are written in one credit_plan_profit
+// transaction. Returns null when the day was already paid.
+async function creditPlanProfit(kind: 'investment' | 'staking', planId: string, amount: number, date: string) {
+  const { data, error } = await supabaseAdmin.rpc('credit_plan_profit', {
+    p_plan_kind: kind,
+    p_plan_id: planId,
+    p_amount: amount,
+    p_distribution_date: date
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return data as { distribution_id: string; user_id: string; compounded: boolean } | null
+}
+
+// Pay queued days in date order. After a failed day the plan's later days are skipped, so the
+// next run resumes from the first unpaid day instead of leaving a hole behind it.
+async function creditDistributions(kind: 'investment' | 'staking', distributions: { planId: string; amount: number; date: string }[]) {
+  const ordered = [...distributions].sort((a, b) => a.date.localeCompare(b.date))
+  const paid = {
+    count: 0,
+    compounded: 0,
+    users: new Set<string>(),
+    amounts: new Map<string, number>(),
+    failedPlans: new Set<string>()
+  }
+
+  for (const { planId, amount, date } of ordered) {
+    if (paid.failedPlans.has(planId)) continue
+
+    try {
+      const result = await creditPlanProfit(kind, planId, amount, date)
+
+      // Nothing recorded means the day was paid in the meantime
+      if (!result) continue
+
+      paid.count++
+      paid.amounts.set(planId, roundAmount((paid.amounts.get(planId) || 0) + amount))
+
+      if (result.compounded) {
+        paid.compounded++
+        console.log(`Compounded $${amount.toFixed(8)} into ${kind} plan ${planId} for ${date}`)
+      } else {
+        paid.users.add(result.user_id)
+        console.log(`Credited $${amount.toFixed(8)} ${kind} profit for plan ${planId} on ${date} to user ${result.user_id}`)
       }
+    } catch (creditError) {
+      console.error(`Error crediting ${kind} profit for plan ${planId} on ${date}:`, creditError)
+      paid.failedPlans.add(planId)
+    }
+  }
 
-      const { error: planUpdateError } = await supabaseAdmin
-        .from('investment_plans')
-        .update({
-          total_profit_earned: (currentPlan.total_profit_earned || 0) + distribution.profit_amount
-        })
-        .eq('id', distribution.plan_id)
+  return paid
+}
 
-      if (planUpdateError) {
-        console.error(`Error updating plan ${distribution.plan_id}:`, planUpdateError)
+// Record missed days for admin review (already flagged days are left as they are)
+async function flagDistributionGaps(gaps: DistributionGap[]) {
+  const { error } = await supabaseAdmin
+    .from('profit_distribution_gaps')
+    .upsert(gaps, { onConflict: 'plan_id,missed_date', ignoreDuplicates: true })
+
+  if (error) {
+    console.error('Error flagging missed distribution days:', error)
+    return
+  }
+
+  console.log(`Flagged ${gaps.length} missed distribution day(s) for admin review`)
+}
+
+export type GapResolution = {
+  gapId: string
+  status: 'backfilled' | 'dismissed' | 'flagged' | 'skipped' | 'failed'
+  error?: string
+}
+
+/**
+ * Resolve open gaps: 'backfill' pays the missed day, 'dismiss' closes it without paying.
+ * Backfills are idempotent per (plan, date) and held to the same eligibility as the daily
+ * run; a day the plan can no longer be paid for is marked flagged with the reason.
+ */
+export async function resolveDistributionGaps(
+  gapIds: string[],
+  action: 'backfill' | 'dismiss',
+  adminId: string
+): Promise<GapResolution[]> {
+  const { data: gaps, error } = await supabaseAdmin
+    .from('profit_distribution_gaps')
+    .select('id, plan_id, user_id, missed_date, expected_amount, status')
+    .in('id', gapIds)
+
+  if (error) {
+    throw new Error(`Failed to load distribution gaps: ${error.message}`)
+  }
+
+  const results: GapResolution[] = []
+
+  for (const gap of gaps || []) {
+    if (gap.status !== 'open') {
+      results.push({ gapId: gap.id, status: 'skipped', error: `Gap is already ${gap.status}` })
+      continue
+    }
+
+    try {
+      if (action === 'backfill') {
+        const eligibility = await getBackfillAmount(gap)
+
+        if ('reason' in eligibility) {
+          await supabaseAdmin
+            .from('profit_distribution_gaps')
+            .update({ status: 'flagged', flag_reason: eligibility.reason, resolved_at: new Date().toISOString(), resolved_by: adminId })
+            .eq('id', gap.id)
+
+          results.push({ gapId: gap.id, status: 'flagged', error: eligibility.reason })
+          continue
+        }
+
+        // Returns null (and pays nothing) if the day was paid in the meantime
+        await creditPlanProfit('investment', gap.plan_id, eligibility.amount, gap.missed_date)
       }
+
+      const status = action === 'backfill' ? 'backfilled' : 'dismissed'
+
+      await supabaseAdmin
+        .from('profit_distribution_gaps')
+        .update({ status, resolved_at: new Date().toISOString(), resolved_by: adminId })
+        .eq('id', gap.id)
+
+      results.push({ gapId: gap.id, status })
+    } catch (resolveError: any) {
+      console.error(`Error resolving distribution gap ${gap.id}:`, resolveError)
+      results.push({ gapId: gap.id, status: 'failed', error: resolveError.message })
     }
+  }
 
-    console.log(`Successfully distributed investment profits to ${userUpdates.size} users`)
-    console.log(`Total investment distributions: ${profitDistributions.length}`)
+  return results
+}
 
-  } catch (error) {
-    console.error('Error in investment profit distribution:', error)
+// What a missed day can still be paid: the plan must be active, the day within its term,
+// and the amount is clamped to what is left under the ROI cap
+async function getBackfillAmount(gap: any): Promise<{ amount: number } | { reason: string }> {
+  const { data: plan, error } = await supabaseAdmin
+    .from('investment_plans')
+    .select(`
+      id,
+      plan_type,
+      investment_amount,
+      total_profit_earned,
+      compounded_amount,
+      is_active,
+      created_at,
+      plan_catalogue(name, duration_days, cap_multiplier, principal_release_wallet)
+    `)
+    .eq('id', gap.plan_id)
+    .single()
+
+  if (error || !plan) {
+    throw new Error(`Failed to load plan: ${error?.message || 'not found'}`)
+  }
+
+  if (!plan.is_active) {
+    return { reason: 'Plan is no longer active' }
+  }
+
+  const terms = getPlanTerms(plan)
+  const maturityDateStr = getMaturityDate(plan, terms.durationDays)
+
+  if (maturityDateStr && gap.missed_date > maturityDateStr) {
+    return { reason: `Missed day is after the plan matured on ${maturityDateStr}` }
+  }
+
+  let amount = Number(gap.expected_amount)
+  const remainingCap = getRemainingCap(plan, terms.capMultiplier, plan.total_profit_earned || 0)
+
+  if (remainingCap !== null) {
+    if (remainingCap <= 0) {
+      return { reason: 'Plan has reached its ROI cap' }
+    }
+    amount = Math.min(amount, remainingCap)
+  }
+
+  return { amount: roundAmount(amount) }
+}
+
+// The last payout falls on the day the plan's duration ends (null = no fixed term)
+function getMaturityDate(plan: any, durationDays: number | null): string | null {
+  if (!durationDays) return null
+
+  const creationDate = new Date(plan.created_at)
+  creationDate.setUTCHours(0, 0, 0, 0)
+  return toDateString(new Date(creationDate.getTime() + durationDays * DAY_MS))
+}
+
+// Profit still payable under the ROI cap (null = uncapped). The cap applies to the
+// original principal, not the compounded one.
+function getRemainingCap(plan: any, capMultiplier: number | null, profitEarned: number): number | null {
+  if (!capMultiplier) return null
+
+  const originalPrincipal = plan.investment_amount - (plan.compounded_amount || 0)
+  return roundAmount(originalPrincipal * capMultiplier - profitEarned)
+}
+
+// Duration / cap terms from the catalogue version the plan was bought under
+function getPlanTerms(plan: any) {
+  const catalogue = Array.isArray(plan.plan_catalogue) ? plan.plan_catalogue[0] : plan.plan_catalogue
+  return {
+    name: catalogue?.name || `Plan ${plan.plan_type}`,
+    durationDays: catalogue?.duration_days ? Number(catalogue.duration_days) : null,
+    capMultiplier: catalogue?.cap_multiplier ? Number(catalogue.cap_multiplier) : null,
+    principalReleaseWallet: (catalogue?.principal_release_wallet || null) as 'main_wallet' | 'fund_wallet' | null
+  }
+}
+
+// Mark matured plans completed, release principal where the terms allow it and notify the user
+async function completeMaturedPlans(maturingPlans: MaturingPlan[]) {
+  for (const { plan, reason } of maturingPlans) {
+    try {
+      await completeInvestmentPlan(plan, reason)
+    } catch (error) {
+      console.error(`Error completing plan ${plan.id}:`, error)
+    }
+  }
+}
+
+// Mark a plan completed and release its principal in one complete_matured_plan transaction.
+// Returns null when the plan was already completed.
+async function completePlan(
+  kind: 'investment' | 'staking',
+  planId: string,
+  planName: string,
+  reason: MaturityReason | null = null,
+  releaseWallet: 'main_wallet' | 'fund_wallet' | null = null
+) {
+  const { data, error } = await supabaseAdmin.rpc('complete_matured_plan', {
+    p_plan_kind: kind,
+    p_plan_id: planId,
+    p_plan_name: planName,
+    p_reason: reason,
+    p_release_wallet: releaseWallet
+  })
+
+  if (error) {
+    throw new Error(`Failed to complete plan: ${error.message}`)
+  }
+
+  return data as { principal: number; principal_released: number } | null
+}
+
+async function completeInvestmentPlan(plan: any, reason: MaturityReason) {
+  const terms = getPlanTerms(plan)
+
+  // Completion and the principal release are one transaction
+  const completed = await completePlan('investment', plan.id, terms.name, reason, terms.principalReleaseWallet)
+
+  if (!completed) {
+    console.log(`Plan ${plan.id} was already completed`)
+    return
+  }
+
+  // Includes any compounded profit
+  const principal = Number(completed.principal)
+  const principalReleased = Number(completed.principal_released)
+
+  console.log(`Plan ${plan.id} completed (${reason}), principal released: $${principalReleased}`)
+
+  // Send maturity email to user
+  try {
+    const { data: authUser } = await (supabaseAdmin.auth as any).admin.getUserById(plan.user_id)
+
+    if (authUser?.user?.email) {
+      const { data: profile } = await supabaseAdmin
+        .from('profiles')
+        .select('full_name')
+        .eq('id', plan.user_id)
+        .single()
+
+      const emailService = new EmailService()
+      await emailService.sendInvestmentMaturityNotification(
+        authUser.user.email,
+        profile?.full_name || 'User',
+        principal,
+        'USDT',
+        terms.name,
+        plan.total_profit_earned || 0,
+        principalReleased || undefined,
+        terms.principalReleaseWallet === 'main_wallet' ? 'main wallet' : terms.principalReleaseWallet === 'fund_wallet' ? 'fund wallet' : undefined
+      )
+    }
+  } catch (emailError) {
+    console.error(`Failed to send maturity email for plan ${plan.id}:`, emailError)
+    // Don't fail the completion if email fails
   }
 }
 
@@ -234,3 +737,9 @@ export async function triggerInvestmentProfitDistribution() {
   console.log('Manually triggering investment profit distribution...')
   await distributeInvestmentProfits()
 }
+
+// Manual trigger for JRC staking profits only
+export async function triggerStakingProfitDistribution() {
+  console.log('Manually triggering staking profit distribution...')
+  await distributeStakingProfits()
+}
@@ -0,0 +1,281 @@
+import { supabaseAdmin } from './supabase-server'
+import { ledgerService } from './ledger-service'
+
+export type ReconciledWallet = 'main_wallet' | 'fund_wallet'
+
+// How a transaction type moves a wallet. Profits and referral bonuses are
+// recomputed from profit_distributions / referral_commissions instead, since
+// those rows are written even when the balance update or transaction row fails.
+interface TransactionRule {
+  wallet: ReconciledWallet
+  sign: 1 | -1
+  field: 'amount' | 'net_amount'
+  statuses: string[]
+}
+
+const TRANSACTION_RULES: Record<string, TransactionRule[]> = {
+  deposit: [{ wallet: 'main_wallet', sign: 1, field: 'net_amount', statuses: ['completed'] }],
+  // Transfers to a user's deposit address, credited by the deposit watcher
+  bsc_deposit: [{ wallet: 'fund_wallet', sign: 1, field: 'net_amount', statuses: ['completed'] }],
+  // Withdrawals are deducted when requested and refunded on rejection
+  withdrawal: [{ wallet: 'main_wallet', sign: -1, field: 'amount', statuses: ['pending', 'completed'] }],
+  wallet_transfer: [
+    { wallet: 'main_wallet', sign: -1, field: 'amount', statuses: ['completed'] },
+    { wallet: 'fund_wallet', sign: 1, field: 'amount', statuses: ['completed'] }
+  ],
+  transfer_sent: [{ wallet: 'fund_wallet', sign: -1, field: 'amount', statuses: ['completed'] }],
+  transfer_received: [{ wallet: 'fund_wallet', sign: 1, field: 'amount', statuses: ['completed'] }],
+  investment: [{ wallet: 'fund_wallet', sign: -1, field: 'amount', statuses: ['completed'] }],
+  // Plans whose eligible wallet is the main wallet
+  main_wallet_investment: [{ wallet: 'main_wallet', sign: -1, field: 'amount', statuses: ['completed'] }],
+  staking: [{ wallet: 'fund_wallet', sign: -1, field: 'amount', statuses: ['completed'] }],
+  // Daily staking rewards (jrc_staking_distributions are only written alongside the ledger journal)
+  staking_profit: [{ wallet: 'main_wallet', sign: 1, field: 'amount', statuses: ['completed'] }],
+  // Early unstake pays out principal minus penalties
+  staking_unstake: [{ wallet: 'fund_wallet', sign: 1, field: 'net_amount', statuses: ['completed'] }],
+  // Principal returned when a plan matures
+  main_wallet_principal_release: [{ wallet: 'main_wallet', sign: 1, field: 'amount', statuses: ['completed'] }],
+  fund_wallet_principal_release: [{ wallet: 'fund_wallet', sign: 1, field: 'amount', statuses: ['completed'] }],
+  // Approved reconciliation corrections (signed amounts)
+  main_wallet_adjustment: [{ wallet: 'main_wallet', sign: 1, field: 'amount', statuses: ['completed'] }],
+  fund_wallet_adjustment: [{ wallet: 'fund_wallet', sign: 1, field: 'amount', statuses: ['completed'] }]
+}
+
+export interface WalletBreakdown {
+  fromTransactions: number
+  fromProfitDistributions: number
+  fromReferralCommissions: number
+}
+
+export interface BalanceDiscrepancy {
+  userId: string
+  fullName: string | null
+  wallet: ReconciledWallet
+  currentBalance: number
+  expectedBalance: number
+  delta: number // expected - current
+  breakdown: WalletBreakdown
+  // Profit / commission rows that never got a matching transaction
+  missingProfitTransactions: number
+  missingCommissionTransactions: number
+}
+
+export interface BalanceCorrection {
+  userId: string
+  wallet: ReconciledWallet
+  delta: number
+}
+
+export interface ReconciliationReport {
+  generatedAt: string
+  usersChecked: number
+  tolerance: number
+  discrepancies: BalanceDiscrepancy[]
+  corrections: BalanceCorrection[]
+  totals: {
+    mainWalletDelta: number
+    fundWalletDelta: number
+  }
+}
+
+export interface CorrectionResult {
+  userId: string
+  wallet: ReconciledWallet
+  delta: number
+  status: 'applied' | 'stale' | 'failed'
+  journalId?: string
+  error?: string
+}
+
+const PAGE_SIZE = 1000
+const DEFAULT_TOLERANCE = 0.00000001
+
+const round = (value: number) => Math.round(value * 1e8) / 1e8
+
+export class ReconciliationService {
+  private supabase = supabaseAdmin
+
+  /**
+   * Recompute every user's expected balances and report the discrepancies.
+   * Nothing is written; the returned corrections are a dry-run set.
+   */
+  async buildReport(options: { userIds?: string[]; tolerance?: number } = {}): Promise<ReconciliationReport> {
+    const tolerance = options.tolerance ?? DEFAULT_TOLERANCE
+
+    const [profiles, transactions, distributions, commissions] = await Promise.all([
+      this.fetchAll('profiles', 'id, full_name, main_wallet_balance, fund_wallet_balance', options.userIds, 'id'),
+      this.fetchAll('transactions', 'user_id, transaction_type, amount, net_amount, status', options.userIds),
+      this.fetchAll('profit_distributions', 'user_id, profit_amount, compounded', options.userIds),
+      this.fetchAll('referral_commissions', 'referrer_id, commission_amount', options.userIds, 'referrer_id')
+    ])
+
+    const expected = new Map<string, Record<ReconciledWallet, WalletBreakdown>>()
+    const profitTxTotals = new Map<string, number>()
+    const bonusTxTotals = new Map<string, number>()
+
+    const breakdownFor = (userId: string) => {
+      if (!expected.has(userId)) {
+        expected.set(userId, {
+          main_wallet: { fromTransactions: 0, fromProfitDistributions: 0, fromReferralCommissions: 0 },
+          fund_wallet: { fromTransactions: 0, fromProfitDistributions: 0, fromReferralCommissions: 0 }
+        })
+      }
+      return expected.get(userId)!
+    }
+
+    for (const tx of transactions) {
+      if (!tx.user_id) continue
+
+      if (tx.transaction_type === 'profit' && tx.status === 'completed') {
+        profitTxTotals.set(tx.user_id, (profitTxTotals.get(tx.user_id) || 0) + Number(tx.amount || 0))
+        continue
+      }
+
+      if (tx.transaction_type === 'referral_bonus' && tx.status === 'completed') {
+        bonusTxTotals.set(tx.user_id, (bonusTxTotals.get(tx.user_id) || 0) + Number(tx.amount || 0))
+        continue
+      }
+
+      for (const rule of TRANSACTION_RULES[tx.transaction_type] || []) {
+        if (!rule.statuses.includes(tx.status)) continue
+        breakdownFor(tx.user_id)[rule.wallet].fromTransactions += rule.sign * Number(tx[rule.field] || 0)
+      }
+    }
+
+    for (const distribution of distributions) {
+      // Compounded profit went into the plan principal, not the wallet
+      if (distribution.compounded) continue
+      breakdownFor(distribution.user_id).main_wallet.fromProfitDistributions += Number(distribution.profit_amount || 0)
+    }
+
+    for (const commission of commissions) {
+      breakdownFor(commission.referrer_id).main_wallet.fromReferralCommissions += Number(commission.commission_amount || 0)
+    }
+
+    const discrepancies: BalanceDiscrepancy[] = []
+
+    for (const profile of profiles) {
+      const breakdown = breakdownFor(profile.id)
+      const profitPaid = breakdown.main_wallet.fromProfitDistributions
+      const commissionsPaid = breakdown.main_wallet.fromReferralCommissions
+
+      for (const wallet of ['main_wallet', 'fund_wallet'] as ReconciledWallet[]) {
+        const parts = breakdown[wallet]
+        const expectedBalance = round(parts.fromTransactions + parts.fromProfitDistributions + parts.fromReferralCommissions)
+        const currentBalance = round(Number(profile[`${wallet}_balance`] || 0))
+        const delta = round(expectedBalance - currentBalance)
+
+        if (Math.abs(delta) <= tolerance) continue
+
+        discrepancies.push({
+          userId: profile.id,
+          fullName: profile.full_name ?? null,
+          wallet,
+          currentBalance,
+          expectedBalance,
+          delta,
+          breakdown: {
+            fromTransactions: round(parts.fromTransactions),
+            fromProfitDistributions: round(parts.fromProfitDistributions),
+            fromReferralCommissions: round(parts.fromReferralCommissions)
+          },
+          missingProfitTransactions: wallet === 'main_wallet' ? round(profitPaid - (profitTxTotals.get(profile.id) || 0)) : 0,
+          missingCommissionTransactions: wallet === 'main_wallet' ? round(commissionsPaid - (bonusTxTotals.get(profile.id) || 0)) : 0
+        })
+      }
+    }
+
+    discrepancies.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta))
+
+    return {
+      generatedAt: new Date().toISOString(),
+      usersChecked: profiles.length,
+      tolerance,
+      discrepancies,
+      corrections: discrepancies.map(d => ({ userId: d.userId, wallet: d.wallet, delta: d.delta })),
+      totals: {
+        mainWalletDelta: round(discrepancies.filter(d => d.wallet === 'main_wallet').reduce((sum, d) => sum + d.delta, 0)),
+        fundWalletDelta: round(discrepancies.filter(d => d.wallet === 'fund_wallet').reduce((sum, d) => sum + d.delta, 0))
+      }
+    }
+  }
+
+  /**
+   * Apply admin-approved corrections. Each one is re-checked against a fresh
+   * report and skipped as stale if the discrepancy changed since the dry run.
+   */
+  async applyCorrections(corrections: BalanceCorrection[], adminId: string): Promise<CorrectionResult[]> {
+    if (corrections.length === 0) {
+      return []
+    }
+
+    const userIds = Array.from(new Set(corrections.map(c => c.userId)))
+    const fresh = await this.buildReport({ userIds })
+    const results: CorrectionResult[] = []
+
+    for (const correction of corrections) {
+      const current = fresh.corrections.find(c => c.userId === correction.userId && c.wallet === correction.wallet)
+
+      if (!current || Math.abs(current.delta - correction.delta) > fresh.tolerance) {
+        results.push({ ...correction, status: 'stale' })
+        continue
+      }
+
+      try {
+        const result = await ledgerService.post({
+          journalType: 'reconciliation_adjustment',
+          description: `Balance reconciliation (${correction.wallet})`,
+          createdBy: adminId,
+          metadata: { approved_delta: correction.delta },
+          entries: [
+            { account: correction.wallet, userId: correction.userId, amount: current.delta },
+            { account: 'external', amount: -current.delta }
+          ],
+          transactions: [
+            {
+              userId: correction.userId,
+              transactionType: `${correction.wallet}_adjustment`,
+              amount: current.delta,
+              description: `Balance reconciliation adjustment approved by admin`
+            }
+          ]
+        })
+
+        results.push({ ...correction, status: 'applied', journalId: result.journalId })
+      } catch (error: any) {
+        console.error(`Error applying correction for user ${correction.userId}:`, error)
+        results.push({ ...correction, status: 'failed', error: error.message })
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * Page through a table (PostgREST caps each response). Pages are ordered by the
+   * primary key so rows are not skipped or repeated between them.
+   */
+  private async fetchAll(table: string, columns: string, userIds?: string[], userColumn: string = 'user_id'): Promise<any[]> {
+    const rows: any[] = []
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = this.supabase.from(table).select(columns).order('id').range(from, from + PAGE_SIZE - 1)
+      if (userIds && userIds.length > 0) {
+        query = query.in(userColumn, userIds)
+      }
+
+      const { data, error } = await query
+      if (error) {
+        throw new Error(`Failed to load ${table}: ${error.message}`)
+      }
+
+      rows.push(...(data || []))
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    return rows
+  }
+}
+
+// Export singleton instance
+export const reconciliationService = new ReconciliationService()
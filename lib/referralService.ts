@@ -1,235 +1,102 @@
-import { createSupabaseClient } from './supabase'
+import { supabaseAdmin } from './supabase-server'
+import { CommissionSourceType, loadScheduleInEffect } from './commission-schedules'
 
 export interface ReferralCommissionRates {
   level: number
   usdtRate: number // Percentage for USDT commission
+  jrcRate: number // Percentage of the source's JRC tokens
 }
 
 export interface ReferralTransaction {
   userId: string
+  sourceTransactionId: string // the transaction commissions are paid for, e.g. the deposit
   amount: number
-  transactionType: 'staking' | 'investment' | 'deposit'
+  transactionType: CommissionSourceType
   planType?: string
 }
 
+// Levels below the viewer that the referral tree can be browsed to
+export const REFERRAL_TREE_MAX_LEVELS = 20
+
+// Children loaded under each nested node; the client pages through the rest on expand
+export const REFERRAL_TREE_NESTED_LIMIT = 5
+
+// Most nodes returned by one tree request, so a deep request cannot fan out unbounded
+export const REFERRAL_TREE_MAX_NODES = 100
+
+export interface ReferralTreeNode {
+  id: string
+  username: string | null
+  fullName: string | null
+  referralCode: string | null
+  joinedAt: string
+  level: number // levels below the viewer
+  directReferrals: number
+  expandable: boolean // has direct referrals within REFERRAL_TREE_MAX_LEVELS
+  activeInvestment: number
+  teamVolume: number
+  usdtEarned: number // viewer's commissions from this member and their downline
+  jrcEarned: number
+  children?: ReferralTreePage
+}
+
+export interface ReferralTreePage {
+  nodes: ReferralTreeNode[]
+  total: number
+  page: number
+  limit: number
+  hasMore: boolean
+}
+
 export class ReferralService {
-  private supabase = createSupabaseClient()
-
-  // 6-level referral commission structure for USDT staking
-  private readonly commissionRates: ReferralCommissionRates[] = [
-    { level: 1, usdtRate: 10 },   // Level 1: 10% USDT
-    { level: 2, usdtRate: 5 },    // Level 2: 5% USDT
-    { level: 3, usdtRate: 3 },    // Level 3: 3% USDT
-    { level: 4, usdtRate: 2 },    // Level 4: 2% USDT
-    { level: 5, usdtRate: 1 },    // Level 5: 1% USDT
-    { level: 6, usdtRate: 0.5 }   // Level 6: 0.5% USDT
+  private supabase = supabaseAdmin
+
+  // Standard 6-level structure, used for stats when no commission schedule is in effect
+  private readonly fallbackCommissionRates: ReferralCommissionRates[] = [
+    { level: 1, usdtRate: 10, jrcRate: 0 },   // Level 1: 10% USDT
+    { level: 2, usdtRate: 5, jrcRate: 0 },    // Level 2: 5% USDT
+    { level: 3, usdtRate: 3, jrcRate: 0 },    // Level 3: 3% USDT
+    { level: 4, usdtRate: 2, jrcRate: 0 },    // Level 4: 2% USDT
+    { level: 5, usdtRate: 1, jrcRate: 0 },    // Level 5: 1% USDT
+    { level: 6, usdtRate: 0.5, jrcRate: 0 }   // Level 6: 0.5% USDT
   ]
 
   /**
-   * Process referral commissions for a transaction
+   * Rates of the staking schedule in effect, as paid by pay_referral_commissions()
    */
-  async processReferralCommissions(transaction: ReferralTransaction): Promise<void> {
+  private async getCommissionRates(): Promise<ReferralCommissionRates[]> {
     try {
-      // Get user's referral chain
-      const referralChain = await this.getReferralChain(transaction.userId)
-
-      if (referralChain.length === 0) {
-        return
-      }
-
-      // Process commissions for each level
-      for (let i = 0; i < referralChain.length && i < this.commissionRates.length; i++) {
-        const referrer = referralChain[i]
-        const rates = this.commissionRates[i]
-
-        await this.payCommission(
-          referrer.id,
-          transaction.userId,
-          transaction.amount,
-          rates,
-          transaction.transactionType,
-          transaction.planType
-        )
+      const schedule = await loadScheduleInEffect(this.supabase, 'staking')
+      if (schedule) {
+        return schedule.levels.map(level => ({ level: level.level, usdtRate: level.usdt_rate, jrcRate: level.jrc_rate }))
       }
     } catch (error) {
-      console.error('Error processing referral commissions:', error)
-      throw error
-    }
-  }
-
-  /**
-   * Get the referral chain for a user (up to 4 levels)
-   */
-  private async getReferralChain(userId: string): Promise<any[]> {
-    const chain: any[] = []
-    let currentUserId = userId
-
-    for (let level = 1; level <= 6; level++) {
-      // Find who referred this user (using sponsor_id which contains the referrer's referral_code)
-      const { data: referralData, error } = await this.supabase
-        .from('profiles')
-        .select('sponsor_id')
-        .eq('id', currentUserId)
-        .single()
-
-      if (error || !referralData?.sponsor_id) {
-        break
-      }
-
-      // Get referrer details by matching referral_code with sponsor_id
-      const { data: referrer, error: referrerError } = await this.supabase
-        .from('profiles')
-        .select('id, full_name, referral_code, main_wallet_balance')
-        .eq('referral_code', referralData.sponsor_id)
-        .single()
-
-      if (referrerError || !referrer) {
-        break
-      }
-
-      chain.push({
-        ...referrer,
-        level
-      })
-
-      currentUserId = referrer.id
+      console.warn('Commission schedule not available, using standard rates:', error)
     }
 
-    return chain
+    return this.fallbackCommissionRates
   }
 
   /**
-   * Pay commission (USDT) to a referrer
+   * Pay the upline commissions for a source transaction. All levels are paid in one
+   * database transaction by pay_referral_commissions(), and a level already paid for
+   * sourceTransactionId is skipped, so retrying is safe. Returns the number of levels paid.
    */
-  private async payCommission(
-    referrerId: string,
-    referredUserId: string,
-    transactionAmount: number,
-    rates: ReferralCommissionRates,
-    transactionType: string,
-    planType?: string
-  ): Promise<void> {
-    try {
-      // Calculate commission
-      const usdtCommission = (transactionAmount * rates.usdtRate) / 100
-
-      // Get current referrer balance
-      const { data: referrer, error: referrerError } = await this.supabase
-        .from('profiles')
-        .select('main_wallet_balance')
-        .eq('id', referrerId)
-        .single()
-
-      if (referrerError || !referrer) {
-        throw new Error(`Failed to get referrer data: ${referrerError?.message}`)
-      }
-
-      // Update referrer balance
-      const newUsdtBalance = referrer.main_wallet_balance + usdtCommission
-
-      const { error: updateError } = await this.supabase
-        .from('profiles')
-        .update({
-          main_wallet_balance: newUsdtBalance
-        })
-        .eq('id', referrerId)
-
-      if (updateError) {
-        throw new Error(`Failed to update referrer balance: ${updateError.message}`)
-      }
-
-      // Create USDT commission transaction
-      await this.createCommissionTransaction(
-        referrerId,
-        referredUserId,
-        usdtCommission,
-        'USDT',
-        rates.level,
-        transactionType,
-        planType
-      )
-
-      // Create referral commission record
-      await this.createReferralCommissionRecord(
-        referrerId,
-        referredUserId,
-        usdtCommission,
-        rates.level,
-        transactionType,
-        planType,
-        null // transaction_id - we'll handle this in the function
-      )
-
-    } catch (error) {
-      console.error(`Error paying commission to ${referrerId}:`, error)
-      throw error
-    }
-  }
-
-  /**
-   * Create a commission transaction record
-   */
-  private async createCommissionTransaction(
-    referrerId: string,
-    referredUserId: string,
-    amount: number,
-    currency: 'USDT',
-    level: number,
-    transactionType: string,
-    planType?: string
-  ): Promise<void> {
-    const description = `Level ${level} ${currency} referral commission from ${transactionType}${planType ? ` (${planType})` : ''}`
-
-    const { error } = await this.supabase
-      .from('transactions')
-      .insert({
-        user_id: referrerId,
-        transaction_type: 'referral_bonus',
-        amount: amount,
-        net_amount: amount,
-        status: 'completed',
-        description: description,
-        created_at: new Date().toISOString()
-      })
+  async processReferralCommissions(transaction: ReferralTransaction): Promise<number> {
+    const { data: paid, error } = await this.supabase.rpc('pay_referral_commissions', {
+      p_user_id: transaction.userId,
+      p_amount: transaction.amount,
+      p_source_transaction_id: transaction.sourceTransactionId,
+      p_transaction_type: transaction.transactionType,
+      p_plan_type: transaction.planType || null
+    })
 
     if (error) {
-      throw new Error(`Failed to create ${currency} commission transaction: ${error.message}`)
+      console.error('Error processing referral commissions:', error)
+      throw new Error(`Failed to pay referral commissions: ${error.message}`)
     }
-  }
 
-  /**
-   * Create a referral commission record for tracking
-   */
-  private async createReferralCommissionRecord(
-    referrerId: string,
-    referredUserId: string,
-    usdtAmount: number,
-    level: number,
-    transactionType: string,
-    planType?: string,
-    transactionId?: string | null
-  ): Promise<void> {
-    try {
-      // Insert commission record
-      const { error: insertError } = await this.supabase
-        .from('referral_commissions')
-        .insert({
-          referrer_id: referrerId,
-          referred_id: referredUserId,
-          commission_amount: usdtAmount,
-          commission_percentage: this.commissionRates[level - 1]?.usdtRate || 0,
-          level: level,
-          created_at: new Date().toISOString()
-        })
-
-      if (insertError) {
-        console.error('Failed to create referral commission record:', insertError)
-        throw insertError
-      }
-    } catch (error) {
-      console.error('Error in createReferralCommissionRecord:', error)
-      throw error
-    }
+    return paid || 0
   }
 
   /**
@@ -311,17 +178,125 @@ export class ReferralService {
     return count
   }
 
+  /**
+   * Page of rootId's direct referrals for viewerId's referral tree, with `depth` levels of
+   * children (the first REFERRAL_TREE_NESTED_LIMIT each, up to REFERRAL_TREE_MAX_NODES
+   * nodes in all). rootId must be the viewer or in their downline.
+   */
+  async getReferralTree(
+    viewerId: string,
+    rootId: string,
+    depth: number,
+    page: number,
+    limit: number
+  ): Promise<ReferralTreePage & { rootLevel: number }> {
+    const rootLevel = await this.getDownlineLevel(viewerId, rootId)
+    const budget = { remaining: REFERRAL_TREE_MAX_NODES }
+    const tree = await this.getTreeChildren(viewerId, rootId, rootLevel + 1, depth, page, limit, budget)
+
+    return { ...tree, rootLevel }
+  }
+
+  /**
+   * Levels memberId is below viewerId, found by walking memberId's upline
+   */
+  private async getDownlineLevel(viewerId: string, memberId: string): Promise<number> {
+    if (memberId === viewerId) {
+      return 0
+    }
+
+    const { data: chain, error } = await this.supabase.rpc('get_referral_chain_recursive', {
+      start_user_id: memberId,
+      max_levels: REFERRAL_TREE_MAX_LEVELS
+    })
+
+    if (error) {
+      throw new Error(`Failed to load referral chain: ${error.message}`)
+    }
+
+    const viewer = (chain || []).find((upline: any) => upline.id === viewerId)
+    if (!viewer) {
+      throw new Error('Member is not in your referral tree')
+    }
+
+    return Number(viewer.level)
+  }
+
+  private async getTreeChildren(
+    viewerId: string,
+    parentId: string,
+    level: number,
+    depth: number,
+    page: number,
+    limit: number,
+    budget: { remaining: number }
+  ): Promise<ReferralTreePage> {
+    const { data, error } = await this.supabase.rpc('get_referral_tree_children', {
+      p_viewer_id: viewerId,
+      p_parent_id: parentId,
+      p_limit: limit,
+      p_offset: (page - 1) * limit
+    })
+
+    if (error) {
+      throw new Error(`Failed to load referral tree: ${error.message}`)
+    }
+
+    const rows: any[] = data || []
+    const total = rows.length > 0 ? Number(rows[0].total_count) : 0
+    budget.remaining -= rows.length
+
+    // One child page at a time, so a request never has more than one RPC in flight and
+    // stops loading children once the node budget is spent
+    const nodes: ReferralTreeNode[] = []
+    for (const row of rows) {
+      const node: ReferralTreeNode = {
+        id: row.id,
+        username: row.username,
+        fullName: row.full_name,
+        referralCode: row.referral_code,
+        joinedAt: row.joined_at,
+        level,
+        directReferrals: Number(row.direct_referrals),
+        expandable: Number(row.direct_referrals) > 0 && level < REFERRAL_TREE_MAX_LEVELS,
+        activeInvestment: Number(row.active_investment),
+        teamVolume: Number(row.team_volume),
+        usdtEarned: Number(row.usdt_earned),
+        jrcEarned: Number(row.jrc_earned)
+      }
+
+      // Without children the client loads them when the node is expanded
+      if (depth > 1 && node.expandable && budget.remaining > 0) {
+        const nestedLimit = Math.min(REFERRAL_TREE_NESTED_LIMIT, budget.remaining)
+        node.children = await this.getTreeChildren(viewerId, node.id, level + 1, depth - 1, 1, nestedLimit, budget)
+      }
+
+      nodes.push(node)
+    }
+
+    return {
+      nodes,
+      total,
+      page,
+      limit,
+      hasMore: (page - 1) * limit + rows.length < total
+    }
+  }
+
   /**
    * Get referral statistics for a user
    */
   async getReferralStats(userId: string): Promise<{
     totalUsdtEarned: number
+    totalJrcEarned: number
     totalReferrals: number
     levelStats: Array<{
       level: number
       count: number
       usdtEarned: number
       usdtRate: number
+      jrcEarned: number
+      jrcRate: number
     }>
   }> {
     try {
@@ -340,12 +315,15 @@ export class ReferralService {
         return sum + (c.commission_amount || 0)
       }, 0) || 0
 
+      // Calculate total JRC earned
+      const totalJrcEarned = commissions?.reduce((sum, c) => sum + Number(c.jrc_commission || 0), 0) || 0
+
       // Get actual referral counts by level
-      const referralChain = await this.getReferralChain(userId)
       const directReferrals = await this.getDirectReferrals(userId)
 
       // Calculate level statistics with actual referral counts
-      const levelStats = await Promise.all(this.commissionRates.map(async (rate) => {
+      const commissionRates = await this.getCommissionRates()
+      const levelStats = await Promise.all(commissionRates.map(async (rate) => {
         const levelCommissions = commissions?.filter(c => c.level === rate.level) || []
 
         // Count actual referrals at this level
@@ -361,7 +339,9 @@ export class ReferralService {
           level: rate.level,
           count: referralCount,
           usdtEarned: levelCommissions.reduce((sum, c) => sum + (c.commission_amount || 0), 0),
-          usdtRate: rate.usdtRate
+          usdtRate: rate.usdtRate,
+          jrcEarned: levelCommissions.reduce((sum, c) => sum + Number(c.jrc_commission || 0), 0),
+          jrcRate: rate.jrcRate
         }
       }))
 
@@ -370,6 +350,7 @@ export class ReferralService {
 
       return {
         totalUsdtEarned,
+        totalJrcEarned,
         totalReferrals: uniqueReferredUsers.size,
         levelStats
       }
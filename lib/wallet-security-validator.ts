@@ -88,7 +88,7 @@ export class WalletSecurityValidator {
   /**
    * Validates a wallet address format and security
    */
-  private validateAddress(address: string, name: string): ValidationResult {
+  validateAddress(address: string, name: string): ValidationResult {
     const result: ValidationResult = {
       isValid: false,
       errors: [],
@@ -0,0 +1,323 @@
+import crypto from 'crypto'
+import Web3 from 'web3'
+import { supabaseAdmin } from './supabase-server'
+import { WalletSecurityValidator } from './wallet-security-validator'
+import { WithdrawalViolation } from './withdrawal-policy'
+import EmailService from './email-service'
+
+export interface WithdrawalAddress {
+  id: string
+  label: string
+  address: string
+  confirmed_at: string | null
+  available_at: string | null
+  created_at: string
+}
+
+export interface WhitelistSettings {
+  whitelistOnly: boolean
+  // Set while a switch-off is pending; whitelist-only stays enforced until then
+  disableAt: string | null
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+// How long a confirmed address waits before first use (clamped to the 24-48h window)
+export const ADDRESS_LOCK_HOURS = Math.min(Math.max(parseFloat(process.env.WITHDRAWAL_ADDRESS_LOCK_HOURS || '') || 24, 24), 48)
+
+// How long the emailed confirmation link stays valid
+const CONFIRMATION_TTL_HOURS = 24
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex')
+
+export class WithdrawalAddressService {
+  private supabase = supabaseAdmin
+  private validator = new WalletSecurityValidator()
+
+  /**
+   * Normalise an address with the same checks used for the platform wallets.
+   * Throws with the validator's message when the address is unusable.
+   */
+  normalizeAddress(address: string): string {
+    const validation = this.validator.validateAddress(address, 'Withdrawal address')
+
+    if (!validation.isValid) {
+      throw new Error(validation.errors[0] || 'Invalid withdrawal address')
+    }
+
+    return Web3.utils.toChecksumAddress(address.trim())
+  }
+
+  async list(userId: string): Promise<WithdrawalAddress[]> {
+    const { data, error } = await this.supabase
+      .from('withdrawal_addresses')
+      .select('id, label, address, confirmed_at, available_at, created_at')
+      .eq('user_id', userId)
+      .is('removed_at', null)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to load withdrawal addresses: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  async getSettings(userId: string): Promise<WhitelistSettings> {
+    // Stored outside profiles so users cannot switch the mode off through their profile row
+    const { data: settings, error } = await this.supabase
+      .from('withdrawal_whitelist_settings')
+      .select('whitelist_only, disable_at')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load whitelist setting: ${error.message}`)
+    }
+
+    if (!settings) {
+      return { whitelistOnly: false, disableAt: null }
+    }
+
+    // A pending switch-off takes effect once its time has passed
+    if (settings.whitelist_only && settings.disable_at &&
+        new Date(settings.disable_at).getTime() <= Date.now()) {
+      await this.saveSettings(userId, { whitelistOnly: false, disableAt: null })
+
+      return { whitelistOnly: false, disableAt: null }
+    }
+
+    return {
+      whitelistOnly: !!settings.whitelist_only,
+      disableAt: settings.whitelist_only ? settings.disable_at : null
+    }
+  }
+
+  /**
+   * Save an address and email the user a confirmation link.
+   * The address stays unusable until confirmed and the lock period has passed.
+   */
+  async add(userId: string, label: string, address: string): Promise<WithdrawalAddress> {
+    const trimmedLabel = (label || '').trim()
+    if (!trimmedLabel || trimmedLabel.length > 50) {
+      throw new Error('Label must be between 1 and 50 characters')
+    }
+
+    const checksumAddress = this.normalizeAddress(address)
+
+    const token = crypto.randomBytes(32).toString('hex')
+
+    const { data, error } = await this.supabase
+      .from('withdrawal_addresses')
+      .insert({
+        user_id: userId,
+        label: trimmedLabel,
+        address: checksumAddress,
+        confirmation_token_hash: hashToken(token),
+        confirmation_expires_at: new Date(Date.now() + CONFIRMATION_TTL_HOURS * HOUR_MS).toISOString()
+      })
+      .select('id, label, address, confirmed_at, available_at, created_at')
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('This address is already in your address book')
+      }
+      throw new Error(`Failed to save withdrawal address: ${error.message}`)
+    }
+
+    await this.sendConfirmationEmail(userId, trimmedLabel, checksumAddress, token)
+
+    return data
+  }
+
+  /**
+   * Confirm an address from its emailed token and start the lock period
+   */
+  async confirm(token: string): Promise<WithdrawalAddress> {
+    const now = new Date()
+
+    const { data, error } = await this.supabase
+      .from('withdrawal_addresses')
+      .update({
+        confirmed_at: now.toISOString(),
+        available_at: new Date(now.getTime() + ADDRESS_LOCK_HOURS * HOUR_MS).toISOString(),
+        confirmation_token_hash: null,
+        confirmation_expires_at: null
+      })
+      .eq('confirmation_token_hash', hashToken(token))
+      .is('confirmed_at', null)
+      .is('removed_at', null)
+      .gt('confirmation_expires_at', now.toISOString())
+      .select('id, label, address, confirmed_at, available_at, created_at')
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to confirm withdrawal address: ${error.message}`)
+    }
+
+    if (!data) {
+      throw new Error('Confirmation link is invalid or has expired')
+    }
+
+    return data
+  }
+
+  async remove(userId: string, addressId: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from('withdrawal_addresses')
+      .update({ removed_at: new Date().toISOString(), confirmation_token_hash: null })
+      .eq('id', addressId)
+      .eq('user_id', userId)
+      .is('removed_at', null)
+      .select('id')
+
+    if (error) {
+      throw new Error(`Failed to remove withdrawal address: ${error.message}`)
+    }
+
+    if (!data || data.length === 0) {
+      throw new Error('Withdrawal address not found')
+    }
+  }
+
+  /**
+   * Turning whitelist-only on is immediate; turning it off is scheduled for
+   * after the lock period and the user is emailed either way.
+   */
+  async setWhitelistOnly(userId: string, enabled: boolean): Promise<WhitelistSettings> {
+    const current = await this.getSettings(userId)
+
+    let settings: WhitelistSettings
+    let notice: string
+
+    if (enabled) {
+      settings = { whitelistOnly: true, disableAt: null }
+      notice = 'Whitelist-only withdrawals are now on. Withdrawals can only be sent to confirmed addresses in your address book.'
+    } else {
+      if (!current.whitelistOnly) return current
+      if (current.disableAt) return current
+
+      settings = {
+        whitelistOnly: true,
+        disableAt: new Date(Date.now() + ADDRESS_LOCK_HOURS * HOUR_MS).toISOString()
+      }
+      notice = `Whitelist-only withdrawals will be turned off on ${new Date(settings.disableAt!).toUTCString()}. Until then, withdrawals can only be sent to confirmed addresses in your address book.`
+    }
+
+    await this.saveSettings(userId, settings)
+    await this.sendWhitelistNotice(userId, notice)
+
+    return settings
+  }
+
+  /**
+   * Check a withdrawal destination. Saved addresses that are unconfirmed or still
+   * locked are always refused; with whitelist-only on, the address must be saved.
+   */
+  async checkWithdrawalAddress(userId: string, address: string): Promise<WithdrawalViolation | null> {
+    let checksumAddress: string
+    try {
+      checksumAddress = this.normalizeAddress(address)
+    } catch (error: any) {
+      return { code: 'INVALID_ADDRESS', message: error.message }
+    }
+
+    const [settings, addresses] = await Promise.all([
+      this.getSettings(userId),
+      this.list(userId)
+    ])
+
+    const saved = addresses.find(a => a.address.toLowerCase() === checksumAddress.toLowerCase())
+
+    if (!saved) {
+      if (settings.whitelistOnly) {
+        return {
+          code: 'ADDRESS_NOT_WHITELISTED',
+          message: 'Whitelist-only withdrawals are on. Choose a confirmed address from your address book.'
+        }
+      }
+      return null
+    }
+
+    if (!saved.confirmed_at || !saved.available_at) {
+      return {
+        code: 'ADDRESS_LOCKED',
+        message: `"${saved.label}" has not been confirmed yet. Use the link in the confirmation email.`
+      }
+    }
+
+    if (new Date(saved.available_at).getTime() > Date.now()) {
+      return {
+        code: 'ADDRESS_LOCKED',
+        message: `"${saved.label}" is locked for security until ${saved.available_at}.`,
+        limit: ADDRESS_LOCK_HOURS,
+        availableAt: saved.available_at
+      }
+    }
+
+    return null
+  }
+
+  private async getRecipient(userId: string): Promise<{ email: string; name: string } | null> {
+    const [{ data: profile }, { data: authUser }] = await Promise.all([
+      this.supabase.from('profiles').select('full_name').eq('id', userId).single(),
+      (this.supabase.auth as any).admin.getUserById(userId)
+    ])
+
+    if (!authUser?.user?.email) return null
+
+    return { email: authUser.user.email, name: profile?.full_name || 'User' }
+  }
+
+  private async sendConfirmationEmail(userId: string, label: string, address: string, token: string) {
+    try {
+      const recipient = await this.getRecipient(userId)
+      if (!recipient) return
+
+      const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://stablewealth.dev'
+      const confirmUrl = `${baseUrl}/api/withdrawal-addresses/confirm?token=${token}`
+
+      const emailService = new EmailService()
+      await emailService.sendWithdrawalAddressConfirmation(
+        recipient.email,
+        recipient.name,
+        label,
+        address,
+        confirmUrl,
+        ADDRESS_LOCK_HOURS
+      )
+    } catch (emailError) {
+      console.error('Failed to send withdrawal address confirmation email:', emailError)
+    }
+  }
+
+  private async saveSettings(userId: string, settings: WhitelistSettings) {
+    const { error } = await this.supabase
+      .from('withdrawal_whitelist_settings')
+      .upsert({
+        user_id: userId,
+        whitelist_only: settings.whitelistOnly,
+        disable_at: settings.disableAt,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id' })
+
+    if (error) {
+      throw new Error(`Failed to update whitelist setting: ${error.message}`)
+    }
+  }
+
+  private async sendWhitelistNotice(userId: string, message: string) {
+    try {
+      const recipient = await this.getRecipient(userId)
+      if (!recipient) return
+
+      const emailService = new EmailService()
+      await emailService.sendWithdrawalWhitelistNotice(recipient.email, recipient.name, message)
+    } catch (emailError) {
+      console.error('Failed to send whitelist notice email:', emailError)
+    }
+  }
+}
+
+export const withdrawalAddressService = new WithdrawalAddressService()
@@ -0,0 +1,682 @@
+import { supabaseAdmin } from './supabase-server'
+import BSCService, { BatchPayoutResult } from './bsc-service'
+import EmailService from './email-service'
+
+export type PayoutStatus = 'queued' | 'broadcast' | 'confirmed' | 'failed'
+
+export interface WithdrawalPayout {
+  id: string
+  withdrawal_request_id: string
+  user_id: string
+  to_address: string
+  amount: number
+  status: PayoutStatus
+  batch_id: string | null
+  from_address: string | null
+  nonce: number | null
+  tx_hash: string | null
+  raw_transaction: string | null
+  block_number: number | null
+  confirmations: number
+  attempts: number
+  last_error: string | null
+  broadcast_at: string | null
+  confirmed_at: string | null
+  failed_at: string | null
+  created_at: string
+}
+
+export type PayoutBatchStatus = 'queued' | 'broadcast' | 'settled' | 'failed'
+
+export interface WithdrawalPayoutBatch {
+  id: string
+  status: PayoutBatchStatus
+  item_count: number
+  sent_count: number
+  failed_count: number
+  total_amount: number
+  from_address: string | null
+  nonce: number | null
+  approve_nonce: number | null
+  tx_hash: string | null
+  raw_transaction: string | null
+  block_number: number | null
+  last_error: string | null
+  broadcast_at: string | null
+  settled_at: string | null
+  created_at: string
+}
+
+export interface BatchItemOutcome {
+  payoutId: string
+  withdrawalRequestId: string
+  status: PayoutStatus
+  reason?: string
+}
+
+export interface PayoutRunResult {
+  broadcast: number
+  confirmed: number
+  failed: number
+  pending: number
+  errors: string[]
+}
+
+// 'onchain' makes approval queue an automatic payout; 'manual' keeps the paste-a-hash flow
+export const WITHDRAWAL_PAYOUT_MODE: 'manual' | 'onchain' =
+  process.env.WITHDRAWAL_PAYOUT_MODE === 'onchain' ? 'onchain' : 'manual'
+
+// Blocks on top of the payout block before the withdrawal counts as completed
+export const PAYOUT_CONFIRMATIONS = parseInt(process.env.WITHDRAWAL_PAYOUT_CONFIRMATIONS || '12', 10) || 12
+
+// A broadcast transaction missing from the chain for this long is re-sent
+const RESEND_AFTER_MS = 2 * 60 * 1000
+
+// How long "pay selected" waits for the batch to be mined before leaving it to the cron
+const BATCH_WAIT_MS = 45 * 1000
+const BATCH_POLL_MS = 3000
+
+export const MAX_BATCH_SIZE = 100
+
+// Errors from eth_sendRawTransaction meaning this exact transaction is already known to the node
+const ALREADY_SENT_ERRORS = [/already known/i, /known transaction/i, /already imported/i]
+
+// Rejections after which the signed transaction can never be mined. Any other send error
+// (timeouts, RPC outages) leaves the payout broadcast, since it may still reach the chain.
+const FATAL_BROADCAST_ERRORS = [/insufficient funds/i, /intrinsic gas too low/i, /invalid sender/i, /exceeds block gas limit/i]
+
+const BSC_CONFIG = {
+  rpcUrl: process.env.BSC_RPC_URL || "https://bsc-dataseed1.binance.org/",
+  contractAddress: process.env.PAYMENT_CONTRACT_ADDRESS || "",
+  usdtContractAddress: process.env.USDT_CONTRACT_ADDRESS || "0x55d398326f99059fF775485246999027B3197955",
+  adminFeeWallet: process.env.ADMIN_FEE_WALLET || "",
+  globalAdminWallet: process.env.GLOBAL_ADMIN_WALLET || "",
+  privateKey: process.env.BSC_PRIVATE_KEY || "",
+  multiSendContractAddress: process.env.MULTISEND_CONTRACT_ADDRESS || ""
+}
+
+export class WithdrawalPayoutService {
+  private supabase = supabaseAdmin
+  private bsc: BSCService | null = null
+
+  private getBSC(): BSCService {
+    if (!this.bsc) {
+      this.bsc = new BSCService(BSC_CONFIG)
+    }
+    return this.bsc
+  }
+
+  /**
+   * Approve a pending withdrawal request into the payout queue
+   */
+  async queue(withdrawalRequestId: string, adminId: string): Promise<string> {
+    const { data: payoutId, error } = await this.supabase.rpc('queue_withdrawal_payout', {
+      p_request_id: withdrawalRequestId,
+      p_admin_id: adminId
+    })
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return payoutId
+  }
+
+  async list(statuses?: PayoutStatus[]): Promise<WithdrawalPayout[]> {
+    let query = this.supabase
+      .from('withdrawal_payouts')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(200)
+
+    if (statuses && statuses.length > 0) {
+      query = query.in('status', statuses)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to load withdrawal payouts: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  /**
+   * One pass over the queue: track broadcast payouts first (so their nonces are
+   * settled), then broadcast queued ones oldest first. Safe to run repeatedly.
+   */
+  async processQueue(): Promise<PayoutRunResult> {
+    const result: PayoutRunResult = { broadcast: 0, confirmed: 0, failed: 0, pending: 0, errors: [] }
+
+    // Batches first: settling one moves its items to 'broadcast' for tracking below
+    const { data: batches, error: batchError } = await this.supabase
+      .from('withdrawal_payout_batches')
+      .select('*')
+      .in('status', ['queued', 'broadcast'])
+      .order('created_at', { ascending: true })
+
+    if (batchError) {
+      throw new Error(`Failed to load payout batches: ${batchError.message}`)
+    }
+
+    for (const batch of batches || []) {
+      try {
+        if (batch.status === 'queued') {
+          await this.broadcastBatch(batch)
+        } else {
+          await this.settleBatch(batch)
+        }
+      } catch (error: any) {
+        console.error(`Error processing payout batch ${batch.id}:`, error)
+        result.errors.push(`batch ${batch.id}: ${error.message}`)
+      }
+    }
+
+    const inFlight = await this.list(['broadcast'])
+    for (const payout of inFlight) {
+      try {
+        const outcome = await this.trackPayout(payout)
+        result[outcome]++
+      } catch (error: any) {
+        console.error(`Error tracking payout ${payout.id}:`, error)
+        result.errors.push(`${payout.id}: ${error.message}`)
+      }
+    }
+
+    // Batch items are sent by their batch, never one by one
+    const queued = (await this.list(['queued'])).filter(payout => !payout.batch_id).reverse()
+    for (const payout of queued) {
+      try {
+        const outcome = await this.broadcastPayout(payout)
+        result[outcome]++
+      } catch (error: any) {
+        console.error(`Error broadcasting payout ${payout.id}:`, error)
+        result.errors.push(`${payout.id}: ${error.message}`)
+      }
+    }
+
+    return result
+  }
+
+  private async broadcastPayout(payout: WithdrawalPayout): Promise<'broadcast' | 'failed'> {
+    const bsc = this.getBSC()
+    const fromAddress = bsc.getPayoutAddress()
+    const chainNonce = await bsc.getTransactionCount(fromAddress, 'pending')
+
+    const { data: nonce, error: nonceError } = await this.supabase.rpc('claim_payout_nonce', {
+      p_payout_id: payout.id,
+      p_from_address: fromAddress,
+      p_chain_nonce: chainNonce
+    })
+
+    if (nonceError) {
+      throw new Error(nonceError.message)
+    }
+
+    let signed: { txHash: string, rawTransaction: string }
+    try {
+      signed = await bsc.signUSDTPayout(payout.to_address, Number(payout.amount).toString(), Number(nonce))
+    } catch (error: any) {
+      // Nothing was sent, so the nonce is free again once the payout leaves 'queued'
+      await this.fail(payout, `Could not sign payout: ${error.message}`)
+      return 'failed'
+    }
+
+    // Persist the hash before sending so a crash after broadcast is picked up by trackPayout()
+    const { data: updated, error: updateError } = await this.supabase
+      .from('withdrawal_payouts')
+      .update({
+        status: 'broadcast',
+        tx_hash: signed.txHash,
+        raw_transaction: signed.rawTransaction,
+        broadcast_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', payout.id)
+      .eq('status', 'queued')
+      .select('id')
+
+    if (updateError || !updated || updated.length === 0) {
+      throw new Error(updateError?.message || 'Payout was changed by another worker')
+    }
+
+    const sendError = await this.send(signed.rawTransaction)
+    if (sendError) {
+      if (FATAL_BROADCAST_ERRORS.some(pattern => pattern.test(sendError))) {
+        await this.fail(payout, `Broadcast rejected: ${sendError}`)
+        return 'failed'
+      }
+      await this.recordError(payout, `Broadcast error, will re-send: ${sendError}`)
+    }
+
+    console.log(`Withdrawal payout ${payout.id} broadcast: ${signed.txHash} (nonce ${nonce})`)
+    return 'broadcast'
+  }
+
+  private async trackPayout(payout: WithdrawalPayout): Promise<'confirmed' | 'failed' | 'pending'> {
+    const bsc = this.getBSC()
+    const state = await bsc.getTransactionConfirmations(payout.tx_hash!)
+
+    if (state.status === 'reverted') {
+      await this.fail(payout, `Payout transaction ${payout.tx_hash} reverted`)
+      return 'failed'
+    }
+
+    if (state.status === 'not_found') {
+      // Batch items were seen mined when the batch settled; only a reorg gets here
+      if (payout.batch_id) {
+        await this.recordError(payout, `Batch transaction ${payout.tx_hash} is no longer on chain`)
+        return 'pending'
+      }
+
+      // Replaced: the nonce was used by another transaction, so this one can never be mined
+      const minedNonce = await bsc.getTransactionCount(payout.from_address!, 'latest')
+      if (payout.nonce !== null && minedNonce > payout.nonce) {
+        // Look again in case it was mined between the two calls
+        const recheck = await bsc.getTransactionConfirmations(payout.tx_hash!)
+        if (recheck.status === 'not_found') {
+          await this.fail(payout, `Nonce ${payout.nonce} was used by another transaction`)
+          return 'failed'
+        }
+        return 'pending'
+      }
+
+      // Dropped from the mempool: re-send the same signed transaction (same hash, no double pay)
+      if (payout.raw_transaction && payout.broadcast_at &&
+          Date.now() - new Date(payout.broadcast_at).getTime() > RESEND_AFTER_MS) {
+        const sendError = await this.send(payout.raw_transaction)
+        if (sendError) {
+          if (FATAL_BROADCAST_ERRORS.some(pattern => pattern.test(sendError))) {
+            await this.fail(payout, `Broadcast rejected: ${sendError}`)
+            return 'failed'
+          }
+          await this.recordError(payout, `Re-broadcast failed: ${sendError}`)
+        }
+      }
+      return 'pending'
+    }
+
+    if (state.confirmations < PAYOUT_CONFIRMATIONS) {
+      await this.supabase
+        .from('withdrawal_payouts')
+        .update({
+          block_number: state.blockNumber,
+          confirmations: state.confirmations,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', payout.id)
+        .eq('status', 'broadcast')
+      return 'pending'
+    }
+
+    const { data: completed, error } = await this.supabase.rpc('complete_withdrawal_payout', {
+      p_payout_id: payout.id,
+      p_block_number: state.blockNumber,
+      p_confirmations: state.confirmations
+    })
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    if (completed) {
+      console.log(`Withdrawal payout ${payout.id} confirmed after ${state.confirmations} blocks`)
+      await this.sendSuccessEmail(payout)
+    }
+
+    return 'confirmed'
+  }
+
+  /**
+   * Approve several pending requests and pay them in one MultiSend transaction.
+   * Waits briefly for the batch to be mined; if it is not (or the node errors), the cron
+   * sends or settles it later.
+   */
+  async payBatch(withdrawalRequestIds: string[], adminId: string): Promise<{
+    batchId: string
+    status: PayoutBatchStatus
+    txHash: string | null
+    items: BatchItemOutcome[]
+  }> {
+    if (withdrawalRequestIds.length === 0) {
+      throw new Error('No withdrawal requests selected')
+    }
+    if (withdrawalRequestIds.length > MAX_BATCH_SIZE) {
+      throw new Error(`At most ${MAX_BATCH_SIZE} withdrawals can be paid in one batch`)
+    }
+
+    const { data: batchId, error } = await this.supabase.rpc('queue_withdrawal_payout_batch', {
+      p_request_ids: withdrawalRequestIds,
+      p_admin_id: adminId
+    })
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    let batch = await this.getBatch(batchId)
+    try {
+      await this.broadcastBatch(batch)
+
+      const deadline = Date.now() + BATCH_WAIT_MS
+      batch = await this.getBatch(batchId)
+      while (batch.status === 'broadcast' && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, BATCH_POLL_MS))
+        await this.settleBatch(batch)
+        batch = await this.getBatch(batchId)
+      }
+    } catch (error: any) {
+      console.error(`Error paying withdrawal batch ${batchId}:`, error)
+      await this.recordBatchError(batchId, error.message)
+      batch = await this.getBatch(batchId)
+    }
+
+    const { data: items } = await this.supabase
+      .from('withdrawal_payouts')
+      .select('id, withdrawal_request_id, status, last_error')
+      .eq('batch_id', batchId)
+
+    return {
+      batchId,
+      status: batch.status,
+      txHash: batch.tx_hash,
+      items: (items || []).map(item => ({
+        payoutId: item.id,
+        withdrawalRequestId: item.withdrawal_request_id,
+        status: item.status,
+        reason: item.last_error || undefined
+      }))
+    }
+  }
+
+  private async getBatch(batchId: string): Promise<WithdrawalPayoutBatch> {
+    const { data, error } = await this.supabase
+      .from('withdrawal_payout_batches')
+      .select('*')
+      .eq('id', batchId)
+      .single()
+
+    if (error || !data) {
+      throw new Error('Payout batch not found')
+    }
+
+    return data
+  }
+
+  private async getBatchItems(batchId: string): Promise<WithdrawalPayout[]> {
+    const { data, error } = await this.supabase
+      .from('withdrawal_payouts')
+      .select('*')
+      .eq('batch_id', batchId)
+
+    if (error) {
+      throw new Error(`Failed to load batch items: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  private async broadcastBatch(batch: WithdrawalPayoutBatch) {
+    const bsc = this.getBSC()
+    const items = (await this.getBatchItems(batch.id)).filter(item => item.status === 'queued')
+
+    if (items.length === 0) {
+      await this.finishBatch(batch.id, 'No queued items left in the batch', 0)
+      return
+    }
+
+    const bscItems = items.map(item => ({
+      id: item.id,
+      toAddress: item.to_address,
+      amount: Number(item.amount).toString()
+    }))
+
+    // The approval is its own transaction, so it must be mined before the batch nonce is read.
+    // Its nonce is leased like any other payout nonce; throws when another worker holds the batch.
+    const fromAddress = bsc.getPayoutAddress()
+    const total = bscItems.reduce((sum, item) => sum + parseFloat(item.amount), 0)
+    await bsc.ensureMultiSendAllowance(total.toString(), async (chainNonce) => {
+      const { data: approveNonce, error: approveNonceError } = await this.supabase.rpc('claim_payout_batch_approve_nonce', {
+        p_batch_id: batch.id,
+        p_from_address: fromAddress,
+        p_chain_nonce: chainNonce
+      })
+
+      if (approveNonceError) {
+        throw new Error(approveNonceError.message)
+      }
+
+      return Number(approveNonce)
+    })
+
+    // Throws when another worker holds the batch; its items are left alone
+    const chainNonce = await bsc.getTransactionCount(fromAddress, 'pending')
+    const { data: claimedNonce, error: nonceError } = await this.supabase.rpc('claim_payout_batch_nonce', {
+      p_batch_id: batch.id,
+      p_from_address: fromAddress,
+      p_chain_nonce: chainNonce
+    })
+
+    if (nonceError) {
+      throw new Error(nonceError.message)
+    }
+
+    const nonce = Number(claimedNonce)
+    let signed: { txHash: string, rawTransaction: string }
+    try {
+      signed = await bsc.signBatchPayout(bscItems, nonce)
+    } catch (error: any) {
+      // Nothing was sent: fail every item so the requests can be approved again
+      await this.failBatch(batch.id, items, `Could not prepare batch payout: ${error.message}`)
+      return
+    }
+
+    // Persist the hash before sending so a crash after broadcast is picked up by settleBatch()
+    const { data: updated, error: updateError } = await this.supabase
+      .from('withdrawal_payout_batches')
+      .update({
+        status: 'broadcast',
+        tx_hash: signed.txHash,
+        raw_transaction: signed.rawTransaction,
+        broadcast_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', batch.id)
+      .eq('status', 'queued')
+      .select('id')
+
+    if (updateError || !updated || updated.length === 0) {
+      throw new Error(updateError?.message || 'Payout batch was changed by another worker')
+    }
+
+    const sendError = await this.send(signed.rawTransaction)
+    if (sendError) {
+      if (FATAL_BROADCAST_ERRORS.some(pattern => pattern.test(sendError))) {
+        await this.failBatch(batch.id, items, `Broadcast rejected: ${sendError}`)
+        return
+      }
+      await this.recordBatchError(batch.id, `Broadcast error, will re-send: ${sendError}`)
+    }
+
+    console.log(`Withdrawal payout batch ${batch.id} broadcast: ${signed.txHash} (${items.length} items, nonce ${nonce})`)
+  }
+
+  // Apply the batch's PayoutSent / PayoutFailed events to its items once it is mined
+  private async settleBatch(batch: WithdrawalPayoutBatch) {
+    const bsc = this.getBSC()
+    const state = await bsc.getBatchPayoutResults(batch.tx_hash!)
+    const items = (await this.getBatchItems(batch.id)).filter(item => item.status === 'queued')
+
+    if (state.status === 'reverted') {
+      await this.failBatch(batch.id, items, `Batch transaction ${batch.tx_hash} reverted`)
+      return
+    }
+
+    if (state.status === 'not_found') {
+      const minedNonce = await bsc.getTransactionCount(batch.from_address!, 'latest')
+      if (batch.nonce !== null && minedNonce > batch.nonce) {
+        const recheck = await bsc.getBatchPayoutResults(batch.tx_hash!)
+        if (recheck.status === 'not_found') {
+          await this.failBatch(batch.id, items, `Nonce ${batch.nonce} was used by another transaction`)
+        }
+        return
+      }
+
+      if (batch.raw_transaction && batch.broadcast_at &&
+          Date.now() - new Date(batch.broadcast_at).getTime() > RESEND_AFTER_MS) {
+        const sendError = await this.send(batch.raw_transaction)
+        if (sendError) {
+          if (FATAL_BROADCAST_ERRORS.some(pattern => pattern.test(sendError))) {
+            await this.failBatch(batch.id, items, `Broadcast rejected: ${sendError}`)
+            return
+          }
+          await this.recordBatchError(batch.id, `Re-broadcast failed: ${sendError}`)
+        }
+      }
+      return
+    }
+
+    const resultsById = new Map<string, BatchPayoutResult>(state.results.map(result => [result.payoutId, result]))
+    let unresolved = 0
+
+    for (const item of items) {
+      const result = resultsById.get(bsc.toPayoutId(item.id))
+
+      if (!result) {
+        // A mined batch emits an event for every item; never retry an item we cannot account for
+        unresolved++
+        await this.recordError(item, `No PayoutSent/PayoutFailed event found in ${batch.tx_hash}`)
+        continue
+      }
+
+      if (result.success) {
+        // Sent: hand over to trackPayout() for the confirmation count
+        await this.supabase
+          .from('withdrawal_payouts')
+          .update({
+            status: 'broadcast',
+            tx_hash: batch.tx_hash,
+            from_address: batch.from_address,
+            nonce: batch.nonce,
+            block_number: state.blockNumber,
+            confirmations: state.confirmations,
+            broadcast_at: batch.broadcast_at,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', item.id)
+          .eq('status', 'queued')
+      } else {
+        await this.fail(item, `MultiSend item failed: ${result.reason || 'unknown reason'}`)
+      }
+    }
+
+    if (unresolved > 0) {
+      await this.recordBatchError(batch.id, `${unresolved} item(s) had no result event`)
+      return
+    }
+
+    const sentCount = state.results.filter(result => result.success).length
+    await this.supabase
+      .from('withdrawal_payout_batches')
+      .update({
+        status: 'settled',
+        block_number: state.blockNumber,
+        sent_count: sentCount,
+        failed_count: state.results.length - sentCount,
+        settled_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', batch.id)
+      .eq('status', 'broadcast')
+
+    console.log(`Withdrawal payout batch ${batch.id} settled: ${sentCount} sent, ${state.results.length - sentCount} failed`)
+  }
+
+  private async failBatch(batchId: string, items: WithdrawalPayout[], message: string) {
+    for (const item of items) {
+      await this.fail(item, message)
+    }
+    await this.finishBatch(batchId, message, items.length)
+  }
+
+  private async finishBatch(batchId: string, message: string, failedCount: number) {
+    await this.supabase
+      .from('withdrawal_payout_batches')
+      .update({
+        status: 'failed',
+        last_error: message,
+        failed_count: failedCount,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', batchId)
+  }
+
+  private async recordBatchError(batchId: string, message: string) {
+    await this.supabase
+      .from('withdrawal_payout_batches')
+      .update({ last_error: message, updated_at: new Date().toISOString() })
+      .eq('id', batchId)
+  }
+
+  // Returns the node's error message, or null when the transaction is (already) in the mempool
+  private async send(rawTransaction: string): Promise<string | null> {
+    try {
+      await this.getBSC().sendRawTransaction(rawTransaction)
+      return null
+    } catch (error: any) {
+      const message = error?.message || String(error)
+      return ALREADY_SENT_ERRORS.some(pattern => pattern.test(message)) ? null : message
+    }
+  }
+
+  private async fail(payout: WithdrawalPayout, message: string) {
+    console.error(`Withdrawal payout ${payout.id} failed: ${message}`)
+
+    const { error } = await this.supabase.rpc('fail_withdrawal_payout', {
+      p_payout_id: payout.id,
+      p_error: message
+    })
+
+    if (error) {
+      throw new Error(error.message)
+    }
+  }
+
+  private async recordError(payout: WithdrawalPayout, message: string) {
+    await this.supabase
+      .from('withdrawal_payouts')
+      .update({ last_error: message, updated_at: new Date().toISOString() })
+      .eq('id', payout.id)
+  }
+
+  private async sendSuccessEmail(payout: WithdrawalPayout) {
+    try {
+      const [{ data: userProfile }, { data: request }, { data: authUser }] = await Promise.all([
+        this.supabase.from('profiles').select('full_name').eq('id', payout.user_id).single(),
+        this.supabase.from('withdrawal_requests').select('amount').eq('id', payout.withdrawal_request_id).single(),
+        (this.supabase.auth as any).admin.getUserById(payout.user_id)
+      ])
+
+      if (!authUser?.user?.email) return
+
+      const amount = Number(request?.amount ?? payout.amount)
+      const netAmount = Number(payout.amount)
+
+      const emailService = new EmailService()
+      await emailService.sendWithdrawalNotification(
+        authUser.user.email,
+        userProfile?.full_name || 'User',
+        amount,
+        'USDT',
+        'success',
+        payout.to_address,
+        `Your withdrawal of ${amount} USDT has been paid. Net amount: ${netAmount} USDT (after ${Math.round((amount - netAmount) * 1e8) / 1e8} USDT fee). Transaction Hash: ${payout.tx_hash}`
+      )
+    } catch (emailError) {
+      console.error('Failed to send withdrawal payout email:', emailError)
+    }
+  }
+}
+
+export const withdrawalPayoutService = new WithdrawalPayoutService()
@@ -0,0 +1,299 @@
+import { supabaseAdmin } from './supabase-server'
+
+// Machine-readable reasons a withdrawal is refused; the withdraw page maps these to messages
+export type WithdrawalRejectionCode =
+  | 'INVALID_AMOUNT'
+  | 'AMOUNT_BELOW_MINIMUM'
+  | 'AMOUNT_ABOVE_MAXIMUM'
+  | 'INSUFFICIENT_BALANCE'
+  | 'PENDING_WITHDRAWAL_EXISTS'
+  | 'DAILY_LIMIT_EXCEEDED'
+  | 'WEEKLY_LIMIT_EXCEEDED'
+  | 'DEPOSIT_COOLDOWN'
+  | 'PASSWORD_CHANGE_COOLDOWN'
+  | 'KYC_REQUIRED'
+  | 'INVALID_ADDRESS'
+  | 'ADDRESS_NOT_WHITELISTED'
+  | 'ADDRESS_LOCKED'
+
+export interface WithdrawalViolation {
+  code: WithdrawalRejectionCode
+  message: string
+  // Limit that was hit (amount or hours) and, for cooldowns, when it ends
+  limit?: number
+  availableAt?: string
+}
+
+// Fee rate for amounts >= minAmount; minLevel restricts a tier to users at or above a level.
+// The matching tier with the highest minAmount (then minLevel) wins.
+export interface FeeTier {
+  minAmount: number
+  minLevel?: number
+  rate: number
+}
+
+export interface WithdrawalPolicyConfig {
+  minAmount: number
+  maxAmount: number
+  dailyLimit: number
+  weeklyLimit: number
+  depositCooldownHours: number
+  passwordChangeCooldownHours: number
+  feeTiers: FeeTier[]
+  // Withdrawals at or above this amount need KYC ('kyc') or are held for manual review ('review')
+  largeWithdrawalThreshold: number
+  largeWithdrawalAction: 'kyc' | 'review'
+}
+
+export interface WithdrawalEvaluation {
+  allowed: boolean
+  amount: number
+  fee: number
+  feeRate: number
+  netAmount: number
+  requiresReview: boolean
+  reviewReason: string | null
+  violations: WithdrawalViolation[]
+  usage: {
+    withdrawnToday: number
+    withdrawnThisWeek: number
+  }
+  limits: Pick<WithdrawalPolicyConfig, 'minAmount' | 'maxAmount' | 'dailyLimit' | 'weeklyLimit' | 'largeWithdrawalThreshold'>
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+const round = (value: number) => Math.round(value * 1e8) / 1e8
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '')
+  return isNaN(value) ? fallback : value
+}
+
+function feeTiersFromEnv(): FeeTier[] {
+  // e.g. WITHDRAWAL_FEE_TIERS='[{"minAmount":0,"rate":0.1},{"minAmount":1000,"rate":0.08}]'
+  if (process.env.WITHDRAWAL_FEE_TIERS) {
+    try {
+      const tiers = JSON.parse(process.env.WITHDRAWAL_FEE_TIERS)
+      if (Array.isArray(tiers) && tiers.length > 0) return tiers
+    } catch (error) {
+      console.error('Invalid WITHDRAWAL_FEE_TIERS, using the default 10% fee:', error)
+    }
+  }
+  return [{ minAmount: 0, rate: 0.10 }]
+}
+
+export const DEFAULT_WITHDRAWAL_POLICY: WithdrawalPolicyConfig = {
+  minAmount: numberFromEnv('WITHDRAWAL_MIN_AMOUNT', 10),
+  maxAmount: numberFromEnv('WITHDRAWAL_MAX_AMOUNT', 50000),
+  dailyLimit: numberFromEnv('WITHDRAWAL_DAILY_LIMIT', 50000),
+  weeklyLimit: numberFromEnv('WITHDRAWAL_WEEKLY_LIMIT', 200000),
+  depositCooldownHours: numberFromEnv('WITHDRAWAL_DEPOSIT_COOLDOWN_HOURS', 0),
+  passwordChangeCooldownHours: numberFromEnv('WITHDRAWAL_PASSWORD_COOLDOWN_HOURS', 24),
+  feeTiers: feeTiersFromEnv(),
+  largeWithdrawalThreshold: numberFromEnv('WITHDRAWAL_LARGE_THRESHOLD', 5000),
+  largeWithdrawalAction: process.env.WITHDRAWAL_LARGE_ACTION === 'kyc' ? 'kyc' : 'review'
+}
+
+export class WithdrawalPolicy {
+  private supabase = supabaseAdmin
+
+  constructor(private config: WithdrawalPolicyConfig = DEFAULT_WITHDRAWAL_POLICY) {}
+
+  /**
+   * Fee for an amount at a user level
+   */
+  getFee(amount: number, userLevel: number = 1): { fee: number; feeRate: number; netAmount: number } {
+    const tier = this.config.feeTiers
+      .filter(t => amount >= t.minAmount && userLevel >= (t.minLevel ?? 0))
+      .sort((a, b) => (b.minAmount - a.minAmount) || ((b.minLevel ?? 0) - (a.minLevel ?? 0)))[0]
+
+    const feeRate = tier ? tier.rate : 0
+    const fee = round(amount * feeRate)
+
+    return { fee, feeRate, netAmount: round(amount - fee) }
+  }
+
+  /**
+   * Check a withdrawal of `amount` from the user's main wallet against every rule.
+   * Nothing is written; all violations are returned, not just the first.
+   */
+  async evaluate(userId: string, amount: number): Promise<WithdrawalEvaluation> {
+    const now = Date.now()
+    const weekAgo = new Date(now - 7 * 24 * HOUR_MS).toISOString()
+
+    const [profileResult, policyProfileResult, withdrawalsResult, depositResult] = await Promise.all([
+      this.supabase
+        .from('profiles')
+        .select('main_wallet_balance')
+        .eq('id', userId)
+        .single(),
+      // KYC, fee level and password change live outside profiles so users cannot edit them
+      this.supabase
+        .from('withdrawal_policy_profiles')
+        .select('kyc_status, user_level, password_changed_at')
+        .eq('user_id', userId)
+        .maybeSingle(),
+      this.supabase
+        .from('transactions')
+        .select('amount, status, created_at')
+        .eq('user_id', userId)
+        .eq('transaction_type', 'withdrawal')
+        .in('status', ['pending', 'completed'])
+        // Everything from the last week, plus any older request still pending
+        .or(`status.eq.pending,created_at.gte.${weekAgo}`)
+        // Admin deductions are also recorded as withdrawals but are not user payouts
+        .or('reference_id.is.null,reference_id.not.like.ADMIN_DEDUCT_*'),
+      this.supabase
+        .from('transactions')
+        .select('created_at')
+        .eq('user_id', userId)
+        .in('transaction_type', ['deposit', 'bsc_deposit'])
+        .eq('status', 'completed')
+        .order('created_at', { ascending: false })
+        .limit(1)
+    ])
+
+    if (profileResult.error || !profileResult.data) {
+      throw new Error('User profile not found')
+    }
+
+    if (policyProfileResult.error) {
+      throw new Error(`Failed to load withdrawal policy profile: ${policyProfileResult.error.message}`)
+    }
+
+    if (withdrawalsResult.error) {
+      throw new Error(`Failed to load recent withdrawals: ${withdrawalsResult.error.message}`)
+    }
+
+    const profile = profileResult.data
+    // No row yet means no KYC, level 1 and no recorded password change
+    const policyProfile = policyProfileResult.data || { kyc_status: 'none', user_level: 1, password_changed_at: null }
+    const recentWithdrawals = withdrawalsResult.data || []
+    const lastDeposit = depositResult.data?.[0]
+
+    const withdrawnSince = (since: number) => round(recentWithdrawals
+      .filter(w => new Date(w.created_at).getTime() >= since)
+      .reduce((sum, w) => sum + Number(w.amount), 0))
+    const withdrawnToday = withdrawnSince(now - 24 * HOUR_MS)
+    const withdrawnThisWeek = withdrawnSince(now - 7 * 24 * HOUR_MS)
+
+    const violations: WithdrawalViolation[] = []
+    const { minAmount, maxAmount, dailyLimit, weeklyLimit } = this.config
+
+    if (!amount || isNaN(amount) || amount <= 0) {
+      violations.push({ code: 'INVALID_AMOUNT', message: 'Enter a valid withdrawal amount' })
+    } else {
+      if (amount < minAmount) {
+        violations.push({ code: 'AMOUNT_BELOW_MINIMUM', message: `Minimum withdrawal amount is $${minAmount}`, limit: minAmount })
+      }
+
+      if (amount > maxAmount) {
+        violations.push({ code: 'AMOUNT_ABOVE_MAXIMUM', message: `Maximum withdrawal amount is $${maxAmount}`, limit: maxAmount })
+      }
+
+      if (amount > Number(profile.main_wallet_balance || 0)) {
+        violations.push({ code: 'INSUFFICIENT_BALANCE', message: 'Insufficient main wallet balance' })
+      }
+
+      if (withdrawnToday + amount > dailyLimit) {
+        violations.push({
+          code: 'DAILY_LIMIT_EXCEEDED',
+          message: `Daily withdrawal limit is $${dailyLimit}; $${round(Math.max(dailyLimit - withdrawnToday, 0))} remaining`,
+          limit: dailyLimit
+        })
+      }
+
+      if (withdrawnThisWeek + amount > weeklyLimit) {
+        violations.push({
+          code: 'WEEKLY_LIMIT_EXCEEDED',
+          message: `Weekly withdrawal limit is $${weeklyLimit}; $${round(Math.max(weeklyLimit - withdrawnThisWeek, 0))} remaining`,
+          limit: weeklyLimit
+        })
+      }
+    }
+
+    if (recentWithdrawals.some(w => w.status === 'pending')) {
+      violations.push({
+        code: 'PENDING_WITHDRAWAL_EXISTS',
+        message: 'You already have a pending withdrawal request. Please wait for it to be processed.'
+      })
+    }
+
+    const depositCooldown = this.cooldownViolation(
+      lastDeposit?.created_at,
+      this.config.depositCooldownHours,
+      'DEPOSIT_COOLDOWN',
+      'Withdrawals are paused after a deposit'
+    )
+    if (depositCooldown) violations.push(depositCooldown)
+
+    const passwordCooldown = this.cooldownViolation(
+      policyProfile.password_changed_at,
+      this.config.passwordChangeCooldownHours,
+      'PASSWORD_CHANGE_COOLDOWN',
+      'Withdrawals are paused after a password change'
+    )
+    if (passwordCooldown) violations.push(passwordCooldown)
+
+    let requiresReview = false
+    let reviewReason: string | null = null
+
+    if (amount >= this.config.largeWithdrawalThreshold) {
+      if (this.config.largeWithdrawalAction === 'kyc') {
+        if (policyProfile.kyc_status !== 'verified') {
+          violations.push({
+            code: 'KYC_REQUIRED',
+            message: `Identity verification is required for withdrawals of $${this.config.largeWithdrawalThreshold} or more`,
+            limit: this.config.largeWithdrawalThreshold
+          })
+        }
+      } else {
+        requiresReview = true
+        reviewReason = `Amount at or above the $${this.config.largeWithdrawalThreshold} review threshold`
+      }
+    }
+
+    const { fee, feeRate, netAmount } = this.getFee(amount > 0 ? amount : 0, Number(policyProfile.user_level || 1))
+
+    return {
+      allowed: violations.length === 0,
+      amount,
+      fee,
+      feeRate,
+      netAmount,
+      requiresReview,
+      reviewReason,
+      violations,
+      usage: { withdrawnToday, withdrawnThisWeek },
+      limits: {
+        minAmount,
+        maxAmount,
+        dailyLimit,
+        weeklyLimit,
+        largeWithdrawalThreshold: this.config.largeWithdrawalThreshold
+      }
+    }
+  }
+
+  private cooldownViolation(
+    since: string | null | undefined,
+    hours: number,
+    code: WithdrawalRejectionCode,
+    message: string
+  ): WithdrawalViolation | null {
+    if (!since || hours <= 0) return null
+
+    const availableAt = new Date(new Date(since).getTime() + hours * HOUR_MS)
+    if (availableAt.getTime() <= Date.now()) return null
+
+    return {
+      code,
+      message: `${message} for ${hours} hours. Try again after ${availableAt.toISOString()}.`,
+      limit: hours,
+      availableAt: availableAt.toISOString()
+    }
+  }
+}
+
+export const withdrawalPolicy = new WithdrawalPolicy()
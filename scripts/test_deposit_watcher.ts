@@ -0,0 +1,143 @@
+/**
+ * End-to-end check of the deposit watcher on a local chain with contracts/TestUSDT.sol
+ *
+ *   1. Start a node:            anvil            (or: npx hardhat node)
+ *   2. Deploy TestUSDT with the node's first account and note its address
+ *   3. Point the app at the local chain and a development Supabase project:
+ *        BSC_RPC_URL=http://127.0.0.1:8545
+ *        USDT_CONTRACT_ADDRESS=<TestUSDT address>
+ *        DEPOSIT_WATCHER_CONFIRMATIONS=3
+ *        NEXT_PUBLIC_SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY / BSC_PRIVATE_KEY / wallet env as usual
+ *   4. npm run test:deposit-watcher -- <userId> [amount]
+ *
+ * Checks that a transfer is only credited after the confirmations, that re-running
+ * never credits twice, and that a transfer removed by a reorg (evm_snapshot/evm_revert)
+ * is orphaned instead of credited.
+ */
+import Web3 from 'web3';
+import { supabaseAdmin } from '../lib/supabase-server';
+import { depositWatcherService, DEPOSIT_WATCHER_CONFIRMATIONS } from '../lib/deposit-watcher-service';
+
+const RPC_URL = process.env.BSC_RPC_URL || '';
+const USDT_ADDRESS = process.env.USDT_CONTRACT_ADDRESS || '';
+
+const TEST_USDT_ABI = [
+  {
+    "inputs": [
+      {"name": "to", "type": "address"},
+      {"name": "amount", "type": "uint256"}
+    ],
+    "name": "mint",
+    "outputs": [],
+    "type": "function"
+  }
+];
+
+const web3 = new Web3(RPC_URL);
+
+async function rpc(method: string, params: any[] = []): Promise<any> {
+  return web3.requestManager.send({ method, params } as any);
+}
+
+async function mineBlocks(count: number) {
+  for (let i = 0; i < count; i++) {
+    await rpc('evm_mine');
+  }
+}
+
+async function mint(to: string, amount: string): Promise<string> {
+  const [sender] = await web3.eth.getAccounts();
+  const usdt = new web3.eth.Contract(TEST_USDT_ABI, USDT_ADDRESS);
+  const receipt = await usdt.methods.mint(to, web3.utils.toWei(amount, 'ether')).send({ from: sender });
+  return receipt.transactionHash.toString();
+}
+
+async function getDeposit(txHash: string) {
+  const { data } = await supabaseAdmin
+    .from('onchain_deposits')
+    .select('status, confirmations, ignore_reason')
+    .eq('tx_hash', txHash)
+    .maybeSingle();
+  return data;
+}
+
+async function getFundBalance(userId: string): Promise<number> {
+  const { data } = await supabaseAdmin
+    .from('profiles')
+    .select('fund_wallet_balance')
+    .eq('id', userId)
+    .single();
+  return Number(data?.fund_wallet_balance || 0);
+}
+
+function check(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(`FAILED: ${message}`);
+  }
+  console.log(`✅ ${message}`);
+}
+
+async function main() {
+  const [userId, amount = '25'] = process.argv.slice(2);
+
+  if (!userId) {
+    throw new Error('Usage: npm run test:deposit-watcher -- <userId> [amount]');
+  }
+  if (!/^https?:\/\/(localhost|127\.0\.0\.1)/.test(RPC_URL)) {
+    throw new Error('BSC_RPC_URL must point at a local Hardhat/Anvil node');
+  }
+  if (DEPOSIT_WATCHER_CONFIRMATIONS < 2) {
+    throw new Error('Set DEPOSIT_WATCHER_CONFIRMATIONS to 2 or more so the pending state can be observed');
+  }
+
+  const { data: profile } = await supabaseAdmin
+    .from('profiles')
+    .select('bsc_wallet_address')
+    .eq('id', userId)
+    .single();
+
+  if (!profile?.bsc_wallet_address) {
+    throw new Error(`User ${userId} has no bsc_wallet_address`);
+  }
+
+  const depositAddress = profile.bsc_wallet_address;
+  console.log(`Depositing ${amount} TUSDT to ${depositAddress}`);
+
+  // 1. Credited only after the required confirmations, exactly once
+  const balanceBefore = await getFundBalance(userId);
+  const txHash = await mint(depositAddress, amount);
+
+  await depositWatcherService.run();
+  check((await getDeposit(txHash))?.status === 'detected', 'transfer detected but not credited before confirmations');
+
+  await mineBlocks(DEPOSIT_WATCHER_CONFIRMATIONS);
+  await depositWatcherService.run();
+  check((await getDeposit(txHash))?.status === 'credited', 'transfer credited after confirmations');
+
+  const credited = await getFundBalance(userId) - balanceBefore;
+  check(Math.abs(credited - parseFloat(amount) * 0.99) < 1e-6, `fund wallet credited ${credited} (amount less 1% fee)`);
+
+  const rerun = await depositWatcherService.run();
+  check(rerun.credited === 0 && await getFundBalance(userId) - balanceBefore === credited, 're-running does not credit again');
+
+  // 2. A transfer reorged away before it is confirmed is never credited
+  const snapshot = await rpc('evm_snapshot');
+  const reorgedTxHash = await mint(depositAddress, amount);
+  await depositWatcherService.run();
+  check((await getDeposit(reorgedTxHash))?.status === 'detected', 'second transfer detected');
+
+  await rpc('evm_revert', [snapshot]);
+  await mineBlocks(101); // past ORPHAN_AFTER_BLOCKS
+  await depositWatcherService.run();
+
+  const orphaned = await getDeposit(reorgedTxHash);
+  check(orphaned?.status === 'orphaned', `reorged transfer orphaned (${orphaned?.ignore_reason})`);
+  check(await getFundBalance(userId) - balanceBefore === credited, 'reorged transfer was not credited');
+
+  console.log('\nDeposit watcher checks passed');
+}
+
+main().catch(error => {
+  console.error(error.message || error);
+  process.exit(1);
+});
@@ -0,0 +1,28 @@
+-- Protect profiles.is_admin and profiles.is_banned
+-- The "Users can update own profile" policy in schema.sql has no column restriction, so
+-- without this a signed-in user could set is_admin on their own row and pass withAdmin().
+-- Changes to either flag are rejected unless they come from the service role (the admin
+-- API, /api/admin/users) or a database owner; signed-in and anonymous callers are refused.
+-- Run after admin_functions.sql.
+
+CREATE OR REPLACE FUNCTION guard_profile_admin_flags()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Deliberately not SECURITY DEFINER: current_user is the role of the caller
+    IF (NEW.is_admin IS DISTINCT FROM OLD.is_admin OR NEW.is_banned IS DISTINCT FROM OLD.is_banned)
+       AND current_user IN ('authenticated', 'anon') THEN
+        RAISE EXCEPTION 'is_admin and is_banned can only be changed by an admin';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_profile_admin_flags ON public.profiles;
+CREATE TRIGGER guard_profile_admin_flags
+    BEFORE UPDATE ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION guard_profile_admin_flags();
+
+COMMENT ON FUNCTION guard_profile_admin_flags() IS 'Rejects changes to profiles.is_admin / is_banned from signed-in or anonymous callers';
+
+SELECT 'Admin flag guard added successfully!' as status;
@@ -0,0 +1,209 @@
+-- Atomic profit credits
+-- credit_plan_profit() records a plan's profit for one day and pays it in the same
+-- database transaction: the distribution row, the main wallet credit (or the compounding
+-- step) and total_profit_earned either all happen or none do. A failed credit therefore
+-- leaves the day unrecorded, and the next run pays it.
+-- complete_matured_plan() likewise marks a plan completed and releases its principal in
+-- one transaction, so a plan is never left completed with its principal unreleased.
+-- Run after add_plan_maturity.sql, add_staking_distribution.sql, add_auto_compound.sql and
+-- add_profit_catchup.sql.
+
+-- Pay a day's profit for an investment plan or stake. p_plan_kind is 'investment' or
+-- 'staking'. Returns NULL when that day was already paid.
+CREATE OR REPLACE FUNCTION credit_plan_profit(
+    p_plan_kind TEXT,
+    p_plan_id UUID,
+    p_amount DECIMAL(20,8),
+    p_distribution_date DATE
+)
+RETURNS JSON AS $$
+DECLARE
+    v_user_id UUID;
+    v_auto_compound BOOLEAN;
+    v_distribution_id UUID;
+    v_description TEXT;
+BEGIN
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RAISE EXCEPTION 'Profit amount must be positive';
+    END IF;
+
+    IF p_plan_kind = 'investment' THEN
+        SELECT user_id, auto_compound INTO v_user_id, v_auto_compound
+        FROM public.investment_plans
+        WHERE id = p_plan_id
+        FOR UPDATE;
+
+        IF v_user_id IS NULL THEN
+            RAISE EXCEPTION 'Plan not found';
+        END IF;
+
+        INSERT INTO public.profit_distributions (plan_id, user_id, profit_amount, distribution_date, compounded)
+        VALUES (p_plan_id, v_user_id, p_amount, p_distribution_date, v_auto_compound)
+        ON CONFLICT (plan_id, distribution_date) DO NOTHING
+        RETURNING id INTO v_distribution_id;
+    ELSIF p_plan_kind = 'staking' THEN
+        SELECT user_id, auto_compound INTO v_user_id, v_auto_compound
+        FROM public.jrc_staking_plans
+        WHERE id = p_plan_id
+        FOR UPDATE;
+
+        IF v_user_id IS NULL THEN
+            RAISE EXCEPTION 'Plan not found';
+        END IF;
+
+        INSERT INTO public.jrc_staking_distributions (staking_plan_id, user_id, profit_amount, distribution_date, compounded)
+        VALUES (p_plan_id, v_user_id, p_amount, p_distribution_date, v_auto_compound)
+        ON CONFLICT (staking_plan_id, distribution_date) DO NOTHING
+        RETURNING id INTO v_distribution_id;
+    ELSE
+        RAISE EXCEPTION 'Unknown plan kind %', p_plan_kind;
+    END IF;
+
+    IF v_distribution_id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    IF v_auto_compound THEN
+        -- Auto-compounding plans grow their principal instead of the main wallet
+        PERFORM compound_plan_profit(p_plan_kind, p_plan_id, p_amount, p_distribution_date);
+    ELSE
+        v_description := CASE WHEN p_plan_kind = 'investment'
+            THEN 'Daily profit distribution for ' || p_distribution_date
+            ELSE 'Daily JRC staking reward for ' || p_distribution_date
+        END;
+
+        PERFORM post_ledger_journal(jsonb_build_object(
+            'journal_type', p_plan_kind || '_profit',
+            'reference_id', CASE WHEN p_plan_kind = 'investment' THEN 'PROFIT_' ELSE 'STAKING_PROFIT_' END
+                || p_plan_id || '_' || p_distribution_date,
+            'description', v_description,
+            'entries', jsonb_build_array(
+                jsonb_build_object('account', 'profit_expense', 'amount', -p_amount, 'currency', 'USDT'),
+                jsonb_build_object('account', 'main_wallet', 'user_id', v_user_id, 'amount', p_amount, 'currency', 'USDT')
+            ),
+            'transactions', jsonb_build_array(
+                jsonb_build_object(
+                    'user_id', v_user_id,
+                    'transaction_type', CASE WHEN p_plan_kind = 'investment' THEN 'profit' ELSE 'staking_profit' END,
+                    'amount', p_amount,
+                    'plan_id', CASE WHEN p_plan_kind = 'investment' THEN p_plan_id END,
+                    'description', v_description
+                )
+            )
+        ));
+    END IF;
+
+    IF p_plan_kind = 'investment' THEN
+        UPDATE public.investment_plans
+        SET total_profit_earned = COALESCE(total_profit_earned, 0) + p_amount,
+            updated_at = NOW()
+        WHERE id = p_plan_id;
+    ELSE
+        UPDATE public.jrc_staking_plans
+        SET total_profit_earned = COALESCE(total_profit_earned, 0) + p_amount,
+            updated_at = NOW()
+        WHERE id = p_plan_id;
+    END IF;
+
+    RETURN json_build_object(
+        'distribution_id', v_distribution_id,
+        'user_id', v_user_id,
+        'compounded', v_auto_compound
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION credit_plan_profit(TEXT, UUID, DECIMAL, DATE) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION credit_plan_profit(TEXT, UUID, DECIMAL, DATE) TO service_role;
+
+-- Complete a matured investment plan or stake and release its principal. p_release_wallet
+-- is the wallet the principal goes back to (NULL keeps it; stakes always use the fund
+-- wallet). Returns NULL when the plan was already completed.
+CREATE OR REPLACE FUNCTION complete_matured_plan(
+    p_plan_kind TEXT,
+    p_plan_id UUID,
+    p_plan_name TEXT,
+    p_reason TEXT DEFAULT NULL,
+    p_release_wallet TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+    v_user_id UUID;
+    v_principal DECIMAL(20,8);
+    v_release_wallet TEXT := p_release_wallet;
+    v_description TEXT;
+BEGIN
+    IF p_plan_kind = 'investment' THEN
+        IF v_release_wallet IS NOT NULL AND v_release_wallet NOT IN ('main_wallet', 'fund_wallet') THEN
+            RAISE EXCEPTION 'Invalid release wallet %', v_release_wallet;
+        END IF;
+
+        -- Guarded on is_active so a plan is completed (and its principal released) only once
+        UPDATE public.investment_plans
+        SET is_active = false,
+            completed_at = NOW(),
+            completion_reason = p_reason,
+            principal_release_wallet = v_release_wallet,
+            updated_at = NOW()
+        WHERE id = p_plan_id AND is_active = true
+        RETURNING user_id, investment_amount INTO v_user_id, v_principal;
+    ELSIF p_plan_kind = 'staking' THEN
+        -- Stakes are funded from the fund wallet, so the principal goes back there
+        v_release_wallet := 'fund_wallet';
+
+        UPDATE public.jrc_staking_plans
+        SET status = 'completed',
+            completed_at = NOW(),
+            updated_at = NOW()
+        WHERE id = p_plan_id AND status = 'active'
+        RETURNING user_id, amount INTO v_user_id, v_principal;
+    ELSE
+        RAISE EXCEPTION 'Unknown plan kind %', p_plan_kind;
+    END IF;
+
+    IF v_user_id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    IF v_release_wallet IS NULL OR v_principal <= 0 THEN
+        RETURN json_build_object('principal', v_principal, 'principal_released', 0);
+    END IF;
+
+    v_description := 'Principal released on maturity of ' || p_plan_name;
+
+    PERFORM post_ledger_journal(jsonb_build_object(
+        'journal_type', p_plan_kind || '_maturity',
+        'reference_id', CASE WHEN p_plan_kind = 'investment' THEN 'MATURITY_' ELSE 'STAKING_MATURITY_' END || p_plan_id,
+        'description', v_description,
+        'entries', jsonb_build_array(
+            jsonb_build_object('account', p_plan_kind || '_pool', 'amount', -v_principal, 'currency', 'USDT'),
+            jsonb_build_object('account', v_release_wallet, 'user_id', v_user_id, 'amount', v_principal, 'currency', 'USDT')
+        ),
+        'transactions', jsonb_build_array(
+            jsonb_build_object(
+                'user_id', v_user_id,
+                'transaction_type', v_release_wallet || '_principal_release',
+                'amount', v_principal,
+                'plan_id', CASE WHEN p_plan_kind = 'investment' THEN p_plan_id END,
+                'description', v_description
+            )
+        )
+    ));
+
+    IF p_plan_kind = 'investment' THEN
+        UPDATE public.investment_plans SET principal_released = v_principal WHERE id = p_plan_id;
+    ELSE
+        UPDATE public.jrc_staking_plans SET principal_released = v_principal WHERE id = p_plan_id;
+    END IF;
+
+    RETURN json_build_object('principal', v_principal, 'principal_released', v_principal);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION complete_matured_plan(TEXT, UUID, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION complete_matured_plan(TEXT, UUID, TEXT, TEXT, TEXT) TO service_role;
+
+COMMENT ON FUNCTION credit_plan_profit(TEXT, UUID, DECIMAL, DATE) IS 'Records and pays one day of plan profit in a single transaction; NULL when the day was already paid';
+COMMENT ON FUNCTION complete_matured_plan(TEXT, UUID, TEXT, TEXT, TEXT) IS 'Completes a matured plan and releases its principal in a single transaction; NULL when already completed';
+
+SELECT 'Atomic profit credits added successfully!' as status;
@@ -0,0 +1,243 @@
+-- Atomic, idempotent referral commission payouts
+-- pay_referral_commissions() pays every upline level for a source transaction in the
+-- caller's database transaction. A level that was already paid for the same source
+-- transaction is skipped, so a retried deposit approval or API call never pays twice.
+-- referral_commissions.transaction_id is the source transaction, payout_transaction_id
+-- the referral_bonus transaction that credited the referrer.
+-- Run after add_staking_creation_function.sql and add_deposit_networks.sql.
+
+ALTER TABLE public.referral_commissions
+ADD COLUMN IF NOT EXISTS payout_transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL;
+
+-- One commission per level and source transaction
+CREATE UNIQUE INDEX IF NOT EXISTS idx_referral_commissions_source_level
+ON public.referral_commissions(transaction_id, level)
+WHERE transaction_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION pay_referral_commissions(
+    p_user_id UUID,
+    p_amount DECIMAL(20,8),
+    p_source_transaction_id UUID,
+    p_transaction_type TEXT,
+    p_plan_type TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_rates DECIMAL(5,2)[] := ARRAY[10, 5, 3, 2, 1, 0.5];
+    v_current_id UUID := p_user_id;
+    v_source_user_id UUID;
+    v_sponsor_code TEXT;
+    v_referrer_id UUID;
+    v_commission DECIMAL(20,8);
+    v_description TEXT;
+    v_result JSON;
+    v_paid INTEGER := 0;
+BEGIN
+    -- Serializes concurrent payouts for the same source transaction
+    SELECT user_id INTO v_source_user_id
+    FROM public.transactions
+    WHERE id = p_source_transaction_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_source_user_id IS DISTINCT FROM p_user_id THEN
+        RAISE EXCEPTION 'Source transaction not found';
+    END IF;
+
+    FOR v_level IN 1..array_length(v_rates, 1) LOOP
+        SELECT sponsor_id INTO v_sponsor_code
+        FROM public.profiles
+        WHERE id = v_current_id;
+
+        EXIT WHEN v_sponsor_code IS NULL;
+
+        SELECT id INTO v_referrer_id
+        FROM public.profiles
+        WHERE referral_code = v_sponsor_code;
+
+        EXIT WHEN v_referrer_id IS NULL;
+
+        v_commission := ROUND(p_amount * v_rates[v_level] / 100, 8);
+
+        IF v_commission > 0 AND NOT EXISTS (
+            SELECT 1 FROM public.referral_commissions
+            WHERE transaction_id = p_source_transaction_id AND level = v_level
+        ) THEN
+            v_description := 'Level ' || v_level || ' USDT referral commission from ' || p_transaction_type
+                || COALESCE(' (' || p_plan_type || ')', '');
+
+            v_result := post_ledger_journal(jsonb_build_object(
+                'journal_type', 'referral_commission',
+                'reference_id', p_source_transaction_id::TEXT,
+                'description', v_description,
+                'created_by', p_user_id,
+                'metadata', jsonb_build_object('level', v_level, 'referred_id', p_user_id),
+                'entries', jsonb_build_array(
+                    jsonb_build_object('account', 'referral_expense', 'amount', -v_commission, 'currency', 'USDT'),
+                    jsonb_build_object('account', 'main_wallet', 'user_id', v_referrer_id, 'amount', v_commission, 'currency', 'USDT')
+                ),
+                'transactions', jsonb_build_array(
+                    jsonb_build_object(
+                        'user_id', v_referrer_id,
+                        'transaction_type', 'referral_bonus',
+                        'amount', v_commission,
+                        'description', v_description
+                    )
+                )
+            ));
+
+            INSERT INTO public.referral_commissions (
+                referrer_id,
+                referred_id,
+                transaction_id,
+                payout_transaction_id,
+                level,
+                commission_percentage,
+                commission_amount,
+                usdt_commission,
+                transaction_type,
+                plan_type
+            ) VALUES (
+                v_referrer_id,
+                p_user_id,
+                p_source_transaction_id,
+                (v_result->'transaction_ids'->>0)::UUID,
+                v_level,
+                v_rates[v_level],
+                v_commission,
+                v_commission,
+                p_transaction_type,
+                p_plan_type
+            );
+
+            v_paid := v_paid + 1;
+        END IF;
+
+        v_current_id := v_referrer_id;
+    END LOOP;
+
+    RETURN v_paid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION pay_referral_commissions(UUID, DECIMAL, UUID, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION pay_referral_commissions(UUID, DECIMAL, UUID, TEXT, TEXT) TO service_role;
+
+-- Same as in add_deposit_networks.sql, but the referral commissions are paid in the same
+-- transaction as the deposit credit instead of by the API afterwards
+CREATE OR REPLACE FUNCTION process_manual_deposit_approval(
+  p_request_id UUID,
+  p_admin_id UUID,
+  p_admin_notes TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_request deposit_requests%ROWTYPE;
+  v_usd_rate DECIMAL(20,8);
+  v_usd_amount DECIMAL(15,2);
+  v_fee_amount DECIMAL(15,2);
+  v_net_amount DECIMAL(15,2);
+  v_ledger JSON;
+  v_transaction_id UUID;
+  v_commissions INTEGER;
+  v_result JSON;
+BEGIN
+  -- Get the deposit request
+  SELECT * INTO v_request
+  FROM deposit_requests
+  WHERE id = p_request_id AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Deposit request not found or already processed');
+  END IF;
+
+  -- The hash may already be credited through another request or the automatic deposit
+  -- flow, possibly spelt in a different case
+  IF EXISTS (
+    SELECT 1 FROM transactions
+    WHERE lower(reference_id) = lower(v_request.tx_hash) AND status = 'completed'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'This transaction hash has already been credited');
+  END IF;
+
+  SELECT usd_rate INTO v_usd_rate
+  FROM deposit_tokens
+  WHERE network_id = v_request.network AND symbol = v_request.currency;
+
+  IF v_usd_rate IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'No USD rate configured for ' || v_request.currency || ' (' || v_request.network || ')');
+  END IF;
+
+  -- Calculate fee (1%) and net amount
+  v_usd_amount := ROUND(v_request.amount * v_usd_rate, 2);
+  v_fee_amount := v_usd_amount * 0.01;
+  v_net_amount := v_usd_amount - v_fee_amount;
+
+  -- Credit the main wallet through the ledger, 1% fee to fee_income
+  v_ledger := post_ledger_journal(jsonb_build_object(
+    'journal_type', 'deposit',
+    'reference_id', v_request.tx_hash,
+    'description', 'Manual deposit - ' || v_request.amount::TEXT || ' ' || v_request.currency || ' (' || v_request.network || ')',
+    'created_by', p_admin_id,
+    'metadata', jsonb_build_object('deposit_request_id', p_request_id),
+    'entries', jsonb_build_array(
+      jsonb_build_object('account', 'external', 'amount', -v_usd_amount),
+      jsonb_build_object('account', 'main_wallet', 'user_id', v_request.user_id, 'amount', v_net_amount),
+      jsonb_build_object('account', 'fee_income', 'amount', v_fee_amount)
+    ),
+    'transactions', jsonb_build_array(
+      jsonb_build_object(
+        'user_id', v_request.user_id,
+        'transaction_type', 'deposit',
+        'amount', v_net_amount,
+        'fee', v_fee_amount,
+        'net_amount', v_net_amount,
+        'description', 'Manual deposit - ' || v_request.amount::TEXT || ' ' || v_request.currency || ' (' || v_request.network || ')'
+      )
+    )
+  ));
+
+  v_transaction_id := (v_ledger->'transaction_ids'->>0)::UUID;
+
+  -- Referral commissions on the gross deposit, as before
+  v_commissions := pay_referral_commissions(v_request.user_id, v_usd_amount, v_transaction_id, 'deposit', 'deposit');
+
+  -- Update deposit request status
+  UPDATE deposit_requests
+  SET
+    status = 'approved',
+    usd_amount = v_usd_amount,
+    processed_by = p_admin_id,
+    processed_at = NOW(),
+    admin_notes = p_admin_notes,
+    updated_at = NOW()
+  WHERE id = p_request_id;
+
+  -- Return success result
+  v_result := json_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'amount', v_usd_amount,
+    'token_amount', v_request.amount,
+    'fee', v_fee_amount,
+    'net_amount', v_net_amount,
+    'commissions_paid', v_commissions,
+    'user_id', v_request.user_id
+  );
+
+  RETURN v_result;
+
+EXCEPTION WHEN OTHERS THEN
+  -- Rollback will happen automatically
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+COMMENT ON COLUMN public.referral_commissions.transaction_id IS 'Source transaction the commission was paid for';
+COMMENT ON COLUMN public.referral_commissions.payout_transaction_id IS 'referral_bonus transaction that credited the referrer';
+COMMENT ON FUNCTION pay_referral_commissions(UUID, DECIMAL, UUID, TEXT, TEXT) IS 'Pays all upline levels for a source transaction at most once per level, in the caller''s transaction';
+
+SELECT 'Atomic referral payouts added successfully!' as status;
@@ -0,0 +1,174 @@
+-- Auto-compounding for investment plans and stakes
+-- With auto_compound on, the daily profit is added to the plan's principal instead of
+-- being credited to the main wallet. Every compounding step is kept in
+-- plan_compounding_history so users can see how the principal grew.
+
+ALTER TABLE public.investment_plans
+ADD COLUMN IF NOT EXISTS auto_compound BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS compounded_amount DECIMAL(20,8) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.jrc_staking_plans
+ADD COLUMN IF NOT EXISTS auto_compound BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS compounded_amount DECIMAL(20,8) NOT NULL DEFAULT 0;
+
+-- Compounded distributions never reach the main wallet (reconciliation skips them)
+ALTER TABLE public.profit_distributions
+ADD COLUMN IF NOT EXISTS compounded BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.jrc_staking_distributions
+ADD COLUMN IF NOT EXISTS compounded BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TYPE transaction_type ADD VALUE IF NOT EXISTS 'profit_compounded';
+
+CREATE TABLE IF NOT EXISTS public.plan_compounding_history (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    investment_plan_id UUID REFERENCES public.investment_plans(id) ON DELETE CASCADE,
+    staking_plan_id UUID REFERENCES public.jrc_staking_plans(id) ON DELETE CASCADE,
+    distribution_date DATE NOT NULL,
+    amount DECIMAL(20,8) NOT NULL CHECK (amount > 0),
+    principal_before DECIMAL(20,8) NOT NULL,
+    principal_after DECIMAL(20,8) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK ((investment_plan_id IS NULL) <> (staking_plan_id IS NULL))
+);
+
+-- One compounding step per plan per day
+CREATE UNIQUE INDEX IF NOT EXISTS idx_plan_compounding_history_investment_date
+ON public.plan_compounding_history(investment_plan_id, distribution_date);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_plan_compounding_history_staking_date
+ON public.plan_compounding_history(staking_plan_id, distribution_date);
+CREATE INDEX IF NOT EXISTS idx_plan_compounding_history_user_id ON public.plan_compounding_history(user_id);
+
+-- Add a day's profit to the plan principal. p_plan_kind is 'investment' or 'staking'.
+-- Returns NULL when that day was already compounded.
+CREATE OR REPLACE FUNCTION compound_plan_profit(
+    p_plan_kind TEXT,
+    p_plan_id UUID,
+    p_amount DECIMAL(20,8),
+    p_distribution_date DATE
+)
+RETURNS JSON AS $$
+DECLARE
+    v_user_id UUID;
+    v_principal DECIMAL(20,8);
+    v_pool TEXT;
+    v_history_id UUID;
+    v_description TEXT;
+BEGIN
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RAISE EXCEPTION 'Compounded amount must be positive';
+    END IF;
+
+    IF p_plan_kind = 'investment' THEN
+        SELECT user_id, investment_amount INTO v_user_id, v_principal
+        FROM public.investment_plans
+        WHERE id = p_plan_id
+        FOR UPDATE;
+        v_pool := 'investment_pool';
+    ELSIF p_plan_kind = 'staking' THEN
+        SELECT user_id, amount INTO v_user_id, v_principal
+        FROM public.jrc_staking_plans
+        WHERE id = p_plan_id
+        FOR UPDATE;
+        v_pool := 'staking_pool';
+    ELSE
+        RAISE EXCEPTION 'Unknown plan kind %', p_plan_kind;
+    END IF;
+
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Plan not found';
+    END IF;
+
+    INSERT INTO public.plan_compounding_history (
+        user_id,
+        investment_plan_id,
+        staking_plan_id,
+        distribution_date,
+        amount,
+        principal_before,
+        principal_after
+    ) VALUES (
+        v_user_id,
+        CASE WHEN p_plan_kind = 'investment' THEN p_plan_id END,
+        CASE WHEN p_plan_kind = 'staking' THEN p_plan_id END,
+        p_distribution_date,
+        p_amount,
+        v_principal,
+        v_principal + p_amount
+    )
+    ON CONFLICT DO NOTHING
+    RETURNING id INTO v_history_id;
+
+    IF v_history_id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    v_description := 'Profit for ' || p_distribution_date || ' compounded into ' || p_plan_kind || ' principal';
+
+    PERFORM post_ledger_journal(jsonb_build_object(
+        'journal_type', p_plan_kind || '_compound',
+        'reference_id', 'COMPOUND_' || p_plan_id || '_' || p_distribution_date,
+        'description', v_description,
+        'entries', jsonb_build_array(
+            jsonb_build_object('account', 'profit_expense', 'amount', -p_amount, 'currency', 'USDT'),
+            jsonb_build_object('account', v_pool, 'amount', p_amount, 'currency', 'USDT')
+        ),
+        'transactions', jsonb_build_array(
+            jsonb_build_object(
+                'user_id', v_user_id,
+                'transaction_type', 'profit_compounded',
+                'amount', p_amount,
+                'plan_id', CASE WHEN p_plan_kind = 'investment' THEN p_plan_id END,
+                'description', v_description
+            )
+        )
+    ));
+
+    IF p_plan_kind = 'investment' THEN
+        UPDATE public.investment_plans
+        SET investment_amount = investment_amount + p_amount,
+            compounded_amount = compounded_amount + p_amount,
+            updated_at = NOW()
+        WHERE id = p_plan_id;
+    ELSE
+        UPDATE public.jrc_staking_plans
+        SET amount = amount + p_amount,
+            compounded_amount = compounded_amount + p_amount,
+            updated_at = NOW()
+        WHERE id = p_plan_id;
+    END IF;
+
+    RETURN json_build_object(
+        'history_id', v_history_id,
+        'principal_before', v_principal,
+        'principal_after', v_principal + p_amount
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION compound_plan_profit(TEXT, UUID, DECIMAL, DATE) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION compound_plan_profit(TEXT, UUID, DECIMAL, DATE) TO service_role;
+
+-- RLS
+ALTER TABLE public.plan_compounding_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own compounding history" ON public.plan_compounding_history
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all compounding history" ON public.plan_compounding_history
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+GRANT SELECT ON public.plan_compounding_history TO authenticated;
+GRANT ALL ON public.plan_compounding_history TO service_role;
+
+COMMENT ON TABLE public.plan_compounding_history IS 'Daily profits added to plan principal for plans with auto_compound on';
+COMMENT ON COLUMN public.investment_plans.compounded_amount IS 'Profit compounded into investment_amount; the original principal is investment_amount - compounded_amount';
+COMMENT ON COLUMN public.jrc_staking_plans.compounded_amount IS 'Profit compounded into amount; the original stake is amount - compounded_amount';
+
+SELECT 'Auto-compounding support added successfully!' as status;
@@ -0,0 +1,417 @@
+-- Referral commission schedules
+-- Commission depth and per-level USDT/JRC rates are stored as schedules, each applying to
+-- some of the commission source types (staking, investment, deposit) from effective_from.
+-- The schedule in effect for a type is the one with the latest effective_from that has
+-- passed. Schedules are frozen once in effect and every referral_commissions row records
+-- the schedule it was paid under, so past commissions stay explainable.
+-- Run after add_atomic_referral_payouts.sql.
+
+CREATE TABLE IF NOT EXISTS public.commission_schedules (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    name TEXT NOT NULL,
+    transaction_types TEXT[] NOT NULL CHECK (
+        cardinality(transaction_types) > 0
+        AND transaction_types <@ ARRAY['staking', 'investment', 'deposit']
+    ),
+    effective_from TIMESTAMP WITH TIME ZONE NOT NULL,
+    notes TEXT,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.commission_schedule_levels (
+    schedule_id UUID NOT NULL REFERENCES public.commission_schedules(id) ON DELETE CASCADE,
+    level INTEGER NOT NULL CHECK (level BETWEEN 1 AND 20),
+    usdt_rate DECIMAL(5,2) NOT NULL CHECK (usdt_rate >= 0 AND usdt_rate <= 100), -- % of the source amount
+    jrc_rate DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (jrc_rate >= 0 AND jrc_rate <= 100), -- % of the source JRC amount
+    PRIMARY KEY (schedule_id, level)
+);
+
+CREATE INDEX IF NOT EXISTS idx_commission_schedules_effective_from
+ON public.commission_schedules(effective_from DESC);
+
+DROP TRIGGER IF EXISTS update_commission_schedules_updated_at ON public.commission_schedules;
+CREATE TRIGGER update_commission_schedules_updated_at
+    BEFORE UPDATE ON public.commission_schedules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- A schedule (and its levels) can only change before it takes effect
+CREATE OR REPLACE FUNCTION prevent_effective_schedule_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_effective_from TIMESTAMP WITH TIME ZONE;
+BEGIN
+    IF TG_TABLE_NAME = 'commission_schedules' THEN
+        v_effective_from := OLD.effective_from;
+    ELSE
+        SELECT effective_from INTO v_effective_from
+        FROM public.commission_schedules
+        WHERE id = COALESCE(NEW.schedule_id, OLD.schedule_id);
+    END IF;
+
+    IF v_effective_from IS NOT NULL AND v_effective_from <= NOW() THEN
+        RAISE EXCEPTION 'Commission schedules cannot be changed once in effect';
+    END IF;
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS commission_schedules_freeze_effective ON public.commission_schedules;
+CREATE TRIGGER commission_schedules_freeze_effective
+    BEFORE UPDATE OR DELETE ON public.commission_schedules
+    FOR EACH ROW EXECUTE FUNCTION prevent_effective_schedule_changes();
+
+DROP TRIGGER IF EXISTS commission_schedule_levels_freeze_effective ON public.commission_schedule_levels;
+CREATE TRIGGER commission_schedule_levels_freeze_effective
+    BEFORE INSERT OR UPDATE OR DELETE ON public.commission_schedule_levels
+    FOR EACH ROW EXECUTE FUNCTION prevent_effective_schedule_changes();
+
+-- Seed the rates previously hardcoded in pay_referral_commissions() and ReferralService,
+-- effective for all past commissions. Levels are inserted before the schedule is dated so
+-- the freeze trigger allows them.
+DO $$
+DECLARE
+    v_schedule_id UUID;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.commission_schedules) THEN
+        INSERT INTO public.commission_schedules (name, transaction_types, effective_from, notes)
+        VALUES ('Standard 6-level', ARRAY['staking', 'investment', 'deposit'], 'infinity', 'Rates in use before commission schedules were introduced')
+        RETURNING id INTO v_schedule_id;
+
+        INSERT INTO public.commission_schedule_levels (schedule_id, level, usdt_rate, jrc_rate) VALUES
+            (v_schedule_id, 1, 10, 0),
+            (v_schedule_id, 2, 5, 0),
+            (v_schedule_id, 3, 3, 0),
+            (v_schedule_id, 4, 2, 0),
+            (v_schedule_id, 5, 1, 0),
+            (v_schedule_id, 6, 0.5, 0);
+
+        UPDATE public.commission_schedules
+        SET effective_from = '1970-01-01'
+        WHERE id = v_schedule_id;
+    END IF;
+END $$;
+
+-- Schedule in effect for a commission source type at a point in time
+CREATE OR REPLACE FUNCTION get_commission_schedule(
+    p_transaction_type TEXT,
+    p_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS UUID AS $$
+    SELECT id
+    FROM public.commission_schedules
+    WHERE p_transaction_type = ANY(transaction_types)
+    AND effective_from <= p_at
+    ORDER BY effective_from DESC, created_at DESC
+    LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- Create (p_schedule_id NULL) or replace a schedule that is not yet in effect, with its
+-- levels, in one transaction. p_levels: [{"level": 1, "usdt_rate": 10, "jrc_rate": 20}, ...]
+CREATE OR REPLACE FUNCTION save_commission_schedule(
+    p_schedule_id UUID,
+    p_name TEXT,
+    p_transaction_types TEXT[],
+    p_effective_from TIMESTAMP WITH TIME ZONE,
+    p_levels JSONB,
+    p_notes TEXT DEFAULT NULL,
+    p_admin_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    v_schedule_id UUID := p_schedule_id;
+    v_level_count INTEGER;
+BEGIN
+    IF p_effective_from IS NULL OR p_effective_from <= NOW() THEN
+        RAISE EXCEPTION 'Effective date must be in the future';
+    END IF;
+
+    v_level_count := jsonb_array_length(p_levels);
+
+    IF v_level_count = 0 OR EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(p_levels) WITH ORDINALITY AS l(value, position)
+        WHERE (l.value->>'level')::INTEGER <> l.position
+    ) THEN
+        RAISE EXCEPTION 'Levels must be numbered 1 to % in order', GREATEST(v_level_count, 1);
+    END IF;
+
+    IF v_schedule_id IS NULL THEN
+        INSERT INTO public.commission_schedules (name, transaction_types, effective_from, notes, created_by)
+        VALUES (p_name, p_transaction_types, p_effective_from, p_notes, p_admin_id)
+        RETURNING id INTO v_schedule_id;
+    ELSE
+        UPDATE public.commission_schedules
+        SET name = p_name,
+            transaction_types = p_transaction_types,
+            effective_from = p_effective_from,
+            notes = p_notes
+        WHERE id = v_schedule_id;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Commission schedule not found';
+        END IF;
+
+        DELETE FROM public.commission_schedule_levels WHERE schedule_id = v_schedule_id;
+    END IF;
+
+    INSERT INTO public.commission_schedule_levels (schedule_id, level, usdt_rate, jrc_rate)
+    SELECT v_schedule_id, (l->>'level')::INTEGER, (l->>'usdt_rate')::DECIMAL, COALESCE((l->>'jrc_rate')::DECIMAL, 0)
+    FROM jsonb_array_elements(p_levels) AS l;
+
+    RETURN v_schedule_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION save_commission_schedule(UUID, TEXT, TEXT[], TIMESTAMP WITH TIME ZONE, JSONB, TEXT, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION save_commission_schedule(UUID, TEXT, TEXT[], TIMESTAMP WITH TIME ZONE, JSONB, TEXT, UUID) TO service_role;
+
+-- Commissions remember the schedule they were paid under
+ALTER TABLE public.referral_commissions
+ADD COLUMN IF NOT EXISTS schedule_id UUID REFERENCES public.commission_schedules(id);
+
+-- Referral depth is set by the schedules now, not fixed at 4 levels
+ALTER TABLE public.referrals DROP CONSTRAINT IF EXISTS referrals_level_check;
+ALTER TABLE public.referrals ADD CONSTRAINT referrals_level_check CHECK (level >= 1);
+
+-- Same as in add_atomic_referral_payouts.sql, but levels and rates come from the schedule
+-- in effect for p_transaction_type
+CREATE OR REPLACE FUNCTION pay_referral_commissions(
+    p_user_id UUID,
+    p_amount DECIMAL(20,8),
+    p_source_transaction_id UUID,
+    p_transaction_type TEXT,
+    p_plan_type TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_schedule_id UUID;
+    v_rate RECORD;
+    v_current_id UUID := p_user_id;
+    v_source_user_id UUID;
+    v_sponsor_code TEXT;
+    v_referrer_id UUID;
+    v_commission DECIMAL(20,8);
+    v_description TEXT;
+    v_result JSON;
+    v_paid INTEGER := 0;
+BEGIN
+    -- Serializes concurrent payouts for the same source transaction
+    SELECT user_id INTO v_source_user_id
+    FROM public.transactions
+    WHERE id = p_source_transaction_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_source_user_id IS DISTINCT FROM p_user_id THEN
+        RAISE EXCEPTION 'Source transaction not found';
+    END IF;
+
+    v_schedule_id := get_commission_schedule(p_transaction_type);
+
+    IF v_schedule_id IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    FOR v_rate IN
+        SELECT level, usdt_rate, jrc_rate
+        FROM public.commission_schedule_levels
+        WHERE schedule_id = v_schedule_id
+        ORDER BY level
+    LOOP
+        SELECT sponsor_id INTO v_sponsor_code
+        FROM public.profiles
+        WHERE id = v_current_id;
+
+        EXIT WHEN v_sponsor_code IS NULL;
+
+        SELECT id INTO v_referrer_id
+        FROM public.profiles
+        WHERE referral_code = v_sponsor_code;
+
+        EXIT WHEN v_referrer_id IS NULL;
+
+        v_commission := ROUND(p_amount * v_rate.usdt_rate / 100, 8);
+
+        IF v_commission > 0 AND NOT EXISTS (
+            SELECT 1 FROM public.referral_commissions
+            WHERE transaction_id = p_source_transaction_id AND level = v_rate.level
+        ) THEN
+            v_description := 'Level ' || v_rate.level || ' USDT referral commission from ' || p_transaction_type
+                || COALESCE(' (' || p_plan_type || ')', '');
+
+            v_result := post_ledger_journal(jsonb_build_object(
+                'journal_type', 'referral_commission',
+                'reference_id', p_source_transaction_id::TEXT,
+                'description', v_description,
+                'created_by', p_user_id,
+                'metadata', jsonb_build_object('level', v_rate.level, 'referred_id', p_user_id, 'schedule_id', v_schedule_id),
+                'entries', jsonb_build_array(
+                    jsonb_build_object('account', 'referral_expense', 'amount', -v_commission, 'currency', 'USDT'),
+                    jsonb_build_object('account', 'main_wallet', 'user_id', v_referrer_id, 'amount', v_commission, 'currency', 'USDT')
+                ),
+                'transactions', jsonb_build_array(
+                    jsonb_build_object(
+                        'user_id', v_referrer_id,
+                        'transaction_type', 'referral_bonus',
+                        'amount', v_commission,
+                        'description', v_description
+                    )
+                )
+            ));
+
+            INSERT INTO public.referral_commissions (
+                referrer_id,
+                referred_id,
+                transaction_id,
+                payout_transaction_id,
+                schedule_id,
+                level,
+                commission_percentage,
+                commission_amount,
+                usdt_commission,
+                jrc_percentage,
+                transaction_type,
+                plan_type
+            ) VALUES (
+                v_referrer_id,
+                p_user_id,
+                p_source_transaction_id,
+                (v_result->'transaction_ids'->>0)::UUID,
+                v_schedule_id,
+                v_rate.level,
+                v_rate.usdt_rate,
+                v_commission,
+                v_commission,
+                v_rate.jrc_rate,
+                p_transaction_type,
+                p_plan_type
+            );
+
+            v_paid := v_paid + 1;
+        END IF;
+
+        v_current_id := v_referrer_id;
+    END LOOP;
+
+    RETURN v_paid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION pay_referral_commissions(UUID, DECIMAL, UUID, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION pay_referral_commissions(UUID, DECIMAL, UUID, TEXT, TEXT) TO service_role;
+
+-- RLS: schedules are public (the referral page shows the rates), admins manage them
+ALTER TABLE public.commission_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.commission_schedule_levels ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view commission schedules" ON public.commission_schedules
+    FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can view commission schedule levels" ON public.commission_schedule_levels
+    FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage commission schedules" ON public.commission_schedules
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+CREATE POLICY "Admins can manage commission schedule levels" ON public.commission_schedule_levels
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+-- Same as in fix_referral_stats_6_levels.sql, but the levels and rates come from the
+-- staking schedule in effect; earnings on levels it no longer has are still listed
+CREATE OR REPLACE FUNCTION get_referral_stats_optimized(
+    user_id UUID
+)
+RETURNS JSON AS $$
+DECLARE
+    user_referral_code TEXT;
+    v_schedule_id UUID;
+    stats JSON;
+BEGIN
+    -- Get user's referral code
+    SELECT referral_code INTO user_referral_code
+    FROM profiles
+    WHERE id = user_id;
+
+    IF user_referral_code IS NULL THEN
+        RETURN json_build_object(
+            'totalUsdtEarned', 0,
+            'totalReferrals', 0,
+            'levelStats', '[]'::json
+        );
+    END IF;
+
+    v_schedule_id := get_commission_schedule('staking');
+
+    SELECT json_build_object(
+        'totalUsdtEarned', COALESCE(totals.total_usdt, 0),
+        'totalReferrals', COALESCE(direct_count.count, 0),
+        'levelStats', COALESCE(level_stats.stats, '[]'::json)
+    ) INTO stats
+    FROM (
+        SELECT
+            SUM(COALESCE(commission_amount, 0)) as total_usdt
+        FROM referral_commissions
+        WHERE referrer_id = user_id
+    ) totals
+    CROSS JOIN (
+        -- Count direct referrals (Level 1)
+        SELECT COUNT(*) as count
+        FROM profiles
+        WHERE sponsor_id = user_referral_code
+    ) direct_count
+    CROSS JOIN (
+        SELECT json_agg(
+            json_build_object(
+                'level', level_data.level,
+                'count', COALESCE(level_data.referral_count, 0),
+                'usdtEarned', COALESCE(level_data.usdt_earned, 0),
+                'usdtRate', COALESCE(level_data.usdt_rate, 0)
+            ) ORDER BY level_data.level
+        ) as stats
+        FROM (
+            SELECT
+                levels.level,
+                csl.usdt_rate,
+                COUNT(DISTINCT rc.referred_id) as referral_count,
+                SUM(COALESCE(rc.commission_amount, 0)) as usdt_earned
+            FROM (
+                SELECT level FROM public.commission_schedule_levels WHERE schedule_id = v_schedule_id
+                UNION
+                SELECT DISTINCT level FROM referral_commissions WHERE referrer_id = user_id
+            ) levels
+            LEFT JOIN public.commission_schedule_levels csl
+                ON csl.schedule_id = v_schedule_id AND csl.level = levels.level
+            LEFT JOIN referral_commissions rc ON rc.referrer_id = user_id AND rc.level = levels.level
+            GROUP BY levels.level, csl.usdt_rate
+        ) level_data
+    ) level_stats;
+
+    RETURN stats;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_referral_stats_optimized TO authenticated;
+
+GRANT SELECT ON public.commission_schedules TO authenticated;
+GRANT SELECT ON public.commission_schedule_levels TO authenticated;
+GRANT ALL ON public.commission_schedules TO service_role;
+GRANT ALL ON public.commission_schedule_levels TO service_role;
+GRANT EXECUTE ON FUNCTION get_commission_schedule(TEXT, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+COMMENT ON TABLE public.commission_schedules IS 'Referral commission schedules; the latest one in effect for a source type applies';
+COMMENT ON TABLE public.commission_schedule_levels IS 'USDT and JRC commission rate per referral level of a schedule';
+COMMENT ON COLUMN public.referral_commissions.schedule_id IS 'Commission schedule the rates were taken from';
+
+SELECT 'Commission schedules added successfully!' as status;
@@ -0,0 +1,218 @@
+-- Deposit network and token registry
+-- Chains (BEP20, ERC20, TRC20, ...) and the tokens accepted on each drive the deposit page,
+-- /api/deposit/manual-request and the on-chain verifier (lib/chain-adapters.ts has one
+-- adapter per chain type). deposit_requests.network/currency now reference a registry token.
+-- Amounts on deposit requests are in token units; approval credits amount * usd_rate.
+-- Run after add_deposit_verification.sql.
+
+CREATE TABLE IF NOT EXISTS public.deposit_networks (
+    id TEXT PRIMARY KEY, -- the network code shown to users, e.g. BEP20
+    name TEXT NOT NULL,
+    chain_type TEXT NOT NULL CHECK (chain_type IN ('evm', 'tron')),
+    chain_id BIGINT, -- EIP-155 chain id for EVM chains
+    rpc_url TEXT NOT NULL, -- JSON-RPC endpoint (EVM) or full node HTTP API (Tron)
+    explorer_tx_url TEXT NOT NULL, -- '{hash}' is replaced with the transaction hash
+    min_confirmations INTEGER NOT NULL CHECK (min_confirmations > 0),
+    deposit_address TEXT, -- where users send manual deposits; NULL falls back to the server env
+    is_active BOOLEAN NOT NULL DEFAULT false,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.deposit_tokens (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    network_id TEXT NOT NULL REFERENCES public.deposit_networks(id) ON UPDATE CASCADE,
+    symbol TEXT NOT NULL,
+    name TEXT NOT NULL,
+    contract_address TEXT, -- NULL for the chain's native coin
+    decimals INTEGER NOT NULL CHECK (decimals BETWEEN 0 AND 36),
+    min_deposit DECIMAL(20,8) NOT NULL CHECK (min_deposit > 0),
+    max_deposit DECIMAL(20,8) NOT NULL,
+    usd_rate DECIMAL(20,8) CHECK (usd_rate > 0), -- USD credited per token; NULL blocks approval
+    is_active BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (network_id, symbol),
+    CHECK (max_deposit >= min_deposit)
+);
+
+INSERT INTO public.deposit_networks (id, name, chain_type, chain_id, rpc_url, explorer_tx_url, min_confirmations, is_active, sort_order)
+VALUES
+    ('BEP20', 'BNB Smart Chain', 'evm', 56, 'https://bsc-dataseed1.binance.org/', 'https://bscscan.com/tx/{hash}', 12, true, 1),
+    ('TRC20', 'TRON', 'tron', NULL, 'https://api.trongrid.io', 'https://tronscan.org/#/transaction/{hash}', 20, false, 2),
+    ('ERC20', 'Ethereum', 'evm', 1, 'https://ethereum.publicnode.com', 'https://etherscan.io/tx/{hash}', 12, false, 3)
+ON CONFLICT (id) DO NOTHING;
+
+-- TRC20 and ERC20 need a deposit_address (or env) before they are activated; native BNB
+-- needs a usd_rate
+INSERT INTO public.deposit_tokens (network_id, symbol, name, contract_address, decimals, min_deposit, max_deposit, usd_rate, is_active)
+VALUES
+    ('BEP20', 'USDT', 'Tether USD', '0x55d398326f99059fF775485246999027B3197955', 18, 10, 50000, 1, true),
+    ('BEP20', 'USDC', 'USD Coin', '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d', 18, 10, 50000, 1, false),
+    ('BEP20', 'BNB', 'BNB', NULL, 18, 0.02, 100, NULL, false),
+    ('TRC20', 'USDT', 'Tether USD', 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t', 6, 10, 50000, 1, true),
+    ('ERC20', 'USDT', 'Tether USD', '0xdAC17F958D2ee523a2206206994597C13D831ec7', 6, 10, 50000, 1, true),
+    ('ERC20', 'USDC', 'USD Coin', '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', 6, 10, 50000, 1, true)
+ON CONFLICT (network_id, symbol) DO NOTHING;
+
+-- Deposit requests reference a registry token instead of free text. Limits moved to
+-- deposit_tokens because they are in token units.
+ALTER TABLE public.deposit_requests DROP CONSTRAINT IF EXISTS deposit_requests_amount_check;
+ALTER TABLE public.deposit_requests ALTER COLUMN amount TYPE DECIMAL(20,8);
+ALTER TABLE public.deposit_requests ADD CONSTRAINT deposit_requests_amount_check CHECK (amount > 0);
+
+ALTER TABLE public.deposit_requests
+ADD COLUMN IF NOT EXISTS usd_amount DECIMAL(15,2); -- credited on approval
+
+ALTER TABLE public.deposit_requests DROP CONSTRAINT IF EXISTS deposit_requests_token_fkey;
+ALTER TABLE public.deposit_requests
+ADD CONSTRAINT deposit_requests_token_fkey
+FOREIGN KEY (network, currency) REFERENCES public.deposit_tokens(network_id, symbol) ON UPDATE CASCADE;
+
+-- Same as in add_deposit_verification.sql, but the credited amount is converted with the
+-- token's usd_rate
+CREATE OR REPLACE FUNCTION process_manual_deposit_approval(
+  p_request_id UUID,
+  p_admin_id UUID,
+  p_admin_notes TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_request deposit_requests%ROWTYPE;
+  v_usd_rate DECIMAL(20,8);
+  v_usd_amount DECIMAL(15,2);
+  v_fee_amount DECIMAL(15,2);
+  v_net_amount DECIMAL(15,2);
+  v_ledger JSON;
+  v_transaction_id UUID;
+  v_result JSON;
+BEGIN
+  -- Get the deposit request
+  SELECT * INTO v_request
+  FROM deposit_requests
+  WHERE id = p_request_id AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Deposit request not found or already processed');
+  END IF;
+
+  -- The hash may already be credited through another request or the automatic deposit
+  -- flow, possibly spelt in a different case
+  IF EXISTS (
+    SELECT 1 FROM transactions
+    WHERE lower(reference_id) = lower(v_request.tx_hash) AND status = 'completed'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'This transaction hash has already been credited');
+  END IF;
+
+  SELECT usd_rate INTO v_usd_rate
+  FROM deposit_tokens
+  WHERE network_id = v_request.network AND symbol = v_request.currency;
+
+  IF v_usd_rate IS NULL THEN
+    RETURN json_build_object('success', false, 'error', 'No USD rate configured for ' || v_request.currency || ' (' || v_request.network || ')');
+  END IF;
+
+  -- Calculate fee (1%) and net amount
+  v_usd_amount := ROUND(v_request.amount * v_usd_rate, 2);
+  v_fee_amount := v_usd_amount * 0.01;
+  v_net_amount := v_usd_amount - v_fee_amount;
+
+  -- Credit the main wallet through the ledger, 1% fee to fee_income
+  v_ledger := post_ledger_journal(jsonb_build_object(
+    'journal_type', 'deposit',
+    'reference_id', v_request.tx_hash,
+    'description', 'Manual deposit - ' || v_request.amount::TEXT || ' ' || v_request.currency || ' (' || v_request.network || ')',
+    'created_by', p_admin_id,
+    'metadata', jsonb_build_object('deposit_request_id', p_request_id),
+    'entries', jsonb_build_array(
+      jsonb_build_object('account', 'external', 'amount', -v_usd_amount),
+      jsonb_build_object('account', 'main_wallet', 'user_id', v_request.user_id, 'amount', v_net_amount),
+      jsonb_build_object('account', 'fee_income', 'amount', v_fee_amount)
+    ),
+    'transactions', jsonb_build_array(
+      jsonb_build_object(
+        'user_id', v_request.user_id,
+        'transaction_type', 'deposit',
+        'amount', v_net_amount,
+        'fee', v_fee_amount,
+        'net_amount', v_net_amount,
+        'description', 'Manual deposit - ' || v_request.amount::TEXT || ' ' || v_request.currency || ' (' || v_request.network || ')'
+      )
+    )
+  ));
+
+  v_transaction_id := (v_ledger->'transaction_ids'->>0)::UUID;
+
+  -- Update deposit request status
+  UPDATE deposit_requests
+  SET
+    status = 'approved',
+    usd_amount = v_usd_amount,
+    processed_by = p_admin_id,
+    processed_at = NOW(),
+    admin_notes = p_admin_notes,
+    updated_at = NOW()
+  WHERE id = p_request_id;
+
+  -- Return success result
+  v_result := json_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'amount', v_usd_amount,
+    'token_amount', v_request.amount,
+    'fee', v_fee_amount,
+    'net_amount', v_net_amount,
+    'user_id', v_request.user_id
+  );
+
+  RETURN v_result;
+
+EXCEPTION WHEN OTHERS THEN
+  -- Rollback will happen automatically
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+-- RLS: the registry is public read (the deposit page lists it), admins manage it
+ALTER TABLE public.deposit_networks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.deposit_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view deposit networks" ON public.deposit_networks
+    FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can view deposit tokens" ON public.deposit_tokens
+    FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage deposit networks" ON public.deposit_networks
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+CREATE POLICY "Admins can manage deposit tokens" ON public.deposit_tokens
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+GRANT SELECT ON public.deposit_networks TO authenticated;
+GRANT SELECT ON public.deposit_tokens TO authenticated;
+GRANT ALL ON public.deposit_networks TO service_role;
+GRANT ALL ON public.deposit_tokens TO service_role;
+
+COMMENT ON TABLE public.deposit_networks IS 'Chains accepted for manual deposits, with RPC endpoint and required confirmations';
+COMMENT ON TABLE public.deposit_tokens IS 'Tokens accepted on each deposit network; contract_address is NULL for the native coin';
+COMMENT ON COLUMN public.deposit_requests.amount IS 'Amount sent, in units of currency';
+COMMENT ON COLUMN public.deposit_requests.usd_amount IS 'USD value credited on approval (amount * deposit_tokens.usd_rate)';
+
+SELECT 'Deposit networks added successfully!' as status;
@@ -0,0 +1,129 @@
+-- On-chain verification of manual deposit requests
+-- lib/deposit-verification-service.ts checks each pending request's tx_hash against BSC:
+-- a confirmed USDT transfer to the global deposit wallet for the requested amount is
+-- marked verified (and approved when DEPOSIT_AUTO_APPROVE is on and the sender is one of
+-- the requester's confirmed withdrawal addresses or earlier approved senders); anything
+-- else is flagged with a reason code for /admin/deposit-requests.
+-- Run after manual_deposit_schema.sql and add_ledger_system.sql.
+
+ALTER TABLE public.deposit_requests
+ADD COLUMN IF NOT EXISTS verification_status TEXT NOT NULL DEFAULT 'unverified'
+    CHECK (verification_status IN ('unverified', 'verified', 'flagged')),
+ADD COLUMN IF NOT EXISTS verification_code TEXT,
+ADD COLUMN IF NOT EXISTS verification_detail TEXT,
+ADD COLUMN IF NOT EXISTS onchain_amount DECIMAL(20,8),
+ADD COLUMN IF NOT EXISTS onchain_from TEXT,
+ADD COLUMN IF NOT EXISTS verification_attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_verified_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_deposit_requests_verification
+ON public.deposit_requests(status, verification_status);
+
+-- Transaction hashes are hex, so a hash submitted again in another case is the same
+-- transaction. New requests store it lower-cased; the index covers older rows too
+-- (resolve any existing case-only duplicates before running this).
+CREATE UNIQUE INDEX IF NOT EXISTS idx_deposit_requests_tx_hash_lower
+ON public.deposit_requests(lower(tx_hash));
+
+-- Same as in manual_deposit_schema.sql, but the request row is locked so the verifier and
+-- an admin approving at the same moment cannot both credit the deposit, and a hash that
+-- is already credited is refused
+CREATE OR REPLACE FUNCTION process_manual_deposit_approval(
+  p_request_id UUID,
+  p_admin_id UUID,
+  p_admin_notes TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_request deposit_requests%ROWTYPE;
+  v_fee_amount DECIMAL(15,2);
+  v_net_amount DECIMAL(15,2);
+  v_ledger JSON;
+  v_transaction_id UUID;
+  v_result JSON;
+BEGIN
+  -- Get the deposit request
+  SELECT * INTO v_request
+  FROM deposit_requests
+  WHERE id = p_request_id AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Deposit request not found or already processed');
+  END IF;
+
+  -- The hash may already be credited through another request or the automatic deposit
+  -- flow, possibly spelt in a different case
+  IF EXISTS (
+    SELECT 1 FROM transactions
+    WHERE lower(reference_id) = lower(v_request.tx_hash) AND status = 'completed'
+  ) THEN
+    RETURN json_build_object('success', false, 'error', 'This transaction hash has already been credited');
+  END IF;
+
+  -- Calculate fee (1%) and net amount
+  v_fee_amount := v_request.amount * 0.01;
+  v_net_amount := v_request.amount - v_fee_amount;
+
+  -- Credit the main wallet through the ledger, 1% fee to fee_income
+  v_ledger := post_ledger_journal(jsonb_build_object(
+    'journal_type', 'deposit',
+    'reference_id', v_request.tx_hash,
+    'description', 'Manual deposit - ' || v_request.currency || ' (' || v_request.network || ')',
+    'created_by', p_admin_id,
+    'metadata', jsonb_build_object('deposit_request_id', p_request_id),
+    'entries', jsonb_build_array(
+      jsonb_build_object('account', 'external', 'amount', -(v_net_amount + v_fee_amount)),
+      jsonb_build_object('account', 'main_wallet', 'user_id', v_request.user_id, 'amount', v_net_amount),
+      jsonb_build_object('account', 'fee_income', 'amount', v_fee_amount)
+    ),
+    'transactions', jsonb_build_array(
+      jsonb_build_object(
+        'user_id', v_request.user_id,
+        'transaction_type', 'deposit',
+        'amount', v_net_amount,
+        'fee', v_fee_amount,
+        'net_amount', v_net_amount,
+        'description', 'Manual deposit - ' || v_request.currency || ' (' || v_request.network || ')'
+      )
+    )
+  ));
+
+  v_transaction_id := (v_ledger->'transaction_ids'->>0)::UUID;
+
+  -- Update deposit request status
+  UPDATE deposit_requests
+  SET
+    status = 'approved',
+    processed_by = p_admin_id,
+    processed_at = NOW(),
+    admin_notes = p_admin_notes,
+    updated_at = NOW()
+  WHERE id = p_request_id;
+
+  -- Return success result
+  v_result := json_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'amount', v_request.amount,
+    'fee', v_fee_amount,
+    'net_amount', v_net_amount,
+    'user_id', v_request.user_id
+  );
+
+  RETURN v_result;
+
+EXCEPTION WHEN OTHERS THEN
+  -- Rollback will happen automatically
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+COMMENT ON COLUMN public.deposit_requests.verification_status IS 'unverified | verified | flagged, set by the on-chain deposit verifier';
+COMMENT ON COLUMN public.deposit_requests.verification_code IS 'Reason code when flagged, e.g. WRONG_RECIPIENT or AMOUNT_MISMATCH';
+COMMENT ON COLUMN public.deposit_requests.onchain_amount IS 'USDT received by the deposit wallet in tx_hash';
+
+SELECT 'Deposit verification added successfully!' as status;
@@ -0,0 +1,266 @@
+-- Deposit address watcher
+-- lib/deposit-watcher-service.ts scans BSC blocks for USDT Transfer events to users'
+-- bsc_wallet_address and credits the fund wallet once a transfer has
+-- DEPOSIT_WATCHER_CONFIRMATIONS confirmations, so users no longer paste a tx hash.
+-- Transfers are keyed by (tx_hash, transfer_index) rather than the block log index, which
+-- changes when a reorg moves the transaction to another block. process_bsc_deposit() is
+-- redefined to refuse hashes the watcher has already credited.
+-- Run after add_ledger_system.sql and add_staking_creation_function.sql.
+
+-- Last block each scanner has fully processed
+CREATE TABLE IF NOT EXISTS public.chain_scan_cursors (
+    scanner TEXT PRIMARY KEY,
+    last_block BIGINT NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.onchain_deposits (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    tx_hash TEXT NOT NULL,
+    transfer_index INTEGER NOT NULL, -- position among the transaction's USDT transfers
+    from_address TEXT NOT NULL,
+    to_address TEXT NOT NULL,
+    amount DECIMAL(20,8) NOT NULL CHECK (amount > 0),
+    block_number BIGINT NOT NULL,
+    block_hash TEXT NOT NULL,
+    confirmations INTEGER NOT NULL DEFAULT 0,
+    -- detected: waiting for confirmations; orphaned: gone from the chain after a reorg;
+    -- ignored: not credited (below minimum, from a platform wallet, already credited)
+    status TEXT NOT NULL DEFAULT 'detected' CHECK (status IN ('detected', 'credited', 'orphaned', 'ignored')),
+    ignore_reason TEXT,
+    transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+    ledger_journal_id UUID REFERENCES public.ledger_journals(id) ON DELETE SET NULL,
+    credited_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (tx_hash, transfer_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_onchain_deposits_user_id ON public.onchain_deposits(user_id);
+CREATE INDEX IF NOT EXISTS idx_onchain_deposits_status ON public.onchain_deposits(status);
+
+-- Deposit wallets are matched case-insensitively
+CREATE INDEX IF NOT EXISTS idx_profiles_bsc_wallet_address_lower
+ON public.profiles(lower(bsc_wallet_address)) WHERE bsc_wallet_address IS NOT NULL;
+
+-- Credit a confirmed deposit to the fund wallet: 1% deposit fee to fee_income and referral
+-- commissions on the deposit, like process_bsc_deposit(). Runs once per deposit; a second
+-- call returns credited = false.
+CREATE OR REPLACE FUNCTION credit_onchain_deposit(
+    p_deposit_id UUID,
+    p_fee_rate DECIMAL DEFAULT 0.01
+)
+RETURNS JSON AS $$
+DECLARE
+    v_deposit public.onchain_deposits%ROWTYPE;
+    v_fee DECIMAL(20,8);
+    v_net DECIMAL(20,8);
+    v_description TEXT;
+    v_entries JSONB;
+    v_ledger JSON;
+    v_transaction_id UUID;
+    v_commissions INTEGER;
+BEGIN
+    SELECT * INTO v_deposit
+    FROM public.onchain_deposits
+    WHERE id = p_deposit_id AND status = 'detected'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', true, 'credited', false);
+    END IF;
+
+    -- Already credited through a pasted tx hash (completed deposit not created by the watcher),
+    -- which keeps the case it was typed in
+    IF EXISTS (
+        SELECT 1 FROM public.transactions t
+        WHERE lower(t.reference_id) = lower(v_deposit.tx_hash)
+        AND t.transaction_type IN ('deposit', 'bsc_deposit')
+        AND t.status = 'completed'
+        AND NOT EXISTS (SELECT 1 FROM public.onchain_deposits d WHERE d.transaction_id = t.id)
+    ) THEN
+        UPDATE public.onchain_deposits
+        SET status = 'ignored',
+            ignore_reason = 'Already credited from a submitted transaction hash',
+            updated_at = NOW()
+        WHERE id = v_deposit.id;
+
+        RETURN json_build_object('success', true, 'credited', false, 'reason', 'already_credited');
+    END IF;
+
+    v_fee := ROUND(v_deposit.amount * p_fee_rate, 8);
+    v_net := v_deposit.amount - v_fee;
+    v_description := 'BSC USDT deposit - TX: ' || v_deposit.tx_hash;
+
+    v_entries := jsonb_build_array(
+        jsonb_build_object('account', 'external', 'amount', -v_deposit.amount, 'currency', 'USDT'),
+        jsonb_build_object('account', 'fund_wallet', 'user_id', v_deposit.user_id, 'amount', v_net, 'currency', 'USDT')
+    );
+
+    IF v_fee > 0 THEN
+        v_entries := v_entries || jsonb_build_object('account', 'fee_income', 'amount', v_fee, 'currency', 'USDT');
+    END IF;
+
+    v_ledger := post_ledger_journal(jsonb_build_object(
+        'journal_type', 'bsc_deposit',
+        'reference_id', v_deposit.tx_hash,
+        'description', v_description,
+        'metadata', jsonb_build_object(
+            'onchain_deposit_id', v_deposit.id,
+            'transfer_index', v_deposit.transfer_index,
+            'block_number', v_deposit.block_number
+        ),
+        'entries', v_entries,
+        'transactions', jsonb_build_array(
+            jsonb_build_object(
+                'user_id', v_deposit.user_id,
+                'transaction_type', 'bsc_deposit',
+                'amount', v_deposit.amount,
+                'fee', v_fee,
+                'net_amount', v_net,
+                'description', v_description
+            )
+        )
+    ));
+
+    v_transaction_id := (v_ledger->'transaction_ids'->>0)::UUID;
+
+    UPDATE public.transactions
+    SET blockchain_tx_hash = v_deposit.tx_hash,
+        blockchain_network = 'BSC',
+        from_address = v_deposit.from_address,
+        to_address = v_deposit.to_address
+    WHERE id = v_transaction_id;
+
+    -- Upline commissions in the same transaction, so a failure rolls back the credit too
+    v_commissions := pay_referral_commissions(v_deposit.user_id, v_deposit.amount, v_transaction_id, 'deposit', 'deposit');
+
+    -- A pending hash submission for the same transfer can no longer be approved
+    UPDATE public.transactions
+    SET status = 'cancelled',
+        description = COALESCE(description, '') || ' - credited automatically by the deposit watcher'
+    WHERE lower(reference_id) = lower(v_deposit.tx_hash)
+    AND transaction_type IN ('deposit', 'bsc_deposit')
+    AND status = 'pending'
+    AND user_id = v_deposit.user_id;
+
+    UPDATE public.onchain_deposits
+    SET status = 'credited',
+        transaction_id = v_transaction_id,
+        ledger_journal_id = (v_ledger->>'journal_id')::UUID,
+        credited_at = NOW(),
+        updated_at = NOW()
+    WHERE id = v_deposit.id;
+
+    RETURN json_build_object(
+        'success', true,
+        'credited', true,
+        'transaction_id', v_transaction_id,
+        'amount', v_deposit.amount,
+        'fee', v_fee,
+        'net_amount', v_net,
+        'commissions_paid', v_commissions
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION credit_onchain_deposit(UUID, DECIMAL) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION credit_onchain_deposit(UUID, DECIMAL) TO service_role;
+
+-- Same as in add_ledger_system.sql, but a hash that is already credited (by the watcher or
+-- an earlier approval, in any case) is refused, so a pending submission of a transfer the
+-- watcher credited cannot be approved a second time
+CREATE OR REPLACE FUNCTION process_bsc_deposit(
+    p_user_id UUID,
+    p_deposit_amount DECIMAL,
+    p_fee_amount DECIMAL,
+    p_net_amount DECIMAL,
+    p_tx_hash TEXT,
+    p_from_address TEXT,
+    p_to_address TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+    transaction_id UUID;
+    v_entries JSONB;
+    v_ledger JSON;
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM public.transactions t
+        WHERE lower(t.reference_id) = lower(p_tx_hash)
+        AND t.status = 'completed'
+    ) THEN
+        RAISE EXCEPTION 'This transaction hash has already been credited';
+    END IF;
+
+    v_entries := jsonb_build_array(
+        jsonb_build_object('account', 'external', 'amount', -(p_net_amount + COALESCE(p_fee_amount, 0))),
+        jsonb_build_object('account', 'fund_wallet', 'user_id', p_user_id, 'amount', p_net_amount)
+    );
+
+    IF COALESCE(p_fee_amount, 0) > 0 THEN
+        v_entries := v_entries || jsonb_build_object('account', 'fee_income', 'amount', p_fee_amount);
+    END IF;
+
+    v_ledger := post_ledger_journal(jsonb_build_object(
+        'journal_type', 'bsc_deposit',
+        'reference_id', p_tx_hash,
+        'description', 'BSC USDT deposit - TX: ' || p_tx_hash,
+        'entries', v_entries,
+        'transactions', jsonb_build_array(
+            jsonb_build_object(
+                'user_id', p_user_id,
+                'transaction_type', 'bsc_deposit',
+                'amount', p_deposit_amount,
+                'fee', p_fee_amount,
+                'net_amount', p_net_amount,
+                'description', 'BSC USDT deposit - TX: ' || p_tx_hash
+            )
+        )
+    ));
+
+    transaction_id := (v_ledger->'transaction_ids'->>0)::UUID;
+
+    UPDATE public.transactions
+    SET blockchain_tx_hash = p_tx_hash,
+        blockchain_network = 'BSC',
+        token_contract_address = '0x7C5FCE4f6aF59eCd7a557Fa9a7812Eaf0A4E42cb', -- Testnet USDT
+        from_address = p_from_address,
+        to_address = p_to_address
+    WHERE id = transaction_id;
+
+    RETURN transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- RLS: users see their own detected deposits, admins see all; the watcher uses the service role
+ALTER TABLE public.onchain_deposits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chain_scan_cursors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own onchain deposits" ON public.onchain_deposits
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all onchain deposits" ON public.onchain_deposits
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+CREATE POLICY "Admins can view scan cursors" ON public.chain_scan_cursors
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+GRANT ALL ON public.onchain_deposits TO service_role;
+GRANT ALL ON public.chain_scan_cursors TO service_role;
+
+COMMENT ON TABLE public.chain_scan_cursors IS 'Last block processed by each block scanner, e.g. bsc_usdt_deposits';
+COMMENT ON TABLE public.onchain_deposits IS 'USDT transfers to user deposit addresses found by the deposit watcher';
+
+SELECT 'Deposit watcher added successfully!' as status;
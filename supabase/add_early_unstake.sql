@@ -0,0 +1,176 @@
+-- Early unstake with a configurable penalty
+-- Each staking period has its own early-withdrawal terms in staking_terms. The penalty is a
+-- percentage of principal (to fee_income) and, optionally, the rewards already earned,
+-- which are deducted from the principal returned to the fund wallet. The stake moves to
+-- the existing 'withdrawn' status.
+
+ALTER TABLE public.staking_terms
+ADD COLUMN IF NOT EXISTS early_unstake_enabled BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS early_unstake_penalty_percentage DECIMAL(5,2) NOT NULL DEFAULT 10
+    CHECK (early_unstake_penalty_percentage >= 0 AND early_unstake_penalty_percentage <= 100),
+ADD COLUMN IF NOT EXISTS early_unstake_forfeit_rewards BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.jrc_staking_plans
+ADD COLUMN IF NOT EXISTS withdrawn_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS early_unstake_penalty DECIMAL(20,8) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS forfeited_rewards DECIMAL(20,8) NOT NULL DEFAULT 0;
+
+-- Principal (minus penalties) returned to the fund wallet on early unstake
+ALTER TYPE transaction_type ADD VALUE IF NOT EXISTS 'staking_unstake';
+
+-- What an early unstake would pay right now (does not change anything)
+CREATE OR REPLACE FUNCTION quote_early_unstake(
+    p_user_id UUID,
+    p_staking_plan_id UUID
+)
+RETURNS JSON AS $$
+DECLARE
+    v_plan public.jrc_staking_plans%ROWTYPE;
+    v_terms public.staking_terms%ROWTYPE;
+    v_penalty DECIMAL(20,8);
+    v_forfeited DECIMAL(20,8) := 0;
+    v_payout DECIMAL(20,8);
+BEGIN
+    SELECT * INTO v_plan
+    FROM public.jrc_staking_plans
+    WHERE id = p_staking_plan_id AND user_id = p_user_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Staking plan not found';
+    END IF;
+
+    IF v_plan.status <> 'active' THEN
+        RAISE EXCEPTION 'Only active stakes can be unstaked';
+    END IF;
+
+    IF v_plan.end_date <= NOW() THEN
+        RAISE EXCEPTION 'Stake has matured; the principal is released automatically';
+    END IF;
+
+    SELECT * INTO v_terms
+    FROM public.staking_terms
+    WHERE period_days = v_plan.staking_period;
+
+    IF NOT FOUND OR NOT v_terms.early_unstake_enabled THEN
+        RAISE EXCEPTION 'Early unstaking is not available for this staking period';
+    END IF;
+
+    v_penalty := ROUND(v_plan.amount * v_terms.early_unstake_penalty_percentage / 100, 8);
+
+    IF v_terms.early_unstake_forfeit_rewards THEN
+        v_forfeited := LEAST(COALESCE(v_plan.total_profit_earned, 0), v_plan.amount - v_penalty);
+    END IF;
+
+    v_payout := v_plan.amount - v_penalty - v_forfeited;
+
+    RETURN json_build_object(
+        'staking_plan_id', v_plan.id,
+        'amount', v_plan.amount,
+        'staking_period', v_plan.staking_period,
+        'end_date', v_plan.end_date,
+        'days_remaining', CEIL(EXTRACT(EPOCH FROM (v_plan.end_date - NOW())) / 86400)::INTEGER,
+        'total_profit_earned', COALESCE(v_plan.total_profit_earned, 0),
+        'penalty_percentage', v_terms.early_unstake_penalty_percentage,
+        'penalty_amount', v_penalty,
+        'forfeit_rewards', v_terms.early_unstake_forfeit_rewards,
+        'forfeited_rewards', v_forfeited,
+        'payout', v_payout
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Withdraw an active stake early: penalty to fee_income, forfeited rewards back to
+-- profit_expense, the rest to the fund wallet, all in one transaction
+CREATE OR REPLACE FUNCTION early_unstake_staking_plan(
+    p_user_id UUID,
+    p_staking_plan_id UUID
+)
+RETURNS JSON AS $$
+DECLARE
+    v_plan public.jrc_staking_plans%ROWTYPE;
+    v_quote JSON;
+    v_penalty DECIMAL(20,8);
+    v_forfeited DECIMAL(20,8);
+    v_payout DECIMAL(20,8);
+    v_description TEXT;
+    v_entries JSONB;
+    v_ledger JSON;
+BEGIN
+    -- Lock the stake so the distributor cannot complete it at the same time
+    SELECT * INTO v_plan
+    FROM public.jrc_staking_plans
+    WHERE id = p_staking_plan_id AND user_id = p_user_id
+    FOR UPDATE;
+
+    v_quote := quote_early_unstake(p_user_id, p_staking_plan_id);
+    v_penalty := (v_quote->>'penalty_amount')::DECIMAL(20,8);
+    v_forfeited := (v_quote->>'forfeited_rewards')::DECIMAL(20,8);
+    v_payout := (v_quote->>'payout')::DECIMAL(20,8);
+
+    v_description := 'Early unstake of ' || v_plan.staking_period || '-day stake';
+
+    v_entries := jsonb_build_array(
+        jsonb_build_object('account', 'staking_pool', 'amount', -v_plan.amount, 'currency', 'USDT')
+    );
+
+    IF v_payout > 0 THEN
+        v_entries := v_entries || jsonb_build_object('account', 'fund_wallet', 'user_id', p_user_id, 'amount', v_payout, 'currency', 'USDT');
+    END IF;
+
+    IF v_penalty > 0 THEN
+        v_entries := v_entries || jsonb_build_object('account', 'fee_income', 'amount', v_penalty, 'currency', 'USDT');
+    END IF;
+
+    IF v_forfeited > 0 THEN
+        v_entries := v_entries || jsonb_build_object('account', 'profit_expense', 'amount', v_forfeited, 'currency', 'USDT');
+    END IF;
+
+    v_ledger := post_ledger_journal(jsonb_build_object(
+        'journal_type', 'staking_unstake',
+        'reference_id', 'UNSTAKE_' || v_plan.id,
+        'description', v_description,
+        'created_by', p_user_id,
+        'metadata', v_quote::JSONB,
+        'entries', v_entries,
+        'transactions', jsonb_build_array(
+            jsonb_build_object(
+                'user_id', p_user_id,
+                'transaction_type', 'staking_unstake',
+                'amount', v_plan.amount,
+                'fee', v_penalty + v_forfeited,
+                'net_amount', v_payout,
+                'description', v_description
+            )
+        )
+    ));
+
+    UPDATE public.jrc_staking_plans
+    SET status = 'withdrawn',
+        withdrawn_at = NOW(),
+        early_unstake_penalty = v_penalty,
+        forfeited_rewards = v_forfeited,
+        principal_released = v_payout,
+        updated_at = NOW()
+    WHERE id = v_plan.id;
+
+    RETURN (v_quote::JSONB || jsonb_build_object(
+        'success', true,
+        'transaction_id', v_ledger->'transaction_ids'->>0,
+        'fund_wallet_balance', (
+            SELECT fund_wallet_balance FROM public.profiles WHERE id = p_user_id
+        )
+    ))::JSON;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the server (service role) may quote or unstake
+REVOKE ALL ON FUNCTION quote_early_unstake(UUID, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION early_unstake_staking_plan(UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION quote_early_unstake(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION early_unstake_staking_plan(UUID, UUID) TO service_role;
+
+COMMENT ON COLUMN public.staking_terms.early_unstake_penalty_percentage IS 'Penalty on early unstake, as a percentage of principal';
+COMMENT ON COLUMN public.staking_terms.early_unstake_forfeit_rewards IS 'Whether rewards already earned are deducted from the principal returned on early unstake';
+COMMENT ON FUNCTION early_unstake_staking_plan(UUID, UUID) IS 'Atomically withdraws an active stake early, applying the period''s penalty';
+
+SELECT 'Early unstake support added successfully!' as status;
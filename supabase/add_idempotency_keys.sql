@@ -0,0 +1,41 @@
+-- Add Idempotency Keys
+-- Stores the first response for each (user, endpoint, Idempotency-Key) so that repeated
+-- submissions within 24 hours replay the original result instead of moving money twice.
+
+CREATE TABLE public.idempotency_keys (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    scope TEXT NOT NULL,              -- endpoint the key was used on, e.g. 'transfer'
+    idempotency_key TEXT NOT NULL,
+    request_hash TEXT NOT NULL,       -- SHA-256 of the request body
+    status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed')),
+    response_status INTEGER,
+    response_body JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (NOW() + INTERVAL '24 hours'),
+    UNIQUE(user_id, scope, idempotency_key)
+);
+
+CREATE INDEX idx_idempotency_keys_expires_at ON public.idempotency_keys(expires_at);
+
+-- Only the server (service role) reads and writes keys
+ALTER TABLE public.idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+-- Remove expired keys (can be run from a cron job)
+CREATE OR REPLACE FUNCTION purge_expired_idempotency_keys()
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    DELETE FROM public.idempotency_keys WHERE expires_at < NOW();
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION purge_expired_idempotency_keys() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION purge_expired_idempotency_keys() TO service_role;
+
+COMMENT ON TABLE public.idempotency_keys IS 'Stored responses for Idempotency-Key headers on money-moving endpoints';
+
+SELECT 'Idempotency keys table created successfully!' as status;
@@ -0,0 +1,95 @@
+-- Server-side investment creation
+-- create_investment_plan() creates the investment_plans row, debits the paying wallet,
+-- records the investment transaction and pays referral commissions in a single
+-- database transaction. Plan terms are validated by the API before calling it.
+-- Requires add_ledger_system.sql and add_staking_creation_function.sql (pay_referral_commissions).
+
+CREATE OR REPLACE FUNCTION create_investment_plan(
+    p_user_id UUID,
+    p_plan_type plan_type,
+    p_plan_name TEXT,
+    p_amount DECIMAL(20,8),
+    p_daily_percentage DECIMAL(5,2),
+    p_jarvis_tokens DECIMAL(20,8),
+    p_wallet TEXT DEFAULT 'fund_wallet'
+)
+RETURNS JSON AS $$
+DECLARE
+    v_plan public.investment_plans%ROWTYPE;
+    v_description TEXT;
+    v_ledger JSON;
+    v_transaction_id UUID;
+    v_commissions INTEGER;
+BEGIN
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RAISE EXCEPTION 'Investment amount must be positive';
+    END IF;
+
+    IF p_wallet NOT IN ('fund_wallet', 'main_wallet') THEN
+        RAISE EXCEPTION 'Invalid investment wallet %', p_wallet;
+    END IF;
+
+    INSERT INTO public.investment_plans (
+        user_id,
+        plan_type,
+        investment_amount,
+        daily_percentage,
+        jarvis_tokens_earned
+    ) VALUES (
+        p_user_id,
+        p_plan_type,
+        p_amount,
+        p_daily_percentage,
+        COALESCE(p_jarvis_tokens, 0)
+    )
+    RETURNING * INTO v_plan;
+
+    v_description := 'Investment in ' || p_plan_name;
+
+    -- Debit the paying wallet and record the investment transaction (raises 'Insufficient balance')
+    v_ledger := post_ledger_journal(jsonb_build_object(
+        'journal_type', 'investment',
+        'reference_id', v_plan.id::TEXT,
+        'description', v_description,
+        'created_by', p_user_id,
+        'metadata', jsonb_build_object('plan_type', p_plan_type, 'wallet', p_wallet),
+        'entries', jsonb_build_array(
+            jsonb_build_object('account', p_wallet, 'user_id', p_user_id, 'amount', -p_amount, 'currency', 'USDT'),
+            jsonb_build_object('account', 'investment_pool', 'amount', p_amount, 'currency', 'USDT')
+        ),
+        'transactions', jsonb_build_array(
+            jsonb_build_object(
+                'user_id', p_user_id,
+                'transaction_type', 'investment',
+                'amount', p_amount,
+                'plan_id', v_plan.id,
+                'description', v_description
+            )
+        )
+    ));
+
+    v_transaction_id := (v_ledger->'transaction_ids'->>0)::UUID;
+
+    v_commissions := pay_referral_commissions(p_user_id, p_amount, v_transaction_id, 'investment', p_plan_name);
+
+    RETURN json_build_object(
+        'success', true,
+        'investment_plan_id', v_plan.id,
+        'transaction_id', v_transaction_id,
+        'plan_type', v_plan.plan_type,
+        'investment_amount', v_plan.investment_amount,
+        'daily_percentage', v_plan.daily_percentage,
+        'jarvis_tokens_earned', v_plan.jarvis_tokens_earned,
+        'commissions_paid', v_commissions,
+        'balances', v_ledger->'balances'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the server (service role) may create investments
+REVOKE ALL ON FUNCTION create_investment_plan(UUID, plan_type, TEXT, DECIMAL, DECIMAL, DECIMAL, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION create_investment_plan(UUID, plan_type, TEXT, DECIMAL, DECIMAL, DECIMAL, TEXT) TO service_role;
+
+COMMENT ON FUNCTION create_investment_plan(UUID, plan_type, TEXT, DECIMAL, DECIMAL, DECIMAL, TEXT) IS 'Atomically creates an investment plan, debits the paying wallet and pays referral commissions';
+
+SELECT 'Investment creation function created successfully!' as status;
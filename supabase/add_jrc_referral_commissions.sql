@@ -0,0 +1,269 @@
+-- Dual-currency (USDT + JRC) referral commissions
+-- Each level of a commission schedule now pays both legs: usdt_rate % of the source amount
+-- to the referrer's main wallet and jrc_rate % of the JRC tokens the source transaction
+-- earned to their total_jarvis_tokens. Only investments earn JRC (jarvis_tokens_earned of
+-- the plan the source transaction belongs to), so staking and deposit commissions pay no
+-- JRC leg. Both legs are posted in one ledger journal and recorded on the same
+-- referral_commissions row (usdt_commission, jrc_commission).
+-- Run after add_commission_schedules.sql.
+
+-- jarvis_token_add history row that credited the JRC leg
+ALTER TABLE public.referral_commissions
+ADD COLUMN IF NOT EXISTS jrc_payout_transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL;
+
+-- Same as in add_commission_schedules.sql, plus the JRC leg. The JRC history row uses
+-- jarvis_token_add rather than referral_bonus, which is counted as USDT by reconciliation.
+CREATE OR REPLACE FUNCTION pay_referral_commissions(
+    p_user_id UUID,
+    p_amount DECIMAL(20,8),
+    p_source_transaction_id UUID,
+    p_transaction_type TEXT,
+    p_plan_type TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_schedule_id UUID;
+    v_rate RECORD;
+    v_current_id UUID := p_user_id;
+    v_source_user_id UUID;
+    v_source_plan_id UUID;
+    v_jrc_amount DECIMAL(20,8) := 0;
+    v_sponsor_code TEXT;
+    v_referrer_id UUID;
+    v_commission DECIMAL(20,8);
+    v_jrc_commission DECIMAL(20,8);
+    v_description TEXT;
+    v_jrc_description TEXT;
+    v_entries JSONB;
+    v_transactions JSONB;
+    v_result JSON;
+    v_paid INTEGER := 0;
+BEGIN
+    -- Serializes concurrent payouts for the same source transaction
+    SELECT user_id, plan_id INTO v_source_user_id, v_source_plan_id
+    FROM public.transactions
+    WHERE id = p_source_transaction_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_source_user_id IS DISTINCT FROM p_user_id THEN
+        RAISE EXCEPTION 'Source transaction not found';
+    END IF;
+
+    v_schedule_id := get_commission_schedule(p_transaction_type);
+
+    IF v_schedule_id IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    -- JRC tokens earned by the source, the base of the JRC leg
+    IF v_source_plan_id IS NOT NULL THEN
+        SELECT COALESCE(jarvis_tokens_earned, 0) INTO v_jrc_amount
+        FROM public.investment_plans
+        WHERE id = v_source_plan_id;
+
+        v_jrc_amount := COALESCE(v_jrc_amount, 0);
+    END IF;
+
+    FOR v_rate IN
+        SELECT level, usdt_rate, jrc_rate
+        FROM public.commission_schedule_levels
+        WHERE schedule_id = v_schedule_id
+        ORDER BY level
+    LOOP
+        SELECT sponsor_id INTO v_sponsor_code
+        FROM public.profiles
+        WHERE id = v_current_id;
+
+        EXIT WHEN v_sponsor_code IS NULL;
+
+        SELECT id INTO v_referrer_id
+        FROM public.profiles
+        WHERE referral_code = v_sponsor_code;
+
+        EXIT WHEN v_referrer_id IS NULL;
+
+        v_commission := ROUND(p_amount * v_rate.usdt_rate / 100, 8);
+        v_jrc_commission := ROUND(v_jrc_amount * v_rate.jrc_rate / 100, 8);
+
+        IF (v_commission > 0 OR v_jrc_commission > 0) AND NOT EXISTS (
+            SELECT 1 FROM public.referral_commissions
+            WHERE transaction_id = p_source_transaction_id AND level = v_rate.level
+        ) THEN
+            v_description := 'Level ' || v_rate.level || ' USDT referral commission from ' || p_transaction_type
+                || COALESCE(' (' || p_plan_type || ')', '');
+            v_jrc_description := 'Level ' || v_rate.level || ' JRC referral commission from ' || p_transaction_type
+                || COALESCE(' (' || p_plan_type || ')', '');
+
+            v_entries := '[]'::jsonb;
+            v_transactions := '[]'::jsonb;
+
+            IF v_commission > 0 THEN
+                v_entries := v_entries || jsonb_build_array(
+                    jsonb_build_object('account', 'referral_expense', 'amount', -v_commission, 'currency', 'USDT'),
+                    jsonb_build_object('account', 'main_wallet', 'user_id', v_referrer_id, 'amount', v_commission, 'currency', 'USDT')
+                );
+                v_transactions := v_transactions || jsonb_build_array(jsonb_build_object(
+                    'user_id', v_referrer_id,
+                    'transaction_type', 'referral_bonus',
+                    'amount', v_commission,
+                    'description', v_description
+                ));
+            END IF;
+
+            IF v_jrc_commission > 0 THEN
+                v_entries := v_entries || jsonb_build_array(
+                    jsonb_build_object('account', 'referral_expense', 'amount', -v_jrc_commission, 'currency', 'JRC'),
+                    jsonb_build_object('account', 'jrc_tokens', 'user_id', v_referrer_id, 'amount', v_jrc_commission, 'currency', 'JRC')
+                );
+                v_transactions := v_transactions || jsonb_build_array(jsonb_build_object(
+                    'user_id', v_referrer_id,
+                    'transaction_type', 'jarvis_token_add',
+                    'amount', v_jrc_commission,
+                    'description', v_jrc_description
+                ));
+            END IF;
+
+            v_result := post_ledger_journal(jsonb_build_object(
+                'journal_type', 'referral_commission',
+                'reference_id', p_source_transaction_id::TEXT,
+                'description', CASE WHEN v_commission > 0 THEN v_description ELSE v_jrc_description END,
+                'created_by', p_user_id,
+                'metadata', jsonb_build_object('level', v_rate.level, 'referred_id', p_user_id, 'schedule_id', v_schedule_id),
+                'entries', v_entries,
+                'transactions', v_transactions
+            ));
+
+            INSERT INTO public.referral_commissions (
+                referrer_id,
+                referred_id,
+                transaction_id,
+                payout_transaction_id,
+                jrc_payout_transaction_id,
+                schedule_id,
+                level,
+                commission_percentage,
+                commission_amount,
+                usdt_commission,
+                jrc_percentage,
+                jrc_commission,
+                transaction_type,
+                plan_type
+            ) VALUES (
+                v_referrer_id,
+                p_user_id,
+                p_source_transaction_id,
+                CASE WHEN v_commission > 0 THEN (v_result->'transaction_ids'->>0)::UUID END,
+                CASE WHEN v_jrc_commission > 0
+                    THEN (v_result->'transaction_ids'->>(CASE WHEN v_commission > 0 THEN 1 ELSE 0 END))::UUID
+                END,
+                v_schedule_id,
+                v_rate.level,
+                v_rate.usdt_rate,
+                v_commission,
+                v_commission,
+                v_rate.jrc_rate,
+                v_jrc_commission,
+                p_transaction_type,
+                p_plan_type
+            );
+
+            v_paid := v_paid + 1;
+        END IF;
+
+        v_current_id := v_referrer_id;
+    END LOOP;
+
+    RETURN v_paid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION pay_referral_commissions(UUID, DECIMAL, UUID, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION pay_referral_commissions(UUID, DECIMAL, UUID, TEXT, TEXT) TO service_role;
+
+-- Same as in add_commission_schedules.sql, plus the JRC totals and rates
+CREATE OR REPLACE FUNCTION get_referral_stats_optimized(
+    user_id UUID
+)
+RETURNS JSON AS $$
+DECLARE
+    user_referral_code TEXT;
+    v_schedule_id UUID;
+    stats JSON;
+BEGIN
+    -- Get user's referral code
+    SELECT referral_code INTO user_referral_code
+    FROM profiles
+    WHERE id = user_id;
+
+    IF user_referral_code IS NULL THEN
+        RETURN json_build_object(
+            'totalUsdtEarned', 0,
+            'totalJrcEarned', 0,
+            'totalReferrals', 0,
+            'levelStats', '[]'::json
+        );
+    END IF;
+
+    v_schedule_id := get_commission_schedule('staking');
+
+    SELECT json_build_object(
+        'totalUsdtEarned', COALESCE(totals.total_usdt, 0),
+        'totalJrcEarned', COALESCE(totals.total_jrc, 0),
+        'totalReferrals', COALESCE(direct_count.count, 0),
+        'levelStats', COALESCE(level_stats.stats, '[]'::json)
+    ) INTO stats
+    FROM (
+        SELECT
+            SUM(COALESCE(commission_amount, 0)) as total_usdt,
+            SUM(COALESCE(jrc_commission, 0)) as total_jrc
+        FROM referral_commissions
+        WHERE referrer_id = user_id
+    ) totals
+    CROSS JOIN (
+        -- Count direct referrals (Level 1)
+        SELECT COUNT(*) as count
+        FROM profiles
+        WHERE sponsor_id = user_referral_code
+    ) direct_count
+    CROSS JOIN (
+        SELECT json_agg(
+            json_build_object(
+                'level', level_data.level,
+                'count', COALESCE(level_data.referral_count, 0),
+                'usdtEarned', COALESCE(level_data.usdt_earned, 0),
+                'usdtRate', COALESCE(level_data.usdt_rate, 0),
+                'jrcEarned', COALESCE(level_data.jrc_earned, 0),
+                'jrcRate', COALESCE(level_data.jrc_rate, 0)
+            ) ORDER BY level_data.level
+        ) as stats
+        FROM (
+            SELECT
+                levels.level,
+                csl.usdt_rate,
+                csl.jrc_rate,
+                COUNT(DISTINCT rc.referred_id) as referral_count,
+                SUM(COALESCE(rc.commission_amount, 0)) as usdt_earned,
+                SUM(COALESCE(rc.jrc_commission, 0)) as jrc_earned
+            FROM (
+                SELECT level FROM public.commission_schedule_levels WHERE schedule_id = v_schedule_id
+                UNION
+                SELECT DISTINCT level FROM referral_commissions WHERE referrer_id = user_id
+            ) levels
+            LEFT JOIN public.commission_schedule_levels csl
+                ON csl.schedule_id = v_schedule_id AND csl.level = levels.level
+            LEFT JOIN referral_commissions rc ON rc.referrer_id = user_id AND rc.level = levels.level
+            GROUP BY levels.level, csl.usdt_rate, csl.jrc_rate
+        ) level_data
+    ) level_stats;
+
+    RETURN stats;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_referral_stats_optimized TO authenticated;
+
+COMMENT ON COLUMN public.referral_commissions.commission_amount IS 'USDT leg of the commission (same as usdt_commission)';
+COMMENT ON COLUMN public.referral_commissions.jrc_commission IS 'JRC leg of the commission, credited to total_jarvis_tokens';
+COMMENT ON COLUMN public.referral_commissions.jrc_payout_transaction_id IS 'jarvis_token_add transaction that credited the JRC leg';
+
+SELECT 'JRC referral commissions added successfully!' as status;
@@ -0,0 +1,983 @@
+-- Add Double-Entry Ledger
+-- Every credit and debit is recorded as an immutable journal line with a matching counter-account.
+-- profiles.main_wallet_balance / fund_wallet_balance / total_jarvis_tokens become a cached
+-- projection of the ledger, maintained only by post_ledger_journal(); a trigger rejects any
+-- other change to those columns, including users updating their own profile row.
+-- Withdrawal requests, deposit approvals and admin fund/JRC adjustments are redefined at
+-- the end of this file to post through the ledger, so run it after the migrations that
+-- last defined them (restrict_one_withdrawal.sql, fix_withdrawal_approval_logic.sql,
+-- fix_deposit_referral.sql, manual_deposit_schema.sql, admin_add_funds.sql,
+-- admin_deduct_funds.sql, admin_manage_jarvis_tokens.sql).
+
+-- Accounts: user wallets carry a user_id, platform counter-accounts do not
+CREATE TYPE ledger_account AS ENUM (
+    'main_wallet',
+    'fund_wallet',
+    'jrc_tokens',
+    'external',          -- funds entering/leaving the platform (on-chain deposits, withdrawals, admin adjustments)
+    'fee_income',        -- deposit/withdrawal fees kept by the platform
+    'profit_expense',    -- daily investment and staking profits paid out
+    'referral_expense',  -- referral commissions paid out
+    'investment_pool',   -- principal locked in investment plans
+    'staking_pool'       -- principal locked in staking plans
+);
+
+-- One row per atomic posting
+CREATE TABLE public.ledger_journals (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    journal_type TEXT NOT NULL,
+    reference_id TEXT,
+    description TEXT,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    metadata JSONB DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Journal lines: signed amounts, every journal sums to zero per currency
+CREATE TABLE public.ledger_entries (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    journal_id UUID NOT NULL REFERENCES public.ledger_journals(id) ON DELETE RESTRICT,
+    user_id UUID REFERENCES public.profiles(id) ON DELETE RESTRICT,
+    account ledger_account NOT NULL,
+    currency TEXT NOT NULL DEFAULT 'USDT' CHECK (currency IN ('USDT', 'JRC')),
+    amount DECIMAL(20,8) NOT NULL CHECK (amount <> 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (
+        (account IN ('main_wallet', 'fund_wallet', 'jrc_tokens') AND user_id IS NOT NULL)
+        OR (account NOT IN ('main_wallet', 'fund_wallet', 'jrc_tokens'))
+    ),
+    CHECK (account <> 'jrc_tokens' OR currency = 'JRC')
+);
+
+CREATE INDEX idx_ledger_entries_journal_id ON public.ledger_entries(journal_id);
+CREATE INDEX idx_ledger_entries_user_account ON public.ledger_entries(user_id, account);
+CREATE INDEX idx_ledger_journals_reference_id ON public.ledger_journals(reference_id);
+CREATE INDEX idx_ledger_journals_created_at ON public.ledger_journals(created_at);
+
+-- Link user-facing history rows to the journal that moved the money
+ALTER TABLE public.transactions
+ADD COLUMN IF NOT EXISTS ledger_journal_id UUID REFERENCES public.ledger_journals(id) ON DELETE SET NULL;
+
+-- Ledger rows are append-only
+CREATE OR REPLACE FUNCTION prevent_ledger_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Ledger rows are immutable; post a reversing journal instead';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER ledger_journals_immutable
+    BEFORE UPDATE OR DELETE ON public.ledger_journals
+    FOR EACH ROW EXECUTE FUNCTION prevent_ledger_mutation();
+
+CREATE TRIGGER ledger_entries_immutable
+    BEFORE UPDATE OR DELETE ON public.ledger_entries
+    FOR EACH ROW EXECUTE FUNCTION prevent_ledger_mutation();
+
+-- Balances derived from the ledger (source of truth for the profiles projection)
+CREATE OR REPLACE VIEW public.ledger_balances AS
+SELECT
+    user_id,
+    account,
+    currency,
+    SUM(amount) AS balance
+FROM public.ledger_entries
+GROUP BY user_id, account, currency;
+
+-- Post a balanced journal atomically.
+-- p_journal: {
+--   "journal_type": "transfer", "reference_id": "...", "description": "...", "created_by": uuid,
+--   "metadata": {...},
+--   "entries": [{ "account": "fund_wallet", "user_id": uuid, "amount": -10, "currency": "USDT" }, ...],
+--   "transactions": [{ "user_id": uuid, "transaction_type": "transfer_sent", "amount": 10, ... }]
+-- }
+CREATE OR REPLACE FUNCTION post_ledger_journal(p_journal JSONB)
+RETURNS JSON AS $$
+DECLARE
+    v_journal_id UUID;
+    v_entry JSONB;
+    v_tx JSONB;
+    v_user_id UUID;
+    v_account ledger_account;
+    v_amount DECIMAL(20,8);
+    v_currency TEXT;
+    v_cash_total DECIMAL(20,8) := 0;
+    v_token_total DECIMAL(20,8) := 0;
+    v_transaction_ids UUID[] := ARRAY[]::UUID[];
+    v_tx_id UUID;
+    v_balances JSON;
+BEGIN
+    IF p_journal->>'journal_type' IS NULL THEN
+        RAISE EXCEPTION 'Journal type is required';
+    END IF;
+
+    IF jsonb_array_length(COALESCE(p_journal->'entries', '[]'::jsonb)) < 2 THEN
+        RAISE EXCEPTION 'A journal needs at least two entries';
+    END IF;
+
+    -- Double-entry check: USDT accounts and JRC tokens must each balance to zero
+    FOR v_entry IN SELECT * FROM jsonb_array_elements(p_journal->'entries') LOOP
+        v_amount := (v_entry->>'amount')::DECIMAL(20,8);
+        IF COALESCE(v_entry->>'currency', 'USDT') = 'JRC' THEN
+            v_token_total := v_token_total + v_amount;
+        ELSE
+            v_cash_total := v_cash_total + v_amount;
+        END IF;
+    END LOOP;
+
+    IF v_cash_total <> 0 OR v_token_total <> 0 THEN
+        RAISE EXCEPTION 'Unbalanced journal (USDT %, JRC %)', v_cash_total, v_token_total;
+    END IF;
+
+    -- Lock every affected profile in a stable order to avoid deadlocks
+    PERFORM 1 FROM public.profiles
+    WHERE id IN (
+        SELECT DISTINCT (e->>'user_id')::UUID
+        FROM jsonb_array_elements(p_journal->'entries') e
+        WHERE e->>'user_id' IS NOT NULL
+    )
+    ORDER BY id
+    FOR UPDATE;
+
+    INSERT INTO public.ledger_journals (journal_type, reference_id, description, created_by, metadata)
+    VALUES (
+        p_journal->>'journal_type',
+        p_journal->>'reference_id',
+        p_journal->>'description',
+        (p_journal->>'created_by')::UUID,
+        COALESCE(p_journal->'metadata', '{}'::jsonb)
+    )
+    RETURNING id INTO v_journal_id;
+
+    -- Lets guard_profile_balances() accept the projection updates below
+    PERFORM set_config('ledger.posting', 'on', true);
+
+    FOR v_entry IN SELECT * FROM jsonb_array_elements(p_journal->'entries') LOOP
+        v_user_id := (v_entry->>'user_id')::UUID;
+        v_account := (v_entry->>'account')::ledger_account;
+        v_amount := (v_entry->>'amount')::DECIMAL(20,8);
+        v_currency := COALESCE(v_entry->>'currency', 'USDT');
+
+        INSERT INTO public.ledger_entries (journal_id, user_id, account, currency, amount)
+        VALUES (v_journal_id, v_user_id, v_account, v_currency, v_amount);
+
+        -- Maintain the cached projection on profiles
+        IF v_account = 'main_wallet' THEN
+            UPDATE public.profiles
+            SET main_wallet_balance = COALESCE(main_wallet_balance, 0) + v_amount, updated_at = NOW()
+            WHERE id = v_user_id;
+        ELSIF v_account = 'fund_wallet' THEN
+            UPDATE public.profiles
+            SET fund_wallet_balance = COALESCE(fund_wallet_balance, 0) + v_amount, updated_at = NOW()
+            WHERE id = v_user_id;
+        ELSIF v_account = 'jrc_tokens' THEN
+            UPDATE public.profiles
+            SET total_jarvis_tokens = COALESCE(total_jarvis_tokens, 0) + v_amount, updated_at = NOW()
+            WHERE id = v_user_id;
+        END IF;
+
+        IF v_account IN ('main_wallet', 'fund_wallet', 'jrc_tokens') AND NOT FOUND THEN
+            RAISE EXCEPTION 'User % not found', v_user_id;
+        END IF;
+    END LOOP;
+
+    PERFORM set_config('ledger.posting', 'off', true);
+
+    -- No user wallet may go negative
+    IF EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id IN (
+            SELECT DISTINCT (e->>'user_id')::UUID
+            FROM jsonb_array_elements(p_journal->'entries') e
+            WHERE e->>'user_id' IS NOT NULL
+        )
+        AND (main_wallet_balance < 0 OR fund_wallet_balance < 0 OR total_jarvis_tokens < 0)
+    ) THEN
+        RAISE EXCEPTION 'Insufficient balance';
+    END IF;
+
+    -- User-facing history rows, written in the same database transaction
+    FOR v_tx IN SELECT * FROM jsonb_array_elements(COALESCE(p_journal->'transactions', '[]'::jsonb)) LOOP
+        INSERT INTO public.transactions (
+            user_id,
+            transaction_type,
+            amount,
+            fee,
+            net_amount,
+            status,
+            plan_id,
+            reference_id,
+            description,
+            ledger_journal_id
+        ) VALUES (
+            (v_tx->>'user_id')::UUID,
+            (v_tx->>'transaction_type')::transaction_type,
+            (v_tx->>'amount')::DECIMAL(20,8),
+            COALESCE((v_tx->>'fee')::DECIMAL(20,8), 0),
+            COALESCE((v_tx->>'net_amount')::DECIMAL(20,8), (v_tx->>'amount')::DECIMAL(20,8)),
+            COALESCE((v_tx->>'status')::transaction_status, 'completed'),
+            (v_tx->>'plan_id')::UUID,
+            COALESCE(v_tx->>'reference_id', p_journal->>'reference_id'),
+            v_tx->>'description',
+            v_journal_id
+        )
+        RETURNING id INTO v_tx_id;
+
+        v_transaction_ids := array_append(v_transaction_ids, v_tx_id);
+    END LOOP;
+
+    SELECT json_agg(json_build_object(
+        'user_id', id,
+        'main_wallet_balance', main_wallet_balance,
+        'fund_wallet_balance', fund_wallet_balance,
+        'total_jarvis_tokens', total_jarvis_tokens
+    ))
+    INTO v_balances
+    FROM public.profiles
+    WHERE id IN (
+        SELECT DISTINCT (e->>'user_id')::UUID
+        FROM jsonb_array_elements(p_journal->'entries') e
+        WHERE e->>'user_id' IS NOT NULL
+    );
+
+    RETURN json_build_object(
+        'success', true,
+        'journal_id', v_journal_id,
+        'transaction_ids', to_json(v_transaction_ids),
+        'balances', COALESCE(v_balances, '[]'::json)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Recompute the profiles projection from the ledger (repair tool)
+CREATE OR REPLACE FUNCTION rebuild_profile_balances_from_ledger(p_user_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    PERFORM set_config('ledger.posting', 'on', true);
+
+    UPDATE public.profiles p
+    SET
+        main_wallet_balance = COALESCE((SELECT SUM(amount) FROM public.ledger_entries WHERE user_id = p.id AND account = 'main_wallet'), 0),
+        fund_wallet_balance = COALESCE((SELECT SUM(amount) FROM public.ledger_entries WHERE user_id = p.id AND account = 'fund_wallet'), 0),
+        total_jarvis_tokens = COALESCE((SELECT SUM(amount) FROM public.ledger_entries WHERE user_id = p.id AND account = 'jrc_tokens'), 0),
+        updated_at = NOW()
+    WHERE p_user_id IS NULL OR p.id = p_user_id;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    PERFORM set_config('ledger.posting', 'off', true);
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The "Users can update own profile" policy in schema.sql covers every column, so the
+-- balance columns are guarded here: only the two functions above may change them
+CREATE OR REPLACE FUNCTION guard_profile_balances()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF (NEW.main_wallet_balance IS DISTINCT FROM OLD.main_wallet_balance
+        OR NEW.fund_wallet_balance IS DISTINCT FROM OLD.fund_wallet_balance
+        OR NEW.total_jarvis_tokens IS DISTINCT FROM OLD.total_jarvis_tokens)
+       AND current_setting('ledger.posting', true) IS DISTINCT FROM 'on' THEN
+        RAISE EXCEPTION 'Wallet balances can only be changed by posting a ledger journal';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_profile_balances ON public.profiles;
+CREATE TRIGGER guard_profile_balances
+    BEFORE UPDATE ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION guard_profile_balances();
+
+-- Opening balances: seed the ledger with the balances profiles hold today
+DO $$
+DECLARE
+    v_profile RECORD;
+    v_journal_id UUID;
+BEGIN
+    FOR v_profile IN
+        SELECT id, main_wallet_balance, fund_wallet_balance, total_jarvis_tokens
+        FROM public.profiles
+        WHERE COALESCE(main_wallet_balance, 0) <> 0
+           OR COALESCE(fund_wallet_balance, 0) <> 0
+           OR COALESCE(total_jarvis_tokens, 0) <> 0
+    LOOP
+        INSERT INTO public.ledger_journals (journal_type, description)
+        VALUES ('opening_balance', 'Opening balance migrated from profiles')
+        RETURNING id INTO v_journal_id;
+
+        IF COALESCE(v_profile.main_wallet_balance, 0) <> 0 THEN
+            INSERT INTO public.ledger_entries (journal_id, user_id, account, amount) VALUES
+                (v_journal_id, v_profile.id, 'main_wallet', v_profile.main_wallet_balance),
+                (v_journal_id, NULL, 'external', -v_profile.main_wallet_balance);
+        END IF;
+
+        IF COALESCE(v_profile.fund_wallet_balance, 0) <> 0 THEN
+            INSERT INTO public.ledger_entries (journal_id, user_id, account, amount) VALUES
+                (v_journal_id, v_profile.id, 'fund_wallet', v_profile.fund_wallet_balance),
+                (v_journal_id, NULL, 'external', -v_profile.fund_wallet_balance);
+        END IF;
+
+        IF COALESCE(v_profile.total_jarvis_tokens, 0) <> 0 THEN
+            INSERT INTO public.ledger_entries (journal_id, user_id, account, currency, amount) VALUES
+                (v_journal_id, v_profile.id, 'jrc_tokens', 'JRC', v_profile.total_jarvis_tokens),
+                (v_journal_id, NULL, 'external', 'JRC', -v_profile.total_jarvis_tokens);
+        END IF;
+    END LOOP;
+END $$;
+
+-- Only the server (service role) may post journals
+REVOKE ALL ON FUNCTION post_ledger_journal(JSONB) FROM PUBLIC;
+REVOKE ALL ON FUNCTION rebuild_profile_balances_from_ledger(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION post_ledger_journal(JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION rebuild_profile_balances_from_ledger(UUID) TO service_role;
+
+-- RLS: users can read their own ledger lines, admins can read everything
+ALTER TABLE public.ledger_journals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own ledger entries" ON public.ledger_entries
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all ledger entries" ON public.ledger_entries
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+CREATE POLICY "Admins can view all ledger journals" ON public.ledger_journals
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+-- Existing functions that move money, redefined to post through the ledger. Signatures
+-- and return values are unchanged so the API routes calling them keep working.
+
+-- Withdrawal requests hold the amount from the main wallet when requested: net amount to
+-- external, fee to fee_income. A rejection posts the reverse journal.
+CREATE OR REPLACE FUNCTION create_withdrawal_request(
+    p_user_id UUID,
+    p_amount DECIMAL,
+    p_fee DECIMAL,
+    p_net_amount DECIMAL,
+    p_bsc_address TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+    request_id UUID;
+    user_balance DECIMAL;
+    v_entries JSONB;
+BEGIN
+    -- Lock the profile so two requests cannot both pass the pending check
+    SELECT main_wallet_balance INTO user_balance
+    FROM public.profiles
+    WHERE id = p_user_id
+    FOR UPDATE;
+
+    IF user_balance IS NULL THEN
+        RAISE EXCEPTION 'User profile not found';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.transactions
+        WHERE user_id = p_user_id
+        AND transaction_type = 'withdrawal'
+        AND status = 'pending'
+    ) THEN
+        RAISE EXCEPTION 'You already have a pending withdrawal request. Please wait for it to be processed before submitting a new one.';
+    END IF;
+
+    IF user_balance < p_amount THEN
+        RAISE EXCEPTION 'Insufficient balance. Available: %, Requested: %', user_balance, p_amount;
+    END IF;
+
+    INSERT INTO public.withdrawal_requests (user_id, amount, wallet_address)
+    VALUES (p_user_id, p_amount, p_bsc_address)
+    RETURNING id INTO request_id;
+
+    v_entries := jsonb_build_array(
+        jsonb_build_object('account', 'main_wallet', 'user_id', p_user_id, 'amount', -p_amount),
+        jsonb_build_object('account', 'external', 'amount', p_amount - COALESCE(p_fee, 0))
+    );
+
+    IF COALESCE(p_fee, 0) > 0 THEN
+        v_entries := v_entries || jsonb_build_object('account', 'fee_income', 'amount', p_fee);
+    END IF;
+
+    PERFORM post_ledger_journal(jsonb_build_object(
+        'journal_type', 'withdrawal',
+        'reference_id', request_id::TEXT,
+        'description', 'Withdrawal request to ' || p_bsc_address,
+        'created_by', p_user_id,
+        'entries', v_entries,
+        'transactions', jsonb_build_array(
+            jsonb_build_object(
+                'user_id', p_user_id,
+                'transaction_type', 'withdrawal',
+                'amount', p_amount,
+                'fee', p_fee,
+                'net_amount', p_net_amount,
+                'status', 'pending',
+                'description', 'Withdrawal request to ' || p_bsc_address
+            )
+        )
+    ));
+
+    RETURN request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Return a held withdrawal to the main wallet (reverse of the create_withdrawal_request journal)
+CREATE OR REPLACE FUNCTION refund_withdrawal_to_ledger(
+    p_transaction_id UUID,
+    p_description TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+    v_tx RECORD;
+    v_entries JSONB;
+BEGIN
+    SELECT * INTO v_tx
+    FROM public.transactions
+    WHERE id = p_transaction_id;
+
+    v_entries := jsonb_build_array(
+        jsonb_build_object('account', 'main_wallet', 'user_id', v_tx.user_id, 'amount', v_tx.amount),
+        jsonb_build_object('account', 'external', 'amount', -(v_tx.amount - COALESCE(v_tx.fee, 0)))
+    );
+
+    IF COALESCE(v_tx.fee, 0) > 0 THEN
+        v_entries := v_entries || jsonb_build_object('account', 'fee_income', 'amount', -v_tx.fee);
+    END IF;
+
+    PERFORM post_ledger_journal(jsonb_build_object(
+        'journal_type', 'withdrawal_refund',
+        'reference_id', v_tx.reference_id,
+        'description', p_description,
+        'created_by', auth.uid(),
+        'metadata', jsonb_build_object('transaction_id', p_transaction_id),
+        'entries', v_entries
+    ));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The amount was already taken from the main wallet when the request was made
+CREATE OR REPLACE FUNCTION approve_withdrawal_request(
+    p_request_id UUID,
+    p_admin_notes TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    -- Check if user is admin
+    IF NOT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id = auth.uid() AND is_admin = TRUE
+    ) THEN
+        RAISE EXCEPTION 'Access denied. Admin privileges required.';
+    END IF;
+
+    UPDATE public.withdrawal_requests
+    SET
+        status = 'approved',
+        processed_at = NOW(),
+        admin_notes = p_admin_notes
+    WHERE id = p_request_id AND status = 'pending';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Withdrawal request not found or already processed';
+    END IF;
+
+    UPDATE public.transactions
+    SET
+        status = 'completed',
+        description = 'Withdrawal approved: ' || COALESCE(p_admin_notes, ''),
+        updated_at = NOW()
+    WHERE reference_id = p_request_id::TEXT AND transaction_type = 'withdrawal';
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION reject_withdrawal_request(
+    p_request_id UUID,
+    p_admin_notes TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_transaction_id UUID;
+BEGIN
+    -- Check if user is admin
+    IF NOT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id = auth.uid() AND is_admin = TRUE
+    ) THEN
+        RAISE EXCEPTION 'Access denied. Admin privileges required.';
+    END IF;
+
+    UPDATE public.withdrawal_requests
+    SET
+        status = 'rejected',
+        processed_at = NOW(),
+        admin_notes = p_admin_notes
+    WHERE id = p_request_id AND status = 'pending';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Withdrawal request not found or already processed';
+    END IF;
+
+    UPDATE public.transactions
+    SET
+        status = 'failed',
+        description = 'Withdrawal rejected: ' || COALESCE(p_admin_notes, ''),
+        updated_at = NOW()
+    WHERE reference_id = p_request_id::TEXT AND transaction_type = 'withdrawal' AND status = 'pending'
+    RETURNING id INTO v_transaction_id;
+
+    IF v_transaction_id IS NOT NULL THEN
+        PERFORM refund_withdrawal_to_ledger(v_transaction_id, 'Withdrawal rejected: ' || COALESCE(p_admin_notes, ''));
+    END IF;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION process_withdrawal_approval(
+    p_transaction_id UUID,
+    p_approve BOOLEAN,
+    p_blockchain_tx_hash TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    PERFORM 1
+    FROM public.transactions
+    WHERE id = p_transaction_id
+    AND transaction_type = 'bsc_withdrawal'
+    AND status = 'pending'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Withdrawal transaction not found or already processed';
+    END IF;
+
+    IF p_approve THEN
+        UPDATE public.transactions
+        SET status = 'completed',
+            blockchain_tx_hash = p_blockchain_tx_hash,
+            description = description || ' - Completed: ' || COALESCE(p_blockchain_tx_hash, 'Manual approval'),
+            updated_at = NOW()
+        WHERE id = p_transaction_id;
+    ELSE
+        UPDATE public.transactions
+        SET status = 'cancelled',
+            description = description || ' - Rejected by admin',
+            updated_at = NOW()
+        WHERE id = p_transaction_id;
+
+        PERFORM refund_withdrawal_to_ledger(p_transaction_id, 'Withdrawal rejected by admin');
+    END IF;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Approved BSC deposit: gross amount in from external, 1% fee to fee_income, net to the
+-- fund wallet. Referral commissions are paid by the API (/api/bsc/deposit).
+CREATE OR REPLACE FUNCTION process_bsc_deposit(
+    p_user_id UUID,
+    p_deposit_amount DECIMAL,
+    p_fee_amount DECIMAL,
+    p_net_amount DECIMAL,
+    p_tx_hash TEXT,
+    p_from_address TEXT,
+    p_to_address TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+    transaction_id UUID;
+    v_entries JSONB;
+    v_ledger JSON;
+BEGIN
+    v_entries := jsonb_build_array(
+        jsonb_build_object('account', 'external', 'amount', -(p_net_amount + COALESCE(p_fee_amount, 0))),
+        jsonb_build_object('account', 'fund_wallet', 'user_id', p_user_id, 'amount', p_net_amount)
+    );
+
+    IF COALESCE(p_fee_amount, 0) > 0 THEN
+        v_entries := v_entries || jsonb_build_object('account', 'fee_income', 'amount', p_fee_amount);
+    END IF;
+
+    v_ledger := post_ledger_journal(jsonb_build_object(
+        'journal_type', 'bsc_deposit',
+        'reference_id', p_tx_hash,
+        'description', 'BSC USDT deposit - TX: ' || p_tx_hash,
+        'entries', v_entries,
+        'transactions', jsonb_build_array(
+            jsonb_build_object(
+                'user_id', p_user_id,
+                'transaction_type', 'bsc_deposit',
+                'amount', p_deposit_amount,
+                'fee', p_fee_amount,
+                'net_amount', p_net_amount,
+                'description', 'BSC USDT deposit - TX: ' || p_tx_hash
+            )
+        )
+    ));
+
+    transaction_id := (v_ledger->'transaction_ids'->>0)::UUID;
+
+    UPDATE public.transactions
+    SET blockchain_tx_hash = p_tx_hash,
+        blockchain_network = 'BSC',
+        token_contract_address = '0x7C5FCE4f6aF59eCd7a557Fa9a7812Eaf0A4E42cb', -- Testnet USDT
+        from_address = p_from_address,
+        to_address = p_to_address
+    WHERE id = transaction_id;
+
+    RETURN transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Approved manual deposit: credited to the main wallet, 1% fee to fee_income
+CREATE OR REPLACE FUNCTION process_manual_deposit_approval(
+  p_request_id UUID,
+  p_admin_id UUID,
+  p_admin_notes TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_request deposit_requests%ROWTYPE;
+  v_fee_amount DECIMAL(15,2);
+  v_net_amount DECIMAL(15,2);
+  v_ledger JSON;
+  v_transaction_id UUID;
+  v_result JSON;
+BEGIN
+  -- Get the deposit request
+  SELECT * INTO v_request
+  FROM deposit_requests
+  WHERE id = p_request_id AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Deposit request not found or already processed');
+  END IF;
+
+  -- Calculate fee (1%) and net amount
+  v_fee_amount := v_request.amount * 0.01;
+  v_net_amount := v_request.amount - v_fee_amount;
+
+  v_ledger := post_ledger_journal(jsonb_build_object(
+    'journal_type', 'deposit',
+    'reference_id', v_request.tx_hash,
+    'description', 'Manual deposit - ' || v_request.currency || ' (' || v_request.network || ')',
+    'created_by', p_admin_id,
+    'metadata', jsonb_build_object('deposit_request_id', p_request_id),
+    'entries', jsonb_build_array(
+      jsonb_build_object('account', 'external', 'amount', -(v_net_amount + v_fee_amount)),
+      jsonb_build_object('account', 'main_wallet', 'user_id', v_request.user_id, 'amount', v_net_amount),
+      jsonb_build_object('account', 'fee_income', 'amount', v_fee_amount)
+    ),
+    'transactions', jsonb_build_array(
+      jsonb_build_object(
+        'user_id', v_request.user_id,
+        'transaction_type', 'deposit',
+        'amount', v_net_amount,
+        'fee', v_fee_amount,
+        'net_amount', v_net_amount,
+        'description', 'Manual deposit - ' || v_request.currency || ' (' || v_request.network || ')'
+      )
+    )
+  ));
+
+  v_transaction_id := (v_ledger->'transaction_ids'->>0)::UUID;
+
+  -- Update deposit request status
+  UPDATE deposit_requests
+  SET
+    status = 'approved',
+    processed_by = p_admin_id,
+    processed_at = NOW(),
+    admin_notes = p_admin_notes,
+    updated_at = NOW()
+  WHERE id = p_request_id;
+
+  -- Return success result
+  v_result := json_build_object(
+    'success', true,
+    'transaction_id', v_transaction_id,
+    'amount', v_request.amount,
+    'fee', v_fee_amount,
+    'net_amount', v_net_amount,
+    'user_id', v_request.user_id
+  );
+
+  RETURN v_result;
+
+EXCEPTION WHEN OTHERS THEN
+  -- Rollback will happen automatically
+  RETURN json_build_object('success', false, 'error', SQLERRM);
+END;
+$$;
+
+-- Admin fund adjustments move money between the main wallet and external
+CREATE OR REPLACE FUNCTION admin_add_funds_to_user(
+    p_user_id UUID,
+    p_amount DECIMAL,
+    p_admin_notes TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+    v_ledger JSON;
+BEGIN
+    -- Check if current user is admin
+    IF NOT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id = auth.uid() AND is_admin = TRUE
+    ) THEN
+        RAISE EXCEPTION 'Access denied. Admin privileges required.';
+    END IF;
+
+    IF p_amount <= 0 THEN
+        RAISE EXCEPTION 'Amount must be greater than 0';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = p_user_id) THEN
+        RAISE EXCEPTION 'User not found';
+    END IF;
+
+    v_ledger := post_ledger_journal(jsonb_build_object(
+        'journal_type', 'admin_adjustment',
+        'reference_id', 'ADMIN_ADD_' || extract(epoch from now())::text,
+        'description', 'Admin fund addition: ' || COALESCE(p_admin_notes, 'Manual fund addition by admin'),
+        'created_by', auth.uid(),
+        'entries', jsonb_build_array(
+            jsonb_build_object('account', 'external', 'amount', -p_amount),
+            jsonb_build_object('account', 'main_wallet', 'user_id', p_user_id, 'amount', p_amount)
+        ),
+        'transactions', jsonb_build_array(
+            jsonb_build_object(
+                'user_id', p_user_id,
+                'transaction_type', 'deposit',
+                'amount', p_amount,
+                'description', 'Admin fund addition: ' || COALESCE(p_admin_notes, 'Manual fund addition by admin')
+            )
+        )
+    ));
+
+    RETURN json_build_object(
+        'success', true,
+        'message', 'Funds added successfully',
+        'user_id', p_user_id,
+        'amount_added', p_amount,
+        'new_balance', v_ledger->'balances'->0->'main_wallet_balance',
+        'transaction_id', v_ledger->'transaction_ids'->>0,
+        'admin_notes', p_admin_notes
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION admin_deduct_funds_from_user(
+    p_user_id UUID,
+    p_amount DECIMAL,
+    p_admin_notes TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+    user_balance DECIMAL;
+    v_ledger JSON;
+BEGIN
+    -- Check if current user is admin
+    IF NOT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id = auth.uid() AND is_admin = TRUE
+    ) THEN
+        RAISE EXCEPTION 'Access denied. Admin privileges required.';
+    END IF;
+
+    IF p_amount <= 0 THEN
+        RAISE EXCEPTION 'Amount must be greater than 0';
+    END IF;
+
+    SELECT main_wallet_balance INTO user_balance
+    FROM public.profiles
+    WHERE id = p_user_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User not found';
+    END IF;
+
+    IF user_balance < p_amount THEN
+        RAISE EXCEPTION 'Insufficient balance. User has % but trying to deduct %', user_balance, p_amount;
+    END IF;
+
+    v_ledger := post_ledger_journal(jsonb_build_object(
+        'journal_type', 'admin_adjustment',
+        'reference_id', 'ADMIN_DEDUCT_' || extract(epoch from now())::text,
+        'description', 'Admin fund deduction: ' || COALESCE(p_admin_notes, 'Manual fund deduction by admin'),
+        'created_by', auth.uid(),
+        'entries', jsonb_build_array(
+            jsonb_build_object('account', 'main_wallet', 'user_id', p_user_id, 'amount', -p_amount),
+            jsonb_build_object('account', 'external', 'amount', p_amount)
+        ),
+        'transactions', jsonb_build_array(
+            jsonb_build_object(
+                'user_id', p_user_id,
+                'transaction_type', 'withdrawal',
+                'amount', p_amount,
+                'description', 'Admin fund deduction: ' || COALESCE(p_admin_notes, 'Manual fund deduction by admin')
+            )
+        )
+    ));
+
+    RETURN json_build_object(
+        'success', true,
+        'message', 'Funds deducted successfully',
+        'user_id', p_user_id,
+        'amount_deducted', p_amount,
+        'new_balance', v_ledger->'balances'->0->'main_wallet_balance',
+        'transaction_id', v_ledger->'transaction_ids'->>0,
+        'admin_notes', p_admin_notes
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Admin JRC adjustments move tokens between jrc_tokens and external
+CREATE OR REPLACE FUNCTION admin_add_jarvis_tokens(
+    p_user_id UUID,
+    p_amount INTEGER,
+    p_admin_notes TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+    v_ledger JSON;
+BEGIN
+    -- Check if current user is admin
+    IF NOT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id = auth.uid() AND is_admin = TRUE
+    ) THEN
+        RAISE EXCEPTION 'Access denied. Admin privileges required.';
+    END IF;
+
+    IF p_amount <= 0 THEN
+        RAISE EXCEPTION 'Amount must be greater than 0';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = p_user_id) THEN
+        RAISE EXCEPTION 'User not found';
+    END IF;
+
+    v_ledger := post_ledger_journal(jsonb_build_object(
+        'journal_type', 'admin_adjustment',
+        'reference_id', 'ADMIN_JRV_ADD_' || extract(epoch from now())::text,
+        'description', 'Admin jarvis token addition: ' || COALESCE(p_admin_notes, 'Manual jarvis token addition by admin'),
+        'created_by', auth.uid(),
+        'entries', jsonb_build_array(
+            jsonb_build_object('account', 'external', 'amount', -p_amount, 'currency', 'JRC'),
+            jsonb_build_object('account', 'jrc_tokens', 'user_id', p_user_id, 'amount', p_amount, 'currency', 'JRC')
+        ),
+        'transactions', jsonb_build_array(
+            jsonb_build_object(
+                'user_id', p_user_id,
+                'transaction_type', 'jarvis_token_add',
+                'amount', p_amount,
+                'description', 'Admin jarvis token addition: ' || COALESCE(p_admin_notes, 'Manual jarvis token addition by admin')
+            )
+        )
+    ));
+
+    RETURN json_build_object(
+        'success', true,
+        'message', 'Jarvis tokens added successfully',
+        'user_id', p_user_id,
+        'tokens_added', p_amount,
+        'new_token_balance', v_ledger->'balances'->0->'total_jarvis_tokens',
+        'transaction_id', v_ledger->'transaction_ids'->>0,
+        'admin_notes', p_admin_notes
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION admin_deduct_jarvis_tokens(
+    p_user_id UUID,
+    p_amount INTEGER,
+    p_admin_notes TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+    user_tokens DECIMAL;
+    v_ledger JSON;
+BEGIN
+    -- Check if current user is admin
+    IF NOT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id = auth.uid() AND is_admin = TRUE
+    ) THEN
+        RAISE EXCEPTION 'Access denied. Admin privileges required.';
+    END IF;
+
+    IF p_amount <= 0 THEN
+        RAISE EXCEPTION 'Amount must be greater than 0';
+    END IF;
+
+    SELECT COALESCE(total_jarvis_tokens, 0) INTO user_tokens
+    FROM public.profiles
+    WHERE id = p_user_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User not found';
+    END IF;
+
+    IF user_tokens < p_amount THEN
+        RAISE EXCEPTION 'Insufficient tokens. User has % but trying to deduct %', user_tokens, p_amount;
+    END IF;
+
+    v_ledger := post_ledger_journal(jsonb_build_object(
+        'journal_type', 'admin_adjustment',
+        'reference_id', 'ADMIN_JRV_DEDUCT_' || extract(epoch from now())::text,
+        'description', 'Admin jarvis token deduction: ' || COALESCE(p_admin_notes, 'Manual jarvis token deduction by admin'),
+        'created_by', auth.uid(),
+        'entries', jsonb_build_array(
+            jsonb_build_object('account', 'jrc_tokens', 'user_id', p_user_id, 'amount', -p_amount, 'currency', 'JRC'),
+            jsonb_build_object('account', 'external', 'amount', p_amount, 'currency', 'JRC')
+        ),
+        'transactions', jsonb_build_array(
+            jsonb_build_object(
+                'user_id', p_user_id,
+                'transaction_type', 'jarvis_token_deduct',
+                'amount', p_amount,
+                'description', 'Admin jarvis token deduction: ' || COALESCE(p_admin_notes, 'Manual jarvis token deduction by admin')
+            )
+        )
+    ));
+
+    RETURN json_build_object(
+        'success', true,
+        'message', 'Jarvis tokens deducted successfully',
+        'user_id', p_user_id,
+        'tokens_deducted', p_amount,
+        'new_token_balance', v_ledger->'balances'->0->'total_jarvis_tokens',
+        'transaction_id', v_ledger->'transaction_ids'->>0,
+        'admin_notes', p_admin_notes
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION refund_withdrawal_to_ledger(UUID, TEXT) FROM PUBLIC;
+
+COMMENT ON TABLE public.ledger_journals IS 'Atomic postings; each journal groups balanced ledger entries';
+COMMENT ON TABLE public.ledger_entries IS 'Immutable double-entry journal lines; profile balances are a projection of these';
+COMMENT ON COLUMN public.ledger_entries.amount IS 'Signed amount: positive increases the account, negative decreases it';
+
+SELECT 'Ledger system created successfully!' as status;
@@ -0,0 +1,268 @@
+-- Investment plan catalogue
+-- Plan terms are stored as versioned catalogue rows. Only draft versions can be edited;
+-- activating a version retires the previous active version of the same plan key.
+-- investment_plans rows reference the exact version they were bought under.
+-- Requires add_investment_creation_function.sql (replaces create_investment_plan).
+
+CREATE TABLE IF NOT EXISTS public.plan_catalogue (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    plan_key TEXT NOT NULL CHECK (plan_key ~ '^[A-Za-z0-9_-]{1,32}$'),
+    version INTEGER NOT NULL CHECK (version > 0),
+    name TEXT NOT NULL,
+    description TEXT,
+    min_amount DECIMAL(20,8) NOT NULL CHECK (min_amount > 0),
+    max_amount DECIMAL(20,8) NOT NULL,
+    daily_percentage DECIMAL(5,2) NOT NULL CHECK (daily_percentage > 0),
+    duration_days INTEGER CHECK (duration_days IS NULL OR duration_days > 0), -- NULL = runs until capped
+    cap_multiplier DECIMAL(6,2) CHECK (cap_multiplier IS NULL OR cap_multiplier BETWEEN 1 AND 100), -- total profit cap as a multiple of principal, NULL = uncapped
+    tokens_per_dollar DECIMAL(20,8) NOT NULL DEFAULT 0 CHECK (tokens_per_dollar >= 0),
+    eligible_wallet TEXT NOT NULL DEFAULT 'fund_wallet' CHECK (eligible_wallet IN ('fund_wallet', 'main_wallet')),
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'active', 'retired')),
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    activated_at TIMESTAMP WITH TIME ZONE,
+    retired_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (plan_key, version),
+    CHECK (max_amount >= min_amount)
+);
+
+CREATE INDEX IF NOT EXISTS idx_plan_catalogue_status ON public.plan_catalogue(status);
+
+-- At most one active version per plan key
+CREATE UNIQUE INDEX IF NOT EXISTS idx_plan_catalogue_one_active
+ON public.plan_catalogue(plan_key) WHERE status = 'active';
+
+DROP TRIGGER IF EXISTS update_plan_catalogue_updated_at ON public.plan_catalogue;
+CREATE TRIGGER update_plan_catalogue_updated_at
+    BEFORE UPDATE ON public.plan_catalogue
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Terms are frozen once a version leaves draft, so running plans keep their terms
+CREATE OR REPLACE FUNCTION prevent_published_plan_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        IF OLD.status <> 'draft' THEN
+            RAISE EXCEPTION 'Only draft plan versions can be deleted';
+        END IF;
+        RETURN OLD;
+    END IF;
+
+    IF OLD.status <> 'draft' AND (
+        NEW.plan_key IS DISTINCT FROM OLD.plan_key OR
+        NEW.version IS DISTINCT FROM OLD.version OR
+        NEW.name IS DISTINCT FROM OLD.name OR
+        NEW.min_amount IS DISTINCT FROM OLD.min_amount OR
+        NEW.max_amount IS DISTINCT FROM OLD.max_amount OR
+        NEW.daily_percentage IS DISTINCT FROM OLD.daily_percentage OR
+        NEW.duration_days IS DISTINCT FROM OLD.duration_days OR
+        NEW.cap_multiplier IS DISTINCT FROM OLD.cap_multiplier OR
+        NEW.tokens_per_dollar IS DISTINCT FROM OLD.tokens_per_dollar OR
+        NEW.eligible_wallet IS DISTINCT FROM OLD.eligible_wallet
+    ) THEN
+        RAISE EXCEPTION 'Only draft plan versions can be edited';
+    END IF;
+
+    IF OLD.status = 'retired' AND NEW.status <> 'retired' THEN
+        RAISE EXCEPTION 'Retired plan versions cannot be reactivated';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS plan_catalogue_freeze_published ON public.plan_catalogue;
+CREATE TRIGGER plan_catalogue_freeze_published
+    BEFORE UPDATE OR DELETE ON public.plan_catalogue
+    FOR EACH ROW EXECUTE FUNCTION prevent_published_plan_changes();
+
+-- Seed the current plan (previously hardcoded in the invest page and lib/investment-plans.ts)
+INSERT INTO public.plan_catalogue (
+    plan_key, version, name, min_amount, max_amount, daily_percentage,
+    duration_days, cap_multiplier, tokens_per_dollar, eligible_wallet, status, activated_at
+) VALUES (
+    'A', 1, 'USDT Staking', 10, 50000, 3.00,
+    NULL, NULL, 100, 'fund_wallet', 'active', NOW()
+)
+ON CONFLICT (plan_key, version) DO NOTHING;
+
+-- Plan keys are no longer limited to the A/B/C enum
+ALTER TABLE public.investment_plans
+ALTER COLUMN plan_type TYPE TEXT USING plan_type::TEXT;
+
+ALTER TABLE public.investment_plans
+ADD COLUMN IF NOT EXISTS plan_catalogue_id UUID REFERENCES public.plan_catalogue(id);
+
+CREATE INDEX IF NOT EXISTS idx_investment_plans_catalogue_id ON public.investment_plans(plan_catalogue_id);
+
+-- Existing plan A investments were bought under version 1
+UPDATE public.investment_plans ip
+SET plan_catalogue_id = pc.id
+FROM public.plan_catalogue pc
+WHERE ip.plan_catalogue_id IS NULL
+AND pc.plan_key = 'A' AND pc.version = 1
+AND ip.plan_type = 'A'
+AND ip.daily_percentage = pc.daily_percentage;
+
+-- Activate a draft version and retire the plan key's current active version
+CREATE OR REPLACE FUNCTION activate_plan_catalogue_version(p_catalogue_id UUID)
+RETURNS JSON AS $$
+DECLARE
+    v_plan public.plan_catalogue%ROWTYPE;
+    v_retired_id UUID;
+BEGIN
+    SELECT * INTO v_plan FROM public.plan_catalogue WHERE id = p_catalogue_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Plan version not found';
+    END IF;
+
+    IF v_plan.status <> 'draft' THEN
+        RAISE EXCEPTION 'Only draft plan versions can be activated';
+    END IF;
+
+    UPDATE public.plan_catalogue
+    SET status = 'retired', retired_at = NOW()
+    WHERE plan_key = v_plan.plan_key AND status = 'active'
+    RETURNING id INTO v_retired_id;
+
+    UPDATE public.plan_catalogue
+    SET status = 'active', activated_at = NOW()
+    WHERE id = p_catalogue_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'activated_id', p_catalogue_id,
+        'retired_id', v_retired_id
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Replace the API-validated version with one that reads the catalogue
+DROP FUNCTION IF EXISTS create_investment_plan(UUID, plan_type, TEXT, DECIMAL, DECIMAL, DECIMAL, TEXT);
+
+CREATE OR REPLACE FUNCTION create_investment_plan(
+    p_user_id UUID,
+    p_plan_key TEXT,
+    p_amount DECIMAL(20,8)
+)
+RETURNS JSON AS $$
+DECLARE
+    v_terms public.plan_catalogue%ROWTYPE;
+    v_plan public.investment_plans%ROWTYPE;
+    v_description TEXT;
+    v_ledger JSON;
+    v_transaction_id UUID;
+    v_commissions INTEGER;
+BEGIN
+    SELECT * INTO v_terms
+    FROM public.plan_catalogue
+    WHERE plan_key = p_plan_key AND status = 'active';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Investment plan is not available';
+    END IF;
+
+    IF p_amount IS NULL OR p_amount < v_terms.min_amount OR p_amount > v_terms.max_amount THEN
+        RAISE EXCEPTION 'Investment amount must be between $% and $%',
+            trim(to_char(v_terms.min_amount, 'FM999999999990.99')),
+            trim(to_char(v_terms.max_amount, 'FM999999999990.99'));
+    END IF;
+
+    INSERT INTO public.investment_plans (
+        user_id,
+        plan_type,
+        plan_catalogue_id,
+        investment_amount,
+        daily_percentage,
+        jarvis_tokens_earned
+    ) VALUES (
+        p_user_id,
+        v_terms.plan_key,
+        v_terms.id,
+        p_amount,
+        v_terms.daily_percentage,
+        ROUND(p_amount * v_terms.tokens_per_dollar, 8)
+    )
+    RETURNING * INTO v_plan;
+
+    v_description := 'Investment in ' || v_terms.name;
+
+    -- Debit the eligible wallet and record the investment transaction (raises 'Insufficient balance').
+    -- Main wallet investments get their own type so reconciliation debits the right wallet.
+    v_ledger := post_ledger_journal(jsonb_build_object(
+        'journal_type', 'investment',
+        'reference_id', v_plan.id::TEXT,
+        'description', v_description,
+        'created_by', p_user_id,
+        'metadata', jsonb_build_object(
+            'plan_key', v_terms.plan_key,
+            'plan_version', v_terms.version,
+            'wallet', v_terms.eligible_wallet
+        ),
+        'entries', jsonb_build_array(
+            jsonb_build_object('account', v_terms.eligible_wallet, 'user_id', p_user_id, 'amount', -p_amount, 'currency', 'USDT'),
+            jsonb_build_object('account', 'investment_pool', 'amount', p_amount, 'currency', 'USDT')
+        ),
+        'transactions', jsonb_build_array(
+            jsonb_build_object(
+                'user_id', p_user_id,
+                'transaction_type', CASE WHEN v_terms.eligible_wallet = 'main_wallet' THEN 'main_wallet_investment' ELSE 'investment' END,
+                'amount', p_amount,
+                'plan_id', v_plan.id,
+                'description', v_description
+            )
+        )
+    ));
+
+    v_transaction_id := (v_ledger->'transaction_ids'->>0)::UUID;
+
+    v_commissions := pay_referral_commissions(p_user_id, p_amount, v_transaction_id, 'investment', v_terms.name);
+
+    RETURN json_build_object(
+        'success', true,
+        'investment_plan_id', v_plan.id,
+        'transaction_id', v_transaction_id,
+        'plan_type', v_plan.plan_type,
+        'plan_name', v_terms.name,
+        'plan_version', v_terms.version,
+        'eligible_wallet', v_terms.eligible_wallet,
+        'investment_amount', v_plan.investment_amount,
+        'daily_percentage', v_plan.daily_percentage,
+        'jarvis_tokens_earned', v_plan.jarvis_tokens_earned,
+        'commissions_paid', v_commissions,
+        'balances', v_ledger->'balances'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION create_investment_plan(UUID, TEXT, DECIMAL) FROM PUBLIC;
+REVOKE ALL ON FUNCTION activate_plan_catalogue_version(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION create_investment_plan(UUID, TEXT, DECIMAL) TO service_role;
+GRANT EXECUTE ON FUNCTION activate_plan_catalogue_version(UUID) TO service_role;
+
+-- RLS: anyone can read active plans, admins manage the catalogue
+ALTER TABLE public.plan_catalogue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active plans" ON public.plan_catalogue
+    FOR SELECT USING (status = 'active');
+
+CREATE POLICY "Admins can manage plan catalogue" ON public.plan_catalogue
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+GRANT SELECT ON public.plan_catalogue TO authenticated;
+
+COMMENT ON TABLE public.plan_catalogue IS 'Versioned investment plan terms; only drafts are editable';
+COMMENT ON COLUMN public.plan_catalogue.cap_multiplier IS 'Total profit cap as a multiple of the principal (e.g. 2.00 = 200%); NULL means uncapped';
+COMMENT ON COLUMN public.investment_plans.plan_catalogue_id IS 'Catalogue version the plan was bought under';
+
+-- Investments paid from the main wallet (plans with eligible_wallet = 'main_wallet')
+ALTER TYPE transaction_type ADD VALUE IF NOT EXISTS 'main_wallet_investment';
+
+SELECT 'Plan catalogue created successfully!' as status;
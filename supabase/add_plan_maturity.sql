@@ -0,0 +1,65 @@
+-- Plan maturity and ROI cap
+-- Investment plans complete when their catalogue duration ends or total profit reaches
+-- cap_multiplier x principal. The principal can then be released to a wallet chosen
+-- per catalogue version. Requires add_plan_catalogue.sql.
+
+-- Wallet the principal is returned to on maturity (NULL = principal is not returned)
+ALTER TABLE public.plan_catalogue
+ADD COLUMN IF NOT EXISTS principal_release_wallet TEXT
+CHECK (principal_release_wallet IS NULL OR principal_release_wallet IN ('fund_wallet', 'main_wallet'));
+
+COMMENT ON COLUMN public.plan_catalogue.principal_release_wallet IS 'Wallet the principal is released to when the plan matures; NULL keeps the principal';
+
+-- Keep the new term frozen on published versions
+CREATE OR REPLACE FUNCTION prevent_published_plan_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        IF OLD.status <> 'draft' THEN
+            RAISE EXCEPTION 'Only draft plan versions can be deleted';
+        END IF;
+        RETURN OLD;
+    END IF;
+
+    IF OLD.status <> 'draft' AND (
+        NEW.plan_key IS DISTINCT FROM OLD.plan_key OR
+        NEW.version IS DISTINCT FROM OLD.version OR
+        NEW.name IS DISTINCT FROM OLD.name OR
+        NEW.min_amount IS DISTINCT FROM OLD.min_amount OR
+        NEW.max_amount IS DISTINCT FROM OLD.max_amount OR
+        NEW.daily_percentage IS DISTINCT FROM OLD.daily_percentage OR
+        NEW.duration_days IS DISTINCT FROM OLD.duration_days OR
+        NEW.cap_multiplier IS DISTINCT FROM OLD.cap_multiplier OR
+        NEW.tokens_per_dollar IS DISTINCT FROM OLD.tokens_per_dollar OR
+        NEW.eligible_wallet IS DISTINCT FROM OLD.eligible_wallet OR
+        NEW.principal_release_wallet IS DISTINCT FROM OLD.principal_release_wallet
+    ) THEN
+        RAISE EXCEPTION 'Only draft plan versions can be edited';
+    END IF;
+
+    IF OLD.status = 'retired' AND NEW.status <> 'retired' THEN
+        RAISE EXCEPTION 'Retired plan versions cannot be reactivated';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Completion details on each investment
+ALTER TABLE public.investment_plans
+ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS completion_reason TEXT CHECK (completion_reason IS NULL OR completion_reason IN ('duration', 'cap')),
+ADD COLUMN IF NOT EXISTS principal_released DECIMAL(20,8) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS principal_release_wallet TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_investment_plans_completed_at ON public.investment_plans(completed_at);
+
+-- Principal returned from the investment/staking pool on maturity
+ALTER TYPE transaction_type ADD VALUE IF NOT EXISTS 'main_wallet_principal_release';
+ALTER TYPE transaction_type ADD VALUE IF NOT EXISTS 'fund_wallet_principal_release';
+
+-- Note: These transaction types are used in:
+-- - main_wallet_principal_release: Matured principal credited to main_wallet_balance
+-- - fund_wallet_principal_release: Matured principal credited to fund_wallet_balance
+
+SELECT 'Plan maturity support added successfully!' as status;
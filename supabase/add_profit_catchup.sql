@@ -0,0 +1,45 @@
+-- Catch-up for missed profit distribution days
+-- The distributor detects days between a plan's last profit_distributions row and today.
+-- With PROFIT_CATCHUP_POLICY=backfill they are paid on the next run; otherwise they are
+-- recorded here for an admin to backfill or dismiss from /admin/profit-gaps. A backfill pays
+-- only what the plan is still eligible for (active, within its term, under its ROI cap).
+
+-- One distribution per plan per day makes backfills idempotent.
+-- Remove any existing duplicates first (see manual_profit_catchup.sql for the checks).
+CREATE UNIQUE INDEX IF NOT EXISTS idx_profit_distributions_plan_date_unique
+ON public.profit_distributions(plan_id, distribution_date);
+
+CREATE TABLE IF NOT EXISTS public.profit_distribution_gaps (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    plan_id UUID NOT NULL REFERENCES public.investment_plans(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    missed_date DATE NOT NULL,
+    expected_amount DECIMAL(20,8) NOT NULL,
+    -- flagged: a backfill was refused because the plan is no longer eligible (see flag_reason)
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'backfilled', 'dismissed', 'flagged')),
+    flag_reason TEXT,
+    detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    UNIQUE (plan_id, missed_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_profit_distribution_gaps_status ON public.profit_distribution_gaps(status);
+CREATE INDEX IF NOT EXISTS idx_profit_distribution_gaps_user_id ON public.profit_distribution_gaps(user_id);
+
+-- RLS: admins only (the distributor uses the service role)
+ALTER TABLE public.profit_distribution_gaps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage distribution gaps" ON public.profit_distribution_gaps
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+GRANT ALL ON public.profit_distribution_gaps TO service_role;
+
+COMMENT ON TABLE public.profit_distribution_gaps IS 'Days the profit distributor missed, awaiting admin backfill or dismissal';
+
+SELECT 'Profit catch-up support added successfully!' as status;
@@ -0,0 +1,10 @@
+-- Add transaction types for balance reconciliation adjustments
+-- Written by the reconciliation job (/api/admin/reconcile) when an admin approves a correction
+
+-- Signed amount: positive credits the wallet, negative debits it
+ALTER TYPE transaction_type ADD VALUE IF NOT EXISTS 'main_wallet_adjustment';
+ALTER TYPE transaction_type ADD VALUE IF NOT EXISTS 'fund_wallet_adjustment';
+
+-- Note: These transaction types are used in:
+-- - main_wallet_adjustment: Approved correction to main_wallet_balance
+-- - fund_wallet_adjustment: Approved correction to fund_wallet_balance
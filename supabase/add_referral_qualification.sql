@@ -0,0 +1,507 @@
+-- Referral qualification rules
+-- Each level of a commission schedule can require the upline to qualify at payout time:
+-- a minimum number of direct referrals (e.g. level N unlocks after N directs), a minimum
+-- own active investment, and a minimum team volume. A commission for an unqualified upline
+-- is skipped or, if the schedule says roll_up, paid to the nearest qualified upline above
+-- instead (checked against the same level's rules). Every decision is written to
+-- referral_qualification_log so support can explain why a commission was or was not paid.
+-- Active investment = active investment plans + active stakes; team volume = the active
+-- investment of the whole downline (up to 20 levels).
+-- Run after add_jrc_referral_commissions.sql.
+
+ALTER TABLE public.commission_schedules
+ADD COLUMN IF NOT EXISTS unqualified_action TEXT NOT NULL DEFAULT 'skip'
+    CHECK (unqualified_action IN ('skip', 'roll_up'));
+
+ALTER TABLE public.commission_schedule_levels
+ADD COLUMN IF NOT EXISTS min_direct_referrals INTEGER NOT NULL DEFAULT 0 CHECK (min_direct_referrals >= 0),
+ADD COLUMN IF NOT EXISTS min_active_investment DECIMAL(20,8) NOT NULL DEFAULT 0 CHECK (min_active_investment >= 0),
+ADD COLUMN IF NOT EXISTS min_team_volume DECIMAL(20,8) NOT NULL DEFAULT 0 CHECK (min_team_volume >= 0);
+
+-- Upline the commission was meant for when it was rolled up to referrer_id
+ALTER TABLE public.referral_commissions
+ADD COLUMN IF NOT EXISTS rolled_up_from UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+-- One decision per source transaction and level
+CREATE TABLE IF NOT EXISTS public.referral_qualification_log (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    source_transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+    referred_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    schedule_id UUID REFERENCES public.commission_schedules(id),
+    level INTEGER NOT NULL,
+    referrer_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL, -- upline at this level
+    outcome TEXT NOT NULL CHECK (outcome IN ('paid', 'skipped', 'rolled_up', 'forfeited')),
+    paid_to UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    usdt_commission DECIMAL(20,8) NOT NULL DEFAULT 0,
+    jrc_commission DECIMAL(20,8) NOT NULL DEFAULT 0,
+    reason TEXT,
+    metrics JSONB DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (source_transaction_id, level)
+);
+
+CREATE INDEX IF NOT EXISTS idx_referral_qualification_log_referrer
+ON public.referral_qualification_log(referrer_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_referral_qualification_log_referred
+ON public.referral_qualification_log(referred_id, created_at DESC);
+
+-- Principal currently working in active investment plans and stakes
+CREATE OR REPLACE FUNCTION get_active_investment(p_user_id UUID)
+RETURNS DECIMAL(20,8) AS $$
+    SELECT
+        COALESCE((
+            SELECT SUM(investment_amount) FROM public.investment_plans
+            WHERE user_id = p_user_id AND is_active = true
+        ), 0)
+        + COALESCE((
+            SELECT SUM(amount) FROM public.jrc_staking_plans
+            WHERE user_id = p_user_id AND status = 'active'
+        ), 0);
+$$ LANGUAGE sql STABLE;
+
+-- Active investment of a user's downline, up to p_max_depth levels deep
+CREATE OR REPLACE FUNCTION get_team_volume(p_user_id UUID, p_max_depth INTEGER DEFAULT 20)
+RETURNS DECIMAL(20,8) AS $$
+    WITH RECURSIVE team AS (
+        SELECT d.id, d.referral_code, 1 AS depth
+        FROM public.profiles d
+        JOIN public.profiles p ON d.sponsor_id = p.referral_code
+        WHERE p.id = p_user_id
+
+        UNION ALL
+
+        SELECT d.id, d.referral_code, team.depth + 1
+        FROM public.profiles d
+        JOIN team ON d.sponsor_id = team.referral_code
+        WHERE team.depth < p_max_depth
+    )
+    SELECT
+        COALESCE((
+            SELECT SUM(investment_amount) FROM public.investment_plans
+            WHERE user_id IN (SELECT id FROM team) AND is_active = true
+        ), 0)
+        + COALESCE((
+            SELECT SUM(amount) FROM public.jrc_staking_plans
+            WHERE user_id IN (SELECT id FROM team) AND status = 'active'
+        ), 0);
+$$ LANGUAGE sql STABLE;
+
+-- Check an upline against one level's rules. Only the metrics a rule needs are computed.
+-- Returns {"qualified": bool, "reason": text|null, "metrics": {...}}
+CREATE OR REPLACE FUNCTION check_referral_qualification(
+    p_user_id UUID,
+    p_min_direct_referrals INTEGER,
+    p_min_active_investment DECIMAL(20,8),
+    p_min_team_volume DECIMAL(20,8)
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_metrics JSONB := '{}'::jsonb;
+    v_reasons TEXT[] := ARRAY[]::TEXT[];
+    v_count INTEGER;
+    v_amount DECIMAL(20,8);
+BEGIN
+    IF p_min_direct_referrals > 0 THEN
+        SELECT COUNT(*) INTO v_count
+        FROM public.profiles d
+        JOIN public.profiles p ON d.sponsor_id = p.referral_code
+        WHERE p.id = p_user_id;
+
+        v_metrics := v_metrics || jsonb_build_object('direct_referrals', v_count);
+        IF v_count < p_min_direct_referrals THEN
+            v_reasons := v_reasons || format('needs %s direct referrals, has %s', p_min_direct_referrals, v_count);
+        END IF;
+    END IF;
+
+    IF p_min_active_investment > 0 THEN
+        v_amount := get_active_investment(p_user_id);
+
+        v_metrics := v_metrics || jsonb_build_object('active_investment', v_amount);
+        IF v_amount < p_min_active_investment THEN
+            v_reasons := v_reasons || format('needs $%s active investment, has $%s',
+                ROUND(p_min_active_investment, 2), ROUND(v_amount, 2));
+        END IF;
+    END IF;
+
+    IF p_min_team_volume > 0 THEN
+        v_amount := get_team_volume(p_user_id);
+
+        v_metrics := v_metrics || jsonb_build_object('team_volume', v_amount);
+        IF v_amount < p_min_team_volume THEN
+            v_reasons := v_reasons || format('needs $%s team volume, has $%s',
+                ROUND(p_min_team_volume, 2), ROUND(v_amount, 2));
+        END IF;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'qualified', cardinality(v_reasons) = 0,
+        'reason', NULLIF(array_to_string(v_reasons, '; '), ''),
+        'metrics', v_metrics
+    );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Same as in add_commission_schedules.sql, plus the unqualified action and the level rules.
+-- p_levels: [{"level": 1, "usdt_rate": 10, "jrc_rate": 20, "min_direct_referrals": 1,
+--             "min_active_investment": 100, "min_team_volume": 0}, ...]
+DROP FUNCTION IF EXISTS save_commission_schedule(UUID, TEXT, TEXT[], TIMESTAMP WITH TIME ZONE, JSONB, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION save_commission_schedule(
+    p_schedule_id UUID,
+    p_name TEXT,
+    p_transaction_types TEXT[],
+    p_effective_from TIMESTAMP WITH TIME ZONE,
+    p_levels JSONB,
+    p_notes TEXT DEFAULT NULL,
+    p_admin_id UUID DEFAULT NULL,
+    p_unqualified_action TEXT DEFAULT 'skip'
+)
+RETURNS UUID AS $$
+DECLARE
+    v_schedule_id UUID := p_schedule_id;
+    v_level_count INTEGER;
+BEGIN
+    IF p_effective_from IS NULL OR p_effective_from <= NOW() THEN
+        RAISE EXCEPTION 'Effective date must be in the future';
+    END IF;
+
+    v_level_count := jsonb_array_length(p_levels);
+
+    IF v_level_count = 0 OR EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(p_levels) WITH ORDINALITY AS l(value, position)
+        WHERE (l.value->>'level')::INTEGER <> l.position
+    ) THEN
+        RAISE EXCEPTION 'Levels must be numbered 1 to % in order', GREATEST(v_level_count, 1);
+    END IF;
+
+    IF v_schedule_id IS NULL THEN
+        INSERT INTO public.commission_schedules (name, transaction_types, effective_from, notes, unqualified_action, created_by)
+        VALUES (p_name, p_transaction_types, p_effective_from, p_notes, p_unqualified_action, p_admin_id)
+        RETURNING id INTO v_schedule_id;
+    ELSE
+        UPDATE public.commission_schedules
+        SET name = p_name,
+            transaction_types = p_transaction_types,
+            effective_from = p_effective_from,
+            notes = p_notes,
+            unqualified_action = p_unqualified_action
+        WHERE id = v_schedule_id;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Commission schedule not found';
+        END IF;
+
+        DELETE FROM public.commission_schedule_levels WHERE schedule_id = v_schedule_id;
+    END IF;
+
+    INSERT INTO public.commission_schedule_levels (
+        schedule_id, level, usdt_rate, jrc_rate, min_direct_referrals, min_active_investment, min_team_volume
+    )
+    SELECT
+        v_schedule_id,
+        (l->>'level')::INTEGER,
+        (l->>'usdt_rate')::DECIMAL,
+        COALESCE((l->>'jrc_rate')::DECIMAL, 0),
+        COALESCE((l->>'min_direct_referrals')::INTEGER, 0),
+        COALESCE((l->>'min_active_investment')::DECIMAL, 0),
+        COALESCE((l->>'min_team_volume')::DECIMAL, 0)
+    FROM jsonb_array_elements(p_levels) AS l;
+
+    RETURN v_schedule_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION save_commission_schedule(UUID, TEXT, TEXT[], TIMESTAMP WITH TIME ZONE, JSONB, TEXT, UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION save_commission_schedule(UUID, TEXT, TEXT[], TIMESTAMP WITH TIME ZONE, JSONB, TEXT, UUID, TEXT) TO service_role;
+
+-- Same as in add_jrc_referral_commissions.sql, plus the qualification check. A level that
+-- already has a commission or a logged decision for the source transaction is not decided
+-- again, so a retry never pays a level that was skipped the first time.
+CREATE OR REPLACE FUNCTION pay_referral_commissions(
+    p_user_id UUID,
+    p_amount DECIMAL(20,8),
+    p_source_transaction_id UUID,
+    p_transaction_type TEXT,
+    p_plan_type TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_schedule public.commission_schedules%ROWTYPE;
+    v_rate RECORD;
+    v_current_id UUID := p_user_id;
+    v_source_user_id UUID;
+    v_source_plan_id UUID;
+    v_jrc_amount DECIMAL(20,8) := 0;
+    v_sponsor_code TEXT;
+    v_referrer_id UUID;
+    v_recipient_id UUID;
+    v_candidate_id UUID;
+    v_hops INTEGER;
+    v_check JSONB;
+    v_candidate_check JSONB;
+    v_outcome TEXT;
+    v_reason TEXT;
+    v_commission DECIMAL(20,8);
+    v_jrc_commission DECIMAL(20,8);
+    v_description TEXT;
+    v_jrc_description TEXT;
+    v_entries JSONB;
+    v_transactions JSONB;
+    v_result JSON;
+    v_paid INTEGER := 0;
+BEGIN
+    -- Serializes concurrent payouts for the same source transaction
+    SELECT user_id, plan_id INTO v_source_user_id, v_source_plan_id
+    FROM public.transactions
+    WHERE id = p_source_transaction_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_source_user_id IS DISTINCT FROM p_user_id THEN
+        RAISE EXCEPTION 'Source transaction not found';
+    END IF;
+
+    SELECT * INTO v_schedule
+    FROM public.commission_schedules
+    WHERE id = get_commission_schedule(p_transaction_type);
+
+    IF NOT FOUND THEN
+        RETURN 0;
+    END IF;
+
+    -- JRC tokens earned by the source, the base of the JRC leg
+    IF v_source_plan_id IS NOT NULL THEN
+        SELECT COALESCE(jarvis_tokens_earned, 0) INTO v_jrc_amount
+        FROM public.investment_plans
+        WHERE id = v_source_plan_id;
+
+        v_jrc_amount := COALESCE(v_jrc_amount, 0);
+    END IF;
+
+    FOR v_rate IN
+        SELECT level, usdt_rate, jrc_rate, min_direct_referrals, min_active_investment, min_team_volume
+        FROM public.commission_schedule_levels
+        WHERE schedule_id = v_schedule.id
+        ORDER BY level
+    LOOP
+        SELECT sponsor_id INTO v_sponsor_code
+        FROM public.profiles
+        WHERE id = v_current_id;
+
+        EXIT WHEN v_sponsor_code IS NULL;
+
+        SELECT id INTO v_referrer_id
+        FROM public.profiles
+        WHERE referral_code = v_sponsor_code;
+
+        EXIT WHEN v_referrer_id IS NULL;
+
+        v_current_id := v_referrer_id;
+
+        v_commission := ROUND(p_amount * v_rate.usdt_rate / 100, 8);
+        v_jrc_commission := ROUND(v_jrc_amount * v_rate.jrc_rate / 100, 8);
+
+        CONTINUE WHEN v_commission = 0 AND v_jrc_commission = 0;
+
+        CONTINUE WHEN EXISTS (
+            SELECT 1 FROM public.referral_commissions
+            WHERE transaction_id = p_source_transaction_id AND level = v_rate.level
+        ) OR EXISTS (
+            SELECT 1 FROM public.referral_qualification_log
+            WHERE source_transaction_id = p_source_transaction_id AND level = v_rate.level
+        );
+
+        v_check := check_referral_qualification(
+            v_referrer_id, v_rate.min_direct_referrals, v_rate.min_active_investment, v_rate.min_team_volume
+        );
+        v_reason := v_check->>'reason';
+        v_recipient_id := NULL;
+
+        IF (v_check->>'qualified')::BOOLEAN THEN
+            v_recipient_id := v_referrer_id;
+            v_outcome := 'paid';
+        ELSIF v_schedule.unqualified_action = 'roll_up' THEN
+            -- Nearest upline above who meets this level's rules
+            v_outcome := 'forfeited';
+            v_candidate_id := v_referrer_id;
+            v_hops := 0;
+
+            LOOP
+                v_hops := v_hops + 1;
+                EXIT WHEN v_hops > 100;
+
+                SELECT up.id INTO v_candidate_id
+                FROM public.profiles me
+                JOIN public.profiles up ON up.referral_code = me.sponsor_id
+                WHERE me.id = v_candidate_id;
+
+                EXIT WHEN NOT FOUND OR v_candidate_id = p_user_id;
+
+                v_candidate_check := check_referral_qualification(
+                    v_candidate_id, v_rate.min_direct_referrals, v_rate.min_active_investment, v_rate.min_team_volume
+                );
+
+                IF (v_candidate_check->>'qualified')::BOOLEAN THEN
+                    v_recipient_id := v_candidate_id;
+                    v_outcome := 'rolled_up';
+                    EXIT;
+                END IF;
+            END LOOP;
+        ELSE
+            v_outcome := 'skipped';
+        END IF;
+
+        IF v_recipient_id IS NOT NULL THEN
+            v_description := 'Level ' || v_rate.level || ' USDT referral commission from ' || p_transaction_type
+                || COALESCE(' (' || p_plan_type || ')', '')
+                || CASE WHEN v_outcome = 'rolled_up' THEN ' - rolled up' ELSE '' END;
+            v_jrc_description := 'Level ' || v_rate.level || ' JRC referral commission from ' || p_transaction_type
+                || COALESCE(' (' || p_plan_type || ')', '')
+                || CASE WHEN v_outcome = 'rolled_up' THEN ' - rolled up' ELSE '' END;
+
+            v_entries := '[]'::jsonb;
+            v_transactions := '[]'::jsonb;
+
+            IF v_commission > 0 THEN
+                v_entries := v_entries || jsonb_build_array(
+                    jsonb_build_object('account', 'referral_expense', 'amount', -v_commission, 'currency', 'USDT'),
+                    jsonb_build_object('account', 'main_wallet', 'user_id', v_recipient_id, 'amount', v_commission, 'currency', 'USDT')
+                );
+                v_transactions := v_transactions || jsonb_build_array(jsonb_build_object(
+                    'user_id', v_recipient_id,
+                    'transaction_type', 'referral_bonus',
+                    'amount', v_commission,
+                    'description', v_description
+                ));
+            END IF;
+
+            IF v_jrc_commission > 0 THEN
+                v_entries := v_entries || jsonb_build_array(
+                    jsonb_build_object('account', 'referral_expense', 'amount', -v_jrc_commission, 'currency', 'JRC'),
+                    jsonb_build_object('account', 'jrc_tokens', 'user_id', v_recipient_id, 'amount', v_jrc_commission, 'currency', 'JRC')
+                );
+                v_transactions := v_transactions || jsonb_build_array(jsonb_build_object(
+                    'user_id', v_recipient_id,
+                    'transaction_type', 'jarvis_token_add',
+                    'amount', v_jrc_commission,
+                    'description', v_jrc_description
+                ));
+            END IF;
+
+            v_result := post_ledger_journal(jsonb_build_object(
+                'journal_type', 'referral_commission',
+                'reference_id', p_source_transaction_id::TEXT,
+                'description', CASE WHEN v_commission > 0 THEN v_description ELSE v_jrc_description END,
+                'created_by', p_user_id,
+                'metadata', jsonb_build_object(
+                    'level', v_rate.level,
+                    'referred_id', p_user_id,
+                    'schedule_id', v_schedule.id,
+                    'rolled_up_from', CASE WHEN v_outcome = 'rolled_up' THEN v_referrer_id END
+                ),
+                'entries', v_entries,
+                'transactions', v_transactions
+            ));
+
+            INSERT INTO public.referral_commissions (
+                referrer_id,
+                referred_id,
+                transaction_id,
+                payout_transaction_id,
+                jrc_payout_transaction_id,
+                schedule_id,
+                rolled_up_from,
+                level,
+                commission_percentage,
+                commission_amount,
+                usdt_commission,
+                jrc_percentage,
+                jrc_commission,
+                transaction_type,
+                plan_type
+            ) VALUES (
+                v_recipient_id,
+                p_user_id,
+                p_source_transaction_id,
+                CASE WHEN v_commission > 0 THEN (v_result->'transaction_ids'->>0)::UUID END,
+                CASE WHEN v_jrc_commission > 0
+                    THEN (v_result->'transaction_ids'->>(CASE WHEN v_commission > 0 THEN 1 ELSE 0 END))::UUID
+                END,
+                v_schedule.id,
+                CASE WHEN v_outcome = 'rolled_up' THEN v_referrer_id END,
+                v_rate.level,
+                v_rate.usdt_rate,
+                v_commission,
+                v_commission,
+                v_rate.jrc_rate,
+                v_jrc_commission,
+                p_transaction_type,
+                p_plan_type
+            );
+
+            v_paid := v_paid + 1;
+        END IF;
+
+        INSERT INTO public.referral_qualification_log (
+            source_transaction_id,
+            referred_id,
+            schedule_id,
+            level,
+            referrer_id,
+            outcome,
+            paid_to,
+            usdt_commission,
+            jrc_commission,
+            reason,
+            metrics
+        ) VALUES (
+            p_source_transaction_id,
+            p_user_id,
+            v_schedule.id,
+            v_rate.level,
+            v_referrer_id,
+            v_outcome,
+            v_recipient_id,
+            v_commission,
+            v_jrc_commission,
+            CASE
+                WHEN v_outcome = 'rolled_up' THEN v_reason || '; rolled up to the next qualified upline'
+                WHEN v_outcome = 'forfeited' THEN v_reason || '; no qualified upline to roll up to'
+                ELSE v_reason
+            END,
+            v_check->'metrics'
+        );
+    END LOOP;
+
+    RETURN v_paid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION pay_referral_commissions(UUID, DECIMAL, UUID, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION pay_referral_commissions(UUID, DECIMAL, UUID, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION get_active_investment(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION get_team_volume(UUID, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION check_referral_qualification(UUID, INTEGER, DECIMAL, DECIMAL) TO service_role;
+
+-- RLS: decisions are for support, admins only
+ALTER TABLE public.referral_qualification_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view referral qualification log" ON public.referral_qualification_log
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+GRANT ALL ON public.referral_qualification_log TO service_role;
+
+COMMENT ON COLUMN public.commission_schedules.unqualified_action IS 'skip: commissions for unqualified uplines are not paid; roll_up: paid to the nearest qualified upline above';
+COMMENT ON COLUMN public.commission_schedule_levels.min_direct_referrals IS 'Direct referrals the upline needs to earn this level';
+COMMENT ON COLUMN public.commission_schedule_levels.min_active_investment IS 'Own active investment (plans + stakes) the upline needs to earn this level';
+COMMENT ON COLUMN public.commission_schedule_levels.min_team_volume IS 'Active investment of the upline''s downline needed to earn this level';
+COMMENT ON COLUMN public.referral_commissions.rolled_up_from IS 'Unqualified upline the commission was rolled up from';
+COMMENT ON TABLE public.referral_qualification_log IS 'Payout decision (paid, skipped, rolled up, forfeited) per source transaction and level';
+
+SELECT 'Referral qualification rules added successfully!' as status;
@@ -0,0 +1,96 @@
+-- Referral genealogy tree
+-- get_referral_tree_children() returns one page of a member's direct referrals with the
+-- figures shown on each node of the referral tree: direct referral count, active
+-- investment, team volume, and the commissions the viewer earned from that branch (the
+-- member and everyone below them). The API first checks with get_referral_chain_recursive()
+-- that the parent is in the viewer's downline.
+-- Run after add_referral_qualification.sql.
+
+CREATE INDEX IF NOT EXISTS idx_referral_commissions_referrer_referred
+ON public.referral_commissions(referrer_id, referred_id);
+
+-- Commissions p_viewer_id earned from p_member_id and their downline (up to 20 levels)
+CREATE OR REPLACE FUNCTION get_branch_commissions(p_viewer_id UUID, p_member_id UUID)
+RETURNS TABLE (
+    usdt_earned DECIMAL,
+    jrc_earned DECIMAL
+) AS $$
+    WITH RECURSIVE branch AS (
+        SELECT p.id, p.referral_code, 0 AS depth
+        FROM public.profiles p
+        WHERE p.id = p_member_id
+
+        UNION ALL
+
+        SELECT d.id, d.referral_code, branch.depth + 1
+        FROM public.profiles d
+        JOIN branch ON d.sponsor_id = branch.referral_code
+        WHERE branch.depth < 20
+    )
+    SELECT
+        COALESCE(SUM(rc.commission_amount), 0),
+        COALESCE(SUM(rc.jrc_commission), 0)
+    FROM public.referral_commissions rc
+    WHERE rc.referrer_id = p_viewer_id
+    AND rc.referred_id IN (SELECT branch.id FROM branch);
+$$ LANGUAGE sql STABLE;
+
+-- One page of p_parent_id's direct referrals, oldest first. total_count is the number of
+-- direct referrals across all pages.
+CREATE OR REPLACE FUNCTION get_referral_tree_children(
+    p_viewer_id UUID,
+    p_parent_id UUID,
+    p_limit INTEGER DEFAULT 20,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    username TEXT,
+    full_name TEXT,
+    referral_code TEXT,
+    joined_at TIMESTAMPTZ,
+    direct_referrals INTEGER,
+    active_investment DECIMAL,
+    team_volume DECIMAL,
+    usdt_earned DECIMAL,
+    jrc_earned DECIMAL,
+    total_count BIGINT
+) AS $$
+    WITH children AS (
+        SELECT
+            c.id,
+            c.username,
+            c.full_name,
+            c.referral_code,
+            c.created_at,
+            COUNT(*) OVER () AS total_count
+        FROM public.profiles c
+        JOIN public.profiles parent ON c.sponsor_id = parent.referral_code
+        WHERE parent.id = p_parent_id
+        ORDER BY c.created_at, c.id
+        LIMIT p_limit OFFSET p_offset
+    )
+    SELECT
+        children.id,
+        children.username,
+        children.full_name,
+        children.referral_code,
+        children.created_at,
+        (SELECT COUNT(*)::INTEGER FROM public.profiles d WHERE d.sponsor_id = children.referral_code),
+        get_active_investment(children.id),
+        get_team_volume(children.id),
+        branch.usdt_earned,
+        branch.jrc_earned,
+        children.total_count
+    FROM children
+    CROSS JOIN LATERAL get_branch_commissions(p_viewer_id, children.id) branch
+    ORDER BY children.created_at, children.id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION get_referral_tree_children(UUID, UUID, INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_referral_tree_children(UUID, UUID, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION get_branch_commissions(UUID, UUID) TO service_role;
+
+COMMENT ON FUNCTION get_referral_tree_children(UUID, UUID, INTEGER, INTEGER) IS 'Page of direct referrals with active investment, team volume and the viewer''s commissions from each branch';
+
+SELECT 'Referral tree functions added successfully!' as status;
@@ -0,0 +1,270 @@
+-- Server-side staking creation
+-- Staking terms live in the database and create_staking_plan() validates the request,
+-- debits the fund wallet, creates the jrc_staking_plans row and pays referral
+-- commissions in a single database transaction.
+
+-- Staking periods offered to users
+CREATE TABLE IF NOT EXISTS public.staking_terms (
+    period_days INTEGER PRIMARY KEY CHECK (period_days > 0),
+    label TEXT NOT NULL,
+    apy DECIMAL(5,2) NOT NULL CHECK (apy >= 0), -- advertised APY (%)
+    daily_percentage DECIMAL(5,2) NOT NULL CHECK (daily_percentage >= 0),
+    min_amount DECIMAL(20,8) NOT NULL DEFAULT 50 CHECK (min_amount > 0),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Same periods and rates as the staking page and get_staking_daily_percentage()
+INSERT INTO public.staking_terms (period_days, label, apy, daily_percentage, min_amount) VALUES
+    (30, '30 Days', 8.00, 3.00, 50),
+    (60, '60 Days', 12.00, 5.00, 50),
+    (90, '90 Days', 15.00, 6.00, 50),
+    (180, '180 Days', 20.00, 8.00, 50),
+    (365, '365 Days', 25.00, 10.00, 50)
+ON CONFLICT (period_days) DO NOTHING;
+
+DROP TRIGGER IF EXISTS update_staking_terms_updated_at ON public.staking_terms;
+CREATE TRIGGER update_staking_terms_updated_at
+    BEFORE UPDATE ON public.staking_terms
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Read the daily rate from staking_terms (falls back to the original table)
+CREATE OR REPLACE FUNCTION get_staking_daily_percentage(period_days INTEGER)
+RETURNS DECIMAL(5,2) AS $$
+DECLARE
+    v_rate DECIMAL(5,2);
+BEGIN
+    SELECT t.daily_percentage INTO v_rate
+    FROM public.staking_terms t
+    WHERE t.period_days = get_staking_daily_percentage.period_days;
+
+    IF v_rate IS NOT NULL THEN
+        RETURN v_rate;
+    END IF;
+
+    CASE
+        WHEN period_days = 30 THEN RETURN 3.00;
+        WHEN period_days = 60 THEN RETURN 5.00;
+        WHEN period_days = 90 THEN RETURN 6.00;
+        WHEN period_days = 180 THEN RETURN 8.00;
+        WHEN period_days = 365 THEN RETURN 10.00;
+        ELSE RETURN 3.00; -- Default to 30-day rate
+    END CASE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Pay the 6-level USDT referral commissions for a source transaction.
+-- Must run inside the caller's transaction so a failure rolls back the source too.
+CREATE OR REPLACE FUNCTION pay_referral_commissions(
+    p_user_id UUID,
+    p_amount DECIMAL(20,8),
+    p_source_transaction_id UUID,
+    p_transaction_type TEXT,
+    p_plan_type TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_rates DECIMAL(5,2)[] := ARRAY[10, 5, 3, 2, 1, 0.5];
+    v_current_id UUID := p_user_id;
+    v_sponsor_code TEXT;
+    v_referrer_id UUID;
+    v_commission DECIMAL(20,8);
+    v_description TEXT;
+    v_result JSON;
+    v_paid INTEGER := 0;
+BEGIN
+    FOR v_level IN 1..array_length(v_rates, 1) LOOP
+        SELECT sponsor_id INTO v_sponsor_code
+        FROM public.profiles
+        WHERE id = v_current_id;
+
+        EXIT WHEN v_sponsor_code IS NULL;
+
+        SELECT id INTO v_referrer_id
+        FROM public.profiles
+        WHERE referral_code = v_sponsor_code;
+
+        EXIT WHEN v_referrer_id IS NULL;
+
+        v_commission := ROUND(p_amount * v_rates[v_level] / 100, 8);
+
+        IF v_commission > 0 THEN
+            v_description := 'Level ' || v_level || ' USDT referral commission from ' || p_transaction_type
+                || COALESCE(' (' || p_plan_type || ')', '');
+
+            v_result := post_ledger_journal(jsonb_build_object(
+                'journal_type', 'referral_commission',
+                'reference_id', p_source_transaction_id::TEXT,
+                'description', v_description,
+                'created_by', p_user_id,
+                'metadata', jsonb_build_object('level', v_level, 'referred_id', p_user_id),
+                'entries', jsonb_build_array(
+                    jsonb_build_object('account', 'referral_expense', 'amount', -v_commission, 'currency', 'USDT'),
+                    jsonb_build_object('account', 'main_wallet', 'user_id', v_referrer_id, 'amount', v_commission, 'currency', 'USDT')
+                ),
+                'transactions', jsonb_build_array(
+                    jsonb_build_object(
+                        'user_id', v_referrer_id,
+                        'transaction_type', 'referral_bonus',
+                        'amount', v_commission,
+                        'description', v_description
+                    )
+                )
+            ));
+
+            INSERT INTO public.referral_commissions (
+                referrer_id,
+                referred_id,
+                transaction_id,
+                level,
+                commission_percentage,
+                commission_amount,
+                usdt_commission,
+                transaction_type,
+                plan_type
+            ) VALUES (
+                v_referrer_id,
+                p_user_id,
+                p_source_transaction_id,
+                v_level,
+                v_rates[v_level],
+                v_commission,
+                v_commission,
+                p_transaction_type,
+                p_plan_type
+            );
+
+            v_paid := v_paid + 1;
+        END IF;
+
+        v_current_id := v_referrer_id;
+    END LOOP;
+
+    RETURN v_paid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Create a stake: validate terms, debit fund wallet, create the plan and pay commissions
+CREATE OR REPLACE FUNCTION create_staking_plan(
+    p_user_id UUID,
+    p_amount DECIMAL(20,8),
+    p_staking_period INTEGER
+)
+RETURNS JSON AS $$
+DECLARE
+    v_terms public.staking_terms%ROWTYPE;
+    v_plan_label TEXT;
+    v_description TEXT;
+    v_ledger JSON;
+    v_transaction_id UUID;
+    v_plan public.jrc_staking_plans%ROWTYPE;
+    v_commissions INTEGER;
+BEGIN
+    SELECT * INTO v_terms
+    FROM public.staking_terms
+    WHERE period_days = p_staking_period AND is_active = true;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Invalid staking period';
+    END IF;
+
+    IF p_amount IS NULL OR p_amount < v_terms.min_amount THEN
+        RAISE EXCEPTION 'Minimum staking amount is $%', trim(to_char(v_terms.min_amount, 'FM999999999990.99'));
+    END IF;
+
+    v_plan_label := v_terms.label || ' at ' || trim(to_char(v_terms.apy, 'FM990.##')) || '% APY';
+    v_description := 'USD Staking - ' || v_plan_label;
+
+    -- Debit fund wallet and record the staking transaction (raises 'Insufficient balance')
+    v_ledger := post_ledger_journal(jsonb_build_object(
+        'journal_type', 'staking',
+        'description', v_description,
+        'created_by', p_user_id,
+        'metadata', jsonb_build_object('staking_period', p_staking_period),
+        'entries', jsonb_build_array(
+            jsonb_build_object('account', 'fund_wallet', 'user_id', p_user_id, 'amount', -p_amount, 'currency', 'USDT'),
+            jsonb_build_object('account', 'staking_pool', 'amount', p_amount, 'currency', 'USDT')
+        ),
+        'transactions', jsonb_build_array(
+            jsonb_build_object(
+                'user_id', p_user_id,
+                'transaction_type', 'staking',
+                'amount', p_amount,
+                'description', v_description
+            )
+        )
+    ));
+
+    v_transaction_id := (v_ledger->'transaction_ids'->>0)::UUID;
+
+    INSERT INTO public.jrc_staking_plans (
+        user_id,
+        amount,
+        staking_period,
+        daily_percentage,
+        start_date,
+        end_date,
+        status,
+        transaction_id
+    ) VALUES (
+        p_user_id,
+        p_amount,
+        p_staking_period,
+        v_terms.daily_percentage,
+        NOW(),
+        calculate_staking_end_date(NOW(), p_staking_period),
+        'active',
+        v_transaction_id
+    )
+    RETURNING * INTO v_plan;
+
+    v_commissions := pay_referral_commissions(p_user_id, p_amount, v_transaction_id, 'staking', v_plan_label);
+
+    RETURN json_build_object(
+        'success', true,
+        'staking_plan_id', v_plan.id,
+        'transaction_id', v_transaction_id,
+        'amount', v_plan.amount,
+        'staking_period', v_plan.staking_period,
+        'apy', v_terms.apy,
+        'daily_percentage', v_plan.daily_percentage,
+        'start_date', v_plan.start_date,
+        'end_date', v_plan.end_date,
+        'plan_label', v_plan_label,
+        'commissions_paid', v_commissions,
+        'fund_wallet_balance', (
+            SELECT fund_wallet_balance FROM public.profiles WHERE id = p_user_id
+        )
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the server (service role) may create stakes or pay commissions
+REVOKE ALL ON FUNCTION pay_referral_commissions(UUID, DECIMAL, UUID, TEXT, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION create_staking_plan(UUID, DECIMAL, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION pay_referral_commissions(UUID, DECIMAL, UUID, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION create_staking_plan(UUID, DECIMAL, INTEGER) TO service_role;
+
+-- Stakes are created through create_staking_plan() only
+DROP POLICY IF EXISTS "Users can insert own staking plans" ON public.jrc_staking_plans;
+
+ALTER TABLE public.staking_terms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view staking terms" ON public.staking_terms
+    FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage staking terms" ON public.staking_terms
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+GRANT SELECT ON public.staking_terms TO authenticated;
+
+COMMENT ON TABLE public.staking_terms IS 'Staking periods and rates validated by create_staking_plan()';
+COMMENT ON FUNCTION create_staking_plan(UUID, DECIMAL, INTEGER) IS 'Atomically debits the fund wallet, creates the staking plan and pays referral commissions';
+
+SELECT 'Staking creation function created successfully!' as status;
@@ -0,0 +1,22 @@
+-- JRC staking profit distribution and maturity
+-- The profit distributor pays each active stake its daily rate into the main wallet
+-- (one jrc_staking_distributions row per stake per day) and, once end_date passes,
+-- marks the stake completed and returns the locked principal to the fund wallet.
+
+-- Daily staking rewards credited to the main wallet
+ALTER TYPE transaction_type ADD VALUE IF NOT EXISTS 'staking_profit';
+-- Principal returned to the fund wallet when a stake matures
+ALTER TYPE transaction_type ADD VALUE IF NOT EXISTS 'fund_wallet_principal_release';
+
+ALTER TABLE public.jrc_staking_plans
+ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS principal_released DECIMAL(20,8) NOT NULL DEFAULT 0;
+
+-- The distributor writes with the service role
+GRANT ALL ON public.jrc_staking_plans TO service_role;
+GRANT ALL ON public.jrc_staking_distributions TO service_role;
+
+COMMENT ON COLUMN public.jrc_staking_plans.completed_at IS 'When the stake matured and stopped earning';
+COMMENT ON COLUMN public.jrc_staking_plans.principal_released IS 'Principal returned to the fund wallet on completion (0 until released)';
+
+SELECT 'Staking distribution support added successfully!' as status;
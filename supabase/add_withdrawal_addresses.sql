@@ -0,0 +1,72 @@
+-- Withdrawal address whitelist
+-- Users keep a book of labelled BEP20 addresses. A new address must be confirmed from
+-- the link emailed to the user and is then locked for WITHDRAWAL_ADDRESS_LOCK_HOURS
+-- (default 24) before it can receive a withdrawal. With whitelist-only mode on,
+-- POST /api/bsc/withdraw only pays out to unlocked saved addresses.
+
+CREATE TABLE IF NOT EXISTS public.withdrawal_addresses (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    label TEXT NOT NULL CHECK (char_length(label) BETWEEN 1 AND 50),
+    address TEXT NOT NULL CHECK (address ~ '^0x[a-fA-F0-9]{40}$'),
+    confirmation_token_hash TEXT,
+    confirmation_expires_at TIMESTAMP WITH TIME ZONE,
+    confirmed_at TIMESTAMP WITH TIME ZONE,
+    available_at TIMESTAMP WITH TIME ZONE, -- confirmed_at + lock period
+    removed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- An address can be saved once per user (removed entries don't count)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_withdrawal_addresses_user_address
+ON public.withdrawal_addresses(user_id, lower(address)) WHERE removed_at IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_withdrawal_addresses_token
+ON public.withdrawal_addresses(confirmation_token_hash) WHERE confirmation_token_hash IS NOT NULL;
+
+-- Whitelist-only mode. Turning it off only takes effect after the lock period,
+-- so a hijacked session cannot switch it off and withdraw straight away. Kept out of
+-- profiles because users can update their own profile row.
+CREATE TABLE IF NOT EXISTS public.withdrawal_whitelist_settings (
+    user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+    whitelist_only BOOLEAN NOT NULL DEFAULT false,
+    disable_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- RLS: users can read their own book and settings; all writes go through the API (service role)
+ALTER TABLE public.withdrawal_addresses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own withdrawal addresses" ON public.withdrawal_addresses
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all withdrawal addresses" ON public.withdrawal_addresses
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+ALTER TABLE public.withdrawal_whitelist_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own whitelist settings" ON public.withdrawal_whitelist_settings
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all whitelist settings" ON public.withdrawal_whitelist_settings
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+GRANT SELECT ON public.withdrawal_addresses TO authenticated;
+GRANT ALL ON public.withdrawal_addresses TO service_role;
+GRANT SELECT ON public.withdrawal_whitelist_settings TO authenticated;
+GRANT ALL ON public.withdrawal_whitelist_settings TO service_role;
+
+COMMENT ON TABLE public.withdrawal_addresses IS 'Saved withdrawal addresses, usable once confirmed by email and past their lock period';
+COMMENT ON TABLE public.withdrawal_whitelist_settings IS 'Whitelist-only withdrawal mode per user; a missing row means off';
+COMMENT ON COLUMN public.withdrawal_whitelist_settings.disable_at IS 'When a requested switch-off of whitelist-only mode takes effect';
+
+SELECT 'Withdrawal address whitelist added successfully!' as status;
@@ -0,0 +1,224 @@
+-- Batch withdrawal payouts through the MultiSend contract (contracts/MultiSend.sol)
+-- "Pay selected" on /admin/withdrawals queues one payout per request under a batch and
+-- sends them in a single batchTransfer transaction. The PayoutSent / PayoutFailed events
+-- decide each item: sent items continue through the normal confirmation tracking of
+-- withdrawal_payouts, failed ones return their request to pending.
+-- Run after add_withdrawal_payouts.sql.
+
+CREATE TABLE IF NOT EXISTS public.withdrawal_payout_batches (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'broadcast', 'settled', 'failed')),
+    item_count INTEGER NOT NULL DEFAULT 0,
+    sent_count INTEGER NOT NULL DEFAULT 0,
+    failed_count INTEGER NOT NULL DEFAULT 0,
+    total_amount DECIMAL(20,8) NOT NULL DEFAULT 0,
+    from_address TEXT,
+    nonce BIGINT,
+    approve_nonce BIGINT, -- MultiSend allowance approval sent ahead of the batch, if one was needed
+    tx_hash TEXT UNIQUE,
+    raw_transaction TEXT,
+    block_number BIGINT,
+    last_error TEXT,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    broadcast_at TIMESTAMP WITH TIME ZONE,
+    settled_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_withdrawal_payout_batches_status ON public.withdrawal_payout_batches(status);
+
+-- Items of a batch share its transaction hash
+ALTER TABLE public.withdrawal_payouts
+ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES public.withdrawal_payout_batches(id) ON DELETE SET NULL;
+
+DROP INDEX IF EXISTS public.idx_withdrawal_payouts_tx_hash;
+CREATE INDEX IF NOT EXISTS idx_withdrawal_payouts_tx_hash ON public.withdrawal_payouts(tx_hash) WHERE tx_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_withdrawal_payouts_batch_id ON public.withdrawal_payouts(batch_id) WHERE batch_id IS NOT NULL;
+
+-- Approve several pending requests into one batch. All-or-nothing: any request that is
+-- no longer pending aborts the whole batch.
+CREATE OR REPLACE FUNCTION queue_withdrawal_payout_batch(
+    p_request_ids UUID[],
+    p_admin_id UUID
+)
+RETURNS UUID AS $$
+DECLARE
+    v_batch_id UUID;
+    v_request_id UUID;
+    v_payout_id UUID;
+BEGIN
+    IF p_request_ids IS NULL OR array_length(p_request_ids, 1) IS NULL THEN
+        RAISE EXCEPTION 'No withdrawal requests selected';
+    END IF;
+
+    INSERT INTO public.withdrawal_payout_batches (created_by)
+    VALUES (p_admin_id)
+    RETURNING id INTO v_batch_id;
+
+    FOREACH v_request_id IN ARRAY p_request_ids LOOP
+        v_payout_id := queue_withdrawal_payout(v_request_id, p_admin_id);
+
+        UPDATE public.withdrawal_payouts
+        SET batch_id = v_batch_id
+        WHERE id = v_payout_id;
+    END LOOP;
+
+    UPDATE public.withdrawal_payout_batches b
+    SET item_count = totals.item_count,
+        total_amount = totals.total_amount
+    FROM (
+        SELECT COUNT(*) AS item_count, SUM(amount) AS total_amount
+        FROM public.withdrawal_payouts
+        WHERE batch_id = v_batch_id
+    ) totals
+    WHERE b.id = v_batch_id;
+
+    RETURN v_batch_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Next nonce for the payout account, counting single payouts, batches and allowance
+-- approvals still in flight (an approval holds its nonce for the length of its lease)
+CREATE OR REPLACE FUNCTION next_payout_nonce(
+    p_from_address TEXT,
+    p_chain_nonce BIGINT
+)
+RETURNS BIGINT AS $$
+    SELECT GREATEST(
+        p_chain_nonce,
+        COALESCE((
+            SELECT MAX(nonce) + 1 FROM public.withdrawal_payouts
+            WHERE lower(from_address) = lower(p_from_address)
+            AND status = 'broadcast' AND batch_id IS NULL
+        ), 0),
+        COALESCE((
+            SELECT MAX(nonce) + 1 FROM public.withdrawal_payout_batches
+            WHERE lower(from_address) = lower(p_from_address)
+            AND status = 'broadcast'
+        ), 0),
+        COALESCE((
+            SELECT MAX(approve_nonce) + 1 FROM public.withdrawal_payout_batches
+            WHERE lower(from_address) = lower(p_from_address)
+            AND status = 'queued' AND approve_nonce IS NOT NULL
+            AND updated_at >= NOW() - INTERVAL '5 minutes'
+        ), 0)
+    );
+$$ LANGUAGE sql STABLE;
+
+-- Same as in add_withdrawal_payouts.sql, now also aware of in-flight batches. A claim is
+-- a lease: while one worker is signing and sending, another cannot claim the same job
+-- until the lease runs out (a worker that crashed before broadcasting).
+CREATE OR REPLACE FUNCTION claim_payout_nonce(
+    p_payout_id UUID,
+    p_from_address TEXT,
+    p_chain_nonce BIGINT
+)
+RETURNS BIGINT AS $$
+DECLARE
+    v_nonce BIGINT;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('payout_nonce:' || lower(p_from_address)));
+
+    v_nonce := next_payout_nonce(p_from_address, p_chain_nonce);
+
+    UPDATE public.withdrawal_payouts
+    SET from_address = p_from_address,
+        nonce = v_nonce,
+        attempts = attempts + 1,
+        updated_at = NOW()
+    WHERE id = p_payout_id AND status = 'queued' AND batch_id IS NULL
+    AND (nonce IS NULL OR updated_at < NOW() - INTERVAL '5 minutes');
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payout is not queued or is being sent by another worker';
+    END IF;
+
+    RETURN v_nonce;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION claim_payout_batch_nonce(
+    p_batch_id UUID,
+    p_from_address TEXT,
+    p_chain_nonce BIGINT
+)
+RETURNS BIGINT AS $$
+DECLARE
+    v_nonce BIGINT;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('payout_nonce:' || lower(p_from_address)));
+
+    v_nonce := next_payout_nonce(p_from_address, p_chain_nonce);
+
+    UPDATE public.withdrawal_payout_batches
+    SET from_address = p_from_address,
+        nonce = v_nonce,
+        updated_at = NOW()
+    WHERE id = p_batch_id AND status = 'queued'
+    AND (nonce IS NULL OR updated_at < NOW() - INTERVAL '5 minutes');
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payout batch is not queued or is being sent by another worker';
+    END IF;
+
+    RETURN v_nonce;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Nonce for the MultiSend allowance approval a batch needs before it can be sent. Leased
+-- like the batch nonce so no payout claimed meanwhile can reuse it.
+CREATE OR REPLACE FUNCTION claim_payout_batch_approve_nonce(
+    p_batch_id UUID,
+    p_from_address TEXT,
+    p_chain_nonce BIGINT
+)
+RETURNS BIGINT AS $$
+DECLARE
+    v_nonce BIGINT;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('payout_nonce:' || lower(p_from_address)));
+
+    v_nonce := next_payout_nonce(p_from_address, p_chain_nonce);
+
+    UPDATE public.withdrawal_payout_batches
+    SET from_address = p_from_address,
+        approve_nonce = v_nonce,
+        updated_at = NOW()
+    WHERE id = p_batch_id AND status = 'queued'
+    AND (approve_nonce IS NULL OR updated_at < NOW() - INTERVAL '5 minutes');
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payout batch is not queued or is being sent by another worker';
+    END IF;
+
+    RETURN v_nonce;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION queue_withdrawal_payout_batch(UUID[], UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION next_payout_nonce(TEXT, BIGINT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION claim_payout_batch_nonce(UUID, TEXT, BIGINT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION claim_payout_batch_approve_nonce(UUID, TEXT, BIGINT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION queue_withdrawal_payout_batch(UUID[], UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION next_payout_nonce(TEXT, BIGINT) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_payout_batch_nonce(UUID, TEXT, BIGINT) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_payout_batch_approve_nonce(UUID, TEXT, BIGINT) TO service_role;
+
+-- RLS: admin-only, the queue runs with the service role
+ALTER TABLE public.withdrawal_payout_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all withdrawal payout batches" ON public.withdrawal_payout_batches
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+GRANT ALL ON public.withdrawal_payout_batches TO service_role;
+
+COMMENT ON TABLE public.withdrawal_payout_batches IS 'MultiSend transactions paying several withdrawal_payouts at once';
+COMMENT ON COLUMN public.withdrawal_payouts.batch_id IS 'Set when the payout is sent as part of a MultiSend batch';
+
+SELECT 'Withdrawal payout batches added successfully!' as status;
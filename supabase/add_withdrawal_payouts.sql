@@ -0,0 +1,224 @@
+-- On-chain withdrawal payout queue
+-- With WITHDRAWAL_PAYOUT_MODE=onchain, approving a withdrawal request queues a USDT payout
+-- from the global admin wallet instead of recording a hash the admin paid by hand.
+-- lib/withdrawal-payout-service.ts moves each job queued -> broadcast -> confirmed | failed
+-- and only completes the withdrawal after WITHDRAWAL_PAYOUT_CONFIRMATIONS blocks.
+
+-- 'processing' = approved, payout on its way
+ALTER TABLE public.withdrawal_requests DROP CONSTRAINT IF EXISTS withdrawal_requests_status_check;
+ALTER TABLE public.withdrawal_requests
+ADD CONSTRAINT withdrawal_requests_status_check
+CHECK (status IN ('pending', 'processing', 'approved', 'rejected'));
+
+CREATE TABLE IF NOT EXISTS public.withdrawal_payouts (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    withdrawal_request_id UUID NOT NULL REFERENCES public.withdrawal_requests(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    to_address TEXT NOT NULL,
+    amount DECIMAL(20,8) NOT NULL CHECK (amount > 0), -- net amount sent on-chain
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'broadcast', 'confirmed', 'failed')),
+    from_address TEXT,
+    nonce BIGINT,
+    tx_hash TEXT,
+    raw_transaction TEXT, -- kept so a dropped transaction can be re-sent unchanged
+    block_number BIGINT,
+    confirmations INTEGER NOT NULL DEFAULT 0,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    broadcast_at TIMESTAMP WITH TIME ZONE,
+    confirmed_at TIMESTAMP WITH TIME ZONE,
+    failed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- At most one live payout per request
+CREATE UNIQUE INDEX IF NOT EXISTS idx_withdrawal_payouts_active_request
+ON public.withdrawal_payouts(withdrawal_request_id) WHERE status IN ('queued', 'broadcast', 'confirmed');
+CREATE UNIQUE INDEX IF NOT EXISTS idx_withdrawal_payouts_tx_hash
+ON public.withdrawal_payouts(tx_hash) WHERE tx_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_withdrawal_payouts_status ON public.withdrawal_payouts(status);
+
+-- Approve a pending request into the payout queue
+CREATE OR REPLACE FUNCTION queue_withdrawal_payout(
+    p_request_id UUID,
+    p_admin_id UUID
+)
+RETURNS UUID AS $$
+DECLARE
+    v_request RECORD;
+    v_fee DECIMAL(20,8);
+    v_payout_id UUID;
+BEGIN
+    SELECT * INTO v_request
+    FROM public.withdrawal_requests
+    WHERE id = p_request_id AND status = 'pending'
+    FOR UPDATE;
+
+    IF v_request IS NULL THEN
+        RAISE EXCEPTION 'Withdrawal request not found or already processed';
+    END IF;
+
+    -- Fee fixed by the withdrawal policy, falling back to the request transaction
+    v_fee := v_request.fee;
+    IF v_fee IS NULL THEN
+        SELECT fee INTO v_fee
+        FROM public.transactions
+        WHERE reference_id = p_request_id::TEXT AND transaction_type = 'withdrawal'
+        LIMIT 1;
+    END IF;
+
+    INSERT INTO public.withdrawal_payouts (
+        withdrawal_request_id,
+        user_id,
+        to_address,
+        amount,
+        created_by
+    ) VALUES (
+        p_request_id,
+        v_request.user_id,
+        v_request.wallet_address,
+        COALESCE(v_request.net_amount, v_request.amount - COALESCE(v_fee, 0)),
+        p_admin_id
+    )
+    RETURNING id INTO v_payout_id;
+
+    UPDATE public.withdrawal_requests
+    SET status = 'processing',
+        admin_notes = 'On-chain payout queued by admin ' || p_admin_id
+    WHERE id = p_request_id;
+
+    RETURN v_payout_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Assign the next nonce for a payout account. Nonces are serialised per address with an
+-- advisory lock and never reuse one held by a payout still in flight.
+CREATE OR REPLACE FUNCTION claim_payout_nonce(
+    p_payout_id UUID,
+    p_from_address TEXT,
+    p_chain_nonce BIGINT
+)
+RETURNS BIGINT AS $$
+DECLARE
+    v_nonce BIGINT;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('payout_nonce:' || lower(p_from_address)));
+
+    SELECT GREATEST(p_chain_nonce, COALESCE(MAX(nonce) + 1, 0)) INTO v_nonce
+    FROM public.withdrawal_payouts
+    WHERE lower(from_address) = lower(p_from_address)
+    AND status = 'broadcast';
+
+    UPDATE public.withdrawal_payouts
+    SET from_address = p_from_address,
+        nonce = v_nonce,
+        attempts = attempts + 1,
+        updated_at = NOW()
+    WHERE id = p_payout_id AND status = 'queued';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payout is not queued';
+    END IF;
+
+    RETURN v_nonce;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Confirmed on-chain: complete the withdrawal (the balance was debited when it was requested)
+CREATE OR REPLACE FUNCTION complete_withdrawal_payout(
+    p_payout_id UUID,
+    p_block_number BIGINT,
+    p_confirmations INTEGER
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_payout RECORD;
+BEGIN
+    UPDATE public.withdrawal_payouts
+    SET status = 'confirmed',
+        block_number = p_block_number,
+        confirmations = p_confirmations,
+        confirmed_at = NOW(),
+        last_error = NULL,
+        updated_at = NOW()
+    WHERE id = p_payout_id AND status = 'broadcast'
+    RETURNING * INTO v_payout;
+
+    IF v_payout IS NULL THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE public.withdrawal_requests
+    SET status = 'approved',
+        processed_at = NOW(),
+        admin_notes = 'Paid on-chain. User TX: ' || v_payout.tx_hash
+    WHERE id = v_payout.withdrawal_request_id;
+
+    UPDATE public.transactions
+    SET status = 'completed',
+        description = 'Withdrawal paid on-chain: ' || v_payout.tx_hash,
+        updated_at = NOW()
+    WHERE reference_id = v_payout.withdrawal_request_id::TEXT AND transaction_type = 'withdrawal';
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Payout could not be made: the request goes back to pending so an admin can retry or reject it
+CREATE OR REPLACE FUNCTION fail_withdrawal_payout(
+    p_payout_id UUID,
+    p_error TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_payout RECORD;
+BEGIN
+    UPDATE public.withdrawal_payouts
+    SET status = 'failed',
+        last_error = p_error,
+        failed_at = NOW(),
+        updated_at = NOW()
+    WHERE id = p_payout_id AND status IN ('queued', 'broadcast')
+    RETURNING * INTO v_payout;
+
+    IF v_payout IS NULL THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE public.withdrawal_requests
+    SET status = 'pending',
+        admin_notes = 'On-chain payout failed: ' || p_error
+    WHERE id = v_payout.withdrawal_request_id AND status = 'processing';
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION queue_withdrawal_payout(UUID, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION claim_payout_nonce(UUID, TEXT, BIGINT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION complete_withdrawal_payout(UUID, BIGINT, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION fail_withdrawal_payout(UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION queue_withdrawal_payout(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_payout_nonce(UUID, TEXT, BIGINT) TO service_role;
+GRANT EXECUTE ON FUNCTION complete_withdrawal_payout(UUID, BIGINT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION fail_withdrawal_payout(UUID, TEXT) TO service_role;
+
+-- RLS: payout jobs are admin-only; the queue itself runs with the service role
+ALTER TABLE public.withdrawal_payouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all withdrawal payouts" ON public.withdrawal_payouts
+    FOR ALL USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+GRANT ALL ON public.withdrawal_payouts TO service_role;
+
+COMMENT ON TABLE public.withdrawal_payouts IS 'On-chain payout jobs for approved withdrawals';
+COMMENT ON COLUMN public.withdrawal_payouts.nonce IS 'Nonce of the payout transaction, assigned by claim_payout_nonce()';
+
+SELECT 'Withdrawal payout queue added successfully!' as status;
@@ -0,0 +1,152 @@
+-- Withdrawal policy support
+-- lib/withdrawal-policy.ts evaluates limits, cooldowns, fee tiers and the KYC / manual
+-- review threshold. This adds the per-user fields it reads and records the policy
+-- outcome on each withdrawal request.
+-- Run after add_ledger_system.sql.
+
+-- KYC state, fee level and last password change per user. Kept out of profiles because
+-- users can update their own profile row; only the service role writes this table.
+CREATE TABLE IF NOT EXISTS public.withdrawal_policy_profiles (
+    user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+    kyc_status TEXT NOT NULL DEFAULT 'none'
+        CHECK (kyc_status IN ('none', 'pending', 'verified', 'rejected')),
+    user_level INTEGER NOT NULL DEFAULT 1 CHECK (user_level >= 1),
+    password_changed_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- RLS: users can read their own row, admins can read all; writes are service role only
+ALTER TABLE public.withdrawal_policy_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own withdrawal policy profile" ON public.withdrawal_policy_profiles
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all withdrawal policy profiles" ON public.withdrawal_policy_profiles
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND is_admin = true
+        )
+    );
+
+GRANT SELECT ON public.withdrawal_policy_profiles TO authenticated;
+GRANT ALL ON public.withdrawal_policy_profiles TO service_role;
+
+-- Record password changes made through Supabase Auth (drives the withdrawal cooldown)
+CREATE OR REPLACE FUNCTION public.record_password_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.encrypted_password IS DISTINCT FROM OLD.encrypted_password THEN
+        INSERT INTO public.withdrawal_policy_profiles (user_id, password_changed_at)
+        VALUES (NEW.id, NOW())
+        ON CONFLICT (user_id) DO UPDATE
+        SET password_changed_at = NOW(), updated_at = NOW();
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_auth_user_password_changed ON auth.users;
+CREATE TRIGGER on_auth_user_password_changed
+    AFTER UPDATE OF encrypted_password ON auth.users
+    FOR EACH ROW EXECUTE FUNCTION public.record_password_change();
+
+-- Policy outcome stored with the request
+ALTER TABLE public.withdrawal_requests
+ADD COLUMN IF NOT EXISTS fee DECIMAL(20,8),
+ADD COLUMN IF NOT EXISTS net_amount DECIMAL(20,8),
+ADD COLUMN IF NOT EXISTS requires_review BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS review_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_withdrawal_requests_requires_review
+ON public.withdrawal_requests(requires_review) WHERE status = 'pending';
+
+-- Same as in add_ledger_system.sql, but the policy outcome is stored with the request in the
+-- same transaction. The fee and review flag come from the server-side policy, so only the
+-- service role may call it (the old five-argument version is dropped).
+DROP FUNCTION IF EXISTS create_withdrawal_request(UUID, DECIMAL, DECIMAL, DECIMAL, TEXT);
+
+CREATE OR REPLACE FUNCTION create_withdrawal_request(
+    p_user_id UUID,
+    p_amount DECIMAL,
+    p_fee DECIMAL,
+    p_net_amount DECIMAL,
+    p_bsc_address TEXT,
+    p_requires_review BOOLEAN DEFAULT false,
+    p_review_reason TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    request_id UUID;
+    user_balance DECIMAL;
+    v_entries JSONB;
+BEGIN
+    -- Lock the profile so two requests cannot both pass the pending check
+    SELECT main_wallet_balance INTO user_balance
+    FROM public.profiles
+    WHERE id = p_user_id
+    FOR UPDATE;
+
+    IF user_balance IS NULL THEN
+        RAISE EXCEPTION 'User profile not found';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.transactions
+        WHERE user_id = p_user_id
+        AND transaction_type = 'withdrawal'
+        AND status = 'pending'
+    ) THEN
+        RAISE EXCEPTION 'You already have a pending withdrawal request. Please wait for it to be processed before submitting a new one.';
+    END IF;
+
+    IF user_balance < p_amount THEN
+        RAISE EXCEPTION 'Insufficient balance. Available: %, Requested: %', user_balance, p_amount;
+    END IF;
+
+    INSERT INTO public.withdrawal_requests (user_id, amount, wallet_address, fee, net_amount, requires_review, review_reason)
+    VALUES (p_user_id, p_amount, p_bsc_address, p_fee, p_net_amount, COALESCE(p_requires_review, false), p_review_reason)
+    RETURNING id INTO request_id;
+
+    v_entries := jsonb_build_array(
+        jsonb_build_object('account', 'main_wallet', 'user_id', p_user_id, 'amount', -p_amount),
+        jsonb_build_object('account', 'external', 'amount', p_amount - COALESCE(p_fee, 0))
+    );
+
+    IF COALESCE(p_fee, 0) > 0 THEN
+        v_entries := v_entries || jsonb_build_object('account', 'fee_income', 'amount', p_fee);
+    END IF;
+
+    PERFORM post_ledger_journal(jsonb_build_object(
+        'journal_type', 'withdrawal',
+        'reference_id', request_id::TEXT,
+        'description', 'Withdrawal request to ' || p_bsc_address,
+        'created_by', p_user_id,
+        'entries', v_entries,
+        'transactions', jsonb_build_array(
+            jsonb_build_object(
+                'user_id', p_user_id,
+                'transaction_type', 'withdrawal',
+                'amount', p_amount,
+                'fee', p_fee,
+                'net_amount', p_net_amount,
+                'status', 'pending',
+                'description', 'Withdrawal request to ' || p_bsc_address
+            )
+        )
+    ));
+
+    RETURN request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION create_withdrawal_request(UUID, DECIMAL, DECIMAL, DECIMAL, TEXT, BOOLEAN, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION create_withdrawal_request(UUID, DECIMAL, DECIMAL, DECIMAL, TEXT, BOOLEAN, TEXT) TO service_role;
+
+COMMENT ON TABLE public.withdrawal_policy_profiles IS 'Per-user withdrawal policy inputs; a missing row means none / level 1 / no password change';
+COMMENT ON COLUMN public.withdrawal_policy_profiles.kyc_status IS 'Identity verification state; large withdrawals may require verified';
+COMMENT ON COLUMN public.withdrawal_policy_profiles.user_level IS 'Level used to pick withdrawal fee tiers';
+COMMENT ON COLUMN public.withdrawal_policy_profiles.password_changed_at IS 'Last password change, set by a trigger on auth.users';
+COMMENT ON COLUMN public.withdrawal_requests.requires_review IS 'Held for manual review by the withdrawal policy';
+
+SELECT 'Withdrawal policy support added successfully!' as status;